@@ -1,15 +1,26 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { safeDeepSeekClient, SafeDeepSeekNotification } from './services/safeDeepSeekClient';
-import { rewardDistribution } from './services/rewardDistribution';
+import { createEvaluationProvider } from './services/evaluationProvider';
+import { REVIEW_PANEL } from './services/consensusGrading';
+import { validateSubmission, composeProblem, findDuplicateSubmission } from './services/researchSubmission';
+import { similarityIndex, downgradeGrade } from './services/similarityIndex';
+import { ledger, movement, userAccount, SYSTEM_ACCOUNTS } from './services/ledger';
+import { governanceEngine, DEFAULT_PROTOCOL_PARAMETERS, lockedVoteWeight } from './services/governanceEngine';
+import { PROPOSAL_FEE_QRK } from './services/proposals';
+import { staking, STAKING_CONFIG, toQbs } from './services/staking';
+import { latticePool, GENESIS_POOL } from './services/latticePool';
+import { sealBlock, sealLatestAdvance, GENESIS_PARENT_HASH } from './services/blockHashing';
+import { MINING_MAGNITUDE_QBS, EVOLUTION_MAGNITUDE_QBS, isTrustedGrader } from './services/rewardEpochs';
+import { startProofOfWork, retargetDifficulty, ProofOfWorkResult } from './services/proofOfWork';
 import { walletConnector } from './services/walletConnector';
 import { evolutionProgressTracker } from './services/evolutionProgress';
 import { EvolutionErrorHandler } from './services/evolutionErrorHandler';
 import { setupGlobalErrorHandling, ErrorMonitoringBoundary } from './services/errorMonitoringUtils';
 import { errorMonitoringIntegration } from './services/errorMonitoringIntegration';
-import { SignalData, SimState, LogEntry, WalletState, SecureMessage, User, Contact, Transaction, SolvedBlock, LatticePool, ScientificDossier, Notification, QBSNFT, Proposal, UserVote, ScientificAdvance, Milestone, ShardGroup, SovereignGrade, EvolutionProgress } from './types';
-import { generatePhotons, quantumEncrypt, measureAndVerify, checkEntanglement, QBS_UNITS, getMasterBreakthrough, getShardScientificFocus, getCosmicDomain, formatCurrency, GRADE_MULTIPLIERS } from './services/quantumLogic';
-import { saveUser, sanitizeInput, getAllUsers, ADMIN_ID, getUserObject, initLatticeRegistry, hashSecret, getUserByIdentifier } from './services/db';
+import { SignalData, SimState, LogEntry, WalletState, SecureMessage, User, Contact, Transaction, SolvedBlock, LatticePool, ScientificDossier, Notification, QBSNFT, Proposal, ProtocolParameters, UserVote, ScientificAdvance, Milestone, ShardGroup, SovereignGrade, EvolutionProgress, ResearchSubmission } from './types';
+import { generatePhotons, quantumEncrypt, measureAndVerify, checkEntanglement, QBS_UNITS, getMasterBreakthrough, getShardScientificFocus, getCosmicDomain, formatCurrency } from './services/quantumLogic';
+import { saveUser, sanitizeInput, getAllUsers, ADMIN_ID, getUserObject, initLatticeRegistry, hashSecret, getUserByIdentifier, getAllProposals, saveProposal } from './services/db';
 import Terminal from './components/Terminal';
 import QuantumLatticeVisualizer from './components/QuantumLatticeVisualizer';
 import QuantumMiner from './components/QuantumMiner';
@@ -33,12 +44,7 @@ import LatticeLogo from './components/LatticeLogo';
 const BASE_MINING_REWARD_QRK = 100; 
 const XP_MINING_REWARD = 100;
 const EVOLUTION_XP_REWARD = 500;
-const EVOLUTION_COST_USD = 25; 
-
-const LEASE_COSTS = {
-  MESSAGING: 1,
-  MINING: 50
-};
+const GOVERNANCE_SWEEP_INTERVAL_MS = 60000;
 
 const calculateLevel = (xp: number) => Math.floor(Math.sqrt(xp / 500)) + 1;
 
@@ -57,6 +63,28 @@ const getGovernanceRank = (reputation: number) => {
   return "Node Aspirant";
 };
 
+/**
+ * Level, reputation and rank that follow from a profile's XP and blocks
+ */
+const withStanding = (user: User): User => {
+  const reputationScore = calculateReputation(user);
+  return {
+    ...user,
+    reputationScore,
+    governanceRank: getGovernanceRank(reputationScore),
+    level: Math.max(user.level, calculateLevel(user.xp))
+  };
+};
+
+/**
+ * Profile changes for a ledger entry's userUpdates, with the standing they imply,
+ * so a reward and the progress it earns commit together
+ */
+const progressUpdates = (user: User, changes: Pick<User, 'xp' | 'solvedBlocks'>): Partial<User> => {
+  const { level, reputationScore, governanceRank } = withStanding({ ...user, ...changes });
+  return { ...changes, level, reputationScore, governanceRank };
+};
+
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isAppReady, setIsAppReady] = useState(false);
@@ -68,6 +96,7 @@ const App: React.FC = () => {
   const [isSyncingToDb, setIsSyncingToDb] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [protocolParameters, setProtocolParameters] = useState<ProtocolParameters>(DEFAULT_PROTOCOL_PARAMETERS);
   const [walletConnected, setWalletConnected] = useState(false);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const lastActiveRef = useRef(Date.now());
@@ -75,16 +104,16 @@ const App: React.FC = () => {
   const [observingPeer, setObservingPeer] = useState<User | null>(null);
   const [isSynthesizingDossier, setIsSynthesizingDossier] = useState(false);
   const [isEvaluating, setIsEvaluating] = useState(false);
+  const [miningDifficulty, setMiningDifficulty] = useState<number | undefined>(undefined);
 
   // Evolution progress tracking state
   const [isEvolvingBreakthrough, setIsEvolvingBreakthrough] = useState<Record<string, boolean>>({});
   const [evolutionProgress, setEvolutionProgress] = useState<Record<string, EvolutionProgress>>({});
 
   const [pool, setPool] = useState<LatticePool>({
-    qbsReserve: 1000,
-    usdReserve: 1000000,
-    kConstant: 1000 * 1000000,
-    lastPrice: 1000,
+    ...GENESIS_POOL,
+    kConstant: GENESIS_POOL.qbsReserve * GENESIS_POOL.usdReserve,
+    lastPrice: GENESIS_POOL.usdReserve / GENESIS_POOL.qbsReserve,
     totalVolumeUsd: 0
   });
 
@@ -130,6 +159,11 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Route breakthrough evaluation through the signed-in node's chosen provider
+  useEffect(() => {
+    safeDeepSeekClient.setProvider(createEvaluationProvider(currentUser?.evaluationProvider));
+  }, [currentUser?.evaluationProvider]);
+
   // Initialize error monitoring system
   useEffect(() => {
     try {
@@ -186,6 +220,8 @@ const App: React.FC = () => {
     const recoverNodeSession = async () => {
       try {
         await initLatticeRegistry(); 
+        // Settling closed proposals can move balances, so it runs before users load
+        await governanceEngine.closeExpiredProposals();
         const activeAddr = localStorage.getItem('LATTICE_ACTIVE_ADDR');
         if (activeAddr) {
           const user = await getUserObject(activeAddr);
@@ -197,24 +233,10 @@ const App: React.FC = () => {
         const users = await getAllUsers();
         setAllLatticeUsers(users);
         
-        setProposals([
-          {
-            id: "LGP-001",
-            title: "Prioritize Gravitational Wave Mapping",
-            description: "Redirect consensus resources to resolve the entanglement paradox in Hawking Radiation.",
-            proposer: ADMIN_ID,
-            status: 'ACTIVE',
-            votesFor: 85.421,
-            votesAgainst: 12.009,
-            requiredWeight: 150,
-            expiresAt: new Date(Date.now() + 86400000).toISOString(),
-            category: 'SCIENTIFIC',
-            totalQuarksStaked: 50000,
-            scientificBaseline: "LIGO-based laser interferometry baseline established.",
-            evolutionPath: "Evolving toward Quantum Gravity mapping.",
-            technicalParameters: ["Coherence Threshold: 0.9992"]
-          }
-        ]);
+        setProposals(await getAllProposals());
+        setProtocolParameters(await governanceEngine.getParameters());
+        await latticePool.recoverHistory();
+        setPool(await latticePool.getPool());
       } catch (err) {
         console.error("Critical Failure:", err);
       } finally {
@@ -243,18 +265,48 @@ const App: React.FC = () => {
   }, [currentUser]);
 
   useEffect(() => {
-    if (wallet.isMining && !isEvaluating) {
-      const interval = setInterval(() => {
-        setWallet(prev => {
-          if (prev.miningProgress >= 100) {
-            clearInterval(interval);
-            handleMiningComplete();
-            return { ...prev, miningProgress: 100 };
-          }
-          return { ...prev, miningProgress: prev.miningProgress + 1.2 };
+    // Close proposals whose voting window ends while the app is open
+    const sweep = setInterval(async () => {
+      try {
+        const changed = await governanceEngine.closeExpiredProposals();
+        if (changed.length > 0) {
+          setProposals(prev => prev.map(p => changed.find(c => c.id === p.id) || p));
+          // Settlement releases locks and pays rewards, so balances may have moved
+          const users = await getAllUsers();
+          setAllLatticeUsers(users);
+          setCurrentUser(prev => prev ? users.find(u => u.address === prev.address) || prev : prev);
+        }
+      } catch (err) {
+        console.error("Governance sweep failed:", err);
+      }
+    }, GOVERNANCE_SWEEP_INTERVAL_MS);
+    return () => clearInterval(sweep);
+  }, []);
+
+  useEffect(() => {
+    if (wallet.isMining && !isEvaluating && currentUser) {
+      // Difficulty follows recent block times of every node in the registry
+      const difficulty = retargetDifficulty(allLatticeUsers.flatMap(u => u.solvedBlocks || []));
+      setMiningDifficulty(difficulty);
+      const job = startProofOfWork({
+        parentHash: currentUser.solvedBlocks[currentUser.solvedBlocks.length - 1]?.hash || GENESIS_PARENT_HASH,
+        problem: wallet.currentProblem,
+        minerAddress: currentUser.address,
+        minedAt: Date.now()
+      }, difficulty, progress => setWallet(prev => ({ ...prev, miningProgress: progress.percent })));
+
+      job.result
+        .then(proof => {
+          addLog(`MINER: Proof of work found after ${proof.hashes.toLocaleString()} hashes (${proof.difficulty} bits).`, "success");
+          setWallet(prev => ({ ...prev, miningProgress: 100 }));
+          handleMiningComplete(proof);
+        })
+        .catch(err => {
+          if (err.message === 'Proof of work cancelled') return;
+          addLog(`MINER: Proof of work failed - ${err.message}`, "error");
+          setWallet(prev => ({ ...prev, isMining: false, miningProgress: 0 }));
         });
-      }, 400);
-      return () => clearInterval(interval);
+      return () => job.cancel();
     }
   }, [wallet.isMining, isEvaluating]);
 
@@ -274,63 +326,127 @@ const App: React.FC = () => {
     setLogs(prev => [...prev.slice(-49), entry]);
   }, []);
 
+  // Show a profile that is already persisted, e.g. by the ledger entry that carried its updates
+  const showUser = useCallback(async (user: User, previousLevel: number) => {
+    if (user.level > previousLevel) {
+      addNotification("Level Up!", `Node intelligence expanded to Level ${user.level}.`, "success");
+    }
+    localStorage.setItem('LATTICE_ACTIVE_ADDR', user.address);
+    setCurrentUser({ ...user });
+    setWallet(w => ({ ...w, balance: user.balance }));
+    const users = await getAllUsers();
+    setAllLatticeUsers(users);
+  }, [addNotification]);
+
   const syncUser = useCallback(async (updatedUser: User) => {
     setIsSyncingToDb(true);
-    updatedUser.reputationScore = calculateReputation(updatedUser);
-    updatedUser.governanceRank = getGovernanceRank(updatedUser.reputationScore);
-    const newLevel = calculateLevel(updatedUser.xp);
-    if (newLevel > updatedUser.level) {
-      updatedUser.level = newLevel;
-      addNotification("Level Up!", `Node intelligence expanded to Level ${newLevel}.`, "success");
-    }
+    const user = withStanding(updatedUser);
     try {
-      await saveUser(updatedUser);
-      localStorage.setItem('LATTICE_ACTIVE_ADDR', updatedUser.address);
-      setCurrentUser({ ...updatedUser });
-      setWallet(w => ({ ...w, balance: updatedUser.balance }));
-      const users = await getAllUsers();
-      setAllLatticeUsers(users);
+      await saveUser(user);
+      await showUser(user, updatedUser.level);
     } catch (e) {
       addNotification("Sync Error", "Failed to etch lattice state.", "error");
     } finally {
       setTimeout(() => setIsSyncingToDb(false), 300);
     }
-  }, [addNotification]);
+  }, [addNotification, showUser]);
 
-  const handleMiningStart = () => {
+  useEffect(() => {
+    if (!currentUser?.address) return;
+    const address = currentUser.address;
+    // Pay staking yield and release matured unbonding while the node is online
+    const settle = async () => {
+      try {
+        const settled = await staking.settle(address);
+        if (settled) await syncUser(settled);
+      } catch (err) {
+        console.error("Staking settlement failed:", err);
+      }
+    };
+    settle();
+    const timer = setInterval(settle, STAKING_CONFIG.SETTLEMENT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [currentUser?.address, syncUser]);
+
+  // Every node's blocks, with the signed-in node's latest copy of its own
+  const getRegistryBlocks = (user: User): SolvedBlock[] =>
+    [user, ...allLatticeUsers.filter(u => u.address !== user.address)].flatMap(u => u.solvedBlocks || []);
+
+  // Returns why a research submission was refused, or null once mining has started
+  const handleMiningStart = (submission?: ResearchSubmission): string | null => {
     if (!currentUser?.miningActive) {
       addNotification("Access Denied", "Renew Mining Lease to resolve shards.", "warning");
-      return;
+      return "Mining lease expired.";
     }
-    const problem = currentUser.activeInitiativeId 
-      ? `Resolving Initiative Task: ${proposals.find(p => p.id === currentUser.activeInitiativeId)?.title}...`
-      : `Resolving frontier in ${getShardScientificFocus(Math.floor(Math.random() * 1000) + 1, Math.floor(Math.random() * 100) + 1)}...`;
+
+    if (submission) {
+      const errors = validateSubmission(submission);
+      if (errors.length > 0) return errors.join('. ');
+
+      const duplicate = findDuplicateSubmission(submission, getRegistryBlocks(currentUser));
+      if (duplicate) {
+        addLog(`MINER: Submission rejected as a duplicate of ${duplicate.id}.`, "warning");
+        return `Already mined as ${duplicate.id} (${duplicate.timestamp}).`;
+      }
+    }
+
+    const problem = submission
+      ? composeProblem(submission)
+      : currentUser.activeInitiativeId 
+        ? `Resolving Initiative Task: ${proposals.find(p => p.id === currentUser.activeInitiativeId)?.title}...`
+        : `Resolving frontier in ${getShardScientificFocus(Math.floor(Math.random() * 1000) + 1, Math.floor(Math.random() * 100) + 1)}...`;
     
-    setWallet(w => ({ ...w, isMining: true, miningProgress: 0, currentProblem: problem }));
-    addLog("MINER: Shard synchronization started.", "info");
+    setWallet(w => ({ ...w, isMining: true, miningProgress: 0, currentProblem: problem, currentSubmission: submission }));
+    addLog(submission ? "MINER: Research submission accepted. Shard synchronization started." : "MINER: Shard synchronization started.", "info");
+    return null;
   };
 
-  const handleMiningComplete = async () => {
+  const handleMiningComplete = async (proof: ProofOfWorkResult) => {
     if (!currentUser || isEvaluating) return;
     setIsEvaluating(true);
     setIsVerifying(true);
     addLog("CONSENSUS: Shard proof detected. Peer-Review process engaged.", "warning");
 
     try {
+      // Research submissions that closely match any mined block are refused or graded down
+      const registryBlocks = getRegistryBlocks(currentUser);
+      const originality = wallet.currentSubmission
+        ? similarityIndex.checkOriginality(wallet.currentProblem, registryBlocks)
+        : { verdict: 'original' as const };
+      const matchedBlock = originality.match && registryBlocks.find(b => b.id === originality.match!.blockId);
+      const matchSummary = originality.match && matchedBlock
+        ? `${Math.round(originality.match.similarity * 100)}% similar to ${matchedBlock.id} (${matchedBlock.timestamp}): "${matchedBlock[originality.match.field].substring(0, 120)}..."`
+        : '';
+
+      if (originality.verdict === 'reject') {
+        addLog(`CONSENSUS: Submission rejected as a near-duplicate of ${originality.match!.blockId}.`, "error");
+        addNotification("Submission Rejected", matchSummary, "error");
+        return;
+      }
+
       // Initialize safe DeepSeek client
       const status = await safeDeepSeekClient.initialize();
       
-      // Use safe DeepSeek API for evaluation (with automatic fallback)
+      // Grade by reviewer panel consensus through the safe client (with automatic fallback)
       const review = await safeDeepSeekClient.evaluateMiningBreakthrough({
         problem: wallet.currentProblem
-      });
+      }, undefined, { reviewers: REVIEW_PANEL, aggregation: 'median' });
 
-      const grade: SovereignGrade = review.grade;
-      const multiplier = GRADE_MULTIPLIERS[grade];
+      const grade: SovereignGrade = originality.verdict === 'downgrade' ? downgradeGrade(review.grade) : review.grade;
+      if (originality.verdict === 'downgrade') {
+        addLog(`CONSENSUS: Near-duplicate of ${originality.match!.blockId}; grade lowered from ${review.grade} to ${grade}.`, "warning");
+        addNotification("Near-Duplicate Detected", matchSummary, "warning");
+      }
+      const multiplier = protocolParameters.GRADE_MULTIPLIERS[grade];
       const quarkReward = BASE_MINING_REWARD_QRK * multiplier;
-      const qbsMagnitudeBonus = grade === 'S' ? 0.005 : 0; 
+      // Self-hosted and offline grades pay QRK but never QBS magnitude
+      const gradedBy = 'isFallback' in review ? 'offline' : safeDeepSeekClient.getProvider().id;
+      const qbsMagnitudeBonus = isTrustedGrader(gradedBy) ? MINING_MAGNITUDE_QBS[grade] : 0;
+      if (grade === 'S' && !isTrustedGrader(gradedBy)) {
+        addLog(`CONSENSUS: S grade from ${gradedBy} grading; QBS magnitude requires DeepSeek review.`, "warning");
+      }
 
-      const newBlock: SolvedBlock = {
+      const newBlock: SolvedBlock = await sealBlock({
         id: `BLOCK-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
         shardId: `SHD-${Math.floor(Math.random() * 100000)}`,
         shardIndex: (currentUser.solvedBlocks?.length || 0) + 1,
@@ -339,43 +455,45 @@ const App: React.FC = () => {
         totalShardsPerToken: 1000,
         timestamp: new Date().toLocaleString(),
         problem: wallet.currentProblem,
-        answer: `SIG_${Math.random().toString(16).slice(2).toUpperCase()}`,
+        submission: wallet.currentSubmission,
+        answer: '',
         explanation: review.explanation,
         reward: qbsMagnitudeBonus,
         payoutPerShard: `${quarkReward} QRK`,
-        difficulty: "PEER_REVIEW_STRICT",
-        hash: `0000${Math.random().toString(16).slice(2, 64)}`,
-        parentHash: currentUser.solvedBlocks[currentUser.solvedBlocks.length - 1]?.hash || "0".repeat(64),
-        integrityHash: `SHA256-${Math.random().toString(36).substr(2, 10)}`,
+        difficulty: `POW_${proof.difficulty}_BITS`,
+        nonce: proof.nonce,
+        powDifficulty: proof.difficulty,
+        powHash: proof.hash,
+        minedAt: proof.minedAt,
+        hash: '',
+        parentHash: currentUser.solvedBlocks[currentUser.solvedBlocks.length - 1]?.hash || GENESIS_PARENT_HASH,
+        integrityHash: '',
         isPeerReviewed: true,
         advancementLevel: 1,
         advancementHistory: [],
         grade,
+        gradedBy,
         breakthroughScore: review.breakthroughScore,
         consensusCritique: review.consensusCritique,
+        peerReviews: 'peerReviews' in review ? review.peerReviews : undefined,
+        reviewQuorum: 'peerReviews' in review ? { answered: review.peerReviews.length, convened: review.panelSize } : undefined,
+        nearDuplicateOf: originality.verdict === 'downgrade' ? originality.match : undefined,
         primaryFormula: review.primaryFormula,
         observedConstants: review.observedConstants,
         neuralInterpretation: review.neuralInterpretation
-      };
+      }, currentUser.address);
 
-      const updatedUser: User = {
-        ...currentUser,
-        usdBalance: currentUser.usdBalance + quarkReward,
-        balance: currentUser.balance + qbsMagnitudeBonus,
-        xp: currentUser.xp + XP_MINING_REWARD,
-        solvedBlocks: [...(currentUser.solvedBlocks || []), newBlock],
-        transactions: [...(currentUser.transactions || []), {
-          id: `MN-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
-          timestamp: new Date().toLocaleString(),
-          type: 'CREDIT',
-          amount: quarkReward.toString(),
-          unit: 'QRK',
-          description: `Resolved Shard #${newBlock.shardIndex} (${grade} Grade)`
-        }]
-      };
+      const rewardTransactions: Transaction[] = [{
+        id: `MN-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+        timestamp: new Date().toLocaleString(),
+        type: 'CREDIT',
+        amount: quarkReward.toString(),
+        unit: 'QRK',
+        description: `Resolved Shard #${newBlock.shardIndex} (${grade} Grade)`
+      }];
 
       if (qbsMagnitudeBonus > 0) {
-        updatedUser.transactions.push({
+        rewardTransactions.push({
           id: `MAG-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
           timestamp: new Date().toLocaleString(),
           type: 'CREDIT',
@@ -385,48 +503,30 @@ const App: React.FC = () => {
         });
       }
 
-      // Distribute blockchain rewards if wallet is connected
-      if (walletConnected && walletAddress) {
-        try {
-          addLog("BLOCKCHAIN: Initiating QBS token minting...", "info");
-          
-          const rewardResult = await rewardDistribution.distributeMiningReward(
-            walletAddress,
-            qbsMagnitudeBonus, // QBS amount (magnitude bonus)
-            grade,
-            newBlock.id
-          );
-
-          if (rewardResult.success && !rewardResult.queued) {
-            addLog(`BLOCKCHAIN: QBS tokens minted successfully. TX: ${rewardResult.transactionHash?.slice(0, 10)}...`, "success");
-            addNotification("Blockchain Reward", `${qbsMagnitudeBonus.toFixed(6)} QBS minted to your wallet!`, "success");
-            
-            // Add blockchain transaction to user record
-            updatedUser.transactions.push({
-              id: `BLOCKCHAIN-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-              timestamp: new Date().toLocaleString(),
-              type: 'CREDIT',
-              amount: qbsMagnitudeBonus.toFixed(6),
-              unit: 'QBS',
-              description: `Blockchain Mining Reward - TX: ${rewardResult.transactionHash?.slice(0, 10)}...`
-            });
-          } else if (rewardResult.queued) {
-            addLog("BLOCKCHAIN: Reward queued for when wallet/contract is available.", "warning");
-            addNotification("Reward Queued", "QBS tokens will be minted when blockchain is available.", "warning");
-          } else {
-            addLog(`BLOCKCHAIN: Minting failed - ${rewardResult.error}`, "error");
-            addNotification("Blockchain Error", rewardResult.error || "Failed to mint QBS tokens", "error");
-          }
-        } catch (blockchainError: any) {
-          console.error("Blockchain reward error:", blockchainError);
-          addLog(`BLOCKCHAIN: Error - ${blockchainError.message}`, "error");
+      const credited = await ledger.post({
+        description: `Resolved Shard #${newBlock.shardIndex} (${grade} Grade)`,
+        postings: [
+          ...movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount(currentUser.address), 'QRK', quarkReward),
+          ...movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount(currentUser.address), 'QBS', qbsMagnitudeBonus)
+        ],
+        transactions: { [currentUser.address]: rewardTransactions },
+        userUpdates: {
+          [currentUser.address]: progressUpdates(currentUser, {
+            xp: currentUser.xp + XP_MINING_REWARD,
+            solvedBlocks: [...(currentUser.solvedBlocks || []), newBlock]
+          })
         }
-      } else {
-        addLog("BLOCKCHAIN: Wallet not connected. Rewards stored locally.", "warning");
+      });
+
+      // QBS magnitude is claimed on chain through the next reward epoch, not minted per block
+      if (qbsMagnitudeBonus > 0) {
+        addLog(currentUser.payoutAddress
+          ? `BLOCKCHAIN: ${qbsMagnitudeBonus.toFixed(6)} QBS accrued toward the next reward epoch.`
+          : "BLOCKCHAIN: Magnitude accrued. Link a payout wallet in Settings to claim it on chain.", "info");
       }
 
-      await syncUser(updatedUser);
-      addNotification(`Peer-Review: Grade ${grade}`, `Awarded ${quarkReward} QRK.${grade === 'S' ? ' MAGNITUDE ACCRUED.' : ''}`, grade === 'S' ? 'security' : 'success');
+      await showUser(credited[currentUser.address], currentUser.level);
+      addNotification(`Peer-Review: Grade ${grade}`, `Awarded ${quarkReward} QRK.${qbsMagnitudeBonus > 0 ? ' MAGNITUDE ACCRUED.' : ''}`, grade === 'S' ? 'security' : 'success');
     } catch (err: any) {
       console.error("Mining evaluation error:", err);
       
@@ -451,7 +551,7 @@ const App: React.FC = () => {
       addNotification("Evolution Error", error.userMessage, EvolutionErrorHandler.getNotificationType(error));
       return;
     }
-    if (currentUser.usdBalance < EVOLUTION_COST_USD) {
+    if (currentUser.usdBalance < protocolParameters.EVOLUTION_COST_USD) {
       const error = EvolutionErrorHandler.classifyError(new Error("Insufficient funds"), 'INSUFFICIENT_FUNDS');
       addNotification("Evolution Error", error.userMessage, EvolutionErrorHandler.getNotificationType(error));
       return;
@@ -507,7 +607,8 @@ const App: React.FC = () => {
         addLog(`EVOLUTION: ${progress.message}`, "info");
       });
       const newGrade: SovereignGrade = synth.newGrade;
-      const qbsMagnitudeBonus = newGrade === 'S' ? 0.005 : newGrade === 'A' ? 0.001 : 0;
+      const gradedBy = 'isFallback' in synth ? 'offline' : safeDeepSeekClient.getProvider().id;
+      const qbsMagnitudeBonus = isTrustedGrader(gradedBy) ? EVOLUTION_MAGNITUDE_QBS[newGrade] : 0;
       const quarkYield = newGrade === 'S' ? 1000 : newGrade === 'A' ? 500 : 100;
 
       const newHistoryEntry: ScientificAdvance = {
@@ -520,93 +621,68 @@ const App: React.FC = () => {
         timestamp: new Date().toLocaleString(),
         contributingNodes: [currentUser.username, "Council-Skeptic"],
         formula: synth.evolvedFormula,
-        constants: synth.observedConstants
+        constants: synth.observedConstants,
+        previousExplanation: block.explanation,
+        previousGrade: block.grade,
+        gradedBy
       };
 
-      const updatedBlocks = currentUser.solvedBlocks.map(b => {
-        if (b.id === blockId) {
-          return {
-            ...b,
-            advancementLevel: (b.advancementLevel || 1) + 1,
-            explanation: synth.evolvedExplanation,
-            grade: newGrade,
-            breakthroughScore: synth.newScore,
-            consensusCritique: synth.consensusCritique,
-            reward: b.reward + qbsMagnitudeBonus,
-            payoutPerShard: `${quarkYield} QRK`,
-            advancementHistory: [...(b.advancementHistory || []), newHistoryEntry],
-            primaryFormula: synth.evolvedFormula,
-            observedConstants: synth.observedConstants
-          };
-        }
-        return b;
+      // The new record is sealed so its grades and grader cannot be rewritten later
+      const evolvedBlock = await sealLatestAdvance({
+        ...block,
+        advancementLevel: (block.advancementLevel || 1) + 1,
+        explanation: synth.evolvedExplanation,
+        grade: newGrade,
+        breakthroughScore: synth.newScore,
+        consensusCritique: synth.consensusCritique,
+        reward: block.reward + qbsMagnitudeBonus,
+        payoutPerShard: `${quarkYield} QRK`,
+        advancementHistory: [...(block.advancementHistory || []), newHistoryEntry],
+        primaryFormula: synth.evolvedFormula,
+        observedConstants: synth.observedConstants
       });
+      const updatedBlocks = currentUser.solvedBlocks.map(b => b.id === blockId ? evolvedBlock : b);
 
-      const updatedUser: User = {
-        ...currentUser,
-        usdBalance: currentUser.usdBalance - EVOLUTION_COST_USD + quarkYield,
-        balance: currentUser.balance + qbsMagnitudeBonus,
-        xp: currentUser.xp + EVOLUTION_XP_REWARD,
-        solvedBlocks: updatedBlocks,
-        transactions: [...(currentUser.transactions || []), {
-          id: `EV-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-          timestamp: new Date().toLocaleString(),
-          type: 'DEBIT',
-          amount: EVOLUTION_COST_USD.toString(),
-          unit: 'USD',
-          description: `Evolution Funding`
-        }, {
-          id: `EVY-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-          timestamp: new Date().toLocaleString(),
-          type: 'CREDIT',
-          amount: quarkYield.toString(),
-          unit: 'QRK',
-          description: `Evolution Yield (${newGrade})`
-        }]
-      };
-
-      // Distribute blockchain evolution rewards if wallet is connected
-      if (walletConnected && walletAddress && qbsMagnitudeBonus > 0) {
-        try {
-          addLog("BLOCKCHAIN: Initiating evolution reward minting...", "info");
-          
-          const rewardResult = await rewardDistribution.distributeEvolutionReward(
-            walletAddress,
-            qbsMagnitudeBonus, // QBS amount (magnitude bonus)
-            block.id,
-            (block.advancementLevel || 1) + 1
-          );
-
-          if (rewardResult.success && !rewardResult.queued) {
-            addLog(`BLOCKCHAIN: Evolution QBS tokens minted successfully. TX: ${rewardResult.transactionHash?.slice(0, 10)}...`, "success");
-            addNotification("Evolution Reward", `${qbsMagnitudeBonus.toFixed(6)} QBS minted for breakthrough evolution!`, "success");
-            
-            // Add blockchain transaction to user record
-            updatedUser.transactions.push({
-              id: `BLOCKCHAIN-EV-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-              timestamp: new Date().toLocaleString(),
-              type: 'CREDIT',
-              amount: qbsMagnitudeBonus.toFixed(6),
-              unit: 'QBS',
-              description: `Blockchain Evolution Reward - TX: ${rewardResult.transactionHash?.slice(0, 10)}...`
-            });
-          } else if (rewardResult.queued) {
-            addLog("BLOCKCHAIN: Evolution reward queued for when wallet/contract is available.", "warning");
-            addNotification("Evolution Reward Queued", "QBS tokens will be minted when blockchain is available.", "warning");
-          } else {
-            addLog(`BLOCKCHAIN: Evolution minting failed - ${rewardResult.error}`, "error");
-            addNotification("Evolution Blockchain Error", rewardResult.error || "Failed to mint evolution QBS tokens", "error");
-          }
-        } catch (blockchainError: any) {
-          console.error("Blockchain evolution reward error:", blockchainError);
-          addLog(`BLOCKCHAIN: Evolution error - ${blockchainError.message}`, "error");
+      const settled = await ledger.post({
+        description: `Evolution of ${block.id} to Mk ${(block.advancementLevel || 1) + 1}`,
+        postings: [
+          ...movement(userAccount(currentUser.address), SYSTEM_ACCOUNTS.FEES, 'QRK', protocolParameters.EVOLUTION_COST_USD),
+          ...movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount(currentUser.address), 'QRK', quarkYield),
+          ...movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount(currentUser.address), 'QBS', qbsMagnitudeBonus)
+        ],
+        transactions: {
+          [currentUser.address]: [{
+            id: `EV-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+            timestamp: new Date().toLocaleString(),
+            type: 'DEBIT',
+            amount: protocolParameters.EVOLUTION_COST_USD.toString(),
+            unit: 'USD',
+            description: `Evolution Funding`
+          }, {
+            id: `EVY-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+            timestamp: new Date().toLocaleString(),
+            type: 'CREDIT',
+            amount: quarkYield.toString(),
+            unit: 'QRK',
+            description: `Evolution Yield (${newGrade})`
+          }]
+        },
+        userUpdates: {
+          [currentUser.address]: progressUpdates(currentUser, {
+            xp: currentUser.xp + EVOLUTION_XP_REWARD,
+            solvedBlocks: updatedBlocks
+          })
         }
+      });
+
+      if (qbsMagnitudeBonus > 0) {
+        addLog(`BLOCKCHAIN: ${qbsMagnitudeBonus.toFixed(6)} QBS evolution magnitude accrued toward the next reward epoch.`, "info");
       }
 
       // Complete the evolution progress
       evolutionProgressTracker.completeEvolution(blockId);
       
-      await syncUser(updatedUser);
+      await showUser(settled[currentUser.address], currentUser.level);
       addNotification("Evolution Concluded", `Reached Mk ${(block.advancementLevel || 1) + 1} with Grade ${newGrade}.`, "success");
     } catch (err: any) {
        console.error("Evolution error:", err);
@@ -659,21 +735,21 @@ const App: React.FC = () => {
   const handleVote = async (proposalId: string, type: 'FOR' | 'AGAINST', weightInQuarks: number) => {
     if (!currentUser) return;
     if (currentUser.votes?.[proposalId]) return addNotification("Action Locked", "Consensus already etched.", "warning");
-    const updatedProposals = proposals.map(p => {
-      if (p.id === proposalId) {
-        const qbsWeight = weightInQuarks / QBS_UNITS.QRK;
-        return {
-          ...p,
-          votesFor: type === 'FOR' ? p.votesFor + qbsWeight : p.votesFor,
-          votesAgainst: type === 'AGAINST' ? p.votesAgainst + qbsWeight : p.votesAgainst,
-          totalQuarksStaked: (p.totalQuarksStaked || 0) + weightInQuarks
-        };
-      }
-      return p;
-    });
-    setProposals(updatedProposals);
+    let lockedVoter: User;
+    try {
+      const { proposal: updatedProposal, voter } = await governanceEngine.castVote(proposalId, {
+        voter: currentUser.address,
+        type,
+        weight: weightInQuarks,
+        timestamp: new Date().toISOString()
+      });
+      setProposals(prev => prev.map(p => p.id === proposalId ? updatedProposal : p));
+      lockedVoter = voter;
+    } catch (err: any) {
+      return addNotification("Vote Rejected", err.message, "error");
+    }
     const updatedUser: User = {
-      ...currentUser,
+      ...lockedVoter,
       votes: { ...(currentUser.votes || {}), [proposalId]: { type, weight: weightInQuarks } },
       xp: currentUser.xp + 50
     };
@@ -681,6 +757,20 @@ const App: React.FC = () => {
     addNotification("Poll Broadcast", "Magnitude contribution synchronized.", "success");
   };
 
+  const handleExecuteProposal = async (proposalId: string) => {
+    if (!currentUser) return;
+    try {
+      const { proposal, parameters, audit } = await governanceEngine.executeProposal(proposalId, currentUser.address);
+      setProposals(prev => prev.map(p => p.id === proposalId ? proposal : p));
+      setProtocolParameters(parameters);
+      audit.filter(entry => entry.action === 'PARAMETER_CHANGED')
+        .forEach(entry => addLog(`GOVERNANCE: ${entry.details} ${entry.before} -> ${entry.after} (${proposalId})`, "success"));
+      addNotification("Initiative Executed", `${proposalId} is now ${proposal.status}.`, "success");
+    } catch (err: any) {
+      addNotification("Execution Rejected", err.message, "error");
+    }
+  };
+
   const handleJoinInitiative = async (proposalId: string) => {
     if (!currentUser) return;
     const prop = proposals.find(p => p.id === proposalId);
@@ -693,13 +783,18 @@ const App: React.FC = () => {
 
   const handleNewProposal = async (partial: Partial<Proposal>) => {
     if (!currentUser) return;
-    const fee = 500; 
-    if (currentUser.usdBalance < fee) return addNotification("Insufficient Quarks", "500 QRK required.", "error");
+    const fee = PROPOSAL_FEE_QRK;
+    if (currentUser.usdBalance < fee) return addNotification("Insufficient Quarks", `${fee} QRK required.`, "error");
+    let proposalId: string;
+    do {
+      proposalId = `LGP-${Math.floor(Math.random() * 900) + 100}`;
+    } while (proposals.some(p => p.id === proposalId));
     const newProp: Proposal = {
-      id: `LGP-${Math.floor(Math.random() * 900) + 100}`,
+      id: proposalId,
       title: partial.title || "Untitled",
       description: partial.description || "No abstract.",
       proposer: currentUser.profileId,
+      proposerAddress: currentUser.address,
       status: 'ACTIVE',
       votesFor: 0,
       votesAgainst: 0,
@@ -708,22 +803,39 @@ const App: React.FC = () => {
       category: partial.category || 'SCIENTIFIC',
       totalQuarksStaked: fee,
       scientificBaseline: "Foundational data synthesis active.",
-      evolutionPath: "Pending consensus mapping."
+      evolutionPath: "Pending consensus mapping.",
+      technicalParameters: partial.technicalParameters,
+      parameterChanges: partial.category === 'ECONOMIC' ? partial.parameterChanges : undefined,
+      votes: {},
+      createdAt: new Date().toISOString()
     };
-    const updatedUser: User = {
-      ...currentUser,
-      usdBalance: currentUser.usdBalance - fee,
-      transactions: [...(currentUser.transactions || []), {
+    try {
+      const feeTransaction: Transaction = {
         id: `GOV-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
         timestamp: new Date().toLocaleString(),
         type: 'DEBIT',
         amount: fee.toString(),
         unit: 'USD',
         description: `Initiative Broadcast: ${newProp.id}`
-      }]
-    };
-    setProposals([newProp, ...proposals]);
-    await syncUser(updatedUser);
+      };
+      const updatedUser = await ledger.debit(currentUser.address, fee, 'USD', feeTransaction);
+      try {
+        await saveProposal(newProp);
+      } catch (err) {
+        // Return the fee if the proposal it paid for was not stored
+        await syncUser(await ledger.credit(currentUser.address, fee, 'USD', {
+          ...feeTransaction,
+          id: `GOV-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+          type: 'CREDIT',
+          description: `Initiative Fee Returned: ${newProp.id}`
+        }, SYSTEM_ACCOUNTS.FEES));
+        throw err;
+      }
+      setProposals([newProp, ...proposals]);
+      await syncUser(updatedUser);
+    } catch (err: any) {
+      addNotification("Ledger Rejected", err.message, "error");
+    }
   };
 
   const handleLogin = (user: User) => {
@@ -751,20 +863,20 @@ const App: React.FC = () => {
       tokenHash: signature,
       senderName: currentUser.username
     };
-    const updatedUser: User = {
-      ...currentUser,
-      usdBalance: currentUser.usdBalance - msgCost,
-      transactions: [...(currentUser.transactions || []), {
+    try {
+      const updatedUser = await ledger.debit(currentUser.address, msgCost, 'USD', {
         id: `TX-MSG-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
         timestamp: new Date().toLocaleString(),
         type: 'DEBIT',
         amount: msgCost.toString(),
         unit: 'USD',
         description: `Messaging Burn`
-      }]
-    };
-    setMessages(prev => [newMessage, ...prev]);
-    await syncUser(updatedUser);
+      }, SYSTEM_ACCOUNTS.ISSUANCE);
+      setMessages(prev => [newMessage, ...prev]);
+      await syncUser(updatedUser);
+    } catch (err: any) {
+      addNotification("Ledger Rejected", err.message, "error");
+    }
   };
 
   const handleAddContact = async (address: string, name: string) => {
@@ -775,24 +887,27 @@ const App: React.FC = () => {
 
   const handleSubscribeService = async (type: 'MESSAGING' | 'MINING') => {
     if (!currentUser) return;
-    const cost = LEASE_COSTS[type];
+    const cost = protocolParameters.LEASE_COSTS[type];
     if (currentUser.usdBalance < cost) return addNotification("Insufficient Funds", "Acquire more Quarks.", "error");
     const expiry = new Date(); expiry.setMonth(expiry.getMonth() + 1);
-    const updatedUser: User = { 
-      ...currentUser, 
-      usdBalance: currentUser.usdBalance - cost, 
-      [type === 'MESSAGING' ? 'messagingActive' : 'miningActive']: true,
-      [type === 'MESSAGING' ? 'messagingExpires' : 'miningExpires']: expiry.toISOString(),
-      transactions: [...(currentUser.transactions || []), {
+    try {
+      const charged = await ledger.debit(currentUser.address, cost, 'USD', {
         id: `SUB-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
         timestamp: new Date().toLocaleString(),
         type: 'SUBSCRIPTION',
         amount: cost.toString(),
         unit: 'USD',
         description: `${type} Activation`
-      }]
-    };
-    await syncUser(updatedUser);
+      });
+      const updatedUser: User = { 
+        ...charged, 
+        [type === 'MESSAGING' ? 'messagingActive' : 'miningActive']: true,
+        [type === 'MESSAGING' ? 'messagingExpires' : 'miningExpires']: expiry.toISOString()
+      };
+      await syncUser(updatedUser);
+    } catch (err: any) {
+      addNotification("Ledger Rejected", err.message, "error");
+    }
   };
 
   const handleTransfer = async (toAddr: string, amount: number, privKey: string, unit: Transaction['unit']) => {
@@ -805,74 +920,93 @@ const App: React.FC = () => {
     
     if (currentUser.balance < qbsVal || currentUser.usdBalance < usdVal) return addNotification("Low Balance", "Transfer rejected.", "error");
 
-    const updatedSender: User = {
-      ...currentUser,
-      balance: currentUser.balance - qbsVal,
-      usdBalance: currentUser.usdBalance - usdVal,
-      transactions: [...(currentUser.transactions || []), {
-        id: `TX-OUT-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-        timestamp: new Date().toLocaleString(),
-        type: 'TRANSFER_OUT',
-        to: toAddr,
-        amount: amount.toString(),
-        unit: unit,
-        description: `Transmission to ${recipient.username}`
-      }]
-    };
-    const updatedRecipient: User = {
-      ...recipient,
-      balance: recipient.balance + qbsVal,
-      usdBalance: recipient.usdBalance + usdVal,
-      transactions: [...(recipient.transactions || []), {
-        id: `TX-IN-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-        timestamp: new Date().toLocaleString(),
-        type: 'TRANSFER_IN',
-        from: currentUser.address,
-        amount: amount.toString(),
-        unit: unit,
-        description: `Received from ${currentUser.username}`
-      }]
-    };
-    await saveUser(updatedRecipient);
-    await syncUser(updatedSender);
+    try {
+      // Sender and recipient are written in one ledger commit
+      const { sender } = await ledger.transfer(currentUser.address, toAddr, amount, unit, {
+        outgoing: {
+          id: `TX-OUT-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+          timestamp: new Date().toLocaleString(),
+          type: 'TRANSFER_OUT',
+          to: toAddr,
+          amount: amount.toString(),
+          unit: unit,
+          description: `Transmission to ${recipient.username}`
+        },
+        incoming: {
+          id: `TX-IN-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+          timestamp: new Date().toLocaleString(),
+          type: 'TRANSFER_IN',
+          from: currentUser.address,
+          amount: amount.toString(),
+          unit: unit,
+          description: `Received from ${currentUser.username}`
+        }
+      });
+      await syncUser(sender);
+    } catch (err: any) {
+      addNotification("Transfer Rejected", err.message, "error");
+    }
   };
 
-  const handleSwap = async (fromUnit: 'QRK' | 'USD', amount: number) => {
+  const handleSwap = async (fromUnit: 'QRK' | 'USD', amount: number, minAmountOut: number) => {
     if (!currentUser) return;
-    if (fromUnit === 'USD' && currentUser.usdBalance < amount) return;
-    // Swap logic: 1,000,000 QRK = 0.001 QBS (Rare magnitude)
-    const qbsDelta = amount / QBS_UNITS.QRK; 
-    const updatedUser: User = {
-      ...currentUser,
-      balance: currentUser.balance + qbsDelta,
-      usdBalance: currentUser.usdBalance - (fromUnit === 'USD' ? amount : amount),
-      transactions: [...(currentUser.transactions || []), {
-        id: `SWAP-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
-        timestamp: new Date().toLocaleString(),
-        type: 'SWAP',
-        amount: amount.toString(),
-        unit: fromUnit,
-        description: `Swap to Magnitude`
-      }]
-    };
-    await syncUser(updatedUser);
+    try {
+      const swapped = await latticePool.swap(currentUser.address, fromUnit, amount, minAmountOut);
+      setPool(swapped.pool);
+      await syncUser(swapped.user);
+      addLog(`POOL: Swap executed at $${swapped.quote.executionPrice.toFixed(2)}/QBS.`, "success");
+    } catch (err: any) {
+      addNotification("Swap Rejected", err.message, "error");
+    }
+  };
+
+  const handleStake = async (amount: number, unit: 'QBS' | 'SHD' | 'QRK') => {
+    if (!currentUser) return;
+    try {
+      const staked = await staking.stake(currentUser.address, toQbs(amount, unit));
+      await syncUser(staked);
+      addLog(`VAULT: ${amount} ${unit} committed to staking.`, "success");
+    } catch (err: any) {
+      addNotification("Stake Rejected", err.message, "error");
+    }
+  };
+
+  const handleUnstake = async (amount: number, unit: 'QBS' | 'SHD' | 'QRK') => {
+    if (!currentUser) return;
+    try {
+      const unbonding = await staking.unstake(currentUser.address, toQbs(amount, unit));
+      await syncUser(unbonding);
+      addNotification("Unbonding Started", `${amount} ${unit} returns to your balance in ${STAKING_CONFIG.UNBONDING_PERIOD_MS / 86400000} days.`, "info");
+    } catch (err: any) {
+      addNotification("Unstake Rejected", err.message, "error");
+    }
+  };
+
+  // The correction is already committed with the ledger entry; only refresh state
+  const handleUserCorrected = async (corrected: User) => {
+    if (currentUser && corrected.address === currentUser.address) {
+      setCurrentUser(corrected);
+      setWallet(w => ({ ...w, balance: corrected.balance }));
+    }
+    setAllLatticeUsers(await getAllUsers());
+    addNotification("Balance Corrected", `Reconciliation entry posted for ${corrected.username}.`, "success");
   };
 
   const handlePurchase = async (usd: number) => {
     if (!currentUser) return;
-    const updatedUser: User = {
-      ...currentUser,
-      usdBalance: currentUser.usdBalance + usd,
-      transactions: [...(currentUser.transactions || []), {
+    try {
+      const updatedUser = await ledger.credit(currentUser.address, usd, 'USD', {
         id: `PUR-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
         timestamp: new Date().toLocaleString(),
         type: 'CREDIT',
         amount: usd.toString(),
         unit: 'USD',
         description: "Fiat Liquidity On-Ramp"
-      }]
-    };
-    await syncUser(updatedUser);
+      });
+      await syncUser(updatedUser);
+    } catch (err: any) {
+      addNotification("Ledger Rejected", err.message, "error");
+    }
   };
 
   if (!isAppReady) return <div className="min-h-screen bg-black flex items-center justify-center text-orange-500 font-black animate-pulse uppercase tracking-widest">Synchronizing Scientific Registry...</div>;
@@ -898,7 +1032,7 @@ const App: React.FC = () => {
             </div>
           </div>
           <nav className="flex bg-zinc-900/50 p-1 rounded-xl border border-white/5 ml-4">
-            {['terminal', 'communications', 'wallet', 'market', 'governance', 'archive', 'profile', 'settings'].map((tab) => (
+            {['terminal', 'communications', 'wallet', 'market', 'governance', 'archive', 'profile', 'settings', ...(currentUser.role === 'admin' ? ['database'] : [])].map((tab) => (
               <button key={tab} onClick={() => { setActiveTab(tab as any); }} className={`px-4 py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all ${activeTab === tab ? 'bg-orange-500 text-black shadow-lg shadow-orange-500/20' : 'text-gray-500 hover:text-white'}`}>{tab}</button>
             ))}
           </nav>
@@ -934,6 +1068,7 @@ const App: React.FC = () => {
                   publicRemaining={9000 - allLatticeUsers.reduce((s, u) => s + (u.address === ADMIN_ID ? 0 : u.balance), 0)} 
                   miningActive={currentUser.miningActive}
                   activeInitiative={proposals.find(p => p.id === currentUser.activeInitiativeId)?.title}
+                  powDifficulty={miningDifficulty}
                 />
                 <Terminal logs={logs} />
               </section>
@@ -970,7 +1105,7 @@ const App: React.FC = () => {
               onCreateGroup={(n, m) => {}}
             />
           )}
-          {activeTab === 'wallet' && <WalletView user={currentUser} onSubscribe={handleSubscribeService} onTransfer={handleTransfer} />}
+          {activeTab === 'wallet' && <WalletView user={currentUser} onSubscribe={handleSubscribeService} onTransfer={handleTransfer} leaseCosts={protocolParameters.LEASE_COSTS} lockedQuarks={lockedVoteWeight(proposals, currentUser.address)} />}
           {activeTab === 'archive' && (
             <BlocksArchive 
               blocks={currentUser.solvedBlocks || []} 
@@ -1003,17 +1138,21 @@ const App: React.FC = () => {
             />
           )}
           {activeTab === 'profile' && <ProfileView user={currentUser} onUpdate={syncUser} />}
-          {activeTab === 'market' && <MarketView user={currentUser} pool={pool} onSwap={handleSwap} onStake={() => {}} onPurchase={handlePurchase} />}
+          {activeTab === 'market' && <MarketView user={currentUser} pool={pool} onSwap={handleSwap} onStake={handleStake} onUnstake={handleUnstake} onPurchase={handlePurchase} />}
           {activeTab === 'governance' && (
             <GovernanceView 
               user={currentUser} 
               proposals={proposals}
               onVote={handleVote} 
               onNewProposal={handleNewProposal}
-              onExecute={() => {}}
+              parameters={protocolParameters}
+              onExecute={handleExecuteProposal}
               onJoin={handleJoinInitiative}
             />
           )}
+          {activeTab === 'database' && currentUser.role === 'admin' && (
+            <AdminDatabaseView users={allLatticeUsers} admin={currentUser} onUserCorrected={handleUserCorrected} />
+          )}
           {activeTab === 'settings' && <SettingsView user={currentUser} onUpdateUser={syncUser} addLog={addLog} />}
         </div>
       </main>
@@ -1,14 +1,46 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { User, SolvedBlock } from '../types';
+import ChainIntegrityBadge from './ChainIntegrityBadge';
+import BalanceReconciliationPanel from './BalanceReconciliationPanel';
+import { verifyChain, ChainVerificationResult } from '../services/blockHashing';
 
 interface AdminDatabaseViewProps {
   users: User[];
+  admin: User;
+  onUserCorrected: (user: User) => void;
 }
 
-const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users }) => {
+const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users, admin, onUserCorrected }) => {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [selectedBlock, setSelectedBlock] = useState<SolvedBlock | null>(null);
+  const [chainStatus, setChainStatus] = useState<Record<string, ChainVerificationResult>>({});
+
+  // Verify every node's chain; blocks after a node's first break are untrusted
+  useEffect(() => {
+    let cancelled = false;
+    const registryBlocks = users.flatMap(u => u.solvedBlocks || []);
+    Promise.all(users.map(async u => ({ address: u.address, result: await verifyChain(u.solvedBlocks || [], u.address, registryBlocks) })))
+      .then(results => {
+        if (cancelled) return;
+        const status: Record<string, ChainVerificationResult> = {};
+        results.forEach(({ address, result }) => { status[address] = result; });
+        setChainStatus(status);
+      })
+      .catch(err => console.error('Chain verification failed:', err));
+    return () => { cancelled = true; };
+  }, [users]);
+
+  const brokenChains = users.filter(u => chainStatus[u.address] && !chainStatus[u.address].valid).length;
+  const isVerified = Object.keys(chainStatus).length === users.length;
+
+  const isBlockTrusted = (userAddress: string, blockId: string): boolean | null => {
+    const result = chainStatus[userAddress];
+    if (!result) return null;
+    if (result.valid || !result.firstBreak) return true;
+    const blocks = users.find(u => u.address === userAddress)?.solvedBlocks || [];
+    return blocks.findIndex(b => b.id === blockId) < result.firstBreak.index;
+  };
 
   const totalMarketCap = users.reduce((sum, u) => sum + u.balance, 0) * 1000000000;
   
@@ -24,7 +56,9 @@ const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users }) => {
             Quantum Sovereign Registry
             <span className="bg-orange-500 text-black text-[8px] px-2 py-0.5 rounded font-black">ENCRYPTED_AT_REST</span>
           </h2>
-          <p className="text-[10px] text-gray-500 font-bold tracking-[0.3em] uppercase mt-1">Lattice Persistence Layer :: Integrity Verified</p>
+          <p className="text-[10px] text-gray-500 font-bold tracking-[0.3em] uppercase mt-1">
+            Lattice Persistence Layer :: {!isVerified ? 'Verifying Integrity' : brokenChains === 0 ? 'Integrity Verified' : `${brokenChains} Broken Chain${brokenChains === 1 ? '' : 's'}`}
+          </p>
         </div>
         <div className="flex gap-8 relative z-10">
           <div className="text-center">
@@ -38,6 +72,8 @@ const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users }) => {
         </div>
       </div>
 
+      <BalanceReconciliationPanel admin={admin} onUserCorrected={onUserCorrected} />
+
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-12 gap-6 overflow-hidden">
         <div className="lg:col-span-12 bg-zinc-900/40 border border-white/5 rounded-[2.5rem] flex flex-col overflow-hidden">
           <div className="p-4 border-b border-white/5 bg-black/20 flex justify-between items-center">
@@ -63,8 +99,21 @@ const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users }) => {
                         <span className="text-[7px] text-gray-600 uppercase font-bold tracking-widest">Mk {block.advancementLevel || 1} // {block.timestamp}</span>
                       </div>
                     </td>
-                    <td className="p-4"><span className="text-[10px] text-white font-bold group-hover:text-orange-400 uppercase">{block.username}</span></td>
-                    <td className="p-4"><span className="text-[8px] text-green-500 font-black uppercase">VALIDATED</span></td>
+                    <td className="p-4">
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-white font-bold group-hover:text-orange-400 uppercase">{block.username}</span>
+                        {chainStatus[block.userAddress] && <ChainIntegrityBadge result={chainStatus[block.userAddress]} compact />}
+                      </div>
+                    </td>
+                    <td className="p-4">
+                      {isBlockTrusted(block.userAddress, block.id) === null ? (
+                        <span className="text-[8px] text-gray-500 font-black uppercase">VERIFYING</span>
+                      ) : isBlockTrusted(block.userAddress, block.id) ? (
+                        <span className="text-[8px] text-green-500 font-black uppercase">VALIDATED</span>
+                      ) : (
+                        <span className="text-[8px] text-red-500 font-black uppercase">CHAIN BROKEN</span>
+                      )}
+                    </td>
                     <td className="p-4 text-right"><span className="text-[10px] text-white font-black">{block.payoutPerShard}</span></td>
                   </tr>
                 ))}
@@ -88,6 +137,13 @@ const AdminDatabaseView: React.FC<AdminDatabaseViewProps> = ({ users }) => {
                 <h4 className="text-[10px] text-gray-500 font-black uppercase tracking-widest border-l-2 border-orange-500 pl-3">Theoretical Resolution</h4>
                 <div className="bg-black/60 p-6 rounded-2xl border border-white/5 text-sm text-gray-300 mono leading-relaxed italic">"{selectedBlock.problem}"</div>
               </section>
+              <section className="space-y-3">
+                <h4 className="text-[10px] text-gray-500 font-black uppercase tracking-widest border-l-2 border-orange-500 pl-3">Chain Link</h4>
+                <div className="bg-black/60 p-4 rounded-2xl border border-white/5 text-[9px] text-gray-500 mono break-all space-y-2">
+                  <div>HASH: {selectedBlock.hash}</div>
+                  <div>PARENT: {selectedBlock.parentHash}</div>
+                </div>
+              </section>
             </div>
           </div>
         </div>
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { SolvedBlock, User } from '../types';
+import { ReviewerRole, SolvedBlock, User } from '../types';
 import { QBS_UNITS } from '../services/quantumLogic';
 
 interface AdvancementPath {
@@ -13,7 +13,7 @@ interface AdvancementPath {
 
 interface DebatePoint {
   nodeId: string;
-  role: 'PRAGMATIST' | 'VISIONARY' | 'ETHICIST';
+  role: ReviewerRole;
   argument: string;
 }
 
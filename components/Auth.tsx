@@ -6,6 +6,7 @@ import LatticeLogo from './LatticeLogo';
 import { useStyling } from '../services/useStyling';
 import { enhancedAuth, AuthenticationRequest } from '../services/enhancedAuth';
 import { authErrorHandler } from '../services/authErrorHandler';
+import { siweAuth } from '../services/siweAuth';
 
 interface AuthProps {
   onLogin: (user: User) => void;
@@ -168,6 +169,24 @@ const Auth = ({ onLogin }: AuthProps) => {
     }
   };
 
+  const handleWalletLogin = async () => {
+    setError('');
+    setWarnings([]);
+    setRecoveryActions([]);
+    setIsAuthenticating(true);
+    setAuthStatus('Awaiting wallet signature...');
+
+    try {
+      onLogin(await siweAuth.signIn());
+    } catch (err: any) {
+      setError(err.message || 'Wallet sign-in failed. Please try again.');
+      console.error('SIWE login error:', err);
+    } finally {
+      setIsAuthenticating(false);
+      setAuthStatus('');
+    }
+  };
+
   const handleFailedAttempt = () => {
     const nextAttempts = failedAttempts + 1;
     setFailedAttempts(nextAttempts);
@@ -387,6 +406,18 @@ const Auth = ({ onLogin }: AuthProps) => {
                 </button>
               </form>
 
+              {!isRegister && !isRecover && (
+                <button
+                  type="button" onClick={handleWalletLogin} disabled={isAuthenticating}
+                  className={getClasses(
+                    "w-full py-4 bg-white/5 hover:bg-white/10 text-orange-400 border border-orange-500/20 rounded-2xl font-black text-[10px] uppercase tracking-[0.3em] transition-all active:scale-95 disabled:opacity-50",
+                    "fallback-button"
+                  )}
+                >
+                  Sign In With Ethereum
+                </button>
+              )}
+
               {!isAuthenticating && !isRegister && !isRecover && (
                 <div className="bg-black/40 p-4 rounded-2xl border border-white/5 text-center">
                    <p className="text-[8px] text-gray-600 font-black uppercase tracking-widest">System Status:</p>
@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BalanceCorrection, User } from '../types';
+import { balanceReconciliation, BalanceDrift, ReconciliationReport } from '../services/balanceReconciliation';
+
+interface BalanceReconciliationPanelProps {
+  admin: User;
+  onUserCorrected: (user: User) => void;
+}
+
+const STATUS_STYLES: Record<BalanceDrift['status'], string> = {
+  IN_SYNC: 'text-green-500',
+  EXPLAINED: 'text-blue-400',
+  DRIFT: 'text-red-500',
+  NO_WALLET: 'text-gray-500',
+  SHARED_WALLET: 'text-yellow-500'
+};
+
+const formatQbs = (amount: number) => `${amount > 0 ? '+' : ''}${amount.toFixed(6)}`;
+
+/**
+ * Drift between on-chain-backed ledger QBS and on-chain QBS per node, with
+ * corrections that only reach the ledger once an admin approves them
+ */
+const BalanceReconciliationPanel: React.FC<BalanceReconciliationPanelProps> = ({ admin, onUserCorrected }) => {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [corrections, setCorrections] = useState<BalanceCorrection[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCorrections = useCallback(async () => {
+    setCorrections(await balanceReconciliation.getCorrections());
+  }, []);
+
+  useEffect(() => {
+    loadCorrections().catch(err => setError(err.message));
+  }, [loadCorrections]);
+
+  const runReconciliation = async () => {
+    setError(null);
+    setIsRunning(true);
+    try {
+      setReport(await balanceReconciliation.reconcile());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadCorrections();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const pending = corrections.filter(c => c.status === 'PROPOSED');
+
+  return (
+    <div className="bg-zinc-900/40 border border-white/5 rounded-[2.5rem] flex flex-col overflow-hidden shrink-0">
+      <div className="p-4 border-b border-white/5 bg-black/20 flex justify-between items-center">
+        <h3 className="text-[9px] font-black text-gray-500 uppercase tracking-widest">
+          Balance Reconciliation {report && `:: ${report.unexplainedQbs.toFixed(6)} QBS Unexplained`}
+        </h3>
+        <button
+          onClick={runReconciliation}
+          disabled={isRunning}
+          className="px-4 py-1.5 rounded-lg text-[9px] font-black uppercase bg-orange-500 text-black disabled:opacity-50"
+        >
+          {isRunning ? 'Reconciling...' : 'Run Reconciliation'}
+        </button>
+      </div>
+
+      {error && <p className="px-4 pt-3 text-[10px] text-red-400">{error}</p>}
+
+      {report && (
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b border-white/5">
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black">Node</th>
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black text-right">Ledger</th>
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black text-right">Backed</th>
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black text-right">On Chain</th>
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black">Explained</th>
+              <th className="p-3 text-[9px] text-gray-500 uppercase font-black text-right">Unexplained</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {report.drifts.map(drift => (
+              <tr key={drift.address}>
+                <td className="p-3">
+                  <span className="block text-[10px] text-white font-bold uppercase">{drift.username}</span>
+                  <span className={`text-[8px] font-black uppercase ${STATUS_STYLES[drift.status]}`}>{drift.status.replace('_', ' ')}</span>
+                </td>
+                <td className="p-3 text-right text-[10px] text-white mono">{drift.ledgerQbs.toFixed(6)}</td>
+                <td className="p-3 text-right text-[10px] text-white mono">{drift.wallet ? drift.backedQbs.toFixed(6) : '—'}</td>
+                <td className="p-3 text-right text-[10px] text-white mono">{drift.wallet ? drift.onChainQbs.toFixed(6) : '—'}</td>
+                <td className="p-3 text-[8px] text-gray-400 mono">
+                  {drift.findings.map(finding => (
+                    <div key={finding.kind} title={finding.detail}>{finding.kind.replace('_', ' ')} {formatQbs(finding.amount)}</div>
+                  ))}
+                  {drift.offChain && (
+                    <div title={drift.offChain.detail} className="text-gray-600">OFF CHAIN {formatQbs(drift.offChain.amount)} (not corrected)</div>
+                  )}
+                </td>
+                <td className={`p-3 text-right text-[10px] font-black mono ${drift.unexplainedQbs !== 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                  {formatQbs(drift.unexplainedQbs)}
+                </td>
+                <td className="p-3 text-right">
+                  {drift.status === 'DRIFT' && !pending.some(c => c.address === drift.address) && (
+                    <button
+                      onClick={() => runAction(() => balanceReconciliation.proposeCorrection(drift))}
+                      className="px-3 py-1 rounded text-[8px] font-black uppercase bg-white/5 text-orange-400 border border-orange-500/20"
+                    >
+                      Propose Correction
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pending.length > 0 && (
+        <div className="p-4 border-t border-white/5 space-y-2">
+          <h4 className="text-[9px] font-black text-orange-500 uppercase tracking-widest">Awaiting Approval</h4>
+          {pending.map(correction => (
+            <div key={correction.id} className="flex items-center justify-between gap-4 p-3 bg-black/40 rounded-xl">
+              <div className="min-w-0">
+                <span className="block text-[10px] text-white font-black mono">{correction.address} {formatQbs(correction.amount)} QBS</span>
+                <span className="block text-[8px] text-gray-500 truncate">{correction.reason}</span>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => runAction(async () => onUserCorrected(await balanceReconciliation.approveCorrection(correction.id, admin)))}
+                  className="px-3 py-1 rounded text-[8px] font-black uppercase bg-green-600 text-black"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => runAction(() => balanceReconciliation.rejectCorrection(correction.id, admin))}
+                  className="px-3 py-1 rounded text-[8px] font-black uppercase bg-white/5 text-red-400 border border-red-500/20"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BalanceReconciliationPanel;
@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { SolvedBlock, ScientificAdvance, User, ScientificDossier, SovereignGrade, EvolutionProgress } from '../types';
+import { SolvedBlock, ScientificAdvance, User, ScientificDossier, SovereignGrade, EvolutionProgress, PeerReview } from '../types';
 import { getCosmicDomain, formatCurrency, GRADE_COLORS } from '../services/quantumLogic';
 import LatticeLogo from './LatticeLogo';
 import EvolutionProgressModal from './EvolutionProgressModal';
 import PDFExportModal from './PDFExportModal';
+import ChainIntegrityBadge from './ChainIntegrityBadge';
+import { verifyChain, ChainVerificationResult } from '../services/blockHashing';
+import { reviewDisagreement } from '../services/consensusGrading';
 
 interface BlocksArchiveProps {
   blocks: SolvedBlock[];
@@ -18,6 +21,40 @@ interface BlocksArchiveProps {
   onCancelEvolution?: (blockId: string) => void;
 }
 
+const ROLE_STYLES: Record<PeerReview['role'], string> = {
+  PRAGMATIST: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  VISIONARY: 'bg-purple-500/20 text-purple-400 border border-purple-500/30',
+  ETHICIST: 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+};
+
+const ReviewPanel: React.FC<{ reviews: PeerReview[]; grade?: SovereignGrade; quorum?: SolvedBlock['reviewQuorum'] }> = ({ reviews, grade, quorum }) => {
+  const { gradeSpread, scoreSpread, isSplit } = reviewDisagreement(reviews);
+
+  return (
+    <div className="bg-zinc-900/60 p-4 rounded-2xl border border-white/5 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[8px] text-gray-600 font-black uppercase">
+          Review Panel{quorum ? ` · ${quorum.answered}/${quorum.convened} answered` : ''}
+        </span>
+        <span className={`px-2 py-0.5 rounded text-[8px] font-black uppercase ${isSplit ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-green-500/10 text-green-400 border border-green-500/20'}`}>
+          {isSplit ? `Split ${gradeSpread} tier${gradeSpread === 1 ? '' : 's'} · Δ${scoreSpread}` : 'Unanimous'}
+        </span>
+      </div>
+      {reviews.map((review, i) => (
+        <div key={i} className="flex gap-3 items-start">
+          <span className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase shrink-0 ${ROLE_STYLES[review.role]}`}>{review.role}</span>
+          <div className="min-w-0">
+            <span className="text-[10px] font-black mono" style={{ color: GRADE_COLORS[review.grade] }}>
+              {review.grade} · {review.breakthroughScore}{review.grade !== grade ? ' (outvoted)' : ''}
+            </span>
+            <p className="text-[10px] text-gray-400 italic leading-relaxed">"{review.critique}"</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const ScientificHUD: React.FC<{ formula?: string; constants?: Record<string, string>; interpretation?: string }> = ({ formula, constants, interpretation }) => {
   return (
     <div className="bg-black/80 border border-green-500/30 rounded-[2.5rem] overflow-hidden shadow-[0_0_40px_rgba(34,197,94,0.1)] relative">
@@ -112,8 +149,19 @@ const BlocksArchive: React.FC<BlocksArchiveProps> = ({
   const [evolvingId, setEvolvingId] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [exportSuccess, setExportSuccess] = useState<boolean | null>(null);
+  const [chainStatus, setChainStatus] = useState<ChainVerificationResult | null>(null);
   const previewRef = useRef<HTMLDivElement>(null);
 
+  // Re-verify the parentHash chain whenever blocks are mined or evolved
+  useEffect(() => {
+    let cancelled = false;
+    setChainStatus(null);
+    verifyChain(blocks, currentUser?.address)
+      .then(result => { if (!cancelled) setChainStatus(result); })
+      .catch(() => { if (!cancelled) setChainStatus(null); });
+    return () => { cancelled = true; };
+  }, [blocks, currentUser?.address]);
+
   // Handle export completion feedback
   const handleExportComplete = (success: boolean) => {
     setExportSuccess(success);
@@ -176,6 +224,24 @@ const BlocksArchive: React.FC<BlocksArchiveProps> = ({
                              </div>
                           </div>
                        </section>
+
+                       {detailedBlock.submission && (
+                          <section className="space-y-4">
+                             <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest border-l-2 border-green-500 pl-4">Submitted Research</h3>
+                             <div className="bg-black/40 p-10 rounded-[3rem] border border-white/5 space-y-6 shadow-inner">
+                                {([
+                                   ['Hypothesis', detailedBlock.submission.hypothesis],
+                                   ['Formula', detailedBlock.submission.formula],
+                                   ['Supporting Notes', detailedBlock.submission.notes]
+                                ] as const).filter(([, text]) => text).map(([label, text]) => (
+                                   <div key={label} className="space-y-2">
+                                      <label className="text-[9px] font-black text-gray-600 uppercase tracking-widest">{label}</label>
+                                      <p className={`text-sm text-gray-300 leading-relaxed whitespace-pre-wrap break-words ${label === 'Formula' ? 'mono text-green-400' : ''}`}>{text}</p>
+                                   </div>
+                                ))}
+                             </div>
+                          </section>
+                       )}
                     </div>
 
                     <div className="lg:col-span-5 space-y-8">
@@ -221,6 +287,27 @@ const BlocksArchive: React.FC<BlocksArchiveProps> = ({
                                       </p>
                                    </div>
                                 )}
+
+                                {detailedBlock.nearDuplicateOf && (
+                                   <button
+                                      onClick={() => {
+                                         const prior = blocks.find(b => b.id === detailedBlock.nearDuplicateOf!.blockId);
+                                         if (prior) setDetailedBlock(prior);
+                                      }}
+                                      // Matches on another node's block cannot be opened from this archive
+                                      disabled={!blocks.some(b => b.id === detailedBlock.nearDuplicateOf!.blockId)}
+                                      className="w-full text-left bg-red-500/5 p-4 rounded-2xl border border-red-500/20 hover:border-red-500/40 disabled:hover:border-red-500/20 disabled:cursor-default transition-all"
+                                   >
+                                      <span className="block text-[8px] text-red-400 font-black uppercase mb-2">Near-Duplicate · Grade Lowered One Tier</span>
+                                      <span className="text-xs text-gray-300 font-mono">
+                                         {Math.round(detailedBlock.nearDuplicateOf.similarity * 100)}% match with {detailedBlock.nearDuplicateOf.blockId}'s {detailedBlock.nearDuplicateOf.field}
+                                      </span>
+                                   </button>
+                                )}
+
+                                {detailedBlock.peerReviews && detailedBlock.peerReviews.length > 0 && (
+                                   <ReviewPanel reviews={detailedBlock.peerReviews} grade={detailedBlock.grade} quorum={detailedBlock.reviewQuorum} />
+                                )}
                              </div>
                           </div>
                        </section>
@@ -262,6 +349,9 @@ const BlocksArchive: React.FC<BlocksArchiveProps> = ({
         <div>
           <h2 className="text-3xl font-black text-white uppercase tracking-tighter italic">Discovery Archive</h2>
           <p className="text-[11px] text-gray-500 font-black uppercase tracking-[0.4em]">Hardened Scientific Records</p>
+          <div className="mt-3">
+            <ChainIntegrityBadge result={chainStatus} />
+          </div>
         </div>
         <div className="bg-black/40 px-10 py-5 rounded-[2.5rem] border border-white/5">
            <span className="text-3xl font-black text-orange-500 mono">{blocks.length}</span>
@@ -279,6 +369,16 @@ const BlocksArchive: React.FC<BlocksArchiveProps> = ({
                 <div>
                    <span className="text-[9px] font-black uppercase tracking-widest" style={{ color: GRADE_COLORS[block.grade || 'B'] }}>MK {block.advancementLevel || 1} Shard</span>
                    <h3 className="text-lg font-black text-white uppercase italic leading-tight mt-2">{getCosmicDomain(Math.floor(block.shardIndex / 1000) + 1)}</h3>
+                   {block.peerReviews && reviewDisagreement(block.peerReviews).isSplit && (
+                      <span className="inline-block mt-2 px-2 py-0.5 rounded text-[8px] font-black uppercase bg-red-500/10 text-red-400 border border-red-500/20" title={block.peerReviews.map(r => `${r.role}: ${r.grade}`).join(' · ')}>
+                         Split Panel
+                      </span>
+                   )}
+                   {block.nearDuplicateOf && (
+                      <span className="inline-block mt-2 ml-1 px-2 py-0.5 rounded text-[8px] font-black uppercase bg-red-500/10 text-red-400 border border-red-500/20" title={`${Math.round(block.nearDuplicateOf.similarity * 100)}% similar to ${block.nearDuplicateOf.blockId}`}>
+                         Near-Duplicate
+                      </span>
+                   )}
                 </div>
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center text-[10px] font-black border border-white/10`} style={{ backgroundColor: GRADE_COLORS[block.grade || 'B'], color: 'white' }}>
                    {block.grade || 'B'}
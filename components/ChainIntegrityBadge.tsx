@@ -0,0 +1,47 @@
+import React from 'react';
+import { ChainVerificationResult } from '../services/blockHashing';
+
+interface ChainIntegrityBadgeProps {
+  result: ChainVerificationResult | null;
+  compact?: boolean;
+}
+
+const BREAK_LABELS = {
+  HASH_MISMATCH: 'Content altered',
+  PARENT_MISMATCH: 'Parent link broken',
+  INTEGRITY_MISMATCH: 'Registry seal altered',
+  POW_INVALID: 'Proof of work invalid',
+  SEAL_MISSING: 'Block seal stripped',
+  EVOLUTION_MISMATCH: 'Evolution record altered'
+} as const;
+
+const ChainIntegrityBadge: React.FC<ChainIntegrityBadgeProps> = ({ result, compact = false }) => {
+  if (!result) {
+    return (
+      <span className="px-3 py-1 rounded-full border border-white/10 text-[8px] font-black uppercase tracking-widest text-gray-500 animate-pulse">
+        Verifying Chain...
+      </span>
+    );
+  }
+
+  if (!result.valid && result.firstBreak) {
+    const { index, blockId, reason } = result.firstBreak;
+    return (
+      <span
+        title={`Expected ${result.firstBreak.expected}\nFound ${result.firstBreak.actual}`}
+        className="px-3 py-1 rounded-full border border-red-500/40 bg-red-500/10 text-[8px] font-black uppercase tracking-widest text-red-400"
+      >
+        Chain Broken{compact ? '' : ` @ #${index + 1} ${blockId} :: ${BREAK_LABELS[reason]}`}
+      </span>
+    );
+  }
+
+  return (
+    <span className="px-3 py-1 rounded-full border border-green-500/40 bg-green-500/10 text-[8px] font-black uppercase tracking-widest text-green-400">
+      Chain Verified{compact ? '' : ` :: ${result.checkedBlocks} Blocks`}
+      {!compact && result.legacyBlocks > 0 && ` (${result.legacyBlocks} Legacy)`}
+    </span>
+  );
+};
+
+export default ChainIntegrityBadge;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { EvaluationProviderId, EvaluationProviderSettings, LogEntry, User } from '../types';
+import { EVALUATION_PROVIDERS, DEFAULT_OPENAI_COMPATIBLE, createEvaluationProvider } from '../services/evaluationProvider';
+import { safeDeepSeekClient } from '../services/safeDeepSeekClient';
+import { apiKeyManager } from '../services/apiKeyManager';
+
+interface EvaluationProviderPanelProps {
+  user: User;
+  onUpdateUser: (updatedUser: User) => void;
+  addLog: (message: string, type: LogEntry['type']) => void;
+}
+
+const PROVIDER_IDS = Object.keys(EVALUATION_PROVIDERS) as EvaluationProviderId[];
+
+/**
+ * Per-node choice of the AI backend that grades and evolves breakthroughs
+ */
+const EvaluationProviderPanel: React.FC<EvaluationProviderPanelProps> = ({ user, onUpdateUser, addLog }) => {
+  const saved = user.evaluationProvider;
+  const [providerId, setProviderId] = useState<EvaluationProviderId>(saved?.id || 'deepseek');
+  const [baseUrl, setBaseUrl] = useState(saved?.baseUrl || DEFAULT_OPENAI_COMPATIBLE.baseUrl);
+  const [model, setModel] = useState(saved?.model || DEFAULT_OPENAI_COMPATIBLE.model);
+  const [endpointKey, setEndpointKey] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setError('');
+    if (providerId === 'openai-compatible' && !/^https?:\/\//.test(baseUrl.trim())) {
+      setError('Endpoint URL must start with http:// or https://');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (providerId === 'openai-compatible' && endpointKey.trim()) {
+        await apiKeyManager.storeEndpointKey(endpointKey.trim());
+        setEndpointKey('');
+      }
+
+      const settings: EvaluationProviderSettings = providerId === 'openai-compatible'
+        ? { id: providerId, baseUrl: baseUrl.trim(), model: model.trim() || DEFAULT_OPENAI_COMPATIBLE.model }
+        : { id: providerId };
+      const provider = createEvaluationProvider(settings);
+      safeDeepSeekClient.setProvider(provider);
+      onUpdateUser({ ...user, evaluationProvider: settings });
+      addLog(`AI: Breakthroughs will be evaluated by ${provider.name}.`, 'success');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {PROVIDER_IDS.map(id => (
+          <label
+            key={id}
+            className={`p-5 rounded-3xl border cursor-pointer transition-all ${providerId === id ? 'bg-green-500/10 border-green-500/40' : 'bg-black/40 border-white/5 hover:border-white/20'}`}
+          >
+            <input
+              type="radio"
+              name="evaluation-provider"
+              value={id}
+              checked={providerId === id}
+              onChange={() => setProviderId(id)}
+              className="sr-only"
+            />
+            <span className="block text-[11px] text-white font-black uppercase tracking-widest">{EVALUATION_PROVIDERS[id].name}</span>
+            <span className="block text-[9px] text-gray-500 font-bold mt-2">{EVALUATION_PROVIDERS[id].description}</span>
+          </label>
+        ))}
+      </div>
+
+      {providerId === 'openai-compatible' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            value={baseUrl}
+            onChange={e => setBaseUrl(e.target.value)}
+            placeholder={DEFAULT_OPENAI_COMPATIBLE.baseUrl}
+            className="w-full bg-black/60 border border-white/10 rounded-lg p-3 text-sm outline-none focus:border-green-500 transition-all text-white font-mono"
+          />
+          <input
+            value={model}
+            onChange={e => setModel(e.target.value)}
+            placeholder={DEFAULT_OPENAI_COMPATIBLE.model}
+            className="w-full bg-black/60 border border-white/10 rounded-lg p-3 text-sm outline-none focus:border-green-500 transition-all text-white font-mono"
+          />
+          <input
+            type="password"
+            value={endpointKey}
+            onChange={e => setEndpointKey(e.target.value)}
+            placeholder={apiKeyManager.hasEndpointKey() ? 'API key stored (encrypted)' : 'API key (optional)'}
+            className="w-full bg-black/60 border border-white/10 rounded-lg p-3 text-sm outline-none focus:border-green-500 transition-all text-white font-mono"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-[10px] text-red-400 font-black uppercase tracking-widest">{error}</p>}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="px-8 py-3 bg-green-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-green-400 transition-all disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Use This Provider'}
+      </button>
+    </div>
+  );
+};
+
+export default EvaluationProviderPanel;
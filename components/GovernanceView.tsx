@@ -1,7 +1,8 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { User, Proposal, UserVote } from '../types';
-import { QBS_UNITS } from '../services/quantumLogic';
+import { User, Proposal, UserVote, ProtocolParameters, ProtocolParameterChange } from '../types';
+import { votingPowerQuarks } from '../services/staking';
+import { canExecuteProposal, describeParameterChange, readParameter, validateParameterChanges } from '../services/governanceEngine';
 import LatticeLogo from './LatticeLogo';
 
 interface GovernanceViewProps {
@@ -11,9 +12,27 @@ interface GovernanceViewProps {
   onNewProposal: (proposal: Partial<Proposal>) => void;
   onExecute: (proposalId: string) => void;
   onJoin: (proposalId: string) => void;
+  parameters?: ProtocolParameters;
 }
 
-const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote, onNewProposal, onExecute, onJoin }) => {
+// Protocol parameters an ECONOMIC initiative can retune
+const PARAMETER_TARGETS: ProtocolParameterChange[] = [
+  { parameter: 'LEASE_COSTS', key: 'MESSAGING', value: 0 },
+  { parameter: 'LEASE_COSTS', key: 'MINING', value: 0 },
+  { parameter: 'EVOLUTION_COST_USD', value: 0 },
+  { parameter: 'GRADE_MULTIPLIERS', key: 'S', value: 0 },
+  { parameter: 'GRADE_MULTIPLIERS', key: 'A', value: 0 },
+  { parameter: 'GRADE_MULTIPLIERS', key: 'B', value: 0 },
+  { parameter: 'GRADE_MULTIPLIERS', key: 'C', value: 0 }
+];
+
+const CLOSE_REASON_LABELS: Record<NonNullable<Proposal['closeReason']>, string> = {
+  MAJORITY_FOR: 'Majority Affirmed',
+  MAJORITY_AGAINST: 'Majority Rejected',
+  QUORUM_NOT_MET: 'Quorum Not Met'
+};
+
+const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote, onNewProposal, onExecute, onJoin, parameters }) => {
   const [activeTab, setActiveTab] = useState<'ACTIVE' | 'ARCHIVED'>('ACTIVE');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [inspectedProposal, setInspectedProposal] = useState<Proposal | null>(null);
@@ -22,26 +41,53 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
   const [newTitle, setNewTitle] = useState('');
   const [newDesc, setNewDesc] = useState('');
   const [newCategory, setNewCategory] = useState<'ECONOMIC' | 'SCIENTIFIC' | 'SECURITY'>('SCIENTIFIC');
+  const [newChanges, setNewChanges] = useState<ProtocolParameterChange[]>([]);
+  const [changeTarget, setChangeTarget] = useState(0);
+  const [changeValue, setChangeValue] = useState('');
+  const [changeError, setChangeError] = useState<string | null>(null);
 
   const totalWeightQBS = user.balance + (user.stakedBalance || 0);
-  const totalWeightQuarks = Math.round(totalWeightQBS * QBS_UNITS.QRK);
+  const totalWeightQuarks = votingPowerQuarks(user);
+  // Votes lock liquid QBS first, then stake, until the proposal settles
+  const lockableQuarks = totalWeightQuarks;
   const repBonus = (user.reputationScore || 0) / 1000;
   const rankMultiplier = 1 + repBonus;
 
   const handleVoteAction = (proposalId: string, type: 'FOR' | 'AGAINST') => {
     const amountStr = voteAmounts[proposalId] || '1000';
     const amount = parseInt(amountStr, 10);
-    if (isNaN(amount) || amount <= 0 || amount > totalWeightQuarks) return;
+    if (isNaN(amount) || amount <= 0 || amount > lockableQuarks) return;
     onVote(proposalId, type, amount);
   };
 
+  const handleAddChange = () => {
+    const change = { ...PARAMETER_TARGETS[changeTarget], value: parseFloat(changeValue) } as ProtocolParameterChange;
+    const errors = validateParameterChanges([change]);
+    if (errors.length > 0) return setChangeError(errors[0]);
+    const name = describeParameterChange(change);
+    setNewChanges([...newChanges.filter(c => describeParameterChange(c) !== name), change]);
+    setChangeValue('');
+    setChangeError(null);
+  };
+
   const handleCreateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTitle || !newDesc) return;
-    onNewProposal({ title: newTitle, description: newDesc, category: newCategory });
+    const parameterChanges = newCategory === 'ECONOMIC' ? newChanges : [];
+    onNewProposal({
+      title: newTitle,
+      description: newDesc,
+      category: newCategory,
+      parameterChanges: parameterChanges.length > 0 ? parameterChanges : undefined,
+      technicalParameters: parameterChanges.length > 0
+        ? parameterChanges.map(c => `${describeParameterChange(c)}: ${c.value}`)
+        : undefined
+    });
     setShowCreateModal(false);
     setNewTitle('');
     setNewDesc('');
+    setNewChanges([]);
+    setChangeError(null);
   };
 
   const filteredProposals = proposals.filter(p => 
@@ -186,6 +232,12 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                        <span>Proposer: <span className="text-white">{p.proposer}</span></span>
                        <span>Funds Staked: <span className="text-purple-400">{(p.totalQuarksStaked || 0).toLocaleString()} QRK</span></span>
                     </div>
+                    <div className="mt-3 flex justify-between items-center text-[9px] uppercase font-black text-gray-600">
+                       <span>Voters: <span className="text-white">{Object.keys(p.votes || {}).length}</span></span>
+                       {p.votes?.[user.address] && (
+                         <span>Your Vote: <span className={p.votes[user.address].type === 'FOR' ? 'text-green-500' : 'text-red-500'}>{p.votes[user.address].type}</span></span>
+                       )}
+                    </div>
                  </div>
 
                  {/* PROGRESS BARS */}
@@ -229,6 +281,9 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                           <div className={`px-2 py-0.5 rounded-full border border-green-500/20 bg-green-500/10 text-[8px] font-black uppercase text-green-500`}>
                              {inspectedProposal.status}
                           </div>
+                          {inspectedProposal.closeReason && (
+                            <span className="text-[8px] font-black text-gray-500 uppercase tracking-widest">{CLOSE_REASON_LABELS[inspectedProposal.closeReason]}</span>
+                          )}
                        </div>
                     </div>
                  </div>
@@ -261,6 +316,25 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                           </div>
                        </section>
 
+                       {inspectedProposal.parameterChanges && inspectedProposal.parameterChanges.length > 0 && (
+                         <section className="space-y-4">
+                            <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest border-l-2 border-green-500 pl-4">Protocol Parameter Changes</h3>
+                            <div className="grid grid-cols-1 gap-2">
+                               {inspectedProposal.parameterChanges.map((change, i) => (
+                                 <div key={i} className="bg-zinc-800/40 p-4 rounded-xl border border-white/5 flex justify-between items-center">
+                                    <span className="text-[10px] font-black text-white mono uppercase">{describeParameterChange(change)}</span>
+                                    <span className="text-[10px] font-bold text-green-400 mono">
+                                       {parameters && inspectedProposal.status !== 'COMPLETED' ? `${readParameter(parameters, change)} → ` : ''}{change.value}
+                                    </span>
+                                 </div>
+                               ))}
+                            </div>
+                            {inspectedProposal.executedAt && (
+                              <p className="text-[9px] text-gray-600 font-black uppercase tracking-widest px-2">Executed {new Date(inspectedProposal.executedAt).toLocaleString()} by <span className="mono">{inspectedProposal.executedBy}</span></p>
+                            )}
+                         </section>
+                       )}
+
                        <section className="space-y-4">
                           <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest border-l-2 border-purple-500 pl-4">Lattice Control Parameters</h3>
                           <div className="grid grid-cols-1 gap-2">
@@ -290,7 +364,7 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                                 <div className="space-y-4">
                                    <div className="flex justify-between items-center px-2">
                                       <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Your Weight Allocation (Quarks)</label>
-                                      <span className="text-[10px] text-purple-400 font-bold mono">Available: {totalWeightQuarks.toLocaleString()}</span>
+                                      <span className="text-[10px] text-purple-400 font-bold mono">Lockable: {lockableQuarks.toLocaleString()}</span>
                                    </div>
                                    <input 
                                      type="number" 
@@ -315,12 +389,15 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                              <div className="space-y-6">
                                 <button 
                                    onClick={() => { onExecute(inspectedProposal.id); setInspectedProposal(null); }}
-                                   disabled={inspectedProposal.status !== 'PASSED'}
+                                   disabled={inspectedProposal.status !== 'PASSED' || !canExecuteProposal(inspectedProposal, user)}
                                    className={`w-full py-8 rounded-[2.5rem] text-[12px] font-black uppercase tracking-[0.4em] transition-all ${
-                                      inspectedProposal.status === 'PASSED' ? 'bg-blue-600 text-white hover:bg-blue-500 shadow-2xl' : 'bg-zinc-800 text-gray-600 cursor-not-allowed'
+                                      inspectedProposal.status === 'PASSED' && canExecuteProposal(inspectedProposal, user) ? 'bg-blue-600 text-white hover:bg-blue-500 shadow-2xl' : 'bg-zinc-800 text-gray-600 cursor-not-allowed'
                                    }`}
                                 >
-                                   {inspectedProposal.status === 'EXECUTING' ? 'INITIATIVE LIVE' : 'Commit Final Execution'}
+                                   {inspectedProposal.status === 'EXECUTING' ? 'INITIATIVE LIVE' :
+                                    inspectedProposal.status === 'COMPLETED' ? 'PARAMETERS APPLIED' :
+                                    inspectedProposal.status === 'REJECTED' ? 'RESOLUTION REJECTED' :
+                                    !canExecuteProposal(inspectedProposal, user) ? 'AWAITING PROPOSER' : 'Commit Final Execution'}
                                 </button>
                                 <button 
                                    onClick={() => { onJoin(inspectedProposal.id); setInspectedProposal(null); }}
@@ -382,6 +459,36 @@ const GovernanceView: React.FC<GovernanceViewProps> = ({ user, proposals, onVote
                          <button key={cat} type="button" onClick={() => setNewCategory(cat)} className={`py-4 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${newCategory === cat ? 'bg-purple-600 text-white' : 'bg-zinc-800 text-gray-600 border-white/5 hover:border-white/10'}`}>{cat}</button>
                        ))}
                     </div>
+                    {newCategory === 'ECONOMIC' && (
+                      <div className="space-y-3">
+                         <div className="flex gap-3">
+                            <select
+                              value={changeTarget}
+                              onChange={e => setChangeTarget(parseInt(e.target.value, 10))}
+                              className="flex-1 bg-black/60 border border-white/10 rounded-xl p-4 text-[10px] font-black text-white mono uppercase outline-none focus:border-purple-500"
+                            >
+                               {PARAMETER_TARGETS.map((target, i) => (
+                                 <option key={i} value={i}>
+                                   {describeParameterChange(target)}{parameters ? ` (now ${readParameter(parameters, target)})` : ''}
+                                 </option>
+                               ))}
+                            </select>
+                            <input
+                              type="number" step="any" placeholder="New value"
+                              value={changeValue} onChange={e => setChangeValue(e.target.value)}
+                              className="w-32 bg-black/60 border border-white/10 rounded-xl p-4 text-sm text-white mono outline-none focus:border-purple-500"
+                            />
+                            <button type="button" onClick={handleAddChange} className="px-5 bg-zinc-800 text-white rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/10 hover:border-purple-500">Add</button>
+                         </div>
+                         {changeError && <p className="text-[9px] text-red-500 font-black uppercase tracking-widest px-2">{changeError}</p>}
+                         {newChanges.map((change, i) => (
+                           <div key={i} className="bg-zinc-800/40 p-3 rounded-xl border border-white/5 flex justify-between items-center">
+                              <span className="text-[10px] font-black text-white mono uppercase">{describeParameterChange(change)} → {change.value}</span>
+                              <button type="button" onClick={() => setNewChanges(newChanges.filter((_, j) => j !== i))} className="text-[10px] text-gray-500 hover:text-red-500 font-black">×</button>
+                           </div>
+                         ))}
+                      </div>
+                    )}
                  </div>
 
                  <div className="bg-purple-500/5 p-6 rounded-[2rem] border border-purple-500/10 text-center">
@@ -6,6 +6,8 @@ interface LedgerPanelProps {
   transactions: Transaction[];
 }
 
+const INFLOW_TYPES: Transaction['type'][] = ['CREDIT', 'TRANSFER_IN', 'VOTE_UNLOCK', 'GOVERNANCE_REWARD', 'YIELD', 'UNSTAKE'];
+
 const LedgerPanel: React.FC<LedgerPanelProps> = ({ transactions }) => {
   return (
     <div className="bg-zinc-900/50 border border-white/10 rounded-2xl flex flex-col h-full overflow-hidden">
@@ -27,7 +29,7 @@ const LedgerPanel: React.FC<LedgerPanelProps> = ({ transactions }) => {
                 <div className="flex justify-between items-start mb-3">
                   <div className="flex flex-col">
                     <span className={`text-[10px] font-black uppercase tracking-tight ${
-                      tx.type === 'CREDIT' || tx.type === 'TRANSFER_IN' ? 'text-green-500' : 'text-red-400'
+                      INFLOW_TYPES.includes(tx.type) ? 'text-green-500' : 'text-red-400'
                     }`}>
                       {tx.type.replace('_', ' ')} // {tx.description}
                     </span>
@@ -35,9 +37,9 @@ const LedgerPanel: React.FC<LedgerPanelProps> = ({ transactions }) => {
                   </div>
                   <div className="flex flex-col items-end">
                     <span className={`text-[12px] font-black mono ${
-                      tx.type === 'CREDIT' || tx.type === 'TRANSFER_IN' ? 'text-green-400' : 'text-red-400'
+                      INFLOW_TYPES.includes(tx.type) ? 'text-green-400' : 'text-red-400'
                     }`}>
-                      {tx.type === 'CREDIT' || tx.type === 'TRANSFER_IN' ? '+' : '-'}{parseFloat(tx.amount).toLocaleString()} {tx.unit}
+                      {INFLOW_TYPES.includes(tx.type) ? '+' : '-'}{parseFloat(tx.amount).toLocaleString()} {tx.unit}
                     </span>
                   </div>
                 </div>
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { LogEntry, User } from '../types';
+import { walletLinks, getLinkedWallets } from '../services/walletLinks';
+import { getAddressExplorerUrl, getNetworkConfig } from '../services/networkConfig';
+
+interface LinkedWalletsPanelProps {
+  user: User;
+  onUpdateUser: (updatedUser: User) => void;
+  addLog: (message: string, type: LogEntry['type']) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * External wallets proven by signature, per chain, and the payout wallet that
+ * rewards are minted and claimed to
+ */
+const LinkedWalletsPanel: React.FC<LinkedWalletsPanelProps> = ({ user, onUpdateUser, addLog }) => {
+  const [isLinking, setIsLinking] = useState(false);
+  const [error, setError] = useState('');
+
+  const runAction = async (action: () => User | Promise<User>, message: string) => {
+    setError('');
+    try {
+      onUpdateUser(await action());
+      addLog(`WALLETS: ${message}`, 'success');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleLink = async () => {
+    setIsLinking(true);
+    await runAction(() => walletLinks.linkConnectedWallet(user), 'External wallet linked by signed challenge.');
+    setIsLinking(false);
+  };
+
+  const wallets = getLinkedWallets(user);
+
+  return (
+    <div className="bg-zinc-900/60 border border-white/10 p-10 rounded-[4rem] shadow-2xl relative overflow-hidden shrink-0">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 mb-8">
+        <div>
+          <h2 className="text-3xl font-black text-white uppercase tracking-tighter">Linked Wallets</h2>
+          <p className="text-[10px] text-orange-400 font-bold tracking-[0.4em] uppercase mt-1">Signed Wallet Proofs :: Reward Payout</p>
+        </div>
+        <button
+          onClick={handleLink}
+          disabled={isLinking}
+          className="px-8 py-3 bg-orange-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-orange-400 transition-all disabled:opacity-50"
+        >
+          {isLinking ? 'Awaiting Signature...' : 'Link Connected Wallet'}
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-[10px] text-red-400 font-black uppercase tracking-widest">{error}</p>}
+
+      {wallets.length === 0 ? (
+        <div className="bg-black/40 p-6 rounded-3xl border border-white/5 text-center">
+          <p className="text-[10px] text-gray-500 font-black uppercase tracking-widest">
+            No wallets linked. Rewards are held until a payout wallet is linked.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {wallets.map(wallet => {
+            const isPayout = wallet.address === user.payoutAddress;
+            return (
+              <div key={`${wallet.chainId}:${wallet.address}`} className="bg-black/40 p-5 rounded-3xl border border-white/5 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <a
+                    href={getAddressExplorerUrl(wallet.chainId, wallet.address)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-[11px] text-blue-300 mono hover:underline"
+                    title={wallet.address}
+                  >
+                    {shortAddress(wallet.address)}
+                  </a>
+                  <span className="block text-[8px] text-gray-600 font-black uppercase tracking-widest mt-1">
+                    {getNetworkConfig(wallet.chainId)?.name || `Chain ${wallet.chainId}`} · Linked {new Date(wallet.linkedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {isPayout ? (
+                    <span className="px-3 py-1 rounded text-[8px] font-black uppercase bg-green-500/10 text-green-400 border border-green-500/20">Payout</span>
+                  ) : (
+                    <button
+                      onClick={() => runAction(() => walletLinks.setPayoutAddress(user, wallet.address), `Payout wallet set to ${shortAddress(wallet.address)}.`)}
+                      className="px-3 py-1 rounded text-[8px] font-black uppercase bg-white/5 text-orange-400 border border-orange-500/20"
+                    >
+                      Make Payout
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(() => walletLinks.unlinkWallet(user, wallet.address, wallet.chainId), `${shortAddress(wallet.address)} unlinked.`)}
+                    className="px-3 py-1 rounded text-[8px] font-black uppercase bg-white/5 text-red-400 border border-red-500/20"
+                  >
+                    Unlink
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkedWalletsPanel;
@@ -1,65 +1,78 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, LatticePool } from '../types';
+import { User, LatticePool, CandleInterval } from '../types';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 import { QBS_UNITS } from '../services/quantumLogic';
+import { STAKING_CONFIG } from '../services/staking';
+import { POOL_CONFIG, quoteSwap, latticePool } from '../services/latticePool';
+
+// Chart ranges and the candle interval each is drawn from
+const CHART_RANGES: { label: string; interval: CandleInterval; spanMs: number }[] = [
+  { label: '24H', interval: '1h', spanMs: 24 * 3600000 },
+  { label: '7D', interval: '1h', spanMs: 7 * 24 * 3600000 },
+  { label: '30D', interval: '1d', spanMs: 30 * 24 * 3600000 },
+  { label: '1Y', interval: '1d', spanMs: 365 * 24 * 3600000 }
+];
 
 interface MarketViewProps {
   user: User;
   pool: LatticePool;
-  onSwap: (fromUnit: 'QRK' | 'USD', amount: number) => void;
+  onSwap: (fromUnit: 'QRK' | 'USD', amount: number, minAmountOut: number) => void;
   onStake: (amount: number, unit: 'QBS' | 'SHD' | 'QRK') => void;
+  onUnstake: (amount: number, unit: 'QBS' | 'SHD' | 'QRK') => void;
   onPurchase: (usdAmount: number) => void;
 }
 
-const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, onPurchase }) => {
+const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, onUnstake, onPurchase }) => {
   const [fromUnit, setFromUnit] = useState<'QRK' | 'USD'>('QRK');
   const [amount, setAmount] = useState('');
+  const [slippage, setSlippage] = useState(POOL_CONFIG.DEFAULT_SLIPPAGE);
   const [stakeAmount, setStakeAmount] = useState('');
   const [stakeUnit, setStakeUnit] = useState<'QBS' | 'SHD' | 'QRK'>('QBS');
+  const [stakeMode, setStakeMode] = useState<'STAKE' | 'UNSTAKE'>('STAKE');
   const [purchaseAmount, setPurchaseAmount] = useState('');
   const [isPurchasing, setIsPurchasing] = useState(false);
-  const [chartData, setChartData] = useState<{ time: string, price: number }[]>([]);
+  const [chartRange, setChartRange] = useState(0);
+  const [chartData, setChartData] = useState<{ time: string, price: number, high: number, low: number }[]>([]);
   const [copyFeedback, setCopyFeedback] = useState(false);
 
   const BTC_DONATION_ADDR = "bc1q0lzr6pfs24qt0f9qwhlhalhyjtfrhp9qz0esd3";
   const QUARKS_PER_TOKEN = QBS_UNITS.QRK; 
 
   useEffect(() => {
-    // Generate simulated historical data
-    const data = [];
-    const now = Date.now();
-    for (let i = 24; i >= 0; i--) {
-      data.push({
-        time: new Date(now - i * 3600000).toLocaleTimeString([], { hour: '2-digit' }),
-        price: (pool.lastPrice / QUARKS_PER_TOKEN) * (0.95 + Math.random() * 0.1)
-      });
-    }
-    setChartData(data);
-  }, [pool.lastPrice]);
+    // Candles of executed swaps; reloads after each swap moves the pool volume
+    const range = CHART_RANGES[chartRange];
+    let cancelled = false;
+    latticePool.getPriceHistory(range.interval, Date.now() - range.spanMs)
+      .then(candles => {
+        if (cancelled) return;
+        setChartData(candles.map(candle => ({
+          time: range.interval === '1h'
+            ? new Date(candle.openTime).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' })
+            : new Date(candle.openTime).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+          price: candle.close / QUARKS_PER_TOKEN,
+          high: candle.high / QUARKS_PER_TOKEN,
+          low: candle.low / QUARKS_PER_TOKEN
+        })));
+      })
+      .catch(err => console.error('Price history unavailable:', err));
+    return () => { cancelled = true; };
+  }, [chartRange, pool.totalVolumeUsd]);
 
   const currentPricePerQuark = pool.lastPrice / QUARKS_PER_TOKEN;
 
   const swapCalculation = useMemo(() => {
     const amt = parseFloat(amount) || 0;
-    if (amt <= 0) return { output: 0, priceImpact: 0 };
+    if (amt <= 0) return { output: 0, priceImpact: 0, fee: 0, minOutput: 0 };
 
-    if (fromUnit === 'QRK') {
-      const qbsDelta = amt / QUARKS_PER_TOKEN;
-      const newQbsReserve = pool.qbsReserve + qbsDelta;
-      const newUsdReserve = pool.kConstant / newQbsReserve;
-      const output = pool.usdReserve - newUsdReserve;
-      const priceImpact = ((output / amt) / currentPricePerQuark - 1) * 100;
-      return { output, priceImpact: Math.abs(priceImpact) };
-    } else {
-      const newUsdReserve = pool.usdReserve + amt;
-      const newQbsReserve = pool.kConstant / newUsdReserve;
-      const qbsDelta = pool.qbsReserve - newQbsReserve;
-      const output = qbsDelta * QUARKS_PER_TOKEN;
-      const priceImpact = ((amt / output) / currentPricePerQuark - 1) * 100;
-      return { output, priceImpact: Math.abs(priceImpact) };
-    }
-  }, [amount, fromUnit, pool, currentPricePerQuark]);
+    const quote = quoteSwap(pool, fromUnit, amt);
+    return {
+      output: quote.amountOut,
+      priceImpact: quote.priceImpact,
+      fee: quote.fee,
+      minOutput: quote.amountOut * (1 - slippage)
+    };
+  }, [amount, fromUnit, pool, slippage]);
 
   const stakeImpact = useMemo(() => {
     const amt = parseFloat(stakeAmount) || 0;
@@ -112,9 +125,26 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
               <div className="absolute top-8 right-8 z-10 text-right">
                  <span className="block text-[8px] text-gray-500 font-black uppercase mb-1">Spot Price</span>
                  <span className="text-3xl font-black text-green-500 mono">${currentPricePerQuark.toFixed(4)}</span>
+                 <div className="flex gap-1 justify-end mt-2">
+                    {CHART_RANGES.map((range, index) => (
+                       <button
+                         key={range.label}
+                         onClick={() => setChartRange(index)}
+                         className={`text-[8px] px-2 py-0.5 rounded font-black uppercase transition-all ${chartRange === index ? 'bg-orange-500 text-black' : 'bg-white/5 text-gray-600 hover:text-white'}`}
+                       >
+                          {range.label}
+                       </button>
+                    ))}
+                 </div>
               </div>
+
+              {chartData.length === 0 && (
+                 <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <span className="text-[10px] text-gray-600 font-black uppercase tracking-widest">No swaps executed in this range</span>
+                 </div>
+              )}
               
-              <div className="absolute inset-0 pt-24 pb-4">
+              <div className="absolute inset-0 pt-28 pb-4">
                  <ResponsiveContainer width="100%" height="100%">
                     <AreaChart data={chartData}>
                        <defs>
@@ -128,6 +158,10 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
                           labelStyle={{ color: '#666', fontSize: '10px' }}
                           itemStyle={{ color: '#f7931a', fontSize: '12px', fontWeight: 'bold' }}
                        />
+                       <XAxis dataKey="time" hide />
+                       <YAxis domain={['auto', 'auto']} hide />
+                       <Area type="monotone" dataKey="high" stroke="#f7931a" strokeOpacity={0.2} strokeWidth={1} fill="none" />
+                       <Area type="monotone" dataKey="low" stroke="#f7931a" strokeOpacity={0.2} strokeWidth={1} fill="none" />
                        <Area type="monotone" dataKey="price" stroke="#f7931a" strokeWidth={3} fillOpacity={1} fill="url(#colorPrice)" />
                     </AreaChart>
                  </ResponsiveContainer>
@@ -240,19 +274,47 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
                     <div className="flex gap-4">
                        <div className="bg-black/40 px-4 py-2 rounded-xl border border-white/5">
                           <span className="block text-[7px] text-gray-500 font-black uppercase">Staking Reward</span>
-                          <span className="text-xl font-black text-green-400">12.4% <span className="text-[8px] uppercase">APY</span></span>
+                          <span className="text-xl font-black text-green-400">{(STAKING_CONFIG.APY * 100).toFixed(1)}% <span className="text-[8px] uppercase">APY</span></span>
                        </div>
                        <div className="bg-black/40 px-4 py-2 rounded-xl border border-white/5">
                           <span className="block text-[7px] text-gray-500 font-black uppercase">Staked Balance</span>
                           <span className="text-xl font-black text-blue-400">{(user.stakedBalance || 0).toFixed(4)} QBS</span>
                        </div>
+                       <div className="bg-black/40 px-4 py-2 rounded-xl border border-white/5">
+                          <span className="block text-[7px] text-gray-500 font-black uppercase">Unbonding</span>
+                          <span className="text-xl font-black text-purple-400">{(user.unbondingBalance || 0).toFixed(4)} QBS</span>
+                       </div>
                     </div>
+                    <p className="text-[9px] text-gray-500 font-medium">
+                      Yield accrues every minute while staked. Unbonded magnitude returns to your balance after {STAKING_CONFIG.UNBONDING_PERIOD_MS / 86400000} days.
+                    </p>
+                    {(user.unbonding || []).length > 0 && (
+                       <div className="space-y-1">
+                          {(user.unbonding || []).map(entry => (
+                             <div key={entry.id} className="flex justify-between bg-black/40 px-3 py-1.5 rounded-lg border border-white/5">
+                                <span className="text-[9px] text-purple-300 font-bold mono">{entry.amount.toFixed(4)} QBS</span>
+                                <span className="text-[9px] text-gray-500 mono">Available {new Date(entry.availableAt).toLocaleString()}</span>
+                             </div>
+                          ))}
+                       </div>
+                    )}
                  </div>
                  
                  <div className="bg-black/60 p-6 rounded-[2.5rem] border border-white/10 w-full md:w-80 space-y-4">
+                    <div className="flex bg-zinc-900/80 rounded-xl p-1">
+                       {(['STAKE', 'UNSTAKE'] as const).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => setStakeMode(mode)}
+                            className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${stakeMode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-white'}`}
+                          >
+                             {mode === 'STAKE' ? 'Commit' : 'Unbond'}
+                          </button>
+                       ))}
+                    </div>
                     <div className="space-y-1">
                        <div className="flex justify-between items-center px-2">
-                          <label className="text-[8px] text-gray-500 font-black uppercase tracking-widest">Commit Magnitude</label>
+                          <label className="text-[8px] text-gray-500 font-black uppercase tracking-widest">{stakeMode === 'STAKE' ? 'Commit Magnitude' : 'Unbond Magnitude'}</label>
                           <div className="flex gap-1">
                              {(['QBS', 'SHD', 'QRK'] as const).map(u => (
                                 <button 
@@ -274,7 +336,7 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
                        />
                     </div>
                     
-                    {parseFloat(stakeAmount) > 0 && (
+                    {stakeMode === 'STAKE' && parseFloat(stakeAmount) > 0 && (
                        <div className="bg-blue-500/5 border border-blue-500/10 p-4 rounded-2xl space-y-2 animate-in slide-in-from-bottom-2 duration-300">
                           <div className="flex justify-between items-center">
                              <span className="text-[9px] text-gray-500 font-black uppercase">Supply Squeeze</span>
@@ -289,13 +351,14 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
 
                     <button 
                        onClick={() => {
-                          onStake(parseFloat(stakeAmount), stakeUnit);
+                          if (stakeMode === 'STAKE') onStake(parseFloat(stakeAmount), stakeUnit);
+                          else onUnstake(parseFloat(stakeAmount), stakeUnit);
                           setStakeAmount('');
                        }}
                        disabled={!stakeAmount || parseFloat(stakeAmount) <= 0}
                        className="w-full py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-blue-500 shadow-xl shadow-blue-500/20 active:scale-95 transition-all disabled:opacity-30"
                     >
-                       Commit to Vault
+                       {stakeMode === 'STAKE' ? 'Commit to Vault' : 'Begin Unbonding'}
                     </button>
                  </div>
               </div>
@@ -372,12 +435,34 @@ const MarketView: React.FC<MarketViewProps> = ({ user, pool, onSwap, onStake, on
                          {swapCalculation.priceImpact.toFixed(4)}%
                       </span>
                    </div>
+                   <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+                      <span className="text-gray-500">Pool Fee ({(POOL_CONFIG.FEE_RATE * 100).toFixed(1)}%)</span>
+                      <span className="text-white">{swapCalculation.fee.toLocaleString(undefined, { maximumFractionDigits: 4 })} {fromUnit}</span>
+                   </div>
+                   <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+                      <span className="text-gray-500">Slippage Limit</span>
+                      <div className="flex gap-1">
+                         {[0.001, 0.005, 0.01].map(tolerance => (
+                            <button
+                              key={tolerance}
+                              onClick={() => setSlippage(tolerance)}
+                              className={`px-1.5 py-0.5 rounded ${slippage === tolerance ? 'bg-orange-500 text-black' : 'bg-white/5 text-gray-600 hover:text-white'}`}
+                            >
+                               {(tolerance * 100).toFixed(1)}%
+                            </button>
+                         ))}
+                      </div>
+                   </div>
+                   <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+                      <span className="text-gray-500">Minimum Received</span>
+                      <span className="text-white">{swapCalculation.minOutput.toLocaleString(undefined, { maximumFractionDigits: fromUnit === 'QRK' ? 2 : 0 })} {fromUnit === 'QRK' ? 'USD' : 'QRK'}</span>
+                   </div>
                 </div>
               )}
            </div>
 
            <button 
-             onClick={() => onSwap(fromUnit, parseFloat(amount))}
+             onClick={() => onSwap(fromUnit, parseFloat(amount), swapCalculation.minOutput)}
              disabled={!amount || parseFloat(amount) <= 0}
              className={`mt-12 w-full py-6 rounded-[2.5rem] font-black text-[12px] uppercase tracking-[0.4em] transition-all shadow-2xl active:scale-95 ${
                amount && parseFloat(amount) > 0 
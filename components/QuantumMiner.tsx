@@ -1,14 +1,16 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { QuantumProof } from '../types';
+import { QuantumProof, ResearchSubmission } from '../types';
 import LatticeLogo from './LatticeLogo';
 import DeepSeekStatusIndicator from './DeepSeekStatusIndicator';
+import { SUBMISSION_LIMITS, validateSubmission } from '../services/researchSubmission';
 
 interface QuantumMinerProps {
   isMining: boolean;
   progress: number;
   problem: string;
-  onStart: () => void;
+  // Mines the submission when given, else a frontier shard; returns a rejection reason
+  onStart: (submission?: ResearchSubmission) => string | null;
   balance: number;
   lastProof?: QuantumProof;
   isVerifying: boolean;
@@ -19,12 +21,36 @@ interface QuantumMinerProps {
   publicRemaining?: number;
   miningActive?: boolean;
   activeInitiative?: string;
+  powDifficulty?: number;
 }
 
 const QuantumMiner: React.FC<QuantumMinerProps> = ({ 
-  isMining, progress, problem, onStart, balance, lastProof, isVerifying, collaborators, shardId, solvedCount, integrityStatus, publicRemaining = 0, miningActive = false, activeInitiative
+  isMining, progress, problem, onStart, balance, lastProof, isVerifying, collaborators, shardId, solvedCount, integrityStatus, publicRemaining = 0, miningActive = false, activeInitiative, powDifficulty
 }) => {
   const [currentTask, setCurrentTask] = useState('Standby');
+  const [mode, setMode] = useState<'frontier' | 'research'>('frontier');
+  const [submission, setSubmission] = useState<ResearchSubmission>({ hypothesis: '', formula: '', notes: '' });
+  const [rejection, setRejection] = useState<string | null>(null);
+
+  const submissionErrors = useMemo(() => validateSubmission(submission), [submission]);
+  const hasDraft = Boolean(submission.hypothesis || submission.formula || submission.notes);
+
+  const updateSubmission = (field: keyof ResearchSubmission, value: string) => {
+    setSubmission(prev => ({ ...prev, [field]: value }));
+    setRejection(null);
+  };
+
+  const handleStart = () => {
+    if (mode === 'frontier') {
+      onStart();
+      return;
+    }
+    const reason = onStart(submission);
+    setRejection(reason);
+    if (!reason) {
+      setSubmission({ hypothesis: '', formula: '', notes: '' });
+    }
+  };
 
   const QUARKS_PER_TOKEN = 1000000000; 
   const totalQuarksOwned = Math.round(balance * QUARKS_PER_TOKEN);
@@ -133,7 +159,7 @@ const QuantumMiner: React.FC<QuantumMinerProps> = ({
                  <span className={`text-[12px] font-black tracking-widest ${isVerifying ? 'text-blue-400' : 'text-orange-500'} animate-pulse uppercase`}>
                    {isVerifying ? 'Council Deliberation' : `Resolution: ${Math.floor(progress)}%`}
                  </span>
-                 <p className="text-[8px] text-gray-400 mt-4 uppercase font-black text-center leading-relaxed max-w-xs">
+                 <p className="text-[8px] text-gray-400 mt-4 uppercase font-black text-center leading-relaxed max-w-xs line-clamp-4">
                    {isMining ? problem : currentTask}
                  </p>
               </div>
@@ -141,6 +167,56 @@ const QuantumMiner: React.FC<QuantumMinerProps> = ({
           )}
         </div>
 
+        {!isMining && !isVerifying && (
+          <div className="bg-black/40 border border-white/5 p-4 rounded-2xl space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {(['frontier', 'research'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => { setMode(option); setRejection(null); }}
+                  className={`py-2 rounded-xl text-[8px] font-black uppercase tracking-widest transition-all ${mode === option ? 'bg-orange-500 text-black' : 'bg-white/5 text-gray-500 hover:text-white'}`}
+                >
+                  {option === 'frontier' ? 'Frontier Shard' : 'Own Research'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'research' && (
+              <>
+                <textarea
+                  value={submission.hypothesis}
+                  onChange={e => updateSubmission('hypothesis', e.target.value)}
+                  placeholder="Hypothesis (markdown, inline $LaTeX$)"
+                  rows={4}
+                  className="w-full bg-black/60 border border-white/10 rounded-xl p-3 text-[10px] text-white outline-none focus:border-orange-500 resize-none"
+                />
+                <input
+                  value={submission.formula}
+                  onChange={e => updateSubmission('formula', e.target.value)}
+                  placeholder="Primary formula (LaTeX, e.g. E = mc^{2})"
+                  className="w-full bg-black/60 border border-white/10 rounded-xl p-3 text-[10px] text-green-400 mono outline-none focus:border-orange-500"
+                />
+                <textarea
+                  value={submission.notes}
+                  onChange={e => updateSubmission('notes', e.target.value)}
+                  placeholder="Supporting notes, derivations, references"
+                  rows={4}
+                  className="w-full bg-black/60 border border-white/10 rounded-xl p-3 text-[10px] text-white outline-none focus:border-orange-500 resize-none"
+                />
+                <div className="flex justify-between text-[7px] font-black uppercase text-gray-600 tracking-widest">
+                  <span>Hypothesis {submission.hypothesis.trim().length}/{SUBMISSION_LIMITS.HYPOTHESIS_MAX}</span>
+                  <span>Notes {(submission.notes || '').length}/{SUBMISSION_LIMITS.NOTES_MAX}</span>
+                </div>
+                {(rejection || (hasDraft && submissionErrors.length > 0)) && (
+                  <p className="text-[8px] text-red-400 font-black uppercase tracking-widest leading-relaxed">
+                    {rejection || submissionErrors[0]}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {isMining || isVerifying ? (
           <div className="space-y-4">
             <div className="w-full bg-black/80 h-3 rounded-full overflow-hidden p-[1px] border border-white/5 relative">
@@ -156,17 +232,19 @@ const QuantumMiner: React.FC<QuantumMinerProps> = ({
                  <span className="w-1 h-1 bg-green-500 rounded-full"></span>
                  Scientific Coherence: Stable
                </span>
-               <span className="text-orange-500">Recursive Proof v{solvedCount + 1}</span>
+               <span className="text-orange-500">
+                 {powDifficulty !== undefined && `PoW ${powDifficulty} Bits // `}Recursive Proof v{solvedCount + 1}
+               </span>
             </div>
           </div>
         ) : (
           <button 
-            onClick={onStart}
-            disabled={publicRemaining <= 0 || !miningActive}
-            className={`group/btn relative w-full h-16 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all shadow-xl active:scale-95 overflow-hidden ${publicRemaining <= 0 || !miningActive ? 'bg-zinc-800 text-gray-600 cursor-not-allowed' : 'bg-orange-500 text-black hover:bg-orange-400 shadow-orange-500/10'}`}
+            onClick={handleStart}
+            disabled={publicRemaining <= 0 || !miningActive || (mode === 'research' && submissionErrors.length > 0)}
+            className={`group/btn relative w-full h-16 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all shadow-xl active:scale-95 overflow-hidden disabled:opacity-50 ${publicRemaining <= 0 || !miningActive ? 'bg-zinc-800 text-gray-600 cursor-not-allowed' : 'bg-orange-500 text-black hover:bg-orange-400 shadow-orange-500/10'}`}
           >
             <div className="absolute inset-0 bg-white/20 translate-y-full group-hover/btn:translate-y-0 transition-transform duration-500"></div>
-            <span className="relative z-10">{!miningActive ? 'Access Denied' : publicRemaining <= 0 ? 'Discovery Cap Reached' : 'Resolve Universal Shard'}</span>
+            <span className="relative z-10">{!miningActive ? 'Access Denied' : publicRemaining <= 0 ? 'Discovery Cap Reached' : mode === 'research' ? 'Mine Submission' : 'Resolve Universal Shard'}</span>
           </button>
         )}
         
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { User } from '../types';
+import { qbsContract } from '../services/qbsContract';
+import { rewardDistribution } from '../services/rewardDistribution';
+import { walletConnector } from '../services/walletConnector';
+import { getExplorerUrl } from '../services/networkConfig';
+import { rewardNodeId, verifiedAccrual } from '../services/rewardEpochs';
+import { RewardEpochProof, RewardEpochSummary, fetchRewardEpoch, fetchRewardProof } from '../services/latticeApiClient';
+
+interface RewardClaimPanelProps {
+  user: User;
+}
+
+/**
+ * Claims this node's share of the latest reward epoch to its payout wallet and
+ * shows what is accrued, claimable and already claimed
+ */
+const RewardClaimPanel: React.FC<RewardClaimPanelProps> = ({ user }) => {
+  const [walletState, setWalletState] = useState<any>(null);
+  const [epoch, setEpoch] = useState<RewardEpochSummary | null>(null);
+  const [proof, setProof] = useState<RewardEpochProof | null>(null);
+  const [accruedWei, setAccruedWei] = useState<bigint>(0n);
+  const [onChainRoot, setOnChainRoot] = useState<string | null>(null);
+  const [claimedWei, setClaimedWei] = useState<bigint>(0n);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [claimHash, setClaimHash] = useState<string | null>(null);
+
+  // Epochs are rolled up by the Lattice API server, so the epoch and proof come from it
+  const refresh = useCallback(async () => {
+    try {
+      const [latest, nodeProof] = await Promise.all([fetchRewardEpoch(), fetchRewardProof(user.address)]);
+      setEpoch(latest);
+      setProof(nodeProof && latest && nodeProof.epoch === latest.epoch ? nodeProof : null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    const published = await qbsContract.getRewardsRoot();
+    setOnChainRoot(published ? published.root : null);
+    setClaimedWei(await qbsContract.getClaimedRewards(rewardNodeId(user.address)));
+  }, [user.address]);
+
+  useEffect(() => {
+    verifiedAccrual(user).then(setAccruedWei).catch(() => setAccruedWei(0n));
+  }, [user]);
+
+  useEffect(() => {
+    const handleWalletChange = (state: any) => {
+      setWalletState(state);
+      refresh();
+    };
+
+    walletConnector.getWalletState().then(handleWalletChange);
+    walletConnector.onStateChange(handleWalletChange);
+    return () => walletConnector.removeStateListener(handleWalletChange);
+  }, [refresh]);
+
+  // Only the sealed grades of verified blocks accrue; block.reward is not covered by the seal
+  const accruedQbs = Number(ethers.formatEther(accruedWei));
+  const address: string | null = walletState?.isConnected ? walletState.address : null;
+  const isPayoutAddress = !!address && !!user.payoutAddress && user.payoutAddress.toLowerCase() === address.toLowerCase();
+  // The leaf names the payout wallet the epoch was rolled up with; only it can claim
+  const isLeafAccount = !!address && !!proof && proof.account.toLowerCase() === address.toLowerCase();
+  const isPublished = !!epoch && onChainRoot === epoch.root;
+  const cumulativeWei = proof ? BigInt(proof.cumulativeWei) : 0n;
+  const claimableWei = isPublished && isLeafAccount && cumulativeWei > claimedWei ? cumulativeWei - claimedWei : 0n;
+
+  const handleClaim = async () => {
+    if (!proof || !epoch) return;
+    setError(null);
+    setClaimHash(null);
+    setIsClaiming(true);
+    try {
+      const result = await rewardDistribution.claimEpochReward(
+        proof.account, epoch.epoch, proof.nodeId, proof.cumulativeWei, proof.proof, ethers.formatEther(claimableWei)
+      );
+      if (result.success && result.transactionHash) {
+        setClaimHash(result.transactionHash);
+        await refresh();
+      } else {
+        setError(result.error || 'Claim failed');
+      }
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  if (!address) {
+    return (
+      <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-6 text-center">
+        <p className="text-sm text-gray-400">Connect your wallet to claim epoch rewards ({accruedQbs.toFixed(6)} QBS accrued)</p>
+      </div>
+    );
+  }
+
+  const explorerUrl = claimHash && walletState?.chainId ? getExplorerUrl(walletState.chainId, claimHash) : null;
+
+  return (
+    <div className="bg-zinc-900/90 border border-white/10 rounded-xl p-6 space-y-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="p-3 bg-black/40 rounded-lg">
+          <p className="text-[8px] text-gray-500 font-black uppercase tracking-widest">Accrued</p>
+          <p className="text-sm font-bold text-white mono">{accruedQbs.toFixed(6)}</p>
+        </div>
+        <div className="p-3 bg-black/40 rounded-lg">
+          <p className="text-[8px] text-gray-500 font-black uppercase tracking-widest">Claimable</p>
+          <p className="text-sm font-bold text-green-400 mono">{Number(ethers.formatEther(claimableWei)).toFixed(6)}</p>
+        </div>
+        <div className="p-3 bg-black/40 rounded-lg">
+          <p className="text-[8px] text-gray-500 font-black uppercase tracking-widest">Claimed</p>
+          <p className="text-sm font-bold text-blue-400 mono">{Number(ethers.formatEther(claimedWei)).toFixed(6)}</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {!epoch
+          ? 'No reward epoch has been rolled up yet.'
+          : isPublished
+            ? `Epoch ${epoch.epoch} · ${epoch.nodes} nodes · ${Number(ethers.formatEther(epoch.totalWei)).toFixed(6)} QBS in total`
+            : `Epoch ${epoch.epoch} is awaiting publication on this network.`}
+      </p>
+
+      {isPayoutAddress && proof && !isLeafAccount && (
+        <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+          <p className="text-xs text-blue-300">
+            Epoch {epoch!.epoch} pays {proof.account.slice(0, 6)}...{proof.account.slice(-4)}; your new payout wallet can claim from the next epoch.
+          </p>
+        </div>
+      )}
+
+      {!isPayoutAddress && (
+        <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+          <p className="text-xs text-blue-300">
+            {user.payoutAddress
+              ? `Rewards accrue to your payout wallet ${user.payoutAddress.slice(0, 6)}...${user.payoutAddress.slice(-4)}; switch to it to claim.`
+              : 'No payout wallet linked; accruals are left out of epochs. Link one in Settings → Linked Wallets.'}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+
+      {claimHash && (
+        <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <p className="text-sm text-green-400">
+            Claimed! {explorerUrl
+              ? <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline">View transaction →</a>
+              : `${claimHash.slice(0, 10)}...`}
+          </p>
+        </div>
+      )}
+
+      <button
+        onClick={handleClaim}
+        disabled={isClaiming || claimableWei === 0n}
+        className="w-full bg-green-500 hover:bg-green-400 disabled:opacity-50 disabled:cursor-not-allowed text-black text-sm font-bold py-3 px-4 rounded-lg transition-colors"
+      >
+        {isClaiming ? 'Claiming...' : 'Claim Epoch Rewards'}
+      </button>
+    </div>
+  );
+};
+
+export default RewardClaimPanel;
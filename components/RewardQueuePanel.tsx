@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { QueuedReward, QueuedRewardStatus } from '../types';
+import { rewardDistribution } from '../services/rewardDistribution';
+import { getExplorerUrl } from '../services/networkConfig';
+
+const STATUS_STYLES: Record<QueuedRewardStatus, string> = {
+  QUEUED: 'bg-gray-500/20 text-gray-300',
+  SUBMITTED: 'bg-blue-500/20 text-blue-400',
+  CONFIRMED: 'bg-green-500/20 text-green-400',
+  FAILED: 'bg-yellow-500/20 text-yellow-400',
+  ABANDONED: 'bg-red-500/20 text-red-400'
+};
+
+const describeReward = (reward: QueuedReward): string => {
+  switch (reward.type) {
+    case 'MINING':
+      return `Mining ${reward.blockId} (${reward.grade})`;
+    case 'EVOLUTION':
+      return `Evolution ${reward.blockId} → L${reward.newLevel}`;
+    default:
+      return `Epoch ${reward.epoch} claim`;
+  }
+};
+
+/**
+ * Lists every on-chain reward transaction with its status, and lets the user retry
+ * or cancel the ones that have not gone through. Abandoned rewards form a separate
+ * dead-letter list.
+ */
+const RewardQueuePanel: React.FC = () => {
+  const [rewards, setRewards] = useState<QueuedReward[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    rewardDistribution.getRewards().then(setRewards).catch(err => setError(err.message));
+    rewardDistribution.onQueueChange(setRewards);
+    return () => rewardDistribution.removeQueueListener(setRewards);
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await rewardDistribution.processQueue();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const renderReward = (reward: QueuedReward) => {
+    const explorerUrl = reward.transactionHash && reward.chainId
+      ? getExplorerUrl(reward.chainId, reward.transactionHash)
+      : null;
+
+    return (
+      <div key={reward.id} className="p-3 bg-black/40 border border-white/5 rounded-lg space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-xs font-bold text-white truncate">{describeReward(reward)}</p>
+            <p className="text-[10px] text-gray-500 mono">{Number(reward.amount).toFixed(6)} QBS · attempt {reward.attempts}/{reward.maxAttempts}</p>
+          </div>
+          <span className={`shrink-0 px-2 py-0.5 rounded text-[8px] font-black uppercase ${STATUS_STYLES[reward.status]}`}>
+            {reward.status}
+          </span>
+        </div>
+
+        {reward.transactionHash && (
+          <p className="text-[10px] text-gray-400 mono">
+            {explorerUrl
+              ? <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">{reward.transactionHash.slice(0, 18)}...</a>
+              : `${reward.transactionHash.slice(0, 18)}...`}
+          </p>
+        )}
+
+        {reward.status === 'FAILED' && (
+          <p className="text-[10px] text-yellow-400">Next retry {new Date(reward.nextAttemptAt).toLocaleTimeString()}</p>
+        )}
+        {reward.error && reward.status !== 'CONFIRMED' && (
+          <p className="text-[10px] text-red-400 break-words">{reward.error}</p>
+        )}
+
+        {(reward.status === 'QUEUED' || reward.status === 'FAILED' || reward.status === 'ABANDONED') && (
+          <div className="flex gap-2">
+            {reward.status !== 'QUEUED' && (
+              <button
+                onClick={() => runAction(() => rewardDistribution.retryReward(reward.id))}
+                className="px-3 py-1 bg-blue-500 hover:bg-blue-400 text-white text-[10px] font-bold rounded transition-colors"
+              >
+                Retry
+              </button>
+            )}
+            {reward.status !== 'ABANDONED' && (
+              <button
+                onClick={() => runAction(() => rewardDistribution.cancelReward(reward.id))}
+                className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 text-white text-[10px] font-bold rounded transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const active = rewards.filter(reward => reward.status !== 'ABANDONED');
+  const deadLetters = rewards.filter(reward => reward.status === 'ABANDONED');
+
+  return (
+    <div className="bg-zinc-900/90 border border-white/10 rounded-xl p-6 space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+
+      {active.length === 0
+        ? <p className="text-xs text-gray-500 text-center">No reward transactions yet.</p>
+        : <div className="space-y-2 max-h-80 overflow-y-auto">{active.map(renderReward)}</div>}
+
+      {deadLetters.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] text-red-400 font-black uppercase tracking-widest">Dead Letters ({deadLetters.length})</p>
+          {deadLetters.map(renderReward)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RewardQueuePanel;
@@ -5,6 +5,8 @@ import { hashSecret, generateSalt, saveUser, sanitizeInput } from '../services/d
 import APIKeyManager from './APIKeyManager';
 import DeepSeekStatusIndicator from './DeepSeekStatusIndicator';
 import { ErrorMonitoringDashboard } from './ErrorMonitoringDashboard';
+import LinkedWalletsPanel from './LinkedWalletsPanel';
+import EvaluationProviderPanel from './EvaluationProviderPanel';
 
 interface SettingsViewProps {
   user: User;
@@ -198,22 +200,26 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, onUpdateUser, addLog
         </button>
       </div>
 
-      {/* DeepSeek API Key Management */}
+      {/* External Wallet Links */}
+      <LinkedWalletsPanel user={user} onUpdateUser={onUpdateUser} addLog={addLog} />
+
+      {/* Evaluation Provider & DeepSeek API Key Management */}
       <div className="bg-zinc-900/60 border border-white/10 p-10 rounded-[4rem] shadow-2xl relative overflow-hidden shrink-0">
         <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_20%_20%,rgba(34,197,94,0.05),transparent_50%)]"></div>
         
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 mb-8 relative z-10">
           <div>
             <h2 className="text-3xl font-black text-white uppercase tracking-tighter">AI Integration</h2>
-            <p className="text-[10px] text-green-400 font-bold tracking-[0.4em] uppercase mt-1">DeepSeek API :: Personal Mining Credits</p>
+            <p className="text-[10px] text-green-400 font-bold tracking-[0.4em] uppercase mt-1">Evaluation Provider :: Personal Mining Credits</p>
             <div className="mt-2">
               <DeepSeekStatusIndicator showDetails={true} />
             </div>
           </div>
         </div>
         
-        <div className="relative z-10">
-          <APIKeyManager />
+        <div className="relative z-10 space-y-8">
+          <EvaluationProviderPanel user={user} onUpdateUser={onUpdateUser} addLog={addLog} />
+          {(user.evaluationProvider?.id || 'deepseek') === 'deepseek' && <APIKeyManager />}
         </div>
       </div>
 
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { qbsContract } from '../services/qbsContract';
+import { qbsContract, transactionIndexer } from '../services/qbsContract';
 import { walletConnector } from '../services/walletConnector';
 import { getExplorerUrl, getAddressExplorerUrl } from '../services/networkConfig';
+import { FEE_SPEEDS, FeeEstimate, FeeSpeed } from '../services/feeEstimator';
 
 interface TokenTransferProps {
   onTransferComplete?: (hash: string, success: boolean) => void;
@@ -15,7 +16,11 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [userBalance, setUserBalance] = useState('0');
-  const [gasEstimate, setGasEstimate] = useState<string | null>(null);
+  const [nativeBalance, setNativeBalance] = useState('0');
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
+  const [feeError, setFeeError] = useState<string | null>(null);
+  const [feeSpeed, setFeeSpeed] = useState<FeeSpeed>('normal');
+  const [isConfirming, setIsConfirming] = useState(false);
   const [walletState, setWalletState] = useState<any>(null);
 
   useEffect(() => {
@@ -43,8 +48,12 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
 
   const loadBalance = async (address: string) => {
     try {
-      const balance = await qbsContract.getBalance(address);
+      const [balance, native] = await Promise.all([
+        qbsContract.getBalance(address),
+        walletConnector.getBalance(address).catch(() => '0')
+      ]);
       setUserBalance(balance);
+      setNativeBalance(native);
     } catch (error) {
       console.error('Failed to load balance:', error);
     }
@@ -60,31 +69,40 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
     return !isNaN(num) && num > 0 && num <= parseFloat(userBalance);
   };
 
-  const estimateGas = async () => {
+  const estimateFees = async () => {
     if (!recipient || !amount || !validateAddress(recipient) || !validateAmount(amount)) {
-      setGasEstimate(null);
+      setFeeEstimate(null);
       return;
     }
 
     try {
-      const estimate = await qbsContract.estimateGas('transfer', [recipient, amount]);
-      setGasEstimate(estimate);
-    } catch (error) {
-      console.error('Gas estimation failed:', error);
-      setGasEstimate(null);
+      setFeeEstimate(await qbsContract.estimateTransferFees(recipient, amount));
+      setFeeError(null);
+    } catch (error: any) {
+      console.error('Fee estimation failed:', error);
+      setFeeEstimate(null);
+      setFeeError(error.message || 'Network fee could not be estimated');
     }
   };
 
   useEffect(() => {
+    // Any edit invalidates the fee the user confirmed
+    setIsConfirming(false);
+    setFeeEstimate(null);
+    setFeeError(null);
+
     const debounceTimer = setTimeout(() => {
       if (recipient && amount) {
-        estimateGas();
+        estimateFees();
       }
     }, 500);
 
     return () => clearTimeout(debounceTimer);
   }, [recipient, amount]);
 
+  const selectedFee = feeEstimate ? feeEstimate.options[feeSpeed] : null;
+  const hasFeeFunds = !selectedFee || parseFloat(nativeBalance) >= parseFloat(selectedFee.maxCost);
+
   const handleTransfer = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -105,10 +123,37 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
       return;
     }
 
+    if (!selectedFee) {
+      setError(feeError || 'Network fee is still being estimated');
+      return;
+    }
+
+    if (!hasFeeFunds) {
+      setError(`Insufficient ${feeEstimate!.currency} to pay the network fee`);
+      return;
+    }
+
+    // First submit previews the fee; the second sends with exactly that fee
+    if (!isConfirming) {
+      setIsConfirming(true);
+      return;
+    }
+
     setIsTransferring(true);
 
     try {
-      const result = await qbsContract.transfer(recipient, amount);
+      // Listed as pending in the transaction history until the indexer sees it mined
+      const result = await qbsContract.transfer(recipient, amount, hash =>
+        walletState.chainId && transactionIndexer.recordPending(walletState.chainId, walletState.address, {
+          hash,
+          type: 'TRANSFER',
+          from: walletState.address,
+          to: recipient,
+          amount,
+          timestamp: Date.now()
+        }),
+        selectedFee
+      );
 
       if (result.success) {
         setSuccess(`Transfer successful! Transaction: ${result.hash.slice(0, 10)}...`);
@@ -130,6 +175,7 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
       onTransferComplete?.('', false);
     } finally {
       setIsTransferring(false);
+      setIsConfirming(false);
     }
   };
 
@@ -250,12 +296,56 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
           )}
         </div>
 
-        {gasEstimate && (
-          <div className="p-3 bg-gray-500/10 border border-gray-500/20 rounded-lg">
+        {(feeEstimate || feeError) && (
+          <div className="p-3 bg-gray-500/10 border border-gray-500/20 rounded-lg space-y-2">
             <div className="flex justify-between text-sm">
-              <span className="text-gray-400">Estimated Gas:</span>
-              <span className="text-white mono">{gasEstimate} Gwei</span>
+              <span className="text-gray-400">Network Fee:</span>
+              {selectedFee && (
+                <span className="text-white mono">≈ {parseFloat(selectedFee.expectedCost).toFixed(6)} {feeEstimate!.currency}</span>
+              )}
             </div>
+            {feeEstimate ? (
+              <div className="grid grid-cols-3 gap-2">
+                {FEE_SPEEDS.map(speed => (
+                  <button
+                    key={speed}
+                    type="button"
+                    onClick={() => { setFeeSpeed(speed); setIsConfirming(false); }}
+                    className={`p-2 rounded-lg border text-center transition-colors ${feeSpeed === speed ? 'border-blue-500 bg-blue-500/10' : 'border-white/10 bg-black/40 hover:border-white/30'}`}
+                  >
+                    <span className="block text-xs font-bold text-white capitalize">{speed}</span>
+                    <span className="block text-[10px] text-gray-400 mono">{parseFloat(feeEstimate.options[speed].expectedCost).toFixed(6)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-red-400">{feeError}</p>
+            )}
+            {selectedFee && (
+              <p className="text-[10px] text-gray-500">
+                Gas limit {selectedFee.gasLimit.toString()} · at most {parseFloat(selectedFee.maxCost).toFixed(6)} {feeEstimate!.currency}
+              </p>
+            )}
+            {!hasFeeFunds && (
+              <p className="text-xs text-red-400">Insufficient {feeEstimate!.currency} balance for the network fee</p>
+            )}
+          </div>
+        )}
+
+        {isConfirming && selectedFee && (
+          <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg space-y-1">
+            <p className="text-sm font-bold text-blue-300">Confirm Transfer</p>
+            <p className="text-xs text-gray-300">
+              Send <span className="mono text-white">{amount} QBS</span> to <span className="mono text-white">{recipient.slice(0, 6)}...{recipient.slice(-4)}</span>,
+              paying up to <span className="mono text-white">{parseFloat(selectedFee.maxCost).toFixed(6)} {feeEstimate!.currency}</span> ({feeSpeed}) in network fees.
+            </p>
+            <button
+              type="button"
+              onClick={() => setIsConfirming(false)}
+              className="text-xs text-gray-400 hover:text-white underline"
+            >
+              Back
+            </button>
           </div>
         )}
 
@@ -273,7 +363,7 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
 
         <button
           type="submit"
-          disabled={isTransferring || !recipient || !amount || !validateAddress(recipient) || !validateAmount(amount)}
+          disabled={isTransferring || !recipient || !amount || !validateAddress(recipient) || !validateAmount(amount) || !selectedFee || !hasFeeFunds}
           className="w-full bg-blue-500 hover:bg-blue-400 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
         >
           {isTransferring ? (
@@ -281,8 +371,10 @@ const TokenTransfer: React.FC<TokenTransferProps> = ({ onTransferComplete, onClo
               <div className="w-4 h-4 border border-white/30 border-t-white rounded-full animate-spin"></div>
               Transferring...
             </>
+          ) : isConfirming ? (
+            'Confirm & Send'
           ) : (
-            'Transfer QBS Tokens'
+            'Review Transfer'
           )}
         </button>
       </form>
@@ -1,20 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { qbsContract } from '../services/qbsContract';
+import { qbsContract, transactionIndexer } from '../services/qbsContract';
 import { walletConnector } from '../services/walletConnector';
 import { getExplorerUrl } from '../services/networkConfig';
+import { IndexedTransaction } from '../types';
 
-interface BlockchainTransaction {
-  hash: string;
-  type: 'TRANSFER' | 'MINING_REWARD' | 'EVOLUTION_REWARD' | 'APPROVAL';
-  from: string;
-  to: string;
-  amount: string;
-  timestamp: number;
-  blockNumber?: number;
-  gasUsed?: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  explorerUrl?: string;
-}
+type BlockchainTransaction = IndexedTransaction & { explorerUrl?: string };
 
 interface TransactionHistoryProps {
   maxTransactions?: number;
@@ -37,12 +27,12 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({
     
     const handleWalletChange = (state: any) => {
       setWalletState(state);
+      stopEventListening();
       if (state.isConnected && state.address) {
         loadTransactions(state.address, state.chainId);
-        startEventListening();
+        startEventListening(state.address, state.chainId);
       } else {
         setTransactions([]);
-        stopEventListening();
       }
     };
 
@@ -59,25 +49,28 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({
     
     if (state.isConnected && state.address) {
       await loadTransactions(state.address, state.chainId);
-      startEventListening();
+      startEventListening(state.address, state.chainId);
     }
   };
 
+  const showTransactions = (indexed: IndexedTransaction[], chainId: number) => {
+    setTransactions(indexed.slice(0, maxTransactions).map(tx => ({
+      ...tx,
+      explorerUrl: chainId ? getExplorerUrl(chainId, tx.hash) : undefined
+    })));
+  };
+
   const loadTransactions = async (address: string, chainId: number) => {
     setLoading(true);
     setError(null);
 
     try {
-      // For now, we'll load from localStorage and combine with any real blockchain data
-      // In a full implementation, you'd query blockchain events or use a service like The Graph
-      const localTransactions = getLocalTransactions(address);
-      
-      // Sort by timestamp (newest first)
-      const sortedTransactions = localTransactions
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .slice(0, maxTransactions);
-
-      setTransactions(sortedTransactions);
+      // Show the cached history right away, then catch up with the chain
+      if (chainId) {
+        showTransactions(await transactionIndexer.getTransactions(chainId, address), chainId);
+        setLoading(false);
+      }
+      showTransactions(await qbsContract.indexTransactions(address), chainId);
     } catch (err: any) {
       console.error('Failed to load transactions:', err);
       setError(err.message || 'Failed to load transaction history');
@@ -86,100 +79,37 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({
     }
   };
 
-  const getLocalTransactions = (address: string): BlockchainTransaction[] => {
-    try {
-      const stored = localStorage.getItem(`QBS_TRANSACTIONS_${address}`);
-      return stored ? JSON.parse(stored) : [];
-    } catch {
-      return [];
-    }
-  };
-
-  const saveLocalTransaction = (transaction: BlockchainTransaction) => {
-    if (!walletState?.address) return;
-    
+  const refreshTransactions = async (address: string, chainId: number) => {
     try {
-      const existing = getLocalTransactions(walletState.address);
-      const updated = [transaction, ...existing].slice(0, maxTransactions);
-      localStorage.setItem(`QBS_TRANSACTIONS_${walletState.address}`, JSON.stringify(updated));
-      setTransactions(updated);
-    } catch (error) {
-      console.error('Failed to save transaction:', error);
+      showTransactions(await qbsContract.indexTransactions(address), chainId);
+    } catch (err) {
+      console.error('Failed to index transactions:', err);
     }
   };
 
-  const startEventListening = async () => {
-    if (isListening || !walletState?.isConnected) return;
-    
+  const startEventListening = (address: string, chainId: number) => {
     try {
-      setIsListening(true);
+      const involves = (...accounts: string[]) => accounts.some(account => account?.toLowerCase() === address.toLowerCase());
 
-      // Listen for Transfer events
-      qbsContract.onTransfer((from: string, to: string, value: any, event: any) => {
-        if (from === walletState.address || to === walletState.address) {
-          const transaction: BlockchainTransaction = {
-            hash: event.transactionHash,
-            type: 'TRANSFER',
-            from,
-            to,
-            amount: (parseFloat(value.toString()) / 1e18).toFixed(6),
-            timestamp: Date.now(),
-            blockNumber: event.blockNumber,
-            status: 'confirmed',
-            explorerUrl: walletState.chainId ? getExplorerUrl(walletState.chainId, event.transactionHash) : undefined
-          };
-          
-          saveLocalTransaction(transaction);
-        }
+      // New logs for this address are picked up by an incremental index run
+      qbsContract.onTransfer((from: string, to: string) => {
+        if (involves(from, to)) refreshTransactions(address, chainId);
       });
-
-      // Listen for Mining Reward events
-      qbsContract.onMiningReward((miner: string, amount: any, blockId: string, grade: string, event: any) => {
-        if (miner === walletState.address) {
-          const transaction: BlockchainTransaction = {
-            hash: event.transactionHash,
-            type: 'MINING_REWARD',
-            from: '0x0000000000000000000000000000000000000000', // Contract
-            to: miner,
-            amount: (parseFloat(amount.toString()) / 1e18).toFixed(6),
-            timestamp: Date.now(),
-            blockNumber: event.blockNumber,
-            status: 'confirmed',
-            explorerUrl: walletState.chainId ? getExplorerUrl(walletState.chainId, event.transactionHash) : undefined
-          };
-          
-          saveLocalTransaction(transaction);
-        }
+      qbsContract.onMiningReward((miner: string) => {
+        if (involves(miner)) refreshTransactions(address, chainId);
       });
-
-      // Listen for Evolution Reward events
-      qbsContract.onEvolutionReward((user: string, amount: any, blockId: string, newLevel: number, event: any) => {
-        if (user === walletState.address) {
-          const transaction: BlockchainTransaction = {
-            hash: event.transactionHash,
-            type: 'EVOLUTION_REWARD',
-            from: '0x0000000000000000000000000000000000000000', // Contract
-            to: user,
-            amount: (parseFloat(amount.toString()) / 1e18).toFixed(6),
-            timestamp: Date.now(),
-            blockNumber: event.blockNumber,
-            status: 'confirmed',
-            explorerUrl: walletState.chainId ? getExplorerUrl(walletState.chainId, event.transactionHash) : undefined
-          };
-          
-          saveLocalTransaction(transaction);
-        }
+      qbsContract.onEvolutionReward((user: string) => {
+        if (involves(user)) refreshTransactions(address, chainId);
       });
+      setIsListening(true);
     } catch (error) {
       console.error('Failed to start event listening:', error);
     }
   };
 
   const stopEventListening = () => {
-    if (isListening) {
-      qbsContract.removeAllListeners();
-      setIsListening(false);
-    }
+    qbsContract.removeAllListeners();
+    setIsListening(false);
   };
 
   const getFilteredTransactions = () => {
@@ -1,17 +1,22 @@
 
 import React, { useMemo, useState } from 'react';
-import { User, Transaction, SolvedBlock } from '../types';
+import { User, Transaction, SolvedBlock, ProtocolParameters } from '../types';
 import { QBS_UNITS } from '../services/quantumLogic';
 import TokenTransfer from './TokenTransfer';
 import TransactionHistory from './TransactionHistory';
+import RewardClaimPanel from './RewardClaimPanel';
+import RewardQueuePanel from './RewardQueuePanel';
 
 interface WalletViewProps {
   user: User;
   onSubscribe: (type: 'MESSAGING' | 'MINING') => void;
   onTransfer: (toPub: string, amount: number, privKey: string, unit: Transaction['unit']) => void;
+  leaseCosts?: ProtocolParameters['LEASE_COSTS'];
+  // Vote weight held in escrow by proposals that have not settled
+  lockedQuarks?: number;
 }
 
-const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer }) => {
+const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer, leaseCosts = { MESSAGING: 1, MINING: 50 }, lockedQuarks = 0 }) => {
   const [showPrivate, setShowPrivate] = useState(false);
   const [activeSubTab, setActiveSubTab] = useState<'transfer' | 'blockchain' | 'inventory' | 'nfts'>('transfer');
   const [transferTarget, setTransferTarget] = useState('');
@@ -67,6 +72,11 @@ const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer }
                       </span>
                    </div>
                    <p className="text-[7px] text-gray-600 font-bold uppercase mt-1 tracking-widest">({totalQuarksMagnitude.toLocaleString()} Shard-equivalent power)</p>
+                   {lockedQuarks > 0 && (
+                     <p className="text-[8px] text-purple-400 font-black uppercase mt-2 tracking-widest">
+                       + {(lockedQuarks / QBS_UNITS.QRK).toFixed(6)} QBS locked in governance votes
+                     </p>
+                   )}
                 </div>
               </div>
 
@@ -99,7 +109,7 @@ const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer }
                   onClick={() => onSubscribe('MESSAGING')}
                   className="w-full py-4 bg-white/5 hover:bg-orange-500 hover:text-black border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] transition-all"
                 >
-                   Renew Lease ($1)
+                   Renew Lease (${leaseCosts.MESSAGING})
                 </button>
              </div>
 
@@ -117,7 +127,7 @@ const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer }
                   onClick={() => onSubscribe('MINING')}
                   className="w-full py-4 bg-white/5 hover:bg-blue-500 hover:text-white border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] transition-all"
                 >
-                   Renew Miner ($50)
+                   Renew Miner (${leaseCosts.MINING})
                 </button>
              </div>
           </div>
@@ -214,6 +224,16 @@ const WalletView: React.FC<WalletViewProps> = ({ user, onSubscribe, onTransfer }
                   />
                 </div>
                 
+                <div className="space-y-4">
+                  <h4 className="text-sm font-bold text-white uppercase tracking-wider">Epoch Reward Claims</h4>
+                  <RewardClaimPanel user={user} />
+                </div>
+
+                <div className="space-y-4">
+                  <h4 className="text-sm font-bold text-white uppercase tracking-wider">Reward Queue</h4>
+                  <RewardQueuePanel />
+                </div>
+
                 <div className="space-y-4">
                   <h4 className="text-sm font-bold text-white uppercase tracking-wider">Blockchain History</h4>
                   <TransactionHistory maxTransactions={20} showFilters={true} />
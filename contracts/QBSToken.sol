@@ -4,6 +4,7 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title QBS Token - Quantum Breakthrough Shares
@@ -20,11 +21,27 @@ contract QBSToken is ERC20, Ownable, Pausable {
     // Mapping to track mining rewards per user
     mapping(address => uint256) public totalMiningRewards;
     
+    // Block ids already paid a mining reward, keyed by keccak256(blockId)
+    mapping(bytes32 => bool) private rewardedBlocks;
+    
+    // Evolution levels already paid per block, keyed by keccak256(blockId)
+    mapping(bytes32 => mapping(uint256 => bool)) private rewardedEvolutions;
+    
+    // Merkle root of cumulative off-chain accruals, replaced every reward epoch
+    bytes32 public rewardsRoot;
+    uint256 public rewardsEpoch;
+    
+    // Cumulative amount each lattice node has claimed against the rewards root,
+    // whichever payout address it was claimed to
+    mapping(bytes32 => uint256) public claimedRewards;
+    
     // Events
     event MinerAuthorized(address indexed miner);
     event MinerRevoked(address indexed miner);
     event MiningReward(address indexed miner, uint256 amount, string blockId, string grade);
     event EvolutionReward(address indexed user, uint256 amount, string blockId, uint256 newLevel);
+    event RewardsRootPublished(uint256 indexed epoch, bytes32 root);
+    event RewardsClaimed(bytes32 indexed nodeId, address indexed account, uint256 indexed epoch, uint256 amount);
     
     constructor(address initialOwner) ERC20("Quantum Breakthrough Shares", "QBS") Ownable(initialOwner) {
         // Initial supply goes to contract deployer
@@ -70,8 +87,13 @@ contract QBSToken is ERC20, Ownable, Pausable {
         require(authorizedMiners[msg.sender], "QBS: Not authorized miner");
         require(to != address(0), "QBS: Invalid recipient");
         require(amount > 0, "QBS: Invalid amount");
+        require(bytes(blockId).length > 0, "QBS: Invalid block id");
         require(totalSupply() + amount <= MAX_SUPPLY, "QBS: Exceeds max supply");
         
+        bytes32 blockKey = keccak256(bytes(blockId));
+        require(!rewardedBlocks[blockKey], "QBS: Block already rewarded");
+        rewardedBlocks[blockKey] = true;
+        
         _mint(to, amount);
         totalMiningRewards[to] += amount;
         
@@ -95,14 +117,59 @@ contract QBSToken is ERC20, Ownable, Pausable {
         require(authorizedMiners[msg.sender], "QBS: Not authorized miner");
         require(to != address(0), "QBS: Invalid recipient");
         require(amount > 0, "QBS: Invalid amount");
+        require(bytes(blockId).length > 0, "QBS: Invalid block id");
         require(totalSupply() + amount <= MAX_SUPPLY, "QBS: Exceeds max supply");
         
+        bytes32 blockKey = keccak256(bytes(blockId));
+        require(!rewardedEvolutions[blockKey][newLevel], "QBS: Evolution level already rewarded");
+        rewardedEvolutions[blockKey][newLevel] = true;
+        
         _mint(to, amount);
         
         emit EvolutionReward(to, amount, blockId, newLevel);
         return true;
     }
     
+    /**
+     * @dev Publish the Merkle root of a reward epoch
+     * @param epoch Epoch number, greater than the last published one
+     * @param root Root over leaves of (node id, payout account, cumulative amount)
+     */
+    function publishRewardsRoot(uint256 epoch, bytes32 root) external whenNotPaused {
+        require(authorizedMiners[msg.sender], "QBS: Not authorized miner");
+        require(epoch > rewardsEpoch, "QBS: Stale epoch");
+        require(root != bytes32(0), "QBS: Invalid root");
+        
+        rewardsRoot = root;
+        rewardsEpoch = epoch;
+        emit RewardsRootPublished(epoch, root);
+    }
+    
+    /**
+     * @dev Claim everything a lattice node accrued that has not been claimed yet.
+     * The leaf names the node's current payout account, which must be the caller;
+     * claims are tracked per node so switching the payout account cannot re-claim.
+     * @param nodeId keccak256 of the node's lattice address
+     * @param cumulativeAmount Total accrued to the node in the current epoch
+     * @param proof Merkle proof of the node's leaf
+     * @return Amount minted by this claim
+     */
+    function claimRewards(bytes32 nodeId, uint256 cumulativeAmount, bytes32[] calldata proof) external whenNotPaused returns (uint256) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(nodeId, msg.sender, cumulativeAmount))));
+        require(MerkleProof.verify(proof, rewardsRoot, leaf), "QBS: Invalid proof");
+        require(cumulativeAmount > claimedRewards[nodeId], "QBS: Nothing to claim");
+        
+        uint256 amount = cumulativeAmount - claimedRewards[nodeId];
+        require(totalSupply() + amount <= MAX_SUPPLY, "QBS: Exceeds max supply");
+        
+        claimedRewards[nodeId] = cumulativeAmount;
+        _mint(msg.sender, amount);
+        totalMiningRewards[msg.sender] += amount;
+        
+        emit RewardsClaimed(nodeId, msg.sender, rewardsEpoch, amount);
+        return amount;
+    }
+    
     /**
      * @dev Burn tokens from the caller's balance
      * @param amount Amount of tokens to burn
@@ -135,6 +202,25 @@ contract QBSToken is ERC20, Ownable, Pausable {
         return totalMiningRewards[user];
     }
     
+    /**
+     * @dev Check if a block has already been paid its mining reward
+     * @param blockId Identifier of the solved block
+     * @return True if the mining reward was minted
+     */
+    function isBlockRewarded(string memory blockId) external view returns (bool) {
+        return rewardedBlocks[keccak256(bytes(blockId))];
+    }
+    
+    /**
+     * @dev Check if an evolution level of a block has already been paid
+     * @param blockId Identifier of the evolved block
+     * @param level Advancement level
+     * @return True if the evolution reward was minted
+     */
+    function isEvolutionRewarded(string memory blockId, uint256 level) external view returns (bool) {
+        return rewardedEvolutions[keccak256(bytes(blockId))][level];
+    }
+    
     /**
      * @dev Check if an address is an authorized miner
      * @param miner Address to check
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Lattice API Server launcher
+ * Serves the shared registry over HTTP (npm run api:start)
+ *
+ *   LATTICE_API_PORT   port to bind (default 25579)
+ *   LATTICE_API_HOST   interface to bind (default 0.0.0.0)
+ *   LATTICE_API_STORE  "file" or "sqlite" (default file)
+ *   LATTICE_DATA_PATH  data directory (file) or database file (sqlite)
+ *
+ * Reward relaying is enabled when all of these are set:
+ *   RELAYER_PRIVATE_KEY   key of an authorized miner on QBSToken
+ *   RELAYER_RPC_URL       JSON-RPC endpoint (e.g. http://127.0.0.1:8545 for Hardhat)
+ *   QBS_CONTRACT_ADDRESS  deployed QBSToken address
+ * The same key then publishes a reward epoch root every REWARD_EPOCH_INTERVAL_MS
+ * (default one day).
+ */
+
+import 'dotenv/config';
+import { createRequire } from 'module';
+import { LatticeApiServer, createLatticeStore } from '../services/latticeApiServer';
+import { RewardMinter, RewardRelayer, connectMinerContract } from '../services/rewardRelayer';
+import { RewardEpochService, RewardRootPublisher } from '../services/rewardEpochs';
+
+// ProductionDatabaseManager loads Node built-ins through CommonJS require
+(globalThis as any).require ??= createRequire(import.meta.url);
+
+const port = parseInt(process.env.LATTICE_API_PORT || '25579', 10);
+const host = process.env.LATTICE_API_HOST || '0.0.0.0';
+const storeType = process.env.LATTICE_API_STORE === 'sqlite' ? 'sqlite' : 'file';
+
+const store = createLatticeStore(storeType, process.env.LATTICE_DATA_PATH || undefined);
+let server: LatticeApiServer | null = null;
+
+const createRewardServices = async (): Promise<{ relayer?: RewardRelayer; epochs?: RewardEpochService }> => {
+  const { RELAYER_PRIVATE_KEY, RELAYER_RPC_URL, QBS_CONTRACT_ADDRESS, REWARD_EPOCH_INTERVAL_MS } = process.env;
+  if (!RELAYER_PRIVATE_KEY || !RELAYER_RPC_URL || !QBS_CONTRACT_ADDRESS) return {};
+  const contract = await connectMinerContract(RELAYER_RPC_URL, RELAYER_PRIVATE_KEY, QBS_CONTRACT_ADDRESS);
+  const epochs = new RewardEpochService(store, contract as unknown as RewardRootPublisher);
+  const relayer = new RewardRelayer({ store, minter: contract as unknown as RewardMinter, epochs });
+  relayer.start();
+  epochs.start(parseInt(REWARD_EPOCH_INTERVAL_MS || '', 10) || undefined);
+  return { relayer, epochs };
+};
+
+const shutdown = async () => {
+  console.log('\n🛑 Shutting down Lattice API server...');
+  if (server) await server.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+createRewardServices()
+  .then(({ relayer, epochs }) => {
+    server = new LatticeApiServer({ store, relayer, epochs });
+    return server.start(port, host).then(boundPort => {
+      console.log(`✅ Lattice API server listening on http://${host}:${boundPort} (${storeType} store)`);
+      if (relayer) console.log(`⛏️  Reward relayer minting on ${process.env.QBS_CONTRACT_ADDRESS}`);
+    });
+  })
+  .catch(error => {
+    console.error('❌ Lattice API server failed to start:', error.message);
+    process.exit(1);
+  });
@@ -1,4 +1,25 @@
-const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+const { ethers, artifacts } = require("hardhat");
+
+// Deployment registry read by services/networkConfig.ts, keyed by chain id
+const REGISTRY_PATH = path.join(__dirname, "..", "deployments", "qbs-token.json");
+// Throwaway Hardhat deployments go to a gitignored registry instead
+const LOCAL_REGISTRY_PATH = path.join(__dirname, "..", "deployments", "local.json");
+const LOCAL_CHAIN_IDS = [1337, 31337];
+
+function registryPath(chainId) {
+  return LOCAL_CHAIN_IDS.includes(chainId) ? LOCAL_REGISTRY_PATH : REGISTRY_PATH;
+}
+
+function recordDeployment(deployment) {
+  const file = registryPath(deployment.chainId);
+  const registry = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+  registry[deployment.chainId] = deployment;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(registry, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
 
 async function main() {
   console.log("🚀 Starting QBS Token deployment...");
@@ -24,6 +45,7 @@ async function main() {
   await qbsToken.waitForDeployment();
   
   const contractAddress = await qbsToken.getAddress();
+  const deploymentReceipt = await qbsToken.deploymentTransaction().wait();
   console.log("✅ QBS Token deployed to:", contractAddress);
   
   // Verify deployment by checking some contract properties
@@ -45,6 +67,13 @@ async function main() {
   const authTx = await qbsToken.authorizeMiner(deployer.address);
   await authTx.wait();
   console.log("✅ Deployer authorized as miner");
+
+  // Additional miner, e.g. the reward relayer's key
+  if (process.env.MINER_ADDRESS) {
+    const minerTx = await qbsToken.authorizeMiner(process.env.MINER_ADDRESS);
+    await minerTx.wait();
+    console.log("✅ Authorized miner:", process.env.MINER_ADDRESS);
+  }
   
   // Test minting a small reward
   console.log("\n🧪 Testing mining reward...");
@@ -63,7 +92,6 @@ async function main() {
   
   console.log("\n🎉 Deployment completed successfully!");
   console.log("📋 Contract Address:", contractAddress);
-  console.log("🔗 Add this address to your networkConfig.ts file");
   
   // Network-specific explorer URLs
   const explorerUrls = {
@@ -79,23 +107,29 @@ async function main() {
     console.log("🔍 View on Explorer:", `${explorerUrl}/address/${contractAddress}`);
   }
   
-  // Save deployment info
+  // Save deployment info to the registry the app reads contract addresses from
+  const { abi } = await artifacts.readArtifact("QBSToken");
   const deploymentInfo = {
-    contractAddress: contractAddress,
+    chainId: Number(network.chainId),
+    address: contractAddress,
     deployer: deployer.address,
-    network: {
-      name: network.name,
-      chainId: network.chainId.toString()
-    },
-    timestamp: new Date().toISOString(),
-    transactionHash: qbsToken.deploymentTransaction()?.hash
+    blockNumber: deploymentReceipt.blockNumber,
+    abiHash: ethers.id(JSON.stringify(abi)),
+    transactionHash: deploymentReceipt.hash,
+    deployedAt: new Date().toISOString()
   };
-  
-  console.log("\n📄 Deployment Info:");
+  recordDeployment(deploymentInfo);
+  const registryFile = path.relative(path.join(__dirname, ".."), registryPath(deploymentInfo.chainId));
+
+  console.log(`\n📄 Deployment Info (recorded in ${registryFile}):`);
   console.log(JSON.stringify(deploymentInfo, null, 2));
   
   console.log("\n📝 Next Steps:");
-  console.log("1. Update services/networkConfig.ts with the contract address");
+  if (registryFile.endsWith("local.json")) {
+    console.log(`1. Pass the address to the app with QBS_CONTRACT_ADDRESSES=${deploymentInfo.chainId}:${contractAddress}`);
+  } else {
+    console.log(`1. Commit ${registryFile} so the app picks up the address`);
+  }
   console.log("2. Verify the contract on the block explorer (optional)");
   console.log("3. Test the integration with your application");
   console.log("4. Authorize additional miners if needed");
@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+/**
+ * Local Chain Mode
+ * Boots a Hardhat node, deploys QBSToken (recorded in the gitignored deployments/local.json),
+ * authorizes the relayer as a miner and starts the API server and app against it,
+ * for offline end-to-end testing. Pass --chain-only to stop after the deployment.
+ */
+
+const { spawn } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const RPC_URL = 'http://127.0.0.1:8545';
+const CHAIN_ID = 1337;
+const REGISTRY_PATH = path.join(__dirname, '..', 'deployments', 'local.json');
+
+// Hardhat's well-known development accounts; never use them on a public network
+const DEPLOYER = {
+  address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+};
+const RELAYER = {
+  address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  privateKey: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+};
+
+const chainOnly = process.argv.includes('--chain-only');
+const children = [];
+
+function start(command, args, env = {}, stdio = 'inherit') {
+  const child = spawn(command, args, { stdio, env: { ...process.env, ...env } });
+  children.push(child);
+  return child;
+}
+
+function shutdown(code = 0) {
+  console.log('\n🛑 Stopping local chain mode...');
+  children.forEach(child => child.exitCode === null && child.kill('SIGINT'));
+  process.exit(code);
+}
+
+async function waitForRpc(timeoutMs = 60000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(RPC_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] })
+      });
+      const { result } = await response.json();
+      if (parseInt(result, 16) === CHAIN_ID) return;
+    } catch {
+      // Node not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`Hardhat node did not answer on ${RPC_URL}`);
+}
+
+function run(command, args, env) {
+  return new Promise((resolve, reject) => {
+    start(command, args, env).on('exit', code =>
+      code === 0 ? resolve() : reject(new Error(`${command} ${args.join(' ')} exited with code ${code}`))
+    );
+  });
+}
+
+async function startLocalChain() {
+  fs.mkdirSync(path.join(process.cwd(), 'logs'), { recursive: true });
+  const nodeLog = fs.openSync(path.join(process.cwd(), 'logs', 'hardhat-node.log'), 'w');
+
+  console.log('⛓️  Starting Hardhat node (logs/hardhat-node.log)...');
+  const node = start('npx', ['hardhat', 'node', '--config', 'hardhat.config.cjs'], {}, ['ignore', nodeLog, nodeLog]);
+  node.on('exit', code => {
+    if (code !== 0) {
+      console.error(`❌ Hardhat node exited with code ${code}`);
+      shutdown(1);
+    }
+  });
+  await waitForRpc();
+
+  console.log('🔨 Deploying QBSToken...');
+  await run('npx', ['hardhat', 'run', 'scripts/deploy.cjs', '--network', 'localhost', '--config', 'hardhat.config.cjs'], {
+    MINER_ADDRESS: RELAYER.address
+  });
+
+  const deployment = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf8'))[CHAIN_ID];
+  console.log(`✅ QBSToken on chain ${CHAIN_ID} at ${deployment.address}`);
+  console.log(`🦊 Add network ${RPC_URL} (chain id ${CHAIN_ID}) to MetaMask and import ${DEPLOYER.address} with key ${DEPLOYER.privateKey}`);
+
+  if (chainOnly) {
+    console.log('⏸️  Chain only: press Ctrl+C to stop the node');
+    return;
+  }
+
+  console.log('🌐 Starting API server with the reward relayer and the app...');
+  start('npx', ['tsx', 'scripts/api-server.ts'], {
+    RELAYER_PRIVATE_KEY: RELAYER.privateKey,
+    RELAYER_RPC_URL: RPC_URL,
+    QBS_CONTRACT_ADDRESS: deployment.address
+  });
+  start('npx', ['vite', '--host', '0.0.0.0'], {
+    QBS_CONTRACT_ADDRESSES: `${CHAIN_ID}:${deployment.address}`
+  });
+}
+
+process.on('SIGINT', () => shutdown(0));
+process.on('SIGTERM', () => shutdown(0));
+
+startLocalChain().catch(error => {
+  console.error('❌ Local chain mode failed:', error.message);
+  shutdown(1);
+});
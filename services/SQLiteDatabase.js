@@ -7,9 +7,35 @@ const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 
 class SQLiteDatabase {
-  constructor() {
-    this.dbPath = path.join(process.cwd(), 'data', 'sovereign_lattice.db');
+  constructor(dbPath) {
+    this.dbPath = dbPath || path.join(process.cwd(), 'data', 'sovereign_lattice.db');
     this.db = null;
+    // Serializes writes so statements from other calls never land inside a ledger transaction
+    this.writeQueue = Promise.resolve();
+  }
+
+  run(sql, params = []) {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function(err) {
+        if (err) reject(err);
+        else resolve(this);
+      });
+    });
+  }
+
+  all(sql, params = []) {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+  }
+
+  enqueueWrite(task) {
+    const result = this.writeQueue.then(task, task);
+    this.writeQueue = result.catch(() => {});
+    return result;
   }
 
   async initialize() {
@@ -65,8 +91,119 @@ class SQLiteDatabase {
         )
       `;
 
+      const createProposalsTable = `
+        CREATE TABLE IF NOT EXISTS proposals (
+          id TEXT PRIMARY KEY,
+          proposer TEXT NOT NULL,
+          status TEXT NOT NULL,
+          expires_at TEXT,
+          proposal_data TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // One row per voter; the primary key rejects a second vote
+      const createProposalVotesTable = `
+        CREATE TABLE IF NOT EXISTS proposal_votes (
+          proposal_id TEXT NOT NULL,
+          voter TEXT NOT NULL,
+          type TEXT NOT NULL,
+          weight REAL NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (proposal_id, voter),
+          FOREIGN KEY (proposal_id) REFERENCES proposals (id)
+        )
+      `;
+
+      // Postings are signed integers of 1e-9 of an asset; every entry sums to zero per asset
+      const createLedgerEntriesTable = `
+        CREATE TABLE IF NOT EXISTS ledger_entries (
+          id TEXT PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          description TEXT
+        )
+      `;
+
+      const createLedgerPostingsTable = `
+        CREATE TABLE IF NOT EXISTS ledger_postings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entry_id TEXT NOT NULL,
+          account TEXT NOT NULL,
+          asset TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          FOREIGN KEY (entry_id) REFERENCES ledger_entries (id)
+        )
+      `;
+
+      // LatticePool trading statistics and the OHLC candles of executed swap prices
+      const createPoolStatsTable = `
+        CREATE TABLE IF NOT EXISTS pool_stats (
+          id TEXT PRIMARY KEY,
+          stats_data TEXT NOT NULL
+        )
+      `;
+
+      // Governance audit trail and the protocol parameters set by executed proposals
+      const createGovernanceAuditTable = `
+        CREATE TABLE IF NOT EXISTS governance_audit (
+          id TEXT PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          entry_data TEXT NOT NULL
+        )
+      `;
+
+      const createProtocolParametersTable = `
+        CREATE TABLE IF NOT EXISTS protocol_parameters (
+          id TEXT PRIMARY KEY,
+          parameters_data TEXT NOT NULL
+        )
+      `;
+
+      // Latest reward epoch: Merkle leaves of cumulative accruals per payout address
+      const createRewardEpochsTable = `
+        CREATE TABLE IF NOT EXISTS reward_epochs (
+          epoch INTEGER PRIMARY KEY,
+          epoch_data TEXT NOT NULL
+        )
+      `;
+
+      // Reward claims the relayer queued or minted; their units are left out of epochs
+      const createRelayedClaimsTable = `
+        CREATE TABLE IF NOT EXISTS relayed_claims (
+          id TEXT PRIMARY KEY,
+          claim_data TEXT NOT NULL
+        )
+      `;
+
+      const createPriceCandlesTable = `
+        CREATE TABLE IF NOT EXISTS price_candles (
+          id TEXT PRIMARY KEY,
+          interval TEXT NOT NULL,
+          open_time INTEGER NOT NULL,
+          open REAL NOT NULL,
+          high REAL NOT NULL,
+          low REAL NOT NULL,
+          close REAL NOT NULL,
+          volume_usd REAL NOT NULL,
+          trades INTEGER NOT NULL
+        )
+      `;
+
       this.db.serialize(() => {
         this.db.run(createUsersTable);
+        this.db.run(createProposalsTable);
+        this.db.run(createProposalVotesTable);
+        this.db.run(createLedgerEntriesTable);
+        this.db.run(createLedgerPostingsTable);
+        this.db.run('CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings (account)');
+        this.db.run(createPoolStatsTable);
+        this.db.run(createPriceCandlesTable);
+        this.db.run('CREATE INDEX IF NOT EXISTS idx_price_candles_interval ON price_candles (interval, open_time)');
+        this.db.run(createGovernanceAuditTable);
+        this.db.run(createProtocolParametersTable);
+        this.db.run(createRewardEpochsTable);
+        this.db.run(createRelayedClaimsTable);
         this.db.run(createTransactionsTable, (err) => {
           if (err) {
             reject(err);
@@ -101,8 +238,9 @@ class SQLiteDatabase {
         })
       };
 
+      // Never overwrite an existing founder row on restart
       const insertSQL = `
-        INSERT OR REPLACE INTO users 
+        INSERT OR IGNORE INTO users 
         (address, username, password_hash, security_code, balance, usd_balance, role, is_founder, profile_data)
         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
@@ -121,13 +259,31 @@ class SQLiteDatabase {
         if (err) {
           reject(err);
         } else {
-          console.log('✅ Founder profile inserted with ID:', this.lastID);
+          if (this.changes > 0) {
+            console.log('✅ Founder profile inserted with ID:', this.lastID);
+          }
           resolve();
         }
       });
     });
   }
 
+  rowToUser(row) {
+    return {
+      ...JSON.parse(row.profile_data || '{}'),
+      address: row.address,
+      username: row.username,
+      passwordHash: row.password_hash,
+      securityCode: row.security_code,
+      balance: row.balance,
+      usdBalance: row.usd_balance,
+      role: row.role,
+      isFounder: Boolean(row.is_founder),
+      created: row.created_at,
+      lastModified: row.updated_at
+    };
+  }
+
   async getUser(identifier) {
     return new Promise((resolve, reject) => {
       const sql = `
@@ -139,20 +295,7 @@ class SQLiteDatabase {
         if (err) {
           reject(err);
         } else if (row) {
-          const user = {
-            ...JSON.parse(row.profile_data || '{}'),
-            address: row.address,
-            username: row.username,
-            passwordHash: row.password_hash,
-            securityCode: row.security_code,
-            balance: row.balance,
-            usdBalance: row.usd_balance,
-            role: row.role,
-            isFounder: Boolean(row.is_founder),
-            created: row.created_at,
-            lastModified: row.updated_at
-          };
-          resolve(user);
+          resolve(this.rowToUser(row));
         } else {
           resolve(null);
         }
@@ -160,45 +303,241 @@ class SQLiteDatabase {
     });
   }
 
-  async saveUser(userData) {
+  async getAllUsers() {
     return new Promise((resolve, reject) => {
-      const profileData = { ...userData };
-      delete profileData.address;
-      delete profileData.username;
-      delete profileData.passwordHash;
-      delete profileData.securityCode;
-      delete profileData.balance;
-      delete profileData.usdBalance;
-      delete profileData.role;
-      delete profileData.isFounder;
-
-      const sql = `
-        INSERT OR REPLACE INTO users 
-        (address, username, password_hash, security_code, balance, usd_balance, role, is_founder, profile_data, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-      `;
-
-      this.db.run(sql, [
-        userData.address,
-        userData.username,
-        userData.passwordHash || userData.password,
-        userData.securityCode,
-        userData.balance,
-        userData.usdBalance,
-        userData.role,
-        userData.isFounder ? 1 : 0,
-        JSON.stringify(profileData)
-      ], function(err) {
+      this.db.all('SELECT * FROM users ORDER BY id ASC', [], (err, rows) => {
         if (err) {
           reject(err);
         } else {
-          console.log('✅ User saved:', userData.username);
-          resolve();
+          resolve(rows.map(row => this.rowToUser(row)));
         }
       });
     });
   }
 
+  async saveUser(userData) {
+    return this.enqueueWrite(async () => {
+      const balances = await this.getOwnedBalances(userData.address);
+      if (balances && !this.matchesBalances(userData, balances)) {
+        throw new Error(`Balance of ${userData.username} does not match the ledger; post the change through the ledger`);
+      }
+      await this.writeUser(userData);
+      console.log('✅ User saved:', userData.username);
+    });
+  }
+
+  async writeUser(userData) {
+    const profileData = { ...userData };
+    delete profileData.address;
+    delete profileData.username;
+    delete profileData.passwordHash;
+    delete profileData.securityCode;
+    delete profileData.balance;
+    delete profileData.usdBalance;
+    delete profileData.role;
+    delete profileData.isFounder;
+
+    const sql = `
+      INSERT OR REPLACE INTO users 
+      (address, username, password_hash, security_code, balance, usd_balance, role, is_founder, profile_data, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `;
+
+    await this.run(sql, [
+      userData.address,
+      userData.username,
+      userData.passwordHash || userData.password,
+      userData.securityCode,
+      userData.balance,
+      userData.usdBalance,
+      userData.role,
+      userData.isFounder ? 1 : 0,
+      JSON.stringify(profileData)
+    ]);
+  }
+
+  async getUserByAddress(address) {
+    return this.getUser(address);
+  }
+
+  // Ledger
+
+  matchesBalances(userData, balances) {
+    return Math.round((userData.balance || 0) * 1e9) === (balances.user.QBS || 0) &&
+      Math.round((userData.usdBalance || 0) * 1e9) === (balances.user.QRK || 0) &&
+      Math.round((userData.stakedBalance || 0) * 1e9) === (balances.stake.QBS || 0) &&
+      Math.round((userData.unbondingBalance || 0) * 1e9) === (balances.unbonding.QBS || 0);
+  }
+
+  /**
+   * Liquid, staked and unbonding balances of a user, or null if they have no postings
+   */
+  async getOwnedBalances(address) {
+    const user = await this.getAccountBalances(`user:${address}`);
+    const stake = await this.getAccountBalances(`stake:${address}`);
+    const unbonding = await this.getAccountBalances(`unbonding:${address}`);
+    if (!user && !stake && !unbonding) return null;
+    return { user: user || {}, stake: stake || {}, unbonding: unbonding || {} };
+  }
+
+  async getAccountBalances(account) {
+    const rows = await this.all(
+      'SELECT asset, SUM(amount) AS total FROM ledger_postings WHERE account = ? GROUP BY asset',
+      [account]
+    );
+    if (rows.length === 0) return null;
+    return rows.reduce((balances, row) => ({ ...balances, [row.asset]: row.total }), {});
+  }
+
+  async getLedgerBalances() {
+    const rows = await this.all('SELECT account, asset, SUM(amount) AS total FROM ledger_postings GROUP BY account, asset');
+    const balances = {};
+    for (const row of rows) {
+      balances[row.account] = { ...(balances[row.account] || {}), [row.asset]: row.total };
+    }
+    return balances;
+  }
+
+  async getLedgerEntries() {
+    const entries = await this.all('SELECT id, timestamp, description FROM ledger_entries ORDER BY rowid');
+    const postings = await this.all('SELECT entry_id, account, asset, amount FROM ledger_postings ORDER BY id');
+    const byId = new Map(entries.map(entry => [entry.id, { ...entry, postings: [] }]));
+    for (const posting of postings) {
+      byId.get(posting.entry_id)?.postings.push({ account: posting.account, asset: posting.asset, amount: posting.amount });
+    }
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Insert the entry, its postings and the user rows in one SQL transaction;
+   * rolls back if the entry does not balance, leaves a user negative, or a
+   * user row disagrees with the postings
+   */
+  async commitLedgerEntry(entry, users) {
+    return this.enqueueWrite(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        await this.run(
+          'INSERT INTO ledger_entries (id, timestamp, description) VALUES (?, ?, ?)',
+          [entry.id, entry.timestamp, entry.description]
+        );
+        for (const posting of entry.postings) {
+          if (!Number.isSafeInteger(posting.amount)) {
+            throw new Error(`Invalid amount ${posting.amount} on ${posting.account}`);
+          }
+          await this.run(
+            'INSERT INTO ledger_postings (entry_id, account, asset, amount) VALUES (?, ?, ?, ?)',
+            [entry.id, posting.account, posting.asset, posting.amount]
+          );
+        }
+
+        const unbalanced = await this.all(
+          'SELECT asset FROM ledger_postings WHERE entry_id = ? GROUP BY asset HAVING SUM(amount) != 0',
+          [entry.id]
+        );
+        if (unbalanced.length > 0) {
+          throw new Error(`${unbalanced.map(r => r.asset).join(', ')} postings do not balance`);
+        }
+
+        const overdrawn = await this.all(`
+          SELECT account, asset FROM ledger_postings
+          WHERE account IN (SELECT account FROM ledger_postings WHERE entry_id = ?)
+            AND (account LIKE 'user:%' OR account LIKE 'stake:%' OR account LIKE 'unbonding:%')
+          GROUP BY account, asset HAVING SUM(amount) < 0
+        `, [entry.id]);
+        if (overdrawn.length > 0) {
+          throw new Error(`Insufficient ${overdrawn[0].asset} on ${overdrawn[0].account}`);
+        }
+
+        for (const user of users) {
+          const balances = await this.getOwnedBalances(user.address);
+          if (balances && !this.matchesBalances(user, balances)) {
+            throw new Error(`balances of ${user.username} do not match postings`);
+          }
+          await this.writeUser(user);
+        }
+
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw new Error(`Ledger entry rejected: ${error.message}`);
+      }
+    });
+  }
+
+  async getPoolStats() {
+    const rows = await this.all("SELECT stats_data FROM pool_stats WHERE id = 'POOL'");
+    return rows.length > 0 ? JSON.parse(rows[0].stats_data) : null;
+  }
+
+  async getPriceCandles(interval, fromMs = 0, toMs = Number.MAX_SAFE_INTEGER) {
+    const rows = await this.all(
+      'SELECT * FROM price_candles WHERE interval = ? AND open_time >= ? AND open_time <= ? ORDER BY open_time',
+      [interval, fromMs, toMs]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      interval: row.interval,
+      openTime: row.open_time,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volumeUsd: row.volume_usd,
+      trades: row.trades
+    }));
+  }
+
+  /**
+   * Replace the pool statistics and upsert the candles a swap updated in one transaction
+   */
+  async commitPoolTrade(stats, candles) {
+    return this.enqueueWrite(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        await this.run(
+          "INSERT OR REPLACE INTO pool_stats (id, stats_data) VALUES ('POOL', ?)",
+          [JSON.stringify(stats)]
+        );
+        for (const candle of candles) {
+          await this.run(
+            `INSERT OR REPLACE INTO price_candles (id, interval, open_time, open, high, low, close, volume_usd, trades)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [candle.id, candle.interval, candle.openTime, candle.open, candle.high, candle.low, candle.close, candle.volumeUsd, candle.trades]
+          );
+        }
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async getRewardEpoch() {
+    const rows = await this.all('SELECT epoch_data FROM reward_epochs ORDER BY epoch DESC LIMIT 1');
+    return rows.length > 0 ? JSON.parse(rows[0].epoch_data) : null;
+  }
+
+  async saveRewardEpoch(epoch) {
+    return this.enqueueWrite(() => this.run(
+      'INSERT OR REPLACE INTO reward_epochs (epoch, epoch_data) VALUES (?, ?)',
+      [epoch.epoch, JSON.stringify(epoch)]
+    ));
+  }
+
+  async getRelayedClaims() {
+    const rows = await this.all('SELECT claim_data FROM relayed_claims ORDER BY rowid');
+    return rows.map(row => JSON.parse(row.claim_data));
+  }
+
+  async saveRelayedClaim(relayed) {
+    return this.enqueueWrite(() => this.run(
+      'INSERT OR REPLACE INTO relayed_claims (id, claim_data) VALUES (?, ?)',
+      [relayed.id, JSON.stringify(relayed)]
+    ));
+  }
+
   async addTransaction(userAddress, transactionData) {
     return new Promise((resolve, reject) => {
       const sql = `
@@ -249,9 +588,162 @@ class SQLiteDatabase {
     });
   }
 
+  async saveProposal(proposal) {
+    return this.enqueueWrite(() => this.writeProposal(proposal));
+  }
+
+  async writeProposal(proposal) {
+    // Upsert keeps created_at so listing order stays stable across updates
+    await this.run(`
+      INSERT INTO proposals (id, proposer, status, expires_at, proposal_data, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        proposer = excluded.proposer,
+        status = excluded.status,
+        expires_at = excluded.expires_at,
+        proposal_data = excluded.proposal_data,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      proposal.id,
+      proposal.proposer,
+      proposal.status,
+      proposal.expiresAt,
+      JSON.stringify(proposal)
+    ]);
+  }
+
+  async getProposal(id) {
+    const rows = await this.all('SELECT proposal_data FROM proposals WHERE id = ?', [id]);
+    return rows.length > 0 ? JSON.parse(rows[0].proposal_data) : null;
+  }
+
+  async deleteProposal(id) {
+    return this.enqueueWrite(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        await this.run('DELETE FROM proposal_votes WHERE proposal_id = ?', [id]);
+        await this.run('DELETE FROM proposals WHERE id = ?', [id]);
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Insert the voter's row and update the proposal tallies in one transaction
+   */
+  async recordProposalVote(proposalId, vote) {
+    return this.enqueueWrite(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const proposal = await this.getProposal(proposalId);
+        if (!proposal) {
+          throw new Error(`Proposal ${proposalId} not found`);
+        }
+        if (proposal.status !== 'ACTIVE') {
+          throw new Error(`Proposal ${proposalId} is ${proposal.status}`);
+        }
+        if (Date.parse(proposal.expiresAt) <= Date.parse(vote.timestamp)) {
+          throw new Error(`Proposal ${proposalId} expired at ${proposal.expiresAt}`);
+        }
+        if (vote.type !== 'FOR' && vote.type !== 'AGAINST') {
+          throw new Error(`Unknown vote type ${vote.type}`);
+        }
+        if (!Number.isFinite(vote.weight) || vote.weight <= 0) {
+          throw new Error('Vote weight must be positive');
+        }
+
+        try {
+          await this.run(
+            'INSERT INTO proposal_votes (proposal_id, voter, type, weight, created_at) VALUES (?, ?, ?, ?, ?)',
+            [proposalId, vote.voter, vote.type, vote.weight, vote.timestamp]
+          );
+        } catch (error) {
+          if (error.code === 'SQLITE_CONSTRAINT') {
+            throw new Error(`${vote.voter} has already voted on ${proposalId}`);
+          }
+          throw error;
+        }
+
+        // Tallies are in QBS, weights in quarks
+        const qbsWeight = vote.weight / 1000000000;
+        const updated = {
+          ...proposal,
+          votes: { ...(proposal.votes || {}), [vote.voter]: vote },
+          votesFor: vote.type === 'FOR' ? proposal.votesFor + qbsWeight : proposal.votesFor,
+          votesAgainst: vote.type === 'AGAINST' ? proposal.votesAgainst + qbsWeight : proposal.votesAgainst,
+          totalQuarksStaked: (proposal.totalQuarksStaked || 0) + vote.weight
+        };
+        await this.writeProposal(updated);
+
+        await this.run('COMMIT');
+        return updated;
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw new Error(`Vote rejected: ${error.message}`);
+      }
+    });
+  }
+
+  async getProtocolParameters() {
+    const rows = await this.all("SELECT parameters_data FROM protocol_parameters WHERE id = 'PROTOCOL'");
+    return rows.length > 0 ? JSON.parse(rows[0].parameters_data) : null;
+  }
+
+  async getGovernanceAudit() {
+    const rows = await this.all('SELECT entry_data FROM governance_audit ORDER BY timestamp, rowid');
+    return rows.map(row => JSON.parse(row.entry_data));
+  }
+
+  /**
+   * Write proposal transitions, their audit entries and any new parameters in one transaction
+   */
+  async commitGovernanceChange(proposals, audit, parameters) {
+    return this.enqueueWrite(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        for (const entry of audit) {
+          await this.run(
+            'INSERT INTO governance_audit (id, timestamp, entry_data) VALUES (?, ?, ?)',
+            [entry.id, entry.timestamp, JSON.stringify(entry)]
+          );
+        }
+        if (parameters) {
+          await this.run(
+            "INSERT OR REPLACE INTO protocol_parameters (id, parameters_data) VALUES ('PROTOCOL', ?)",
+            [JSON.stringify(parameters)]
+          );
+        }
+        for (const proposal of proposals) {
+          await this.writeProposal(proposal);
+        }
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async getAllProposals() {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT proposal_data FROM proposals ORDER BY created_at DESC', [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => JSON.parse(row.proposal_data)));
+        }
+      });
+    });
+  }
+
   async close() {
     if (this.db) {
-      this.db.close();
+      const db = this.db;
+      this.db = null;
+      await new Promise((resolve) => db.close(() => resolve()));
     }
   }
 }
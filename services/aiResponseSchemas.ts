@@ -0,0 +1,103 @@
+/**
+ * AI Response Schemas
+ * Runtime checks for the JSON that evaluation providers return, so a missing grade
+ * or a stringly-typed score is caught before it becomes part of a SolvedBlock
+ */
+
+import type { MiningEvaluationResponse, EvolutionResponse } from './deepSeekClient';
+
+export type FieldSpec =
+  | { type: 'string' }
+  | { type: 'number'; min: number; max: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'stringRecord' };
+
+export interface ResponseSchema<T> {
+  name: string;
+  fields: Record<keyof T & string, FieldSpec>;
+}
+
+const GRADES = ['S', 'A', 'B', 'C'] as const;
+
+// The rubric tops out at 10x for an S grade
+const SCORE: FieldSpec = { type: 'number', min: 0, max: 10 };
+
+export const MINING_EVALUATION_SCHEMA: ResponseSchema<MiningEvaluationResponse> = {
+  name: 'MiningEvaluationResponse',
+  fields: {
+    grade: { type: 'enum', values: GRADES },
+    breakthroughScore: SCORE,
+    explanation: { type: 'string' },
+    consensusCritique: { type: 'string' },
+    primaryFormula: { type: 'string' },
+    observedConstants: { type: 'stringRecord' },
+    neuralInterpretation: { type: 'string' }
+  }
+};
+
+export const EVOLUTION_SCHEMA: ResponseSchema<EvolutionResponse> = {
+  name: 'EvolutionResponse',
+  fields: {
+    newGrade: { type: 'enum', values: GRADES },
+    newScore: SCORE,
+    evolvedExplanation: { type: 'string' },
+    scientificMath: { type: 'string' },
+    evolvedFormula: { type: 'string' },
+    observedConstants: { type: 'stringRecord' },
+    realWorldImplementation: { type: 'string' },
+    consensusCritique: { type: 'string' }
+  }
+};
+
+const checkField = (field: string, spec: FieldSpec, value: unknown): string | null => {
+  if (value === undefined || value === null) {
+    return `"${field}" is missing`;
+  }
+
+  switch (spec.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `"${field}" must be a string`;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `"${field}" must be a number, not ${JSON.stringify(value)}`;
+      }
+      return value >= spec.min && value <= spec.max ? null : `"${field}" must be between ${spec.min} and ${spec.max}, not ${value}`;
+    case 'enum':
+      return spec.values.includes(value as string) ? null : `"${field}" must be one of ${spec.values.join('|')}, not ${JSON.stringify(value)}`;
+    case 'stringRecord': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `"${field}" must be an object of name → value strings`;
+      }
+      const bad = Object.entries(value).filter(([, entry]) => typeof entry !== 'string').map(([key]) => key);
+      return bad.length === 0 ? null : `"${field}" values must be strings (${bad.join(', ')})`;
+    }
+  }
+};
+
+/**
+ * Validation errors for a parsed response; empty when it matches the schema
+ */
+export const validateResponse = <T>(schema: ResponseSchema<T>, value: unknown): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${schema.name} must be a JSON object`];
+  }
+
+  const record = value as Record<string, unknown>;
+  return (Object.entries(schema.fields) as Array<[string, FieldSpec]>)
+    .map(([field, spec]) => checkField(field, spec, record[field]))
+    .filter((error): error is string => error !== null);
+};
+
+/**
+ * A provider's response still failed its schema after the repair re-prompt
+ */
+export class AIResponseValidationError extends Error {
+  constructor(
+    public readonly schema: string,
+    public readonly errors: string[],
+    public readonly provider: string
+  ) {
+    super(`${provider} returned an invalid ${schema}: ${errors.join('; ')}`);
+    this.name = 'AIResponseValidationError';
+  }
+}
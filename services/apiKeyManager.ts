@@ -20,6 +20,7 @@ export interface DeepSeekConfig {
 export class APIKeyManager {
   private static readonly API_KEY_STORAGE_KEY = 'DEEPSEEK_API_KEY';
   private static readonly API_KEY_INFO_KEY = 'DEEPSEEK_API_KEY_INFO';
+  private static readonly ENDPOINT_KEY_STORAGE_KEY = 'OPENAI_COMPATIBLE_API_KEY';
   private static readonly DEFAULT_BASE_URL = 'https://api.deepseek.com/v1';
   private static readonly DEFAULT_MODEL = 'deepseek-chat';
 
@@ -187,6 +188,53 @@ export class APIKeyManager {
     };
   }
 
+  /**
+   * Store the optional API key of an OpenAI-compatible evaluation endpoint
+   */
+  public async storeEndpointKey(apiKey: string): Promise<void> {
+    if (!EncryptionService.isSupported()) {
+      throw new Error('Web Crypto API is not supported in this browser');
+    }
+
+    if (!this.validateAPIKeyFormat(apiKey)) {
+      throw new Error('Invalid API key format');
+    }
+
+    SecureStorage.store(APIKeyManager.ENDPOINT_KEY_STORAGE_KEY, await EncryptionService.encrypt(apiKey, this.userPassword!));
+  }
+
+  /**
+   * Retrieve the OpenAI-compatible endpoint key, or null when none is stored
+   */
+  public async getEndpointKey(): Promise<string | null> {
+    const encryptedData = SecureStorage.retrieve(APIKeyManager.ENDPOINT_KEY_STORAGE_KEY);
+    if (!encryptedData) {
+      return null;
+    }
+
+    try {
+      return await EncryptionService.decrypt(encryptedData, this.userPassword!);
+    } catch (error) {
+      console.error('Failed to retrieve endpoint key:', error.message);
+      this.removeEndpointKey();
+      return null;
+    }
+  }
+
+  /**
+   * Remove the OpenAI-compatible endpoint key
+   */
+  public removeEndpointKey(): void {
+    SecureStorage.remove(APIKeyManager.ENDPOINT_KEY_STORAGE_KEY);
+  }
+
+  /**
+   * Check if an OpenAI-compatible endpoint key is stored
+   */
+  public hasEndpointKey(): boolean {
+    return SecureStorage.exists(APIKeyManager.ENDPOINT_KEY_STORAGE_KEY);
+  }
+
   /**
    * Update last used timestamp
    */
@@ -0,0 +1,315 @@
+/**
+ * Balance Reconciliation
+ * Compares the on-chain-backed part of each user's ledger QBS (block accruals, net
+ * on-chain transfers and approved corrections) with what their payout wallet holds.
+ * Known causes of drift are broken out (accruals not yet claimed, rewards still in
+ * the queue or failed); whatever is left is unexplained and can be settled with a
+ * correction entry once an admin approves it. In-app activity that never touches
+ * the chain is reported alongside but is never corrected.
+ */
+
+import { ethers } from 'ethers';
+import { BalanceCorrection, IndexedTransaction, QueuedReward, Transaction, User } from '../types';
+import { productionDB } from './productionDatabase';
+import { qbsContract } from './qbsContract';
+import { rewardNodeId } from './rewardEpochs';
+import {
+  LedgerBackend,
+  LedgerService,
+  SYSTEM_ACCOUNTS,
+  deriveUserBalances,
+  fromLedgerUnits,
+  hasLedgerHistory,
+  movement,
+  toLedgerUnits,
+  userAccount
+} from './ledger';
+
+export type DriftKind = 'UNCLAIMED_ACCRUAL' | 'PENDING_REWARD' | 'FAILED_MINT' | 'OFF_CHAIN_ACTIVITY';
+
+export interface DriftFinding {
+  kind: DriftKind;
+  amount: number; // QBS the wallet holds relative to the ledger because of this cause
+  detail: string;
+}
+
+export interface BalanceDrift {
+  address: string;
+  username: string;
+  wallet: string | null;
+  ledgerQbs: number;
+  backedQbs: number; // Ledger QBS the wallet should hold: accruals, net on-chain transfers, corrections
+  onChainQbs: number;
+  drift: number; // onChainQbs - backedQbs
+  findings: DriftFinding[];
+  // Ledger QBS from in-app activity (transfers, staking, trades); reported, never corrected
+  offChain: DriftFinding | null;
+  unexplainedQbs: number;
+  status: 'NO_WALLET' | 'SHARED_WALLET' | 'IN_SYNC' | 'EXPLAINED' | 'DRIFT';
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  drifts: BalanceDrift[];
+  unexplainedQbs: number;
+}
+
+/**
+ * On-chain reads reconciliation needs; see qbsReconciliationChain
+ */
+export interface ReconciliationChain {
+  getBalance(address: string): Promise<string>; // QBS
+  getClaimedRewards(nodeId: string): Promise<bigint>; // wei, per lattice node
+  getTransactions(address: string): Promise<IndexedTransaction[]>;
+}
+
+export interface ReconciliationBackend extends LedgerBackend {
+  getAllUsers(): Promise<User[]>;
+  getQueuedRewards(): Promise<QueuedReward[]>;
+  getBalanceCorrections(): Promise<BalanceCorrection[]>;
+  saveBalanceCorrections(corrections: BalanceCorrection[]): Promise<void>;
+}
+
+export const qbsReconciliationChain: ReconciliationChain = {
+  getBalance: address => qbsContract.getBalance(address),
+  getClaimedRewards: nodeId => qbsContract.getClaimedRewards(nodeId),
+  getTransactions: address => qbsContract.indexTransactions(address)
+};
+
+// Ledger units are 1e-9 QBS, token wei 1e-18
+const weiToLedgerUnits = (wei: bigint): number => Number(wei / 1000000000n);
+
+const sumUnits = (amounts: string[]): number =>
+  amounts.reduce((sum, amount) => sum + toLedgerUnits(Number(amount) || 0), 0);
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const accruedUnits = (user: User): number => (user.solvedBlocks || [])
+  .filter(block => block.reward > 0)
+  .reduce((sum, block) => sum + toLedgerUnits(block.reward), 0);
+
+/**
+ * Net QBS moved to the wallet by on-chain transfers outside the app, in ledger units.
+ * Epoch claims arrive as transfers from the zero address and are accruals instead.
+ */
+const netTransferUnits = (wallet: string, history: IndexedTransaction[]): number => {
+  const transfers = history.filter(tx => tx.status === 'confirmed' && tx.type === 'TRANSFER');
+  const received = sumUnits(transfers.filter(tx => sameAddress(tx.to, wallet) && tx.from !== ethers.ZeroAddress).map(tx => tx.amount));
+  const sent = sumUnits(transfers.filter(tx => sameAddress(tx.from, wallet)).map(tx => tx.amount));
+  return received - sent;
+};
+
+/**
+ * Split a user's drift into known causes, in ledger units
+ */
+const explainDrift = (
+  user: User,
+  wallet: string,
+  claimedWei: bigint,
+  history: IndexedTransaction[],
+  queue: QueuedReward[]
+): DriftFinding[] => {
+  const accrued = accruedUnits(user);
+  const confirmed = history.filter(tx => tx.status === 'confirmed');
+  const minted = sumUnits(confirmed
+    .filter(tx => tx.type !== 'TRANSFER' && sameAddress(tx.to, wallet))
+    .map(tx => tx.amount));
+  const notOnChain = Math.max(0, accrued - weiToLedgerUnits(claimedWei) - minted);
+
+  // Queued and failed rewards are the part of the outstanding accrual already on its way
+  const rewards = queue.filter(reward => sameAddress(reward.recipient, wallet));
+  const pending = Math.min(notOnChain, sumUnits(rewards
+    .filter(reward => reward.status === 'QUEUED' || reward.status === 'SUBMITTED')
+    .map(reward => reward.amount)));
+  const failed = Math.min(notOnChain - pending, sumUnits(rewards
+    .filter(reward => reward.status === 'FAILED' || reward.status === 'ABANDONED')
+    .map(reward => reward.amount)));
+  const unclaimed = notOnChain - pending - failed;
+
+  const findings: DriftFinding[] = [];
+  if (unclaimed > 0) {
+    findings.push({ kind: 'UNCLAIMED_ACCRUAL', amount: -unclaimed, detail: 'Accrued QBS not yet claimed from a reward epoch' });
+  }
+  if (pending > 0) {
+    findings.push({ kind: 'PENDING_REWARD', amount: -pending, detail: 'Reward transactions queued or awaiting confirmation' });
+  }
+  if (failed > 0) {
+    findings.push({ kind: 'FAILED_MINT', amount: -failed, detail: 'Reward transactions that failed or were abandoned' });
+  }
+  return findings.map(finding => ({ ...finding, amount: fromLedgerUnits(finding.amount) }));
+};
+
+const generateCorrectionId = (): string =>
+  `REC-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+
+/**
+ * Balance Reconciliation Service
+ * Builds drift reports and posts corrections only after admin approval
+ */
+export class BalanceReconciliationService {
+  private ledger: LedgerService;
+
+  constructor(private backend: ReconciliationBackend, private chain: ReconciliationChain) {
+    this.ledger = new LedgerService(backend);
+  }
+
+  /**
+   * Drift of every user with QBS on the ledger or a payout wallet
+   */
+  public async reconcile(now: number = Date.now()): Promise<ReconciliationReport> {
+    const users = await this.backend.getAllUsers();
+    const balances = await this.backend.getLedgerBalances();
+    const queue = await this.backend.getQueuedRewards();
+    const corrections = (await this.backend.getBalanceCorrections()).filter(c => c.status === 'APPROVED');
+
+    const walletOwners = new Map<string, number>();
+    for (const user of users) {
+      if (user.payoutAddress && ethers.isAddress(user.payoutAddress)) {
+        const wallet = user.payoutAddress.toLowerCase();
+        walletOwners.set(wallet, (walletOwners.get(wallet) || 0) + 1);
+      }
+    }
+
+    const drifts: BalanceDrift[] = [];
+    for (const user of users) {
+      const ledgerQbs = hasLedgerHistory(balances, user.address)
+        ? deriveUserBalances(balances, user.address).balance
+        : user.balance || 0;
+      const wallet = user.payoutAddress && ethers.isAddress(user.payoutAddress) ? ethers.getAddress(user.payoutAddress) : null;
+      if (!wallet && ledgerQbs === 0) continue;
+
+      const base = { address: user.address, username: user.username, wallet, ledgerQbs, findings: [] as DriftFinding[], offChain: null };
+      if (!wallet || walletOwners.get(wallet.toLowerCase())! > 1) {
+        // Without a wallet of its own the user's share of an on-chain balance is unknown
+        drifts.push({ ...base, backedQbs: 0, onChainQbs: 0, drift: 0, unexplainedQbs: 0, status: wallet ? 'SHARED_WALLET' : 'NO_WALLET' });
+        continue;
+      }
+
+      const [onChain, claimedWei, history] = await Promise.all([
+        this.chain.getBalance(wallet),
+        this.chain.getClaimedRewards(rewardNodeId(user.address)),
+        this.chain.getTransactions(wallet)
+      ]);
+      const onChainQbs = fromLedgerUnits(toLedgerUnits(Number(onChain) || 0));
+      const corrected = corrections
+        .filter(c => c.address === user.address)
+        .reduce((sum, c) => sum + toLedgerUnits(c.amount), 0);
+      const backedUnits = accruedUnits(user) + netTransferUnits(wallet, history) + corrected;
+      const offChainUnits = toLedgerUnits(ledgerQbs) - accruedUnits(user) - corrected;
+      const findings = explainDrift(user, wallet, claimedWei, history, queue);
+      const driftUnits = toLedgerUnits(onChainQbs) - backedUnits;
+      const unexplainedUnits = driftUnits - findings.reduce((sum, finding) => sum + toLedgerUnits(finding.amount), 0);
+
+      drifts.push({
+        ...base,
+        backedQbs: fromLedgerUnits(backedUnits),
+        onChainQbs,
+        drift: fromLedgerUnits(driftUnits),
+        findings,
+        offChain: offChainUnits !== 0
+          ? { kind: 'OFF_CHAIN_ACTIVITY', amount: fromLedgerUnits(offChainUnits), detail: 'Ledger QBS from in-app activity that never touches the chain' }
+          : null,
+        unexplainedQbs: fromLedgerUnits(unexplainedUnits),
+        status: unexplainedUnits !== 0 ? 'DRIFT' : driftUnits !== 0 ? 'EXPLAINED' : 'IN_SYNC'
+      });
+    }
+
+    return {
+      generatedAt: new Date(now).toISOString(),
+      drifts,
+      unexplainedQbs: fromLedgerUnits(drifts.reduce((sum, drift) => sum + Math.abs(toLedgerUnits(drift.unexplainedQbs)), 0))
+    };
+  }
+
+  /**
+   * Corrections, newest first
+   */
+  public async getCorrections(): Promise<BalanceCorrection[]> {
+    return (await this.backend.getBalanceCorrections())
+      .sort((a, b) => b.proposedAt.localeCompare(a.proposedAt));
+  }
+
+  /**
+   * Propose a correction of a user's unexplained drift for admin review
+   */
+  public async proposeCorrection(drift: BalanceDrift, now: number = Date.now()): Promise<BalanceCorrection> {
+    if (drift.status !== 'DRIFT' || !drift.wallet) {
+      throw new Error(`Correction rejected: ${drift.address} has no unexplained drift`);
+    }
+    const corrections = await this.backend.getBalanceCorrections();
+    if (corrections.some(c => c.address === drift.address && c.status === 'PROPOSED')) {
+      throw new Error(`Correction rejected: ${drift.address} already has a correction awaiting review`);
+    }
+
+    const correction: BalanceCorrection = {
+      id: generateCorrectionId(),
+      address: drift.address,
+      wallet: drift.wallet,
+      amount: drift.unexplainedQbs,
+      reason: `On-chain-backed ${drift.backedQbs.toFixed(9)} QBS vs ${drift.onChainQbs.toFixed(9)} QBS on chain; ${drift.unexplainedQbs.toFixed(9)} QBS unexplained`,
+      status: 'PROPOSED',
+      proposedAt: new Date(now).toISOString()
+    };
+    await this.backend.saveBalanceCorrections([...corrections, correction]);
+    return correction;
+  }
+
+  /**
+   * Post a proposed correction to the ledger; returns the corrected user
+   */
+  public async approveCorrection(id: string, admin: User, now: number = Date.now()): Promise<User> {
+    const { corrections, correction } = await this.reviewable(id, admin);
+
+    const units = toLedgerUnits(correction.amount);
+    const transaction: Transaction = {
+      id: correction.id,
+      timestamp: new Date(now).toLocaleString(),
+      type: units > 0 ? 'CREDIT' : 'DEBIT',
+      amount: fromLedgerUnits(Math.abs(units)).toString(),
+      unit: 'QBS',
+      description: `Balance Reconciliation (${correction.wallet.slice(0, 6)}...${correction.wallet.slice(-4)})`
+    };
+    const updated = await this.ledger.post({
+      description: transaction.description,
+      postings: units > 0
+        ? movement(SYSTEM_ACCOUNTS.RECONCILIATION, userAccount(correction.address), 'QBS', fromLedgerUnits(units))
+        : movement(userAccount(correction.address), SYSTEM_ACCOUNTS.RECONCILIATION, 'QBS', fromLedgerUnits(-units)),
+      transactions: { [correction.address]: [transaction] }
+    });
+
+    await this.saveReview(corrections, { ...correction, status: 'APPROVED', transactionId: transaction.id }, admin, now);
+    return updated[correction.address];
+  }
+
+  /**
+   * Close a proposed correction without posting it
+   */
+  public async rejectCorrection(id: string, admin: User, now: number = Date.now()): Promise<BalanceCorrection> {
+    const { corrections, correction } = await this.reviewable(id, admin);
+    return this.saveReview(corrections, { ...correction, status: 'REJECTED' }, admin, now);
+  }
+
+  private async reviewable(id: string, admin: User): Promise<{ corrections: BalanceCorrection[]; correction: BalanceCorrection }> {
+    if (admin.role !== 'admin') {
+      throw new Error('Correction rejected: admin approval required');
+    }
+    const corrections = await this.backend.getBalanceCorrections();
+    const correction = corrections.find(c => c.id === id);
+    if (!correction) {
+      throw new Error(`Correction rejected: ${id} not found`);
+    }
+    if (correction.status !== 'PROPOSED') {
+      throw new Error(`Correction rejected: ${id} was already ${correction.status.toLowerCase()}`);
+    }
+    return { corrections, correction };
+  }
+
+  private async saveReview(corrections: BalanceCorrection[], reviewed: BalanceCorrection, admin: User, now: number): Promise<BalanceCorrection> {
+    const final = { ...reviewed, reviewedAt: new Date(now).toISOString(), reviewedBy: admin.address };
+    await this.backend.saveBalanceCorrections(corrections.map(c => c.id === final.id ? final : c));
+    return final;
+  }
+}
+
+// Singleton instance
+export const balanceReconciliation = new BalanceReconciliationService(productionDB, qbsReconciliationChain);
@@ -0,0 +1,207 @@
+/**
+ * Block Hashing
+ * Deterministic SHA-256 sealing of SolvedBlocks and verification of the
+ * parentHash chain that links a node's discoveries together.
+ */
+
+import { SolvedBlock, SovereignGrade } from '../types';
+import { POW_CONFIG, minimumDifficultyAt, verifyProofOfWork } from './proofOfWork';
+
+export const GENESIS_PARENT_HASH = '0'.repeat(64);
+
+export type ChainBreakReason =
+  | 'HASH_MISMATCH' | 'PARENT_MISMATCH' | 'INTEGRITY_MISMATCH' | 'POW_INVALID' | 'SEAL_MISSING' | 'EVOLUTION_MISMATCH';
+
+export interface ChainBreak {
+  index: number;
+  blockId: string;
+  reason: ChainBreakReason;
+  expected: string;
+  actual: string;
+}
+
+export interface ChainVerificationResult {
+  valid: boolean;
+  checkedBlocks: number;
+  // Blocks mined before sealing existed; only their links can be checked
+  legacyBlocks: number;
+  firstBreak?: ChainBreak;
+}
+
+/**
+ * Hex SHA-256 digest via Web Crypto (browsers and Node 20+)
+ */
+export const sha256Hex = async (data: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('SHA-256 is not available in this environment');
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * The content a block was sealed with; evolution rewrites explanation and grade,
+ * so the originals are recovered from the first advancement record
+ */
+const sealedContent = (block: SolvedBlock): { explanation: string; grade?: SovereignGrade } => {
+  const firstAdvance = block.advancementHistory?.find(a => a.previousExplanation !== undefined);
+  if (firstAdvance) {
+    return { explanation: firstAdvance.previousExplanation!, grade: firstAdvance.previousGrade };
+  }
+  return { explanation: block.explanation, grade: block.grade };
+};
+
+/**
+ * Canonical serialization: a fixed-order JSON array so key order and
+ * optional fields cannot change the digest
+ */
+export const serializeBlockForHash = (block: SolvedBlock, minerAddress: string): string => {
+  const { explanation, grade } = sealedContent(block);
+  const fields: unknown[] = [
+    block.problem,
+    explanation,
+    grade ?? null,
+    block.parentHash,
+    block.timestamp,
+    minerAddress.trim().toLowerCase()
+  ];
+  // Appended only when present so blocks sealed before proof of work or grader
+  // tracking still verify
+  if (block.nonce !== undefined) fields.push(block.nonce);
+  if (block.gradedBy !== undefined) fields.push(block.gradedBy);
+  return JSON.stringify(fields);
+};
+
+export const computeBlockHash = (block: SolvedBlock, minerAddress: string): Promise<string> =>
+  sha256Hex(serializeBlockForHash(block, minerAddress));
+
+/**
+ * Digest binding the block's registry position to its hash
+ */
+export const computeIntegrityHash = async (block: SolvedBlock): Promise<string> => {
+  const digest = await sha256Hex(JSON.stringify([block.id, block.shardId, block.shardIndex, block.tokenParentId, block.hash]));
+  return `SHA256-${digest}`;
+};
+
+/**
+ * Fill hash, answer and integrityHash for a freshly mined block
+ */
+export const sealBlock = async (block: SolvedBlock, minerAddress: string): Promise<SolvedBlock> => {
+  const sealed: SolvedBlock = { ...block, minerAddress };
+  sealed.hash = await computeBlockHash(sealed, minerAddress);
+  sealed.answer = `SIG_${sealed.hash.substring(0, 16).toUpperCase()}`;
+  sealed.integrityHash = await computeIntegrityHash(sealed);
+  return sealed;
+};
+
+/**
+ * Canonical serialization of an evolution record, chained to the block hash or the
+ * record before it: its level, the grade it replaced, the grade it reached (the next
+ * record's previous grade, or the block's current grade) and its grader
+ */
+export const serializeAdvanceForHash = (block: SolvedBlock, index: number): string => {
+  const history = block.advancementHistory || [];
+  const advance = history[index];
+  const reached = index + 1 < history.length ? history[index + 1].previousGrade : block.grade;
+  return JSON.stringify([
+    index === 0 ? block.hash : history[index - 1].hash ?? null,
+    advance.level,
+    advance.previousGrade ?? null,
+    reached ?? null,
+    advance.gradedBy ?? null
+  ]);
+};
+
+export const computeAdvanceHash = (block: SolvedBlock, index: number): Promise<string> =>
+  sha256Hex(serializeAdvanceForHash(block, index));
+
+/**
+ * Seal the latest evolution record of a block that was just evolved
+ */
+export const sealLatestAdvance = async (block: SolvedBlock): Promise<SolvedBlock> => {
+  const history = [...(block.advancementHistory || [])];
+  if (history.length === 0) return block;
+  const evolved: SolvedBlock = { ...block, advancementHistory: history };
+  history[history.length - 1] = { ...history[history.length - 1], hash: await computeAdvanceHash(evolved, history.length - 1) };
+  return evolved;
+};
+
+/**
+ * Walk the chain in mining order and report the first broken link.
+ * Pass the owner's address to also reject blocks sealed for another miner, and
+ * the registry's blocks to hold each proof to the difficulty in force when it was mined.
+ */
+export const verifyChain = async (
+  blocks: SolvedBlock[],
+  ownerAddress?: string,
+  registryBlocks?: SolvedBlock[]
+): Promise<ChainVerificationResult> => {
+  let legacyBlocks = 0;
+  let sealedSeen = false;
+  let workSeen = false;
+  let lastMinedAt = -Infinity;
+  let expectedParent = GENESIS_PARENT_HASH;
+
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index];
+    const broken = (reason: ChainBreakReason, expected: string, actual: string): ChainVerificationResult => ({
+      valid: false,
+      checkedBlocks: index + 1,
+      legacyBlocks,
+      firstBreak: { index, blockId: block.id, reason, expected, actual }
+    });
+
+    if (block.parentHash !== expectedParent) {
+      return broken('PARENT_MISMATCH', expectedParent, block.parentHash);
+    }
+
+    if (block.minerAddress) {
+      sealedSeen = true;
+      const hash = await computeBlockHash(block, ownerAddress ?? block.minerAddress);
+      if (hash !== block.hash) {
+        return broken('HASH_MISMATCH', hash, block.hash);
+      }
+      const integrityHash = await computeIntegrityHash(block);
+      if (integrityHash !== block.integrityHash) {
+        return broken('INTEGRITY_MISMATCH', integrityHash, block.integrityHash);
+      }
+      const history = block.advancementHistory || [];
+      for (let advance = 0; advance < history.length; advance++) {
+        if (history[advance].hash === undefined) continue;
+        const advanceHash = await computeAdvanceHash(block, advance);
+        if (advanceHash !== history[advance].hash) {
+          return broken('EVOLUTION_MISMATCH', advanceHash, history[advance].hash!);
+        }
+      }
+      if (block.nonce !== undefined) {
+        workSeen = true;
+        // The mining time is in the proof, but a search could still start from a backdated one
+        if (!(typeof block.minedAt === 'number' && block.minedAt >= lastMinedAt)) {
+          return broken('POW_INVALID', `mined after ${new Date(lastMinedAt).toISOString()}`, String(block.minedAt));
+        }
+        lastMinedAt = block.minedAt;
+        const minimum = registryBlocks && typeof block.minedAt === 'number'
+          ? minimumDifficultyAt(registryBlocks, block.minedAt)
+          : POW_CONFIG.MIN_DIFFICULTY;
+        if (!(await verifyProofOfWork(block, minimum))) {
+          return broken('POW_INVALID', `${Math.max(minimum, block.powDifficulty ?? 0)} leading zero bits`, block.powHash || '');
+        }
+      } else if (workSeen) {
+        // Sealing without a nonce predates proof of work, so it cannot follow a mined proof
+        return broken('POW_INVALID', 'proof of work', '');
+      }
+    } else if (sealedSeen) {
+      // Legacy blocks predate sealing, so they can only come before the first sealed block
+      return broken('SEAL_MISSING', 'minerAddress', '');
+    } else {
+      legacyBlocks++;
+    }
+
+    expectedParent = block.hash;
+  }
+
+  return { valid: true, checkedBlocks: blocks.length, legacyBlocks };
+};
@@ -0,0 +1,151 @@
+/**
+ * Consensus Grading
+ * A panel of reviewers with different personas grades each breakthrough
+ * independently; the robust middle of their verdicts decides the grade and score,
+ * so one noisy or manipulated review cannot move the payout on its own
+ */
+
+import { PeerReview, ReviewerRole, SovereignGrade } from '../types';
+import type { MiningEvaluationResponse } from './deepSeekClient';
+
+export interface ReviewerPersona {
+  role: ReviewerRole;
+  // Completes "You are ..." in the reviewer prompt
+  brief: string;
+  temperature: number;
+}
+
+export type ScoreAggregation = 'median' | 'trimmed-mean';
+
+export interface ReviewPanelOptions {
+  reviewers: ReviewerPersona[];
+  aggregation?: ScoreAggregation;
+}
+
+// panelSize is how many reviewers were convened; peerReviews holds those who answered
+export type ConsensusEvaluationResponse = MiningEvaluationResponse & { peerReviews: PeerReview[]; panelSize: number };
+
+export interface ReviewDisagreement {
+  // Distance in grade tiers between the most and least generous reviewer
+  gradeSpread: number;
+  scoreSpread: number;
+  isSplit: boolean;
+}
+
+// The Advancement Council's roles, recast as mining reviewers
+export const REVIEW_PANEL: ReviewerPersona[] = [
+  {
+    role: 'PRAGMATIST',
+    brief: 'a Pragmatic Experimental Physicist who rewards testable predictions and marks down anything that cannot be measured',
+    temperature: 0.2
+  },
+  {
+    role: 'VISIONARY',
+    brief: 'a Visionary Theorist who credits bold but internally consistent ideas while still demanding mathematical rigor',
+    temperature: 0.6
+  },
+  {
+    role: 'ETHICIST',
+    brief: 'a Research Integrity Reviewer who marks down overclaiming, restated textbook results and unfalsifiable claims',
+    temperature: 0.3
+  }
+];
+
+// Share of reviews dropped from each end before averaging; at least one once there are three
+const TRIM_FRACTION = 0.2;
+
+const GRADE_ORDER: SovereignGrade[] = ['C', 'B', 'A', 'S'];
+
+/**
+ * Reviews a panel needs before its consensus counts: a strict majority of those convened
+ */
+export const panelQuorum = (panelSize: number): number => Math.floor(panelSize / 2) + 1;
+
+export class PanelQuorumError extends Error {
+  constructor(
+    public readonly answered: number,
+    public readonly panelSize: number
+  ) {
+    super(`Consensus rejected: ${answered} of ${panelSize} reviewers answered, ${panelQuorum(panelSize)} needed`);
+    this.name = 'PanelQuorumError';
+  }
+}
+
+const gradeRank = (grade: SovereignGrade): number => GRADE_ORDER.indexOf(grade);
+
+const sorted = (values: number[]): number[] => [...values].sort((a, b) => a - b);
+
+export const median = (values: number[]): number => {
+  const ordered = sorted(values);
+  const mid = Math.floor(ordered.length / 2);
+  return ordered.length % 2 === 1 ? ordered[mid] : (ordered[mid - 1] + ordered[mid]) / 2;
+};
+
+export const trimmedMean = (values: number[]): number => {
+  const trim = values.length >= 3 ? Math.max(1, Math.floor(values.length * TRIM_FRACTION)) : 0;
+  const kept = sorted(values).slice(trim, values.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+};
+
+/**
+ * Panel grade: the median tier, rounding down between two tiers so a tie never
+ * pays out the more generous grade
+ */
+export const consensusGrade = (grades: SovereignGrade[]): SovereignGrade => {
+  const ranks = sorted(grades.map(gradeRank));
+  return GRADE_ORDER[ranks[Math.floor((ranks.length - 1) / 2)]];
+};
+
+/**
+ * Fold a panel's evaluations into one response. Narrative fields come from the
+ * review that agrees with the consensus grade and sits closest to its score.
+ */
+export const aggregateReviews = (
+  evaluations: Array<{ role: ReviewerRole; evaluation: MiningEvaluationResponse }>,
+  aggregation: ScoreAggregation = 'median',
+  panelSize: number = evaluations.length
+): ConsensusEvaluationResponse => {
+  if (evaluations.length === 0) {
+    throw new Error('Consensus rejected: no reviews to aggregate');
+  }
+
+  const scores = evaluations.map(({ evaluation }) => evaluation.breakthroughScore);
+  const grade = consensusGrade(evaluations.map(({ evaluation }) => evaluation.grade));
+  const breakthroughScore = Math.round((aggregation === 'median' ? median(scores) : trimmedMean(scores)) * 100) / 100;
+
+  // consensusGrade always picks a tier some reviewer gave
+  const representative = evaluations
+    .filter(({ evaluation }) => evaluation.grade === grade)
+    .sort((a, b) => Math.abs(a.evaluation.breakthroughScore - breakthroughScore) - Math.abs(b.evaluation.breakthroughScore - breakthroughScore))[0];
+
+  return {
+    ...representative.evaluation,
+    grade,
+    breakthroughScore,
+    peerReviews: evaluations.map(({ role, evaluation }) => ({
+      role,
+      grade: evaluation.grade,
+      breakthroughScore: evaluation.breakthroughScore,
+      critique: evaluation.consensusCritique
+    })),
+    panelSize
+  };
+};
+
+/**
+ * How far a block's reviewers were apart; split when they disagreed on the grade
+ */
+export const reviewDisagreement = (reviews: PeerReview[]): ReviewDisagreement => {
+  if (reviews.length === 0) {
+    return { gradeSpread: 0, scoreSpread: 0, isSplit: false };
+  }
+
+  const ranks = reviews.map(review => gradeRank(review.grade));
+  const scores = reviews.map(review => review.breakthroughScore);
+  const gradeSpread = Math.max(...ranks) - Math.min(...ranks);
+  return {
+    gradeSpread,
+    scoreSpread: Math.round((Math.max(...scores) - Math.min(...scores)) * 100) / 100,
+    isSplit: gradeSpread > 0
+  };
+};
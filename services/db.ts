@@ -1,13 +1,20 @@
 
 // @google/genai guidelines followed for model selection and response handling
-import { User, Contact, Transaction, QBSNFT, SolvedBlock } from '../types';
+import { User, Contact, Transaction, QBSNFT, SolvedBlock, Proposal, ProposalVote } from '../types';
 import { getMasterBreakthrough, getShardScientificFocus, getCosmicDomain, QBS_UNITS } from './quantumLogic';
 import { productionDB } from './productionDatabase';
 import { realDB } from './realDatabaseIntegration';
 
 const DB_NAME = 'QuantumSecureLattice_v8'; 
-const DB_VERSION = 1; 
+const DB_VERSION = 7; 
 const STORE_USERS = 'users';
+const STORE_PROPOSALS = 'proposals';
+const STORE_LEDGER = 'ledger';
+const STORE_PARAMETERS = 'parameters';
+const STORE_GOVERNANCE_AUDIT = 'governance_audit';
+const STORE_PRICE_CANDLES = 'price_candles';
+const STORE_REWARD_QUEUE = 'reward_queue';
+const STORE_TX_HISTORY = 'tx_history';
 
 const LATTICE_PEPPER = "k7$!v9QzP@m3L#r8_Quantum_Sovereign_999";
 
@@ -199,6 +206,27 @@ const getDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_USERS)) {
         db.createObjectStore(STORE_USERS, { keyPath: 'address' });
       }
+      if (!db.objectStoreNames.contains(STORE_PROPOSALS)) {
+        db.createObjectStore(STORE_PROPOSALS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_LEDGER)) {
+        db.createObjectStore(STORE_LEDGER, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_PARAMETERS)) {
+        db.createObjectStore(STORE_PARAMETERS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_GOVERNANCE_AUDIT)) {
+        db.createObjectStore(STORE_GOVERNANCE_AUDIT, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_PRICE_CANDLES)) {
+        db.createObjectStore(STORE_PRICE_CANDLES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_REWARD_QUEUE)) {
+        db.createObjectStore(STORE_REWARD_QUEUE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_TX_HISTORY)) {
+        db.createObjectStore(STORE_TX_HISTORY, { keyPath: 'id' });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = (e) => { 
@@ -418,3 +446,23 @@ export const clearCurrentUserDiscoveries = async (): Promise<boolean> => {
     return false;
   }
 };
+
+/**
+ * Governance proposals, newest first
+ */
+export const getAllProposals = async (): Promise<Proposal[]> => {
+  const proposals = await productionDB.getAllProposals();
+  return proposals.sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+};
+
+export const getProposal = (id: string): Promise<Proposal | null> => productionDB.getProposal(id);
+
+export const saveProposal = (proposal: Proposal): Promise<void> => productionDB.saveProposal(proposal);
+
+export const deleteProposal = (id: string): Promise<void> => productionDB.deleteProposal(id);
+
+/**
+ * Record a vote; rejects if the voter has already voted on the proposal
+ */
+export const recordProposalVote = (proposalId: string, vote: ProposalVote): Promise<Proposal> =>
+  productionDB.recordProposalVote(proposalId, vote);
@@ -0,0 +1,60 @@
+/**
+ * Evaluation Providers
+ * The AI backends that grade mining breakthroughs and evolve solved blocks:
+ * DeepSeek, any OpenAI-compatible endpoint (e.g. a local Ollama or llama.cpp
+ * server) and a deterministic offline stub
+ */
+
+import { EvaluationProviderId, EvaluationProviderSettings } from '../types';
+import type {
+  MiningEvaluationRequest,
+  MiningEvaluationResponse,
+  EvolutionRequest,
+  EvolutionResponse,
+  ProgressCallback
+} from './deepSeekClient';
+import { DeepSeekClient, deepSeekClient } from './deepSeekClient';
+import { apiKeyManager } from './apiKeyManager';
+import { offlineEvaluationProvider } from './offlineEvaluationProvider';
+
+export interface EvaluationProvider {
+  readonly id: EvaluationProviderId;
+  readonly name: string;
+  isConfigured(): Promise<boolean>;
+  testConnection(): Promise<boolean>;
+  evaluateMiningBreakthrough(request: MiningEvaluationRequest, progressCallback?: ProgressCallback): Promise<MiningEvaluationResponse>;
+  evolveBreakthrough(request: EvolutionRequest, progressCallback?: ProgressCallback): Promise<EvolutionResponse>;
+}
+
+export const EVALUATION_PROVIDERS: Record<EvaluationProviderId, { name: string; description: string }> = {
+  deepseek: { name: 'DeepSeek', description: 'DeepSeek chat API with your personal API key' },
+  'openai-compatible': { name: 'OpenAI-Compatible', description: 'Any /v1/chat/completions endpoint, e.g. Ollama or llama.cpp on this machine' },
+  offline: { name: 'Offline Stub', description: 'Deterministic local grading without any network calls' }
+};
+
+// Ollama's OpenAI-compatible API on its default port
+export const DEFAULT_OPENAI_COMPATIBLE = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1'
+};
+
+/**
+ * Provider for a node's saved settings; DeepSeek when none are saved
+ */
+export const createEvaluationProvider = (settings?: EvaluationProviderSettings): EvaluationProvider => {
+  switch (settings?.id) {
+    case 'offline':
+      return offlineEvaluationProvider;
+    case 'openai-compatible': {
+      const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_COMPATIBLE.baseUrl).replace(/\/+$/, '');
+      const model = settings.model || DEFAULT_OPENAI_COMPATIBLE.model;
+      return new DeepSeekClient(
+        async () => ({ apiKey: (await apiKeyManager.getEndpointKey()) || '', baseUrl, model }),
+        'openai-compatible',
+        `${EVALUATION_PROVIDERS['openai-compatible'].name} (${model})`
+      );
+    }
+    default:
+      return deepSeekClient;
+  }
+};
@@ -3,6 +3,8 @@
  * Provides specific error types, user-friendly messages, and actionable suggestions
  */
 
+import { AIResponseValidationError } from './aiResponseSchemas';
+
 export interface EvolutionError {
   type: EvolutionErrorType;
   message: string;
@@ -25,6 +27,7 @@ export type EvolutionErrorType =
   | 'INVALID_BLOCK_STATE'
   | 'API_SERVER_ERROR'
   | 'PARSING_ERROR'
+  | 'AI_RESPONSE_INVALID'
   | 'VALIDATION_ERROR'
   | 'UNKNOWN_ERROR';
 
@@ -72,6 +75,11 @@ export class EvolutionErrorHandler {
       }
     }
 
+    // Schema failures carry a type, so their field errors cannot be mistaken for other patterns
+    if (error instanceof AIResponseValidationError) {
+      errorType = 'AI_RESPONSE_INVALID';
+    }
+
     // Special case: Check if API key is missing from context
     if (context === 'API_KEY_MISSING') {
       errorType = 'API_KEY_MISSING';
@@ -156,6 +164,13 @@ export class EvolutionErrorHandler {
         retryDelay: 2000,
         severity: 'low'
       },
+      AI_RESPONSE_INVALID: {
+        userMessage: "AI returned a malformed evaluation",
+        actionable: "The AI response failed validation even after a repair attempt. Please try again or switch evaluation provider in Settings",
+        retryable: true,
+        retryDelay: 2000,
+        severity: 'low'
+      },
       VALIDATION_ERROR: {
         userMessage: "Data validation failed",
         actionable: "The breakthrough data failed validation. Please ensure all fields are properly filled",
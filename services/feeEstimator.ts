@@ -0,0 +1,107 @@
+/**
+ * Fee Estimator
+ * Prices a transaction from its gas limit and the provider's EIP-1559 fee data,
+ * in the network's native currency, at slow/normal/fast presets
+ */
+
+import { ethers } from 'ethers';
+import { getNetworkConfig } from './networkConfig';
+
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+export const FEE_SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast'];
+
+// Percentages of the provider's suggested priority fee, and of the base fee kept
+// as headroom in maxFeePerGas for blocks that fill up before inclusion
+export const FEE_PRESETS: Record<FeeSpeed, { priorityPercent: bigint; baseFeePercent: bigint }> = {
+  slow: { priorityPercent: 80n, baseFeePercent: 125n },
+  normal: { priorityPercent: 100n, baseFeePercent: 200n },
+  fast: { priorityPercent: 150n, baseFeePercent: 300n }
+};
+
+// Margin on top of eth_estimateGas so state changes between estimate and send do not run out of gas
+export const GAS_LIMIT_BUFFER_PERCENT = 120n;
+
+// Priority fee when the provider suggests none (ethers uses the same default)
+const DEFAULT_PRIORITY_FEE = ethers.parseUnits('1', 'gwei');
+
+/**
+ * Where fee data comes from; satisfied by any ethers provider
+ */
+export interface FeeDataSource {
+  getFeeData(): Promise<ethers.FeeData>;
+  getBlock(blockTag: 'latest'): Promise<{ baseFeePerGas: bigint | null } | null>;
+}
+
+export interface FeeOption {
+  speed: FeeSpeed;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  // Legacy networks without a base fee take a single gasPrice (= maxFeePerGas)
+  legacy: boolean;
+  // Native currency, formatted with the network's decimals
+  expectedCost: string;
+  maxCost: string;
+}
+
+export interface FeeEstimate {
+  chainId: number;
+  currency: string;
+  gasLimit: bigint;
+  baseFeePerGas: bigint | null;
+  options: Record<FeeSpeed, FeeOption>;
+}
+
+const percentOf = (value: bigint, percent: bigint): bigint => (value * percent) / 100n;
+
+/**
+ * Fee options for a transaction of `gasUnits` (as returned by eth_estimateGas)
+ */
+export const estimateFees = async (source: FeeDataSource, gasUnits: bigint, chainId: number): Promise<FeeEstimate> => {
+  const [feeData, block] = await Promise.all([source.getFeeData(), source.getBlock('latest')]);
+  const baseFeePerGas = block?.baseFeePerGas ?? null;
+  const gasLimit = percentOf(gasUnits, GAS_LIMIT_BUFFER_PERCENT);
+
+  const { decimals, symbol } = getNetworkConfig(chainId)?.nativeCurrency || { decimals: 18, symbol: 'ETH' };
+  const format = (wei: bigint) => ethers.formatUnits(wei, decimals);
+
+  const options = {} as Record<FeeSpeed, FeeOption>;
+  for (const speed of FEE_SPEEDS) {
+    const preset = FEE_PRESETS[speed];
+    let maxFeePerGas: bigint;
+    let maxPriorityFeePerGas: bigint;
+    let expectedPerGas: bigint;
+
+    if (baseFeePerGas !== null) {
+      maxPriorityFeePerGas = percentOf(feeData.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE, preset.priorityPercent);
+      maxFeePerGas = percentOf(baseFeePerGas, preset.baseFeePercent) + maxPriorityFeePerGas;
+      expectedPerGas = baseFeePerGas + maxPriorityFeePerGas;
+    } else {
+      if (feeData.gasPrice === null) {
+        throw new Error('Fee estimate failed: provider returned no fee data');
+      }
+      maxFeePerGas = maxPriorityFeePerGas = expectedPerGas = percentOf(feeData.gasPrice, preset.priorityPercent);
+    }
+
+    options[speed] = {
+      speed,
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      legacy: baseFeePerGas === null,
+      // Gas actually used is usually the raw estimate, not the buffered limit
+      expectedCost: format(gasUnits * expectedPerGas),
+      maxCost: format(gasLimit * maxFeePerGas)
+    };
+  }
+
+  return { chainId, currency: symbol, gasLimit, baseFeePerGas, options };
+};
+
+/**
+ * Transaction overrides that pin a chosen fee option
+ */
+export const feeOverrides = (option: FeeOption): ethers.Overrides => option.legacy
+  ? { gasLimit: option.gasLimit, gasPrice: option.maxFeePerGas }
+  : { gasLimit: option.gasLimit, maxFeePerGas: option.maxFeePerGas, maxPriorityFeePerGas: option.maxPriorityFeePerGas };
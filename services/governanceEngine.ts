@@ -0,0 +1,446 @@
+/**
+ * Governance Engine
+ * Moves proposals through their lifecycle: ACTIVE proposals close at expiresAt and
+ * are judged on quorum (requiredWeight) and FOR/AGAINST weight, PASSED proposals can
+ * be executed, and ECONOMIC proposals apply typed protocol parameter changes.
+ * Only the proposer or an admin may execute a proposal.
+ * Votes lock their weight in a per-proposal ledger escrow; closing a proposal
+ * releases it to the voters and pays the proposer's reward if it passed.
+ * Every transition is written to the governance audit trail.
+ */
+
+import { Proposal, ProposalVote, ProtocolParameters, ProtocolParameterChange, GovernanceAuditEntry, Transaction, User } from '../types';
+import { GRADE_MULTIPLIERS, QBS_UNITS } from './quantumLogic';
+import { productionDB } from './productionDatabase';
+import { StakingService, votingPowerQuarks } from './staking';
+import { LedgerBackend, LedgerPosting, LedgerService, SYSTEM_ACCOUNTS, escrowAccount, movement, stakeAccount, userAccount } from './ledger';
+import { PROPOSAL_FEE_QRK, validateProposalVote } from './proposals';
+
+export const DEFAULT_PROTOCOL_PARAMETERS: ProtocolParameters = {
+  LEASE_COSTS: { MESSAGING: 1, MINING: 50 },
+  EVOLUTION_COST_USD: 25,
+  GRADE_MULTIPLIERS: { ...GRADE_MULTIPLIERS }
+};
+
+// Quorum in QBS when a proposal does not set requiredWeight
+export const DEFAULT_REQUIRED_WEIGHT = 100;
+
+// Share of the broadcast fee returned to the proposer when a proposal passes
+export const PROPOSER_REWARD_RATE = 0.01;
+
+// Upper bounds a single proposal may set a parameter to
+export const PARAMETER_LIMITS: Record<ProtocolParameterChange['parameter'], number> = {
+  LEASE_COSTS: 10000,
+  EVOLUTION_COST_USD: 10000,
+  GRADE_MULTIPLIERS: 100
+};
+
+/**
+ * Storage that can commit proposal transitions, audit entries and parameters together
+ */
+export interface GovernanceBackend extends LedgerBackend {
+  getAllProposals(): Promise<Proposal[]>;
+  getProposal(id: string): Promise<Proposal | null>;
+  recordProposalVote(proposalId: string, vote: ProposalVote): Promise<Proposal>;
+  getProtocolParameters(): Promise<ProtocolParameters | null>;
+  getGovernanceAudit(): Promise<GovernanceAuditEntry[]>;
+  commitGovernanceChange(proposals: Proposal[], audit: GovernanceAuditEntry[], parameters?: ProtocolParameters): Promise<void>;
+}
+
+export interface ExecutionResult {
+  proposal: Proposal;
+  parameters: ProtocolParameters;
+  audit: GovernanceAuditEntry[];
+}
+
+/**
+ * Human readable name of the parameter a change targets
+ */
+export const describeParameterChange = (change: ProtocolParameterChange): string =>
+  change.parameter === 'EVOLUTION_COST_USD' ? change.parameter : `${change.parameter}.${change.key}`;
+
+/**
+ * Current value of the parameter a change targets
+ */
+export const readParameter = (parameters: ProtocolParameters, change: ProtocolParameterChange): number => {
+  switch (change.parameter) {
+    case 'LEASE_COSTS': return parameters.LEASE_COSTS[change.key];
+    case 'EVOLUTION_COST_USD': return parameters.EVOLUTION_COST_USD;
+    case 'GRADE_MULTIPLIERS': return parameters.GRADE_MULTIPLIERS[change.key];
+  }
+};
+
+/**
+ * Validate a set of parameter changes, returning the reasons they cannot be applied
+ */
+export const validateParameterChanges = (changes: ProtocolParameterChange[]): string[] => {
+  const errors: string[] = [];
+  for (const change of changes) {
+    const name = describeParameterChange(change);
+    if (!(change.parameter in PARAMETER_LIMITS)) {
+      errors.push(`Unknown parameter ${change.parameter}`);
+      continue;
+    }
+    if (change.parameter === 'LEASE_COSTS' && change.key !== 'MESSAGING' && change.key !== 'MINING') {
+      errors.push(`Unknown lease ${change.key}`);
+    }
+    if (change.parameter === 'GRADE_MULTIPLIERS' && !['S', 'A', 'B', 'C'].includes(change.key)) {
+      errors.push(`Unknown grade ${change.key}`);
+    }
+    if (!Number.isFinite(change.value) || change.value <= 0) {
+      errors.push(`${name} must be a positive number`);
+    } else if (change.value > PARAMETER_LIMITS[change.parameter]) {
+      errors.push(`${name} cannot exceed ${PARAMETER_LIMITS[change.parameter]}`);
+    }
+  }
+  return errors;
+};
+
+/**
+ * Return a copy of the parameters with the changes applied
+ */
+export const applyParameterChanges = (parameters: ProtocolParameters, changes: ProtocolParameterChange[]): ProtocolParameters => {
+  const next: ProtocolParameters = {
+    LEASE_COSTS: { ...parameters.LEASE_COSTS },
+    EVOLUTION_COST_USD: parameters.EVOLUTION_COST_USD,
+    GRADE_MULTIPLIERS: { ...parameters.GRADE_MULTIPLIERS }
+  };
+  for (const change of changes) {
+    if (change.parameter === 'LEASE_COSTS') next.LEASE_COSTS[change.key] = change.value;
+    else if (change.parameter === 'EVOLUTION_COST_USD') next.EVOLUTION_COST_USD = change.value;
+    else next.GRADE_MULTIPLIERS[change.key] = change.value;
+  }
+  return next;
+};
+
+/**
+ * Return a closed copy of an ACTIVE proposal whose voting window has ended, or
+ * null if it is still open. Quorum counts FOR and AGAINST weight (QBS) together.
+ */
+export const evaluateProposal = (proposal: Proposal, now: number = Date.now()): Proposal | null => {
+  if (proposal.status !== 'ACTIVE' || new Date(proposal.expiresAt).getTime() > now) {
+    return null;
+  }
+
+  const required = proposal.requiredWeight ?? DEFAULT_REQUIRED_WEIGHT;
+  const turnout = proposal.votesFor + proposal.votesAgainst;
+  const closeReason: Proposal['closeReason'] = turnout < required
+    ? 'QUORUM_NOT_MET'
+    : proposal.votesFor > proposal.votesAgainst ? 'MAJORITY_FOR' : 'MAJORITY_AGAINST';
+
+  return {
+    ...proposal,
+    status: closeReason === 'MAJORITY_FOR' ? 'PASSED' : 'REJECTED',
+    closeReason,
+    closedAt: new Date(now).toISOString()
+  };
+};
+
+/**
+ * Whether a node may execute the proposal: its proposer or an admin
+ */
+export const canExecuteProposal = (proposal: Proposal, executor: Pick<User, 'address' | 'role'>): boolean =>
+  executor.role === 'admin' || (!!proposal.proposerAddress && proposal.proposerAddress === executor.address);
+
+/**
+ * Quarks a voter has locked in proposals that are not yet settled
+ */
+export const lockedVoteWeight = (proposals: Proposal[], voter: string): number =>
+  proposals
+    .filter(p => !p.settledAt && p.votes?.[voter])
+    .reduce((sum, p) => sum + p.votes![voter].weight, 0);
+
+const generateAuditId = (): string =>
+  `GOV-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+
+const auditEntry = (entry: Omit<GovernanceAuditEntry, 'id'>): GovernanceAuditEntry =>
+  ({ id: generateAuditId(), ...entry });
+
+const governanceTransaction = (type: Transaction['type'], amount: number, unit: Transaction['unit'], description: string): Transaction => ({
+  id: `GOV-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+  timestamp: new Date().toLocaleString(),
+  type,
+  amount: amount.toString(),
+  unit,
+  description
+});
+
+/**
+ * Governance Engine
+ * Closes expired proposals and executes passed ones against the stored parameters
+ */
+export class GovernanceEngine {
+  private ledger: LedgerService;
+  private staking: StakingService;
+
+  constructor(private backend: GovernanceBackend) {
+    this.ledger = new LedgerService(backend);
+    this.staking = new StakingService(backend);
+  }
+
+  /**
+   * Lock the vote weight (quarks of QBS) in the proposal's escrow and record the
+   * vote. Liquid QBS is locked first and any remainder is drawn from stake, after
+   * paying the yield the full stake earned until now; the lock is returned if the
+   * vote cannot be recorded.
+   */
+  public async castVote(proposalId: string, vote: ProposalVote, now: number = Date.now()): Promise<{ proposal: Proposal; voter: User }> {
+    const proposal = await this.backend.getProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Vote rejected: proposal ${proposalId} not found`);
+    }
+    const errors = validateProposalVote(proposal, vote, now);
+    if (errors.length > 0) {
+      throw new Error(`Vote rejected: ${errors.join(', ')}`);
+    }
+    let voter = await this.backend.getUserByAddress(vote.voter);
+    if (!voter) {
+      throw new Error(`Vote rejected: unknown account ${vote.voter}`);
+    }
+    if (vote.weight > votingPowerQuarks(voter)) {
+      throw new Error(`Vote rejected: weight exceeds voting power of ${votingPowerQuarks(voter)} quarks`);
+    }
+    if (vote.weight > Math.round(voter.balance * QBS_UNITS.QRK)) {
+      voter = await this.staking.accrueYield(vote.voter, now);
+    }
+
+    const liquidQuarks = Math.round(voter.balance * QBS_UNITS.QRK);
+    const lockedVote: ProposalVote = { ...vote, stakedWeight: Math.max(0, vote.weight - liquidQuarks) };
+    const amount = vote.weight / QBS_UNITS.QRK;
+    const locked = await this.ledger.post({
+      description: `Vote Lock: ${proposalId}`,
+      postings: this.lockPostings(lockedVote, escrowAccount(proposalId), true),
+      transactions: { [vote.voter]: [governanceTransaction('VOTE_LOCK', amount, 'QBS', `Vote Lock: ${proposalId}`)] },
+      userUpdates: this.yieldCheckpoints([lockedVote], now)
+    });
+
+    try {
+      return { proposal: await this.backend.recordProposalVote(proposalId, lockedVote), voter: locked[vote.voter] };
+    } catch (error) {
+      await this.ledger.post({
+        description: `Vote Lock Returned: ${proposalId}`,
+        postings: this.lockPostings(lockedVote, escrowAccount(proposalId), false),
+        transactions: { [vote.voter]: [governanceTransaction('VOTE_UNLOCK', amount, 'QBS', `Vote Lock Returned: ${proposalId}`)] },
+        userUpdates: this.yieldCheckpoints([lockedVote], Date.now())
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Postings moving a vote's weight into (lock) or out of (release) escrow, split
+   * between the voter's liquid and staked QBS
+   */
+  private lockPostings(vote: ProposalVote, escrow: string, lock: boolean): LedgerPosting[] {
+    const stakedWeight = vote.stakedWeight || 0;
+    const legs: [string, number][] = [
+      [userAccount(vote.voter), (vote.weight - stakedWeight) / QBS_UNITS.QRK],
+      [stakeAccount(vote.voter), stakedWeight / QBS_UNITS.QRK]
+    ];
+    return legs
+      .filter(([, amount]) => amount > 0)
+      .flatMap(([account, amount]) => lock ? movement(account, escrow, 'QBS', amount) : movement(escrow, account, 'QBS', amount));
+  }
+
+  /**
+   * Restart the yield clock of voters whose stake a posting changes; callers accrue
+   * the yield owed on the old stake first
+   */
+  private yieldCheckpoints(votes: ProposalVote[], now: number): Record<string, Partial<User>> {
+    const timestamp = new Date(now).toISOString();
+    return Object.fromEntries(votes
+      .filter(vote => (vote.stakedWeight || 0) > 0)
+      .map(vote => [vote.voter, { stakeYieldAccruedAt: timestamp }]));
+  }
+
+  /**
+   * Release a closed proposal's escrow to its voters and, if it passed, reward the
+   * proposer. The escrow balance is the source of truth, so a settlement that was
+   * interrupted after its ledger entry is only marked, never paid twice.
+   */
+  public async settleProposal(proposal: Proposal, now: number = Date.now()): Promise<Proposal> {
+    if (proposal.status === 'ACTIVE' || proposal.settledAt) return proposal;
+
+    const votes = Object.keys(proposal.votes || {}).map(voter => proposal.votes![voter]);
+    const lockedUnits = votes
+      .flatMap(vote => this.lockPostings(vote, escrowAccount(proposal.id), true))
+      .filter(posting => posting.account === escrowAccount(proposal.id))
+      .reduce((sum, posting) => sum + posting.amount, 0);
+    const escrowUnits = (await this.backend.getLedgerBalances())[escrowAccount(proposal.id)]?.QBS || 0;
+    if (escrowUnits !== 0 && escrowUnits !== lockedUnits) {
+      throw new Error(`Settlement rejected: escrow of ${proposal.id} holds ${escrowUnits} units, votes lock ${lockedUnits}`);
+    }
+
+    const postings: LedgerPosting[] = [];
+    const transactions: Record<string, Transaction[]> = {};
+    let rewardPaid = false;
+    if (escrowUnits !== 0) {
+      for (const vote of votes.filter(vote => (vote.stakedWeight || 0) > 0)) {
+        await this.staking.accrueYield(vote.voter, now);
+      }
+      for (const vote of votes) {
+        postings.push(...this.lockPostings(vote, escrowAccount(proposal.id), false));
+        transactions[vote.voter] = [governanceTransaction('VOTE_UNLOCK', vote.weight / QBS_UNITS.QRK, 'QBS', `Vote Unlock: ${proposal.id}`)];
+      }
+
+      if (proposal.status === 'PASSED' && proposal.proposerAddress && !proposal.proposerRewardClaimed) {
+        const reward = PROPOSAL_FEE_QRK * PROPOSER_REWARD_RATE;
+        postings.push(...movement(SYSTEM_ACCOUNTS.FEES, userAccount(proposal.proposerAddress), 'QRK', reward));
+        transactions[proposal.proposerAddress] = [
+          ...(transactions[proposal.proposerAddress] || []),
+          governanceTransaction('GOVERNANCE_REWARD', reward, 'USD', `Proposer Reward: ${proposal.id}`)
+        ];
+        rewardPaid = true;
+      }
+
+      await this.ledger.post({
+        description: `Proposal Settlement: ${proposal.id}`,
+        postings,
+        transactions,
+        userUpdates: this.yieldCheckpoints(votes, now)
+      });
+    }
+
+    const timestamp = new Date(now).toISOString();
+    const settled: Proposal = {
+      ...proposal,
+      settledAt: timestamp,
+      proposerRewardClaimed: proposal.proposerRewardClaimed || rewardPaid
+    };
+    await this.backend.commitGovernanceChange([settled], [auditEntry({
+      timestamp,
+      proposalId: proposal.id,
+      action: 'PROPOSAL_SETTLED',
+      actor: 'system:governance',
+      details: escrowUnits !== 0
+        ? `Released ${votes.length} vote lock(s)${rewardPaid ? ' and paid the proposer reward' : ''}`
+        : 'No locked weight to release'
+    })]);
+    return settled;
+  }
+
+  /**
+   * Protocol parameters in force, falling back to the defaults
+   */
+  public async getParameters(): Promise<ProtocolParameters> {
+    const stored = await this.backend.getProtocolParameters();
+    return {
+      LEASE_COSTS: { ...DEFAULT_PROTOCOL_PARAMETERS.LEASE_COSTS, ...stored?.LEASE_COSTS },
+      EVOLUTION_COST_USD: stored?.EVOLUTION_COST_USD ?? DEFAULT_PROTOCOL_PARAMETERS.EVOLUTION_COST_USD,
+      GRADE_MULTIPLIERS: { ...DEFAULT_PROTOCOL_PARAMETERS.GRADE_MULTIPLIERS, ...stored?.GRADE_MULTIPLIERS }
+    };
+  }
+
+  /**
+   * Governance audit trail, oldest first
+   */
+  public async getAuditTrail(): Promise<GovernanceAuditEntry[]> {
+    return this.backend.getGovernanceAudit();
+  }
+
+  /**
+   * Close every ACTIVE proposal past its expiry, settle closed proposals whose
+   * locks are still held, and return every proposal that changed
+   */
+  public async closeExpiredProposals(now: number = Date.now()): Promise<Proposal[]> {
+    const proposals = await this.backend.getAllProposals();
+    const closed: Proposal[] = [];
+    for (const proposal of proposals) {
+      const result = evaluateProposal(proposal, now);
+      if (result) closed.push(result);
+    }
+
+    if (closed.length > 0) {
+      await this.commitClosures(closed, now);
+    }
+
+    const unsettled = [
+      ...closed,
+      ...proposals.filter(p => p.status !== 'ACTIVE' && !p.settledAt)
+    ];
+    const changed: Proposal[] = [];
+    for (const proposal of unsettled) {
+      changed.push(await this.settleProposal(proposal, now));
+    }
+    return changed;
+  }
+
+  private async commitClosures(closed: Proposal[], now: number): Promise<void> {
+    const timestamp = new Date(now).toISOString();
+    const audit = closed.map(proposal => auditEntry({
+      timestamp,
+      proposalId: proposal.id,
+      action: 'PROPOSAL_CLOSED',
+      actor: 'system:governance',
+      details: `${proposal.status} (${proposal.closeReason}) with ${proposal.votesFor} FOR / ${proposal.votesAgainst} AGAINST of ${proposal.requiredWeight ?? DEFAULT_REQUIRED_WEIGHT} required`,
+      before: 'ACTIVE',
+      after: proposal.status
+    }));
+
+    await this.backend.commitGovernanceChange(closed, audit);
+  }
+
+  /**
+   * Execute a PASSED proposal on behalf of its proposer or an admin. ECONOMIC
+   * proposals apply their parameter changes and complete; other categories move to
+   * EXECUTING for off-protocol follow-up.
+   */
+  public async executeProposal(proposalId: string, executor: string, now: number = Date.now()): Promise<ExecutionResult> {
+    const proposal = await this.backend.getProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Execution rejected: proposal ${proposalId} not found`);
+    }
+    if (proposal.status !== 'PASSED') {
+      throw new Error(`Execution rejected: proposal ${proposalId} is ${proposal.status}`);
+    }
+    const executingUser = await this.backend.getUserByAddress(executor);
+    if (!executingUser) {
+      throw new Error(`Execution rejected: unknown account ${executor}`);
+    }
+    if (!canExecuteProposal(proposal, executingUser)) {
+      throw new Error(`Execution rejected: only the proposer or an admin can execute ${proposalId}`);
+    }
+
+    const timestamp = new Date(now).toISOString();
+    const current = await this.getParameters();
+    const changes = proposal.category === 'ECONOMIC' ? proposal.parameterChanges || [] : [];
+
+    const errors = validateParameterChanges(changes);
+    if (errors.length > 0) {
+      throw new Error(`Execution rejected: ${errors.join(', ')}`);
+    }
+
+    const parameters = applyParameterChanges(current, changes);
+    const audit: GovernanceAuditEntry[] = changes.map(change => auditEntry({
+      timestamp,
+      proposalId,
+      action: 'PARAMETER_CHANGED',
+      actor: executor,
+      details: describeParameterChange(change),
+      before: readParameter(current, change),
+      after: change.value
+    }));
+
+    const executed: Proposal = {
+      ...proposal,
+      status: proposal.category === 'ECONOMIC' ? 'COMPLETED' : 'EXECUTING',
+      executedAt: timestamp,
+      executedBy: executor
+    };
+    audit.push(auditEntry({
+      timestamp,
+      proposalId,
+      action: 'PROPOSAL_EXECUTED',
+      actor: executor,
+      details: changes.length > 0 ? `Applied ${changes.length} parameter change(s)` : 'Initiative handed off for execution',
+      before: 'PASSED',
+      after: executed.status
+    }));
+
+    await this.backend.commitGovernanceChange([executed], audit, changes.length > 0 ? parameters : undefined);
+    return { proposal: executed, parameters, audit };
+  }
+}
+
+// Singleton instance
+export const governanceEngine = new GovernanceEngine(productionDB);
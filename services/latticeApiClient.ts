@@ -0,0 +1,42 @@
+/**
+ * Lattice API Client
+ * Browser access to the routes of the Lattice API server (scripts/api-server.ts),
+ * which owns the shared state the app cannot compute locally, such as reward epochs
+ */
+
+import { RewardEpoch } from '../types';
+import { RewardProof } from './rewardEpochs';
+
+export const LATTICE_API_URL = (process.env.LATTICE_API_URL || 'http://localhost:25579').replace(/\/+$/, '');
+
+/**
+ * Latest epoch as GET /api/rewards/epoch returns it: without leaves, with their count
+ */
+export type RewardEpochSummary = Omit<RewardEpoch, 'leaves'> & { nodes: number };
+
+export type RewardEpochProof = RewardProof & { epoch: number; root: string };
+
+/**
+ * GET a route; null when the server answers 404
+ */
+const getJson = async <T>(route: string, baseUrl: string): Promise<T | null> => {
+  const response = await fetch(`${baseUrl}${route}`);
+  if (response.status === 404) return null;
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Lattice API request failed: ${body?.error || `${response.status} ${response.statusText}`}`);
+  }
+  return body as T;
+};
+
+/**
+ * Latest reward epoch the server rolled up, or null before the first one
+ */
+export const fetchRewardEpoch = (baseUrl: string = LATTICE_API_URL): Promise<RewardEpochSummary | null> =>
+  getJson<RewardEpochSummary>('/api/rewards/epoch', baseUrl);
+
+/**
+ * A node's leaf and Merkle proof in the latest epoch, or null when it has none
+ */
+export const fetchRewardProof = (latticeAddress: string, baseUrl: string = LATTICE_API_URL): Promise<RewardEpochProof | null> =>
+  getJson<RewardEpochProof>(`/api/rewards/epoch/proofs/${encodeURIComponent(latticeAddress)}`, baseUrl);
@@ -0,0 +1,781 @@
+/**
+ * Lattice API Server
+ * Headless Node HTTP service exposing the user registry, ledger, solved blocks
+ * and governance proposals over REST + JSON so every browser shares one state
+ */
+
+import http from 'http';
+import { randomBytes } from 'crypto';
+import { createRequire } from 'module';
+import {
+  User, Proposal, ProposalVote, SolvedBlock, Transaction, LatticePoolStats, PriceCandle, CandleInterval, RewardEpoch,
+  GovernanceAuditEntry, ProtocolParameters, RelayedClaim
+} from '../types';
+import { ProductionDatabaseManager } from './productionDatabase';
+import { hashSecret } from './db';
+import { LedgerBalances, LedgerEntry, LedgerService, SYSTEM_ACCOUNTS } from './ledger';
+import { PROPOSAL_FEE_QRK } from './proposals';
+import { GovernanceBackend, GovernanceEngine } from './governanceEngine';
+import { votingPowerQuarks } from './staking';
+import { CANDLE_INTERVALS, LatticePoolService, PoolBackend } from './latticePool';
+import { RelayerStore, RewardRelayer } from './rewardRelayer';
+import { RewardEpochBackend, RewardEpochService, getRewardProof } from './rewardEpochs';
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const GOVERNANCE_SWEEP_INTERVAL_MS = 60000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Profile fields an owner may change through PUT /api/users/:address
+// (linked wallets and the payout address need a signed challenge, so they are not listed)
+const EDITABLE_PROFILE_FIELDS: (keyof User)[] = [
+  'tagline', 'bio', 'avatarSeed', 'contacts', 'autoSignOutMinutes', 'discoveryVisible', 'groups', 'activeInitiativeId'
+];
+
+// Never leaves the server
+const SECRET_FIELDS: (keyof User)[] = ['passwordHash', 'password', 'salt'];
+
+// Only visible to the owner and admins
+const PRIVATE_FIELDS: (keyof User)[] = [
+  'privateKey', 'mnemonic', 'securityCode', 'transactions', 'incidents', 'contacts', 'votes'
+];
+
+/**
+ * Persistence backend used by the API server
+ */
+export interface LatticeStore extends PoolBackend, RewardEpochBackend, RelayerStore, GovernanceBackend {
+  readonly type: 'file' | 'sqlite';
+  initialize(): Promise<void>;
+  getAllUsers(): Promise<User[]>;
+  getUser(identifier: string): Promise<User | null>;
+  saveUser(user: User): Promise<void>;
+  getAllProposals(): Promise<Proposal[]>;
+  getProposal(id: string): Promise<Proposal | null>;
+  saveProposal(proposal: Proposal): Promise<void>;
+  deleteProposal(id: string): Promise<void>;
+  recordProposalVote(proposalId: string, vote: ProposalVote): Promise<Proposal>;
+  close(): Promise<void>;
+}
+
+/**
+ * File store backed by ProductionDatabaseManager (one JSON file per record)
+ */
+export class FileLatticeStore implements LatticeStore {
+  public readonly type = 'file' as const;
+  private db: ProductionDatabaseManager;
+
+  constructor(dataDirectory?: string) {
+    this.db = new ProductionDatabaseManager({ dataDirectory });
+  }
+
+  public async initialize(): Promise<void> {
+    await this.db.initialize();
+  }
+
+  public getAllUsers(): Promise<User[]> {
+    return this.db.getAllUsers();
+  }
+
+  public getUser(identifier: string): Promise<User | null> {
+    return this.db.getUserByIdentifier(identifier);
+  }
+
+  public getUserByAddress(address: string): Promise<User | null> {
+    return this.db.getUserByAddress(address);
+  }
+
+  public getLedgerBalances(): Promise<LedgerBalances> {
+    return this.db.getLedgerBalances();
+  }
+
+  public getLedgerEntries(): Promise<LedgerEntry[]> {
+    return this.db.getLedgerEntries();
+  }
+
+  public commitLedgerEntry(entry: LedgerEntry, users: User[]): Promise<void> {
+    return this.db.commitLedgerEntry(entry, users);
+  }
+
+  public saveUser(user: User): Promise<void> {
+    return this.db.saveUser(user);
+  }
+
+  public getAllProposals(): Promise<Proposal[]> {
+    return this.db.getAllProposals();
+  }
+
+  public getProposal(id: string): Promise<Proposal | null> {
+    return this.db.getProposal(id);
+  }
+
+  public saveProposal(proposal: Proposal): Promise<void> {
+    return this.db.saveProposal(proposal);
+  }
+
+  public deleteProposal(id: string): Promise<void> {
+    return this.db.deleteProposal(id);
+  }
+
+  public recordProposalVote(proposalId: string, vote: ProposalVote): Promise<Proposal> {
+    return this.db.recordProposalVote(proposalId, vote);
+  }
+
+  public getProtocolParameters(): Promise<ProtocolParameters | null> {
+    return this.db.getProtocolParameters();
+  }
+
+  public getGovernanceAudit(): Promise<GovernanceAuditEntry[]> {
+    return this.db.getGovernanceAudit();
+  }
+
+  public commitGovernanceChange(proposals: Proposal[], audit: GovernanceAuditEntry[], parameters?: ProtocolParameters): Promise<void> {
+    return this.db.commitGovernanceChange(proposals, audit, parameters);
+  }
+
+  public getPoolStats(): Promise<LatticePoolStats | null> {
+    return this.db.getPoolStats();
+  }
+
+  public getPriceCandles(interval: CandleInterval, fromMs?: number, toMs?: number): Promise<PriceCandle[]> {
+    return this.db.getPriceCandles(interval, fromMs, toMs);
+  }
+
+  public commitPoolTrade(stats: LatticePoolStats, candles: PriceCandle[]): Promise<void> {
+    return this.db.commitPoolTrade(stats, candles);
+  }
+
+  public getRewardEpoch(): Promise<RewardEpoch | null> {
+    return this.db.getRewardEpoch();
+  }
+
+  public saveRewardEpoch(epoch: RewardEpoch): Promise<void> {
+    return this.db.saveRewardEpoch(epoch);
+  }
+
+  public getRelayedClaims(): Promise<RelayedClaim[]> {
+    return this.db.getRelayedClaims();
+  }
+
+  public saveRelayedClaim(relayed: RelayedClaim): Promise<void> {
+    return this.db.saveRelayedClaim(relayed);
+  }
+
+  public async close(): Promise<void> {}
+}
+
+/**
+ * SQLiteDatabase.js is CommonJS inside an ESM package: bundlers and test runners
+ * can import it directly, plain Node needs a require scoped to this module
+ */
+const loadSQLiteDatabase = async (): Promise<any> => {
+  try {
+    return (await import('./SQLiteDatabase.js')).default;
+  } catch {
+    return createRequire(import.meta.url)('./SQLiteDatabase.js');
+  }
+};
+
+/**
+ * SQLite store backed by SQLiteDatabase.js
+ */
+export class SQLiteLatticeStore implements LatticeStore {
+  public readonly type = 'sqlite' as const;
+  private db: any = null;
+
+  constructor(private dbPath?: string) {}
+
+  public async initialize(): Promise<void> {
+    if (this.db) return;
+    const SQLiteDatabase = await loadSQLiteDatabase();
+    this.db = new SQLiteDatabase(this.dbPath);
+    await this.db.initialize();
+  }
+
+  public getAllUsers(): Promise<User[]> {
+    return this.db.getAllUsers();
+  }
+
+  public getUser(identifier: string): Promise<User | null> {
+    return this.db.getUser(identifier);
+  }
+
+  public getUserByAddress(address: string): Promise<User | null> {
+    return this.db.getUserByAddress(address);
+  }
+
+  public getLedgerBalances(): Promise<LedgerBalances> {
+    return this.db.getLedgerBalances();
+  }
+
+  public getLedgerEntries(): Promise<LedgerEntry[]> {
+    return this.db.getLedgerEntries();
+  }
+
+  public commitLedgerEntry(entry: LedgerEntry, users: User[]): Promise<void> {
+    return this.db.commitLedgerEntry(entry, users);
+  }
+
+  public saveUser(user: User): Promise<void> {
+    return this.db.saveUser(user);
+  }
+
+  public getAllProposals(): Promise<Proposal[]> {
+    return this.db.getAllProposals();
+  }
+
+  public getProposal(id: string): Promise<Proposal | null> {
+    return this.db.getProposal(id);
+  }
+
+  public saveProposal(proposal: Proposal): Promise<void> {
+    return this.db.saveProposal(proposal);
+  }
+
+  public deleteProposal(id: string): Promise<void> {
+    return this.db.deleteProposal(id);
+  }
+
+  public recordProposalVote(proposalId: string, vote: ProposalVote): Promise<Proposal> {
+    return this.db.recordProposalVote(proposalId, vote);
+  }
+
+  public getProtocolParameters(): Promise<ProtocolParameters | null> {
+    return this.db.getProtocolParameters();
+  }
+
+  public getGovernanceAudit(): Promise<GovernanceAuditEntry[]> {
+    return this.db.getGovernanceAudit();
+  }
+
+  public commitGovernanceChange(proposals: Proposal[], audit: GovernanceAuditEntry[], parameters?: ProtocolParameters): Promise<void> {
+    return this.db.commitGovernanceChange(proposals, audit, parameters);
+  }
+
+  public getPoolStats(): Promise<LatticePoolStats | null> {
+    return this.db.getPoolStats();
+  }
+
+  public getPriceCandles(interval: CandleInterval, fromMs?: number, toMs?: number): Promise<PriceCandle[]> {
+    return this.db.getPriceCandles(interval, fromMs, toMs);
+  }
+
+  public commitPoolTrade(stats: LatticePoolStats, candles: PriceCandle[]): Promise<void> {
+    return this.db.commitPoolTrade(stats, candles);
+  }
+
+  public getRewardEpoch(): Promise<RewardEpoch | null> {
+    return this.db.getRewardEpoch();
+  }
+
+  public saveRewardEpoch(epoch: RewardEpoch): Promise<void> {
+    return this.db.saveRewardEpoch(epoch);
+  }
+
+  public getRelayedClaims(): Promise<RelayedClaim[]> {
+    return this.db.getRelayedClaims();
+  }
+
+  public saveRelayedClaim(relayed: RelayedClaim): Promise<void> {
+    return this.db.saveRelayedClaim(relayed);
+  }
+
+  public async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+/**
+ * Create a store from a type name and an optional location
+ * (data directory for the file store, database path for SQLite)
+ */
+export const createLatticeStore = (type: 'file' | 'sqlite', location?: string): LatticeStore =>
+  type === 'sqlite' ? new SQLiteLatticeStore(location) : new FileLatticeStore(location);
+
+export interface LatticeApiServerOptions {
+  store: LatticeStore;
+  sessionTtlMs?: number;
+  // Enables /api/rewards/claims; holds the authorized-miner key and shares `epochs`
+  relayer?: RewardRelayer;
+  // Rolls up reward epochs; defaults to an unpublished service over the store
+  epochs?: RewardEpochService;
+  // Locks vote weight in escrow and settles closed proposals; defaults to an engine over the store
+  governance?: GovernanceEngine;
+}
+
+interface ApiSession {
+  address: string;
+  role: User['role'];
+  expiresAt: number;
+}
+
+interface ApiRequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  session: ApiSession | null;
+}
+
+type RouteHandler = (ctx: ApiRequestContext) => Promise<{ status?: number; body: unknown }>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+class ApiRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Strip fields a viewer is not allowed to see
+ */
+export const toUserView = (user: User, isOwner: boolean): Partial<User> => {
+  const view: Partial<User> = { ...user };
+  for (const field of SECRET_FIELDS) delete view[field];
+  if (!isOwner) {
+    for (const field of PRIVATE_FIELDS) delete view[field];
+    if (user.discoveryVisible === false) view.solvedBlocks = [];
+  }
+  return view;
+};
+
+/**
+ * Lattice API Server
+ * Routes REST requests onto a LatticeStore with bearer-token sessions
+ */
+export class LatticeApiServer {
+  private store: LatticeStore;
+  private ledger: LedgerService;
+  private pool: LatticePoolService;
+  private relayer: RewardRelayer | null;
+  private epochs: RewardEpochService;
+  private governance: GovernanceEngine;
+  private governanceSweep: ReturnType<typeof setInterval> | null = null;
+  private sessionTtlMs: number;
+  private sessions: Map<string, ApiSession> = new Map();
+  private routes: Route[] = [];
+  private server: http.Server | null = null;
+
+  constructor(options: LatticeApiServerOptions) {
+    this.store = options.store;
+    this.ledger = new LedgerService(options.store);
+    this.pool = new LatticePoolService(options.store);
+    this.relayer = options.relayer || null;
+    this.epochs = options.epochs || new RewardEpochService(options.store);
+    this.governance = options.governance || new GovernanceEngine(options.store);
+    this.sessionTtlMs = options.sessionTtlMs || DEFAULT_SESSION_TTL_MS;
+    this.registerRoutes();
+  }
+
+  /**
+   * Initialize the store and start listening; resolves with the bound port
+   */
+  public async start(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    await this.store.initialize();
+    // Pool statistics a crash left behind the ledger are rebuilt before serving them
+    await this.pool.recoverHistory();
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Lattice API request failed:', error);
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    // Closed proposals release their vote escrow and pay the proposer reward
+    this.governanceSweep = setInterval(() => {
+      this.governance.closeExpiredProposals().catch(error => console.error('Governance sweep failed:', error));
+    }, GOVERNANCE_SWEEP_INTERVAL_MS);
+
+    const address = this.server.address();
+    return typeof address === 'object' && address ? address.port : port;
+  }
+
+  /**
+   * Stop listening and release the store
+   */
+  public async stop(): Promise<void> {
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    if (this.governanceSweep) {
+      clearInterval(this.governanceSweep);
+      this.governanceSweep = null;
+    }
+    this.sessions.clear();
+    if (this.relayer) await this.relayer.stop();
+    await this.epochs.stop();
+    await this.store.close();
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', '/api/health', async () => ({
+      body: { status: 'ok', store: this.store.type, users: (await this.store.getAllUsers()).length }
+    }));
+
+    this.route('POST', '/api/auth/login', ctx => this.login(ctx));
+
+    this.route('POST', '/api/auth/logout', async ctx => {
+      this.requireSession(ctx);
+      for (const [token, session] of this.sessions) {
+        if (session === ctx.session) this.sessions.delete(token);
+      }
+      return { body: { success: true } };
+    });
+
+    this.route('GET', '/api/users', async ctx => {
+      const users = await this.store.getAllUsers();
+      return { body: users.map(u => toUserView(u, this.canAccess(ctx, u.address))) };
+    });
+
+    this.route('GET', '/api/users/:address', async ctx => {
+      const user = await this.findUser(ctx.params.address);
+      return { body: toUserView(user, this.canAccess(ctx, user.address)) };
+    });
+
+    this.route('PUT', '/api/users/:address', ctx => this.updateProfile(ctx));
+
+    this.route('GET', '/api/users/:address/transactions', async ctx => {
+      const user = await this.findUser(ctx.params.address);
+      this.requireAccess(ctx, user.address);
+      return { body: user.transactions || [] };
+    });
+
+    this.route('GET', '/api/users/:address/blocks', async ctx => {
+      const user = await this.findUser(ctx.params.address);
+      return { body: toUserView(user, this.canAccess(ctx, user.address)).solvedBlocks || [] };
+    });
+
+    this.route('GET', '/api/blocks', async ctx => {
+      const users = await this.store.getAllUsers();
+      const blocks: (SolvedBlock & { miner: string })[] = [];
+      for (const user of users) {
+        const visible = toUserView(user, this.canAccess(ctx, user.address)).solvedBlocks || [];
+        blocks.push(...visible.map(b => ({ ...b, miner: user.address })));
+      }
+      const limit = parseInt(ctx.query.get('limit') || '', 10);
+      return { body: limit > 0 ? blocks.slice(-limit) : blocks };
+    });
+
+    this.route('GET', '/api/proposals', async () => ({ body: await this.store.getAllProposals() }));
+
+    this.route('GET', '/api/proposals/:id', async ctx => {
+      const proposal = await this.store.getProposal(ctx.params.id);
+      if (!proposal) throw new ApiRequestError(404, 'Proposal not found');
+      return { body: proposal };
+    });
+
+    this.route('POST', '/api/proposals', ctx => this.createProposal(ctx));
+
+    this.route('POST', '/api/proposals/:id/votes', ctx => this.castVote(ctx));
+
+    this.route('GET', '/api/market/pool', async () => ({ body: await this.pool.getPool() }));
+
+    this.route('GET', '/api/market/candles', async ctx => {
+      const interval = (ctx.query.get('interval') || '1h') as CandleInterval;
+      if (!CANDLE_INTERVALS[interval]) {
+        throw new ApiRequestError(400, `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}`);
+      }
+      const from = parseInt(ctx.query.get('from') || '', 10);
+      const to = parseInt(ctx.query.get('to') || '', 10);
+      return { body: await this.pool.getPriceHistory(interval, from >= 0 ? from : undefined, to >= 0 ? to : undefined) };
+    });
+
+    this.route('POST', '/api/rewards/claims', ctx => this.submitRewardClaim(ctx));
+
+    this.route('GET', '/api/rewards/epoch', async () => {
+      const epoch = await this.epochs.getLatestEpoch();
+      if (!epoch) throw new ApiRequestError(404, 'No reward epoch yet');
+      const { leaves, ...summary } = epoch;
+      return { body: { ...summary, nodes: leaves.length } };
+    });
+
+    this.route('GET', '/api/rewards/epoch/proofs/:address', async ctx => {
+      const epoch = await this.epochs.getLatestEpoch();
+      const proof = epoch ? getRewardProof(epoch, ctx.params.address) : null;
+      if (!proof) throw new ApiRequestError(404, 'No accrual for this node');
+      return { body: { epoch: epoch!.epoch, root: epoch!.root, ...proof } };
+    });
+
+    this.route('GET', '/api/rewards/claims/:id', async ctx => {
+      const relayed = await this.requireRelayer().getClaim(ctx.params.id);
+      if (!relayed) throw new ApiRequestError(404, 'Claim not found');
+      this.requireAccess(ctx, relayed.claim.owner);
+      return { body: relayed };
+    });
+  }
+
+  private route(method: string, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '/?$');
+    this.routes.push({ method, pattern, keys, handler });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    let pathMatched = false;
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== req.method) continue;
+
+      try {
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, i) => { params[key] = decodeURIComponent(match[i + 1]); });
+        const body = req.method === 'POST' || req.method === 'PUT' ? await this.readBody(req) : undefined;
+        const result = await route.handler({ params, query: url.searchParams, body, session: this.getSession(req) });
+        this.sendJson(res, result.status || 200, result.body);
+      } catch (error) {
+        if (error instanceof ApiRequestError) {
+          this.sendJson(res, error.status, { error: error.message });
+        } else {
+          throw error;
+        }
+      }
+      return;
+    }
+
+    this.sendJson(res, pathMatched ? 405 : 404, { error: pathMatched ? 'Method not allowed' : 'Not found' });
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) throw new ApiRequestError(413, 'Request body too large');
+      chunks.push(chunk as Buffer);
+    }
+    if (size === 0) return {};
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new ApiRequestError(400, 'Request body must be valid JSON');
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private getSession(req: http.IncomingMessage): ApiSession | null {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const session = token ? this.sessions.get(token) : undefined;
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+    return session;
+  }
+
+  private requireSession(ctx: ApiRequestContext): ApiSession {
+    if (!ctx.session) throw new ApiRequestError(401, 'Authentication required');
+    return ctx.session;
+  }
+
+  private canAccess(ctx: ApiRequestContext, address: string): boolean {
+    if (!ctx.session) return false;
+    return ctx.session.address === address || ctx.session.role === 'admin';
+  }
+
+  private requireAccess(ctx: ApiRequestContext, address: string): void {
+    this.requireSession(ctx);
+    if (!this.canAccess(ctx, address)) throw new ApiRequestError(403, 'Access denied');
+  }
+
+  private async findUser(identifier: string): Promise<User> {
+    const user = await this.store.getUser(identifier);
+    if (!user) throw new ApiRequestError(404, 'User not found');
+    return user;
+  }
+
+  private async login(ctx: ApiRequestContext): Promise<{ status?: number; body: unknown }> {
+    const { identifier, password, securityCode } = ctx.body || {};
+    if (typeof identifier !== 'string' || typeof password !== 'string' || typeof securityCode !== 'string') {
+      throw new ApiRequestError(400, 'identifier, password and securityCode are required');
+    }
+
+    const user = await this.store.getUser(identifier.trim());
+    const passwordValid = !!user && (await hashSecret(password, user.salt)) === user.passwordHash;
+    const codeValid = !!user && (user.securityCode || '').toUpperCase().trim() === securityCode.toUpperCase().trim();
+    if (!user || !passwordValid || !codeValid) {
+      throw new ApiRequestError(401, 'Invalid credentials');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + this.sessionTtlMs;
+    this.sessions.set(token, { address: user.address, role: user.role, expiresAt });
+
+    return { body: { token, expiresAt: new Date(expiresAt).toISOString(), user: toUserView(user, true) } };
+  }
+
+  private async updateProfile(ctx: ApiRequestContext): Promise<{ status?: number; body: unknown }> {
+    const user = await this.findUser(ctx.params.address);
+    this.requireAccess(ctx, user.address);
+
+    const updates = ctx.body || {};
+    const rejected = Object.keys(updates).filter(key => !EDITABLE_PROFILE_FIELDS.includes(key as keyof User));
+    if (rejected.length > 0) {
+      throw new ApiRequestError(400, `Fields cannot be updated: ${rejected.join(', ')}`);
+    }
+
+    const updatedUser: User = { ...user, ...updates };
+    await this.store.saveUser(updatedUser);
+    return { body: toUserView(updatedUser, true) };
+  }
+
+  private async createProposal(ctx: ApiRequestContext): Promise<{ status?: number; body: unknown }> {
+    const session = this.requireSession(ctx);
+    const { title, description, category } = ctx.body || {};
+    if (typeof title !== 'string' || title.trim().length === 0) {
+      throw new ApiRequestError(400, 'title is required');
+    }
+    if (category !== undefined && !['ECONOMIC', 'SCIENTIFIC', 'SECURITY'].includes(category)) {
+      throw new ApiRequestError(400, 'Invalid proposal category');
+    }
+
+    const proposer = await this.findUser(session.address);
+    if (proposer.usdBalance < PROPOSAL_FEE_QRK) {
+      throw new ApiRequestError(402, `${PROPOSAL_FEE_QRK} QRK required`);
+    }
+
+    const existingIds = new Set((await this.store.getAllProposals()).map(p => p.id));
+    let id: string;
+    do {
+      id = `LGP-${randomBytes(3).toString('hex').toUpperCase()}`;
+    } while (existingIds.has(id));
+
+    const proposal: Proposal = {
+      id,
+      title: title.trim(),
+      description: typeof description === 'string' && description.trim() ? description.trim() : 'No abstract.',
+      proposer: proposer.profileId,
+      proposerAddress: proposer.address,
+      status: 'ACTIVE',
+      votesFor: 0,
+      votesAgainst: 0,
+      requiredWeight: 300,
+      expiresAt: new Date(Date.now() + 604800000).toISOString(),
+      category: category || 'SCIENTIFIC',
+      totalQuarksStaked: PROPOSAL_FEE_QRK,
+      scientificBaseline: 'Foundational data synthesis active.',
+      evolutionPath: 'Pending consensus mapping.',
+      votes: {},
+      createdAt: new Date().toISOString()
+    };
+
+    const feeTransaction: Transaction = {
+      id: `GOV-${randomBytes(2).toString('hex').toUpperCase()}`,
+      timestamp: new Date().toLocaleString(),
+      type: 'DEBIT',
+      amount: PROPOSAL_FEE_QRK.toString(),
+      unit: 'USD',
+      description: `Initiative Broadcast: ${proposal.id}`
+    };
+
+    await this.ledger.debit(proposer.address, PROPOSAL_FEE_QRK, 'USD', feeTransaction);
+    try {
+      await this.store.saveProposal(proposal);
+    } catch (error) {
+      // The fee is returned if the proposal it paid for was not stored
+      await this.ledger.credit(proposer.address, PROPOSAL_FEE_QRK, 'USD', {
+        ...feeTransaction,
+        id: `GOV-${randomBytes(2).toString('hex').toUpperCase()}`,
+        type: 'CREDIT',
+        description: `Initiative Fee Returned: ${proposal.id}`
+      }, SYSTEM_ACCOUNTS.FEES);
+      throw error;
+    }
+
+    return { status: 201, body: proposal };
+  }
+
+  private async castVote(ctx: ApiRequestContext): Promise<{ status?: number; body: unknown }> {
+    const session = this.requireSession(ctx);
+    const { type, weight } = ctx.body || {};
+    if (type !== 'FOR' && type !== 'AGAINST') {
+      throw new ApiRequestError(400, 'type must be FOR or AGAINST');
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+      throw new ApiRequestError(400, 'weight must be a positive number of quarks');
+    }
+
+    const proposal = await this.store.getProposal(ctx.params.id);
+    if (!proposal) throw new ApiRequestError(404, 'Proposal not found');
+    if (proposal.votes?.[session.address]) {
+      throw new ApiRequestError(409, 'Vote already recorded');
+    }
+
+    const voter = await this.findUser(session.address);
+    const votingPower = votingPowerQuarks(voter);
+    if (weight > votingPower) {
+      throw new ApiRequestError(400, `Vote weight exceeds voting power of ${votingPower} quarks`);
+    }
+
+    // The engine locks the weight in the proposal's escrow, so it cannot back a second vote
+    const vote: ProposalVote = { voter: voter.address, type, weight, timestamp: new Date().toISOString() };
+    let result: { proposal: Proposal; voter: User };
+    try {
+      result = await this.governance.castVote(proposal.id, vote);
+    } catch (error: any) {
+      throw new ApiRequestError(409, error.message);
+    }
+
+    await this.store.saveUser({ ...result.voter, votes: { ...(result.voter.votes || {}), [proposal.id]: { type, weight } } });
+    return { status: 201, body: result.proposal };
+  }
+
+  private requireRelayer(): RewardRelayer {
+    if (!this.relayer) throw new ApiRequestError(503, 'Reward relayer is not configured');
+    return this.relayer;
+  }
+
+  private async submitRewardClaim(ctx: ApiRequestContext): Promise<{ status?: number; body: unknown }> {
+    const session = this.requireSession(ctx);
+    const relayer = this.requireRelayer();
+    const { claim, signature } = ctx.body || {};
+    if (!claim || typeof claim !== 'object' || typeof signature !== 'string') {
+      throw new ApiRequestError(400, 'claim and signature are required');
+    }
+    if (claim.owner !== session.address) {
+      throw new ApiRequestError(403, 'Claims can only be made for your own blocks');
+    }
+
+    try {
+      return { status: 202, body: await relayer.submit({ claim, signature }) };
+    } catch (error: any) {
+      throw new ApiRequestError(/already relayed|already claimable/.test(error.message) ? 409 : 400, error.message);
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Lattice Pool
+ * Constant-product AMM between QBS and USD (the ledger's QRK asset). Reserves are
+ * the genesis liquidity plus the system:pool ledger account, so a swap moves the
+ * reserves in the same entry that moves the trader's balances. The last executed
+ * price, traded volume and 1h/1d OHLC candles of executed prices are stored beside them
+ * and can be rebuilt from the swap entries if that second write is lost.
+ */
+
+import { LatticePool, LatticePoolStats, PriceCandle, CandleInterval, Transaction, User } from '../types';
+import { QBS_UNITS } from './quantumLogic';
+import { productionDB } from './productionDatabase';
+import {
+  LedgerBackend,
+  LedgerEntry,
+  LedgerService,
+  SYSTEM_ACCOUNTS,
+  LEDGER_SCALE,
+  movement,
+  userAccount,
+  fromLedgerUnits
+} from './ledger';
+
+export const POOL_CONFIG = {
+  // Share of the input kept by the pool, which grows k for liquidity
+  FEE_RATE: 0.003,
+  // Default tolerance between the quoted and executed output
+  DEFAULT_SLIPPAGE: 0.005
+};
+
+// Liquidity the pool opened with, before any ledger postings
+export const GENESIS_POOL = {
+  qbsReserve: 1000,
+  usdReserve: 1000000
+};
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// What the trader pays: quarks of QBS or USD
+export type SwapInput = 'QRK' | 'USD';
+
+export interface SwapQuote {
+  fromUnit: SwapInput;
+  amountIn: number;   // in fromUnit
+  amountOut: number;  // USD when paying quarks, quarks when paying USD
+  qbsAmount: number;  // QBS moved either way
+  usdAmount: number;  // USD moved either way
+  fee: number;        // in fromUnit
+  executionPrice: number; // USD per QBS
+  priceImpact: number;    // percent away from the spot price
+}
+
+// A swap as its ledger entry recorded it
+export interface PoolTrade {
+  at: number;
+  qbsAmount: number;
+  usdAmount: number;
+  price: number; // USD per QBS
+}
+
+export interface PoolBackend extends LedgerBackend {
+  getLedgerEntries(): Promise<LedgerEntry[]>;
+  getPoolStats(): Promise<LatticePoolStats | null>;
+  getPriceCandles(interval: CandleInterval, fromMs?: number, toMs?: number): Promise<PriceCandle[]>;
+  commitPoolTrade(stats: LatticePoolStats, candles: PriceCandle[]): Promise<void>;
+}
+
+/**
+ * USD per QBS at the current reserves
+ */
+export const spotPrice = (pool: LatticePool): number => pool.usdReserve / pool.qbsReserve;
+
+/**
+ * Output of a swap against the given reserves, with the fee taken from the input
+ * and the output floored to whole ledger units
+ */
+export const quoteSwap = (pool: LatticePool, fromUnit: SwapInput, amount: number, feeRate: number = POOL_CONFIG.FEE_RATE): SwapQuote => {
+  if (!(amount > 0) || !Number.isFinite(amount)) {
+    throw new Error('Swap rejected: amount must be positive');
+  }
+  const payingQbs = fromUnit === 'QRK';
+  const inputAmount = payingQbs ? amount / QBS_UNITS.QRK : amount;
+  const reserveIn = payingQbs ? pool.qbsReserve : pool.usdReserve;
+  const reserveOut = payingQbs ? pool.usdReserve : pool.qbsReserve;
+
+  const netInput = inputAmount * (1 - feeRate);
+  const output = fromLedgerUnits(Math.floor(reserveOut * netInput / (reserveIn + netInput) * LEDGER_SCALE));
+  const qbsAmount = payingQbs ? inputAmount : output;
+  const usdAmount = payingQbs ? output : inputAmount;
+  const executionPrice = qbsAmount > 0 ? usdAmount / qbsAmount : 0;
+
+  return {
+    fromUnit,
+    amountIn: amount,
+    amountOut: payingQbs ? output : output * QBS_UNITS.QRK,
+    qbsAmount,
+    usdAmount,
+    fee: amount * feeRate,
+    executionPrice,
+    priceImpact: executionPrice > 0 ? Math.abs(executionPrice / spotPrice(pool) - 1) * 100 : 100
+  };
+};
+
+/**
+ * Pool state after a quoted swap executes; the fee stays in the reserves
+ */
+export const applySwap = (pool: LatticePool, quote: SwapQuote): LatticePool => {
+  const payingQbs = quote.fromUnit === 'QRK';
+  const qbsReserve = payingQbs ? pool.qbsReserve + quote.qbsAmount : pool.qbsReserve - quote.qbsAmount;
+  const usdReserve = payingQbs ? pool.usdReserve - quote.usdAmount : pool.usdReserve + quote.usdAmount;
+  return {
+    qbsReserve,
+    usdReserve,
+    kConstant: qbsReserve * usdReserve,
+    lastPrice: quote.executionPrice,
+    totalVolumeUsd: pool.totalVolumeUsd + quote.usdAmount
+  };
+};
+
+/**
+ * Start of the candle containing a timestamp (UTC aligned)
+ */
+export const candleOpenTime = (interval: CandleInterval, at: number): number =>
+  at - (at % CANDLE_INTERVALS[interval]);
+
+/**
+ * Fold an executed trade into the candle of its interval, opening one if needed
+ */
+export const mergeTrade = (
+  candle: PriceCandle | null,
+  interval: CandleInterval,
+  price: number,
+  volumeUsd: number,
+  at: number
+): PriceCandle => {
+  const openTime = candleOpenTime(interval, at);
+  if (!candle || candle.openTime !== openTime) {
+    return { id: `${interval}:${openTime}`, interval, openTime, open: price, high: price, low: price, close: price, volumeUsd, trades: 1 };
+  }
+  return {
+    ...candle,
+    high: Math.max(candle.high, price),
+    low: Math.min(candle.low, price),
+    close: price,
+    volumeUsd: candle.volumeUsd + volumeUsd,
+    trades: candle.trades + 1
+  };
+};
+
+/**
+ * Swaps on the ledger, oldest first: entries that move QBS and QRK through the
+ * pool in opposite directions
+ */
+export const poolTrades = (entries: LedgerEntry[]): PoolTrade[] =>
+  entries
+    .flatMap(entry => {
+      const held = (asset: 'QBS' | 'QRK') => entry.postings
+        .filter(posting => posting.account === SYSTEM_ACCOUNTS.POOL && posting.asset === asset)
+        .reduce((sum, posting) => sum + posting.amount, 0);
+      const qbs = held('QBS');
+      const qrk = held('QRK');
+      if (qbs === 0 || qrk === 0 || Math.sign(qbs) === Math.sign(qrk)) return [];
+      const qbsAmount = fromLedgerUnits(Math.abs(qbs));
+      const usdAmount = fromLedgerUnits(Math.abs(qrk));
+      return [{ at: Date.parse(entry.timestamp), qbsAmount, usdAmount, price: usdAmount / qbsAmount }];
+    })
+    .sort((a, b) => a.at - b.at);
+
+/**
+ * Trading statistics and candles of every interval that a run of swaps produces
+ */
+export const replayPoolTrades = (trades: PoolTrade[]): { stats: LatticePoolStats | null; candles: PriceCandle[] } => {
+  const candles = new Map<string, PriceCandle>();
+  let totalVolumeUsd = 0;
+  for (const trade of trades) {
+    totalVolumeUsd += trade.usdAmount;
+    for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+      const id = `${interval}:${candleOpenTime(interval, trade.at)}`;
+      candles.set(id, mergeTrade(candles.get(id) || null, interval, trade.price, trade.usdAmount, trade.at));
+    }
+  }
+  const last = trades[trades.length - 1];
+  return {
+    stats: last ? { lastPrice: last.price, totalVolumeUsd, updatedAt: new Date(last.at).toISOString(), trades: trades.length } : null,
+    candles: Array.from(candles.values())
+  };
+};
+
+/**
+ * Lattice Pool Service
+ * Quotes and executes swaps against reserves held on the ledger
+ */
+export class LatticePoolService {
+  private ledger: LedgerService;
+
+  constructor(private backend: PoolBackend) {
+    this.ledger = new LedgerService(backend);
+  }
+
+  /**
+   * Current reserves and trading statistics
+   */
+  public async getPool(): Promise<LatticePool> {
+    const balances = await this.backend.getLedgerBalances();
+    const held = balances[SYSTEM_ACCOUNTS.POOL] || {};
+    const qbsReserve = GENESIS_POOL.qbsReserve + fromLedgerUnits(held.QBS || 0);
+    const usdReserve = GENESIS_POOL.usdReserve + fromLedgerUnits(held.QRK || 0);
+    const stats = await this.backend.getPoolStats();
+
+    return {
+      qbsReserve,
+      usdReserve,
+      kConstant: qbsReserve * usdReserve,
+      lastPrice: stats ? stats.lastPrice : usdReserve / qbsReserve,
+      totalVolumeUsd: stats ? stats.totalVolumeUsd : 0
+    };
+  }
+
+  /**
+   * Stored candles of one interval, oldest first
+   */
+  public async getPriceHistory(interval: CandleInterval, fromMs?: number, toMs?: number): Promise<PriceCandle[]> {
+    if (!CANDLE_INTERVALS[interval]) {
+      throw new Error(`Price history rejected: unknown interval ${interval}`);
+    }
+    return this.backend.getPriceCandles(interval, fromMs, toMs);
+  }
+
+  /**
+   * Quote a swap against the current reserves
+   */
+  public async quote(fromUnit: SwapInput, amount: number): Promise<SwapQuote> {
+    return quoteSwap(await this.getPool(), fromUnit, amount);
+  }
+
+  /**
+   * Execute a swap, refusing it when the output falls below minAmountOut (in the
+   * output unit of the quote) because the reserves moved since it was quoted
+   */
+  public async swap(
+    address: string,
+    fromUnit: SwapInput,
+    amount: number,
+    minAmountOut: number = 0,
+    now: number = Date.now()
+  ): Promise<{ user: User; pool: LatticePool; quote: SwapQuote }> {
+    const pool = await this.getPool();
+    const quote = quoteSwap(pool, fromUnit, amount);
+    if (!(quote.qbsAmount > 0) || !(quote.usdAmount > 0)) {
+      throw new Error('Swap rejected: amount is too small to trade');
+    }
+    if (quote.amountOut < minAmountOut) {
+      throw new Error(`Swap rejected: output ${quote.amountOut} is below the slippage limit of ${minAmountOut}`);
+    }
+
+    const payingQbs = fromUnit === 'QRK';
+    const description = payingQbs
+      ? `Swap ${quote.qbsAmount} QBS to $${quote.usdAmount.toFixed(2)}`
+      : `Swap $${quote.usdAmount.toFixed(2)} to ${quote.qbsAmount} QBS`;
+    const transaction: Transaction = {
+      id: `SWAP-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+      timestamp: new Date().toLocaleString(),
+      type: 'SWAP',
+      amount: (payingQbs ? quote.qbsAmount : quote.usdAmount).toString(),
+      unit: payingQbs ? 'QBS' : 'USD',
+      description: `${description} @ $${quote.executionPrice.toFixed(2)}/QBS`,
+      price: quote.executionPrice
+    };
+
+    const postings = payingQbs
+      ? [
+          ...movement(userAccount(address), SYSTEM_ACCOUNTS.POOL, 'QBS', quote.qbsAmount),
+          ...movement(SYSTEM_ACCOUNTS.POOL, userAccount(address), 'QRK', quote.usdAmount)
+        ]
+      : [
+          ...movement(userAccount(address), SYSTEM_ACCOUNTS.POOL, 'QRK', quote.usdAmount),
+          ...movement(SYSTEM_ACCOUNTS.POOL, userAccount(address), 'QBS', quote.qbsAmount)
+        ];
+    const stats = await this.backend.getPoolStats();
+    const updated = await this.ledger.post({
+      description,
+      postings,
+      transactions: { [address]: [transaction] },
+      timestamp: new Date(now).toISOString()
+    });
+
+    const next = applySwap(pool, quote);
+    const candles: PriceCandle[] = [];
+    for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+      const openTime = candleOpenTime(interval, now);
+      const [current] = await this.backend.getPriceCandles(interval, openTime, openTime);
+      candles.push(mergeTrade(current || null, interval, quote.executionPrice, quote.usdAmount, now));
+    }
+    try {
+      await this.backend.commitPoolTrade({
+        lastPrice: next.lastPrice,
+        totalVolumeUsd: next.totalVolumeUsd,
+        updatedAt: new Date(now).toISOString(),
+        trades: (stats?.trades || 0) + 1
+      }, candles);
+    } catch (error) {
+      // The swap is final once its ledger entry commits, so only the statistics are behind
+      console.error('Pool statistics write failed, rebuilding them from the ledger:', error);
+      await this.recoverHistory().catch(() => false);
+    }
+    return { user: updated[address], pool: next, quote };
+  }
+
+  /**
+   * Rebuild the trading statistics and candles from the swaps on the ledger when
+   * they do not account for every swap; returns whether anything was rebuilt
+   */
+  public async recoverHistory(): Promise<boolean> {
+    const trades = poolTrades(await this.backend.getLedgerEntries());
+    const stats = await this.backend.getPoolStats();
+    if (trades.length === 0 || stats?.trades === trades.length) return false;
+
+    const replayed = replayPoolTrades(trades);
+    await this.backend.commitPoolTrade(replayed.stats!, replayed.candles);
+    return true;
+  }
+}
+
+// Singleton instance
+export const latticePool = new LatticePoolService(productionDB);
@@ -0,0 +1,337 @@
+/**
+ * Double-Entry Ledger
+ * Every movement of QBS and QRK is recorded as a balanced set of postings that is
+ * committed together with the affected user records in one storage transaction.
+ * User.balance (QBS) and User.usdBalance (QRK/USD) are derived from the postings,
+ * as are User.stakedBalance and User.unbondingBalance from the user's stake accounts.
+ */
+
+import { User, Transaction } from '../types';
+import { productionDB } from './productionDatabase';
+
+export type LedgerAsset = 'QBS' | 'QRK';
+
+// Postings are stored as signed integers of 1e-9 of an asset to avoid float drift
+export const LEDGER_SCALE = 1000000000;
+
+export const SYSTEM_ACCOUNTS = {
+  ISSUANCE: 'system:issuance',   // mints and burns
+  OPENING: 'system:opening',     // balances that predate the ledger
+  FEES: 'system:fees',           // leases, messaging, governance and evolution fees
+  POOL: 'system:pool',           // LatticePool reserves on the other side of swaps
+  RECONCILIATION: 'system:reconciliation' // approved corrections against on-chain balances
+} as const;
+
+export interface LedgerPosting {
+  account: string;
+  asset: LedgerAsset;
+  amount: number; // signed ledger units
+}
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  description: string;
+  postings: LedgerPosting[];
+}
+
+// account -> asset -> ledger units
+export type LedgerBalances = Record<string, Partial<Record<LedgerAsset, number>>>;
+
+/**
+ * Storage that can commit an entry and the user records it affects atomically
+ */
+export interface LedgerBackend {
+  getUserByAddress(address: string): Promise<User | null>;
+  getLedgerBalances(): Promise<LedgerBalances>;
+  commitLedgerEntry(entry: LedgerEntry, users: User[]): Promise<void>;
+}
+
+export interface LedgerPostRequest {
+  description: string;
+  postings: LedgerPosting[];
+  // History records appended to each affected user, keyed by address
+  transactions?: Record<string, Transaction[]>;
+  // Non-balance fields written with the entry, keyed by address
+  userUpdates?: Record<string, Partial<User>>;
+  // Entry time as an ISO string, defaulting to now
+  timestamp?: string;
+}
+
+const USER_ACCOUNT_PREFIX = 'user:';
+const STAKE_ACCOUNT_PREFIX = 'stake:';
+const UNBONDING_ACCOUNT_PREFIX = 'unbonding:';
+const OWNED_ACCOUNT_PREFIXES = [USER_ACCOUNT_PREFIX, STAKE_ACCOUNT_PREFIX, UNBONDING_ACCOUNT_PREFIX];
+
+export const userAccount = (address: string): string => `${USER_ACCOUNT_PREFIX}${address}`;
+
+// Bonded QBS earning yield, and QBS waiting out the unbonding period
+export const stakeAccount = (address: string): string => `${STAKE_ACCOUNT_PREFIX}${address}`;
+export const unbondingAccount = (address: string): string => `${UNBONDING_ACCOUNT_PREFIX}${address}`;
+
+export const isUserAccount = (account: string): boolean => account.startsWith(USER_ACCOUNT_PREFIX);
+
+/**
+ * Whether an account belongs to a user (liquid, staked or unbonding) and may never go negative
+ */
+export const isOwnedAccount = (account: string): boolean =>
+  OWNED_ACCOUNT_PREFIXES.some(prefix => account.startsWith(prefix));
+
+// Holds the vote weight locked on one proposal until it is settled
+export const escrowAccount = (proposalId: string): string => `system:escrow:${proposalId}`;
+
+export const addressFromAccount = (account: string): string => account.slice(account.indexOf(':') + 1);
+
+export const toLedgerUnits = (amount: number): number => Math.round(amount * LEDGER_SCALE);
+
+export const fromLedgerUnits = (units: number): number => units / LEDGER_SCALE;
+
+/**
+ * QRK and USD share User.usdBalance (1 QRK = 1 USD), QBS is User.balance
+ */
+export const assetForUnit = (unit: Transaction['unit']): LedgerAsset => {
+  if (unit === 'QBS') return 'QBS';
+  if (unit === 'QRK' || unit === 'USD') return 'QRK';
+  throw new Error(`Unit ${unit} is not a ledger asset`);
+};
+
+/**
+ * Whether an account has ever been posted to
+ */
+export const hasLedgerHistory = (balances: LedgerBalances, address: string): boolean =>
+  !!(balances[userAccount(address)] || balances[stakeAccount(address)] || balances[unbondingAccount(address)]);
+
+/**
+ * Return a copy of the balances with the entry applied
+ */
+export const applyLedgerEntry = (balances: LedgerBalances, entry: LedgerEntry): LedgerBalances => {
+  const next: LedgerBalances = {};
+  for (const [account, assets] of Object.entries(balances)) next[account] = { ...assets };
+  for (const posting of entry.postings) {
+    const assets = next[posting.account] || (next[posting.account] = {});
+    assets[posting.asset] = (assets[posting.asset] || 0) + posting.amount;
+  }
+  return next;
+};
+
+/**
+ * Check the double-entry invariants: integer non-zero postings that sum to zero
+ * per asset and no user account left negative
+ */
+export const validateLedgerEntry = (entry: LedgerEntry, balances: LedgerBalances): string[] => {
+  const errors: string[] = [];
+
+  if (!entry.id) errors.push('Entry id is required');
+  if (!Array.isArray(entry.postings) || entry.postings.length < 2) {
+    errors.push('Entry needs at least two postings');
+    return errors;
+  }
+
+  const totals: Partial<Record<LedgerAsset, number>> = {};
+  for (const posting of entry.postings) {
+    if (posting.asset !== 'QBS' && posting.asset !== 'QRK') {
+      errors.push(`Unknown asset ${posting.asset}`);
+    }
+    if (!Number.isSafeInteger(posting.amount) || posting.amount === 0) {
+      errors.push(`Invalid amount ${posting.amount} on ${posting.account}`);
+    }
+    totals[posting.asset] = (totals[posting.asset] || 0) + posting.amount;
+  }
+
+  for (const [asset, total] of Object.entries(totals)) {
+    if (total !== 0) errors.push(`${asset} postings do not balance (off by ${total})`);
+  }
+
+  if (errors.length === 0) {
+    const after = applyLedgerEntry(balances, entry);
+    for (const posting of entry.postings) {
+      const remaining = after[posting.account]?.[posting.asset] || 0;
+      if (isOwnedAccount(posting.account) && remaining < 0) {
+        errors.push(`Insufficient ${posting.asset} on ${posting.account}`);
+      }
+    }
+  }
+
+  return Array.from(new Set(errors));
+};
+
+export interface DerivedUserBalances {
+  balance: number;
+  usdBalance: number;
+  stakedBalance: number;
+  unbondingBalance: number;
+}
+
+/**
+ * Balances of a user as derived from their postings
+ */
+export const deriveUserBalances = (balances: LedgerBalances, address: string): DerivedUserBalances => {
+  const assets = balances[userAccount(address)] || {};
+  return {
+    balance: fromLedgerUnits(assets.QBS || 0),
+    usdBalance: fromLedgerUnits(assets.QRK || 0),
+    stakedBalance: fromLedgerUnits(balances[stakeAccount(address)]?.QBS || 0),
+    unbondingBalance: fromLedgerUnits(balances[unbondingAccount(address)]?.QBS || 0)
+  };
+};
+
+/**
+ * Whether a user record agrees with the ledger; users without history always do
+ */
+export const isUserInBalance = (user: User, balances: LedgerBalances): boolean => {
+  if (!hasLedgerHistory(balances, user.address)) return true;
+  const assets = balances[userAccount(user.address)] || {};
+  return toLedgerUnits(user.balance || 0) === (assets.QBS || 0) &&
+    toLedgerUnits(user.usdBalance || 0) === (assets.QRK || 0) &&
+    toLedgerUnits(user.stakedBalance || 0) === (balances[stakeAccount(user.address)]?.QBS || 0) &&
+    toLedgerUnits(user.unbondingBalance || 0) === (balances[unbondingAccount(user.address)]?.QBS || 0);
+};
+
+/**
+ * Postings moving an amount between two accounts
+ */
+export const movement = (from: string, to: string, asset: LedgerAsset, amount: number): LedgerPosting[] => {
+  const units = toLedgerUnits(amount);
+  return [
+    { account: from, asset, amount: -units },
+    { account: to, asset, amount: units }
+  ];
+};
+
+const generateEntryId = (): string =>
+  `LED-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+
+/**
+ * Ledger Service
+ * Builds balanced entries, derives user balances and commits both atomically
+ */
+export class LedgerService {
+  constructor(private backend: LedgerBackend) {}
+
+  /**
+   * Post a balanced entry; returns the updated users keyed by address
+   */
+  public async post(request: LedgerPostRequest): Promise<Record<string, User>> {
+    const postings = request.postings.filter(p => p.amount !== 0);
+    if (postings.length === 0) {
+      throw new Error('Ledger entry rejected: no postings');
+    }
+
+    const addresses = Array.from(new Set([
+      ...postings.map(p => p.account).filter(isOwnedAccount).map(addressFromAccount),
+      ...Object.keys(request.transactions || {}),
+      ...Object.keys(request.userUpdates || {})
+    ]));
+
+    const users: User[] = [];
+    for (const address of addresses) {
+      const user = await this.backend.getUserByAddress(address);
+      if (!user) throw new Error(`Ledger entry rejected: unknown account ${address}`);
+      users.push(user);
+    }
+
+    const balances = await this.backend.getLedgerBalances();
+
+    // Bring balances that predate the ledger onto it the first time an account is posted to
+    const openingPostings: LedgerPosting[] = [];
+    for (const user of users) {
+      if (hasLedgerHistory(balances, user.address)) continue;
+      const qbs = toLedgerUnits(user.balance || 0);
+      const qrk = toLedgerUnits(user.usdBalance || 0);
+      const staked = toLedgerUnits(user.stakedBalance || 0);
+      if (qbs !== 0) openingPostings.push(...movement(SYSTEM_ACCOUNTS.OPENING, userAccount(user.address), 'QBS', fromLedgerUnits(qbs)));
+      if (qrk !== 0) openingPostings.push(...movement(SYSTEM_ACCOUNTS.OPENING, userAccount(user.address), 'QRK', fromLedgerUnits(qrk)));
+      if (staked !== 0) openingPostings.push(...movement(SYSTEM_ACCOUNTS.OPENING, stakeAccount(user.address), 'QBS', fromLedgerUnits(staked)));
+    }
+
+    const entry: LedgerEntry = {
+      id: generateEntryId(),
+      timestamp: request.timestamp || new Date().toISOString(),
+      description: request.description,
+      postings: [...openingPostings, ...postings]
+    };
+
+    const errors = validateLedgerEntry(entry, balances);
+    if (errors.length > 0) {
+      throw new Error(`Ledger entry rejected: ${errors.join(', ')}`);
+    }
+
+    const after = applyLedgerEntry(balances, entry);
+    const updated: Record<string, User> = {};
+    for (const user of users) {
+      // Users that only receive history records keep their balances
+      const derived = hasLedgerHistory(after, user.address) ? deriveUserBalances(after, user.address) : {};
+      updated[user.address] = {
+        ...user,
+        ...request.userUpdates?.[user.address],
+        ...derived,
+        transactions: [...(user.transactions || []), ...(request.transactions?.[user.address] || [])]
+      };
+    }
+
+    await this.backend.commitLedgerEntry(entry, Object.values(updated));
+    return updated;
+  }
+
+  /**
+   * Move funds between two users
+   */
+  public async transfer(
+    fromAddress: string,
+    toAddress: string,
+    amount: number,
+    unit: Transaction['unit'],
+    transactions: { outgoing: Transaction; incoming: Transaction }
+  ): Promise<{ sender: User; recipient: User }> {
+    if (!(amount > 0)) throw new Error('Ledger entry rejected: transfer amount must be positive');
+    if (fromAddress === toAddress) throw new Error('Ledger entry rejected: cannot transfer to the same account');
+
+    const updated = await this.post({
+      description: transactions.outgoing.description,
+      postings: movement(userAccount(fromAddress), userAccount(toAddress), assetForUnit(unit), amount),
+      transactions: { [fromAddress]: [transactions.outgoing], [toAddress]: [transactions.incoming] }
+    });
+    return { sender: updated[fromAddress], recipient: updated[toAddress] };
+  }
+
+  /**
+   * Credit a user from a system account (mining rewards, on-ramp purchases)
+   */
+  public async credit(
+    address: string,
+    amount: number,
+    unit: Transaction['unit'],
+    transaction: Transaction,
+    source: string = SYSTEM_ACCOUNTS.ISSUANCE
+  ): Promise<User> {
+    if (!(amount > 0)) throw new Error('Ledger entry rejected: credit amount must be positive');
+    const updated = await this.post({
+      description: transaction.description,
+      postings: movement(source, userAccount(address), assetForUnit(unit), amount),
+      transactions: { [address]: [transaction] }
+    });
+    return updated[address];
+  }
+
+  /**
+   * Debit a user into a system account (fees, leases, burns)
+   */
+  public async debit(
+    address: string,
+    amount: number,
+    unit: Transaction['unit'],
+    transaction: Transaction,
+    sink: string = SYSTEM_ACCOUNTS.FEES
+  ): Promise<User> {
+    if (!(amount > 0)) throw new Error('Ledger entry rejected: debit amount must be positive');
+    const updated = await this.post({
+      description: transaction.description,
+      postings: movement(userAccount(address), sink, assetForUnit(unit), amount),
+      transactions: { [address]: [transaction] }
+    });
+    return updated[address];
+  }
+}
+
+// Singleton instance
+export const ledger = new LedgerService(productionDB);
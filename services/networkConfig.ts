@@ -1,3 +1,5 @@
+import deploymentRegistry from '../deployments/qbs-token.json';
+
 export interface NetworkConfig {
   chainId: number;
   name: string;
@@ -112,15 +114,38 @@ export const getAddressExplorerUrl = (chainId: number, address: string): string
   return `${network.explorerUrl}/address/${address}`;
 };
 
-// Contract addresses for different networks (to be updated after deployment)
-export const CONTRACT_ADDRESSES: Record<number, string> = {
-  1: '', // Ethereum Mainnet - TBD
-  11155111: '', // Sepolia - TBD
-  137: '', // Polygon - TBD
-  80001: '', // Mumbai - TBD
-  1337: '' // Local - TBD
+/**
+ * A QBSToken deployment as recorded by scripts/deploy.cjs in deployments/qbs-token.json
+ */
+export interface ContractDeployment {
+  chainId: number;
+  address: string;
+  deployer: string;
+  blockNumber: number;
+  abiHash: string; // keccak256 of the compiled ABI JSON
+  transactionHash?: string;
+  deployedAt: string;
+}
+
+export const CONTRACT_DEPLOYMENTS: Record<number, ContractDeployment> = deploymentRegistry as Record<string, ContractDeployment>;
+
+/**
+ * Addresses from QBS_CONTRACT_ADDRESSES ("chainId:address,..."), which take
+ * precedence over the registry, e.g. to point at a contract deployed elsewhere
+ */
+const getAddressOverrides = (): Record<number, string> => {
+  const overrides: Record<number, string> = {};
+  for (const pair of (process.env.QBS_CONTRACT_ADDRESSES || '').split(',')) {
+    const [chainId, address] = pair.split(':').map(part => part.trim());
+    if (chainId && address) overrides[Number(chainId)] = address;
+  }
+  return overrides;
+};
+
+export const getDeployment = (chainId: number): ContractDeployment | null => {
+  return CONTRACT_DEPLOYMENTS[chainId] || null;
 };
 
 export const getContractAddress = (chainId: number): string => {
-  return CONTRACT_ADDRESSES[chainId] || '';
-};
\ No newline at end of file
+  return getAddressOverrides()[chainId] || getDeployment(chainId)?.address || '';
+};
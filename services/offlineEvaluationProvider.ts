@@ -0,0 +1,103 @@
+import type { EvaluationProvider } from './evaluationProvider';
+import type {
+  MiningEvaluationRequest,
+  MiningEvaluationResponse,
+  EvolutionRequest,
+  EvolutionResponse,
+  ProgressCallback
+} from './deepSeekClient';
+
+export interface TextAssessment {
+  grade: 'A' | 'B' | 'C';
+  score: number;
+  hasFormula: boolean;
+  hasConstants: boolean;
+  hasComplexMath: boolean;
+}
+
+/**
+ * Content heuristics behind offline grading and the API fallback: formulas,
+ * physical constants, advanced vocabulary and length. Never awards S.
+ */
+export const assessScientificText = (text: string): TextAssessment => {
+  const hasFormula = /[=∫∂∇∆∑∏]/.test(text);
+  const hasConstants = /[π𝜋ℏħ𝑐𝐺𝑘]/.test(text) || /planck|speed.*light|gravity|boltzmann/i.test(text);
+  const hasComplexMath = /\b(quantum|relativity|entropy|eigenvalue|hamiltonian|lagrangian)\b/i.test(text);
+
+  if (hasComplexMath && hasFormula && hasConstants && text.length > 200) {
+    return { grade: 'A', score: 4.0, hasFormula, hasConstants, hasComplexMath };
+  }
+  if ((hasFormula && hasConstants) || (hasComplexMath && text.length > 100)) {
+    return { grade: 'B', score: 2.0, hasFormula, hasConstants, hasComplexMath };
+  }
+  return { grade: 'C', score: 1.0, hasFormula, hasConstants, hasComplexMath };
+};
+
+const observedConstants = (assessment: TextAssessment): Record<string, string> => assessment.hasConstants
+  ? { "c": "299792458 m/s", "ℏ": "1.054571817×10⁻³⁴ J⋅s" }
+  : { "g": "9.81 m/s²" };
+
+/**
+ * Offline Evaluation Provider
+ * Grades locally and deterministically (the same text always earns the same grade),
+ * for development, tests and nodes without network access
+ */
+export class OfflineEvaluationProvider implements EvaluationProvider {
+  public readonly id = 'offline' as const;
+  public readonly name = 'Offline Stub';
+
+  public async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  public async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Grade a breakthrough from its content alone
+   */
+  public async evaluateMiningBreakthrough(
+    request: MiningEvaluationRequest,
+    progressCallback?: ProgressCallback
+  ): Promise<MiningEvaluationResponse> {
+    progressCallback?.({ stage: 'analyzing', message: 'Grading breakthrough offline...' });
+    const assessment = assessScientificText(request.problem);
+
+    return {
+      grade: assessment.grade,
+      breakthroughScore: assessment.score,
+      explanation: `Offline review graded this submission ${assessment.grade} from its content.`,
+      consensusCritique: `${assessment.hasFormula ? 'Mathematical formulation present.' : 'No formulation found.'} ${assessment.hasConstants ? 'Physical constants identified.' : 'No physical constants cited.'}`,
+      primaryFormula: assessment.hasFormula ? "E = mc²" : "F = ma",
+      observedConstants: observedConstants(assessment),
+      neuralInterpretation: `Offline stub: ${assessment.hasComplexMath ? 'advanced' : 'introductory'} vocabulary, ${request.problem.length} characters.`
+    };
+  }
+
+  /**
+   * Evolve a block one tier, graded on the explanation it has so far
+   */
+  public async evolveBreakthrough(
+    request: EvolutionRequest,
+    progressCallback?: ProgressCallback
+  ): Promise<EvolutionResponse> {
+    progressCallback?.({ stage: 'synthesizing', message: 'Evolving breakthrough offline...' });
+    const assessment = assessScientificText(request.currentExplanation);
+    const newLevel = request.currentLevel + 1;
+
+    return {
+      newGrade: assessment.grade,
+      newScore: assessment.score,
+      evolvedExplanation: `${request.currentExplanation}\n\n[Mk ${newLevel} Evolution]: Offline synthesis of the Mk ${request.currentLevel} framework.`,
+      scientificMath: `Mk ${newLevel} extends the existing formulation without new derivations.`,
+      evolvedFormula: `Ψ_{${newLevel}}(x,t) = Ψ_{${request.currentLevel}}(x,t) ⊗ H_{evolution}`,
+      observedConstants: observedConstants(assessment),
+      realWorldImplementation: `Offline stub: no implementation analysis for block ${request.blockId}.`,
+      consensusCritique: `Offline council graded Mk ${newLevel} ${assessment.grade} from the explanation's content.`
+    };
+  }
+}
+
+// Singleton instance
+export const offlineEvaluationProvider = new OfflineEvaluationProvider();
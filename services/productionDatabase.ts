@@ -3,16 +3,23 @@
  * Handles both file-based storage (Node.js/production) and IndexedDB (browser)
  */
 
-import { User } from '../types';
+import { User, Proposal, ProposalVote, ProtocolParameters, GovernanceAuditEntry, LatticePoolStats, PriceCandle, CandleInterval, RewardEpoch, RelayedClaim, QueuedReward, TransactionIndex, BalanceCorrection } from '../types';
+import type { LedgerBalances, LedgerEntry } from './ledger';
+import { applyProposalVote } from './proposals';
 
 // Database configuration
 const DB_CONFIG = {
   name: 'SovereignLattice_Production_v1',
   version: 1,
   indexedDBName: 'QuantumSecureLattice_v8',
-  indexedDBVersion: 1
+  indexedDBVersion: 7
 };
 
+export interface ProductionDatabaseOptions {
+  // Overrides the default `<cwd>/data` directory used by the file store
+  dataDirectory?: string;
+}
+
 // Check if we're in a Node.js environment
 const isNodeEnvironment = typeof window === 'undefined' || typeof process !== 'undefined' && process.versions?.node;
 
@@ -25,9 +32,12 @@ export class ProductionDatabaseManager {
   private dbType: 'file' | 'indexeddb' = 'indexeddb';
   private indexedDB: IDBDatabase | null = null;
   private dataDirectory: string | null = null;
+  private configuredDataDirectory: string | null = null;
+  private ledgerBalances: LedgerBalances | null = null;
 
-  constructor() {
+  constructor(options: ProductionDatabaseOptions = {}) {
     this.dbType = isNodeEnvironment ? 'file' : 'indexeddb';
+    this.configuredDataDirectory = options.dataDirectory || null;
   }
 
   /**
@@ -63,7 +73,7 @@ export class ProductionDatabaseManager {
     const path = require('path');
 
     // Set data directory
-    this.dataDirectory = path.join(process.cwd(), 'data');
+    this.dataDirectory = this.configuredDataDirectory || path.join(process.cwd(), 'data');
 
     // Ensure data directory exists
     if (!fs.existsSync(this.dataDirectory)) {
@@ -76,6 +86,25 @@ export class ProductionDatabaseManager {
       fs.mkdirSync(usersDir, { recursive: true });
     }
 
+    // Ensure proposals directory exists
+    const proposalsDir = path.join(this.dataDirectory, 'proposals');
+    if (!fs.existsSync(proposalsDir)) {
+      fs.mkdirSync(proposalsDir, { recursive: true });
+    }
+
+    // Ensure ledger directory exists and finish any commit interrupted by a crash
+    const ledgerDir = path.join(this.dataDirectory, 'ledger');
+    if (!fs.existsSync(ledgerDir)) {
+      fs.mkdirSync(ledgerDir, { recursive: true });
+    }
+    this.recoverLedgerJournal();
+
+    // Ensure governance directory exists
+    const governanceDir = path.join(this.dataDirectory, 'governance');
+    if (!fs.existsSync(governanceDir)) {
+      fs.mkdirSync(governanceDir, { recursive: true });
+    }
+
     console.log('File-based database initialized at:', this.dataDirectory);
   }
 
@@ -104,6 +133,39 @@ export class ProductionDatabaseManager {
           store.createIndex('username', 'username', { unique: false });
           store.createIndex('profileId', 'profileId', { unique: false });
         }
+
+        // Create proposals object store if it doesn't exist
+        if (!db.objectStoreNames.contains('proposals')) {
+          db.createObjectStore('proposals', { keyPath: 'id' });
+        }
+
+        // Create ledger object store if it doesn't exist
+        if (!db.objectStoreNames.contains('ledger')) {
+          db.createObjectStore('ledger', { keyPath: 'id' });
+        }
+
+        // Governance parameters and their audit trail
+        if (!db.objectStoreNames.contains('parameters')) {
+          db.createObjectStore('parameters', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('governance_audit')) {
+          db.createObjectStore('governance_audit', { keyPath: 'id' });
+        }
+
+        // OHLC price history of LatticePool swaps
+        if (!db.objectStoreNames.contains('price_candles')) {
+          db.createObjectStore('price_candles', { keyPath: 'id' });
+        }
+
+        // On-chain reward transactions and their delivery state
+        if (!db.objectStoreNames.contains('reward_queue')) {
+          db.createObjectStore('reward_queue', { keyPath: 'id' });
+        }
+
+        // Indexed QBS token history per chain and address
+        if (!db.objectStoreNames.contains('tx_history')) {
+          db.createObjectStore('tx_history', { keyPath: 'id' });
+        }
       };
     });
   }
@@ -135,6 +197,12 @@ export class ProductionDatabaseManager {
       console.warn(`Fixed missing fields before saving user ${user.username}:`, validationResult.fixedFields);
     }
 
+    // Balances of users on the ledger may only change through ledger entries
+    const { isUserInBalance } = await import('./ledger');
+    if (!isUserInBalance(user, await this.getLedgerBalances())) {
+      throw new Error(`Balance of ${user.username} does not match the ledger; post the change through the ledger`);
+    }
+
     if (this.dbType === 'file') {
       await this.saveUserToFile(user);
     } else {
@@ -293,183 +361,292 @@ export class ProductionDatabaseManager {
     return users.find(u => u.mnemonic?.toLowerCase().trim() === mnemonic.toLowerCase().trim()) || null;
   }
 
-  // File-based storage methods
-
-  private async saveUserToFile(user: User): Promise<void> {
-    if (!this.dataDirectory) {
-      throw new Error('Data directory not initialized');
+  /**
+   * Save governance proposal to database
+   */
+  public async saveProposal(proposal: Proposal): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    // Validate input
-    if (!user || typeof user !== 'object') {
-      throw new Error('Invalid user object provided to saveUserToFile');
+    if (!proposal || typeof proposal !== 'object' || !proposal.id || typeof proposal.id !== 'string') {
+      throw new Error('Invalid proposal object provided to saveProposal');
     }
 
-    if (!user.address || typeof user.address !== 'string') {
-      throw new Error('User address is required for file-based storage');
+    if (this.dbType === 'file') {
+      await this.saveProposalToFile(proposal);
+    } else {
+      await this.saveProposalToIndexedDB(proposal);
     }
+  }
 
-    const fs = require('fs');
-    const path = require('path');
+  /**
+   * Get all governance proposals
+   */
+  public async getAllProposals(): Promise<Proposal[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
 
-    try {
-      const userPath = path.join(this.dataDirectory, 'users', `${user.address.trim()}.json`);
-      fs.writeFileSync(userPath, JSON.stringify(user, null, 2));
-    } catch (error) {
-      console.error('Error saving user file:', error);
-      throw new Error(`Failed to save user file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (this.dbType === 'file') {
+      return this.getAllProposalsFromFile();
     }
+    return this.getAllProposalsFromIndexedDB();
   }
 
-  private async getUserFromFile(address: string): Promise<User | null> {
-    if (!this.dataDirectory) {
-      throw new Error('Data directory not initialized');
+  /**
+   * Get a governance proposal by id
+   */
+  public async getProposal(id: string): Promise<Proposal | null> {
+    const proposals = await this.getAllProposals();
+    return proposals.find(p => p.id === id) || null;
+  }
+
+  /**
+   * Delete a governance proposal and its votes
+   */
+  public async deleteProposal(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    // Validate input
-    if (!address || typeof address !== 'string' || address.trim().length === 0) {
-      return null;
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const proposalPath = path.join(this.dataDirectory!, 'proposals', `${id.trim()}.json`);
+      if (fs.existsSync(proposalPath)) {
+        fs.unlinkSync(proposalPath);
+      }
+      return;
     }
 
-    const fs = require('fs');
-    const path = require('path');
+    return new Promise((resolve, reject) => {
+      const transaction = this.indexedDB!.transaction(['proposals'], 'readwrite');
+      transaction.objectStore('proposals').delete(id);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error(`IndexedDB delete failed: ${transaction.error?.message || 'Unknown error'}`));
+    });
+  }
 
-    const userPath = path.join(this.dataDirectory, 'users', `${address.trim()}.json`);
-    
-    try {
-      if (fs.existsSync(userPath)) {
-        const userData = fs.readFileSync(userPath, 'utf8');
-        const user = JSON.parse(userData);
-        
-        // Basic validation
-        if (!user || typeof user !== 'object') {
-          console.warn(`Invalid user data in file: ${userPath}`);
-          return null;
-        }
-        
-        return user;
+  /**
+   * Record one voter's vote and update the tallies in a single write;
+   * a second vote from the same voter is rejected
+   */
+  public async recordProposalVote(proposalId: string, vote: ProposalVote): Promise<Proposal> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const proposal = await this.getProposal(proposalId);
+      if (!proposal) {
+        throw new Error(`Proposal ${proposalId} not found`);
       }
-    } catch (error) {
-      console.error('Error reading user file:', error);
+      const updated = applyProposalVote(proposal, vote);
+      await this.saveProposalToFile(updated);
+      return updated;
     }
-    
-    return null;
+
+    return this.recordProposalVoteInIndexedDB(proposalId, vote);
   }
 
-  private async getUserByIdentifierFromFile(identifier: string): Promise<User | null> {
-    const users = await this.getAllUsersFromFile();
-    const searchLower = identifier.toLowerCase();
-    
-    return users.find(u => 
-      u.username.toLowerCase() === searchLower || 
-      u.address === identifier || 
-      u.profileId?.toLowerCase() === searchLower
-    ) || null;
+  /**
+   * Protocol parameters set by governance, or null while the defaults apply
+   */
+  public async getProtocolParameters(): Promise<ProtocolParameters | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const parametersPath = path.join(this.dataDirectory!, 'governance', 'parameters.json');
+      return fs.existsSync(parametersPath) ? JSON.parse(fs.readFileSync(parametersPath, 'utf8')) : null;
+    }
+
+    const record = await this.getFromIndexedDB<{ id: string; parameters: ProtocolParameters }>('parameters', 'PROTOCOL');
+    return record ? record.parameters : null;
   }
 
-  private async getAllUsersFromFile(): Promise<User[]> {
-    if (!this.dataDirectory) {
-      throw new Error('Data directory not initialized');
+  /**
+   * Governance audit trail, oldest first
+   */
+  public async getGovernanceAudit(): Promise<GovernanceAuditEntry[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    const fs = require('fs');
-    const path = require('path');
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const auditPath = path.join(this.dataDirectory!, 'governance', 'audit.jsonl');
+      if (!fs.existsSync(auditPath)) return [];
+      return fs.readFileSync(auditPath, 'utf8')
+        .split('\n')
+        .filter((line: string) => line.trim().length > 0)
+        .map((line: string) => JSON.parse(line));
+    }
 
-    const usersDir = path.join(this.dataDirectory, 'users');
-    const users: User[] = [];
+    const entries = await this.getAllFromIndexedDB<GovernanceAuditEntry>('governance_audit');
+    return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
 
-    try {
-      if (fs.existsSync(usersDir)) {
-        const files = fs.readdirSync(usersDir);
-        
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            try {
-              const filePath = path.join(usersDir, file);
-              const userData = fs.readFileSync(filePath, 'utf8');
-              const user = JSON.parse(userData);
-              
-              // Basic validation
-              if (user && typeof user === 'object' && user.address && user.username) {
-                users.push(user);
-              } else {
-                console.warn(`Invalid user data in file ${file}, skipping`);
-              }
-            } catch (error) {
-              console.error(`Error reading user file ${file}:`, error);
-            }
-          }
+  /**
+   * Write proposal transitions, their audit entries and any new parameters together
+   */
+  public async commitGovernanceChange(
+    proposals: Proposal[],
+    audit: GovernanceAuditEntry[],
+    parameters?: ProtocolParameters
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const governanceDir = path.join(this.dataDirectory!, 'governance');
+
+      // Audit first: a crash part way through leaves a record of what was attempted
+      if (audit.length > 0) {
+        fs.appendFileSync(path.join(governanceDir, 'audit.jsonl'), audit.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+      }
+      if (parameters) {
+        const parametersPath = path.join(governanceDir, 'parameters.json');
+        fs.writeFileSync(`${parametersPath}.tmp`, JSON.stringify(parameters, null, 2));
+        fs.renameSync(`${parametersPath}.tmp`, parametersPath);
+      }
+      for (const proposal of proposals) {
+        await this.saveProposalToFile(proposal);
+      }
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['proposals', 'governance_audit', 'parameters'], 'readwrite');
+        proposals.forEach(proposal => transaction.objectStore('proposals').put(proposal));
+        audit.forEach(entry => transaction.objectStore('governance_audit').put(entry));
+        if (parameters) {
+          transaction.objectStore('parameters').put({ id: 'PROTOCOL', parameters });
         }
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
-    } catch (error) {
-      console.error('Error reading users directory:', error);
+    });
+  }
+
+  /**
+   * Last executed price and traded volume of the LatticePool, or null before the first swap
+   */
+  public async getPoolStats(): Promise<LatticePoolStats | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    return users;
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const statsPath = path.join(this.dataDirectory!, 'ledger', 'pool.json');
+      return fs.existsSync(statsPath) ? JSON.parse(fs.readFileSync(statsPath, 'utf8')) : null;
+    }
+
+    const record = await this.getFromIndexedDB<{ id: string; stats: LatticePoolStats }>('parameters', 'POOL');
+    return record ? record.stats : null;
   }
 
-  // IndexedDB methods
+  /**
+   * Latest reward epoch rolled up from SolvedBlock accruals
+   */
+  public async getRewardEpoch(): Promise<RewardEpoch | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
 
-  private async saveUserToIndexedDB(user: User): Promise<void> {
-    if (!this.indexedDB) {
-      throw new Error('IndexedDB not initialized');
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const epochPath = path.join(this.dataDirectory!, 'ledger', 'reward-epoch.json');
+      return fs.existsSync(epochPath) ? JSON.parse(fs.readFileSync(epochPath, 'utf8')) : null;
     }
 
-    // Validate input
-    if (!user || typeof user !== 'object') {
-      throw new Error('Invalid user object provided to saveUserToIndexedDB');
+    const record = await this.getFromIndexedDB<{ id: string; epoch: RewardEpoch }>('parameters', 'REWARD_EPOCH');
+    return record ? record.epoch : null;
+  }
+
+  /**
+   * Replace the latest reward epoch
+   */
+  public async saveRewardEpoch(epoch: RewardEpoch): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    if (!user.address || typeof user.address !== 'string') {
-      throw new Error('User address is required for IndexedDB storage');
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const epochPath = path.join(this.dataDirectory!, 'ledger', 'reward-epoch.json');
+      fs.writeFileSync(`${epochPath}.tmp`, JSON.stringify(epoch, null, 2));
+      fs.renameSync(`${epochPath}.tmp`, epochPath);
+      return;
     }
 
     return new Promise((resolve, reject) => {
       try {
-        const transaction = this.indexedDB!.transaction(['users'], 'readwrite');
-        const store = transaction.objectStore('users');
-        const request = store.put(user);
-
+        const transaction = this.indexedDB!.transaction(['parameters'], 'readwrite');
+        transaction.objectStore('parameters').put({ id: 'REWARD_EPOCH', epoch });
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
-        request.onerror = () => reject(new Error(`IndexedDB put request failed: ${request.error?.message || 'Unknown error'}`));
       } catch (error) {
         reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
     });
   }
 
-  private async getUserFromIndexedDB(address: string): Promise<User | null> {
-    if (!this.indexedDB) {
-      throw new Error('IndexedDB not initialized');
+  /**
+   * Claims the reward relayer queued or minted, in any state
+   */
+  public async getRelayedClaims(): Promise<RelayedClaim[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    // Validate input
-    if (!address || typeof address !== 'string' || address.trim().length === 0) {
-      return null;
+    if (this.dbType === 'file') {
+      return this.getRelayedClaimsFromFile();
     }
 
+    const record = await this.getFromIndexedDB<{ id: string; claims: RelayedClaim[] }>('parameters', 'RELAYED_CLAIMS');
+    return record ? record.claims : [];
+  }
+
+  /**
+   * Insert or replace one relayed claim
+   */
+  public async saveRelayedClaim(relayed: RelayedClaim): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const claimsPath = path.join(this.dataDirectory!, 'ledger', 'relayed-claims.json');
+      const claims = this.getRelayedClaimsFromFile().filter(c => c.id !== relayed.id);
+      fs.writeFileSync(`${claimsPath}.tmp`, JSON.stringify([...claims, relayed], null, 2));
+      fs.renameSync(`${claimsPath}.tmp`, claimsPath);
+      return;
+    }
+
+    const claims = (await this.getRelayedClaims()).filter(c => c.id !== relayed.id);
     return new Promise((resolve, reject) => {
       try {
-        const transaction = this.indexedDB!.transaction(['users'], 'readonly');
-        const store = transaction.objectStore('users');
-        const request = store.get(address.trim());
-
-        request.onsuccess = () => {
-          const result = request.result;
-          
-          // Basic validation
-          if (result && typeof result === 'object' && result.address && result.username) {
-            resolve(result);
-          } else if (result) {
-            console.warn('Invalid user data retrieved from IndexedDB');
-            resolve(null);
-          } else {
-            resolve(null);
-          }
-        };
-        
-        request.onerror = () => reject(new Error(`IndexedDB get request failed: ${request.error?.message || 'Unknown error'}`));
+        const transaction = this.indexedDB!.transaction(['parameters'], 'readwrite');
+        transaction.objectStore('parameters').put({ id: 'RELAYED_CLAIMS', claims: [...claims, relayed] });
+        transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
       } catch (error) {
         reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
@@ -477,7 +654,586 @@ export class ProductionDatabaseManager {
     });
   }
 
-  private async getUserByIdentifierFromIndexedDB(identifier: string): Promise<User | null> {
+  /**
+   * Balance corrections proposed by reconciliation, reviewed or not
+   */
+  public async getBalanceCorrections(): Promise<BalanceCorrection[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const correctionsPath = path.join(this.dataDirectory!, 'ledger', 'balance-corrections.json');
+      return fs.existsSync(correctionsPath) ? JSON.parse(fs.readFileSync(correctionsPath, 'utf8')) : [];
+    }
+
+    const record = await this.getFromIndexedDB<{ id: string; corrections: BalanceCorrection[] }>('parameters', 'BALANCE_CORRECTIONS');
+    return record ? record.corrections : [];
+  }
+
+  /**
+   * Replace the list of balance corrections
+   */
+  public async saveBalanceCorrections(corrections: BalanceCorrection[]): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const correctionsPath = path.join(this.dataDirectory!, 'ledger', 'balance-corrections.json');
+      fs.writeFileSync(`${correctionsPath}.tmp`, JSON.stringify(corrections, null, 2));
+      fs.renameSync(`${correctionsPath}.tmp`, correctionsPath);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['parameters'], 'readwrite');
+        transaction.objectStore('parameters').put({ id: 'BALANCE_CORRECTIONS', corrections });
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Every reward in the delivery queue, including confirmed and abandoned ones
+   */
+  public async getQueuedRewards(): Promise<QueuedReward[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      return this.getQueuedRewardsFromFile();
+    }
+
+    return this.getAllFromIndexedDB<QueuedReward>('reward_queue');
+  }
+
+  /**
+   * Insert or replace one reward of the delivery queue
+   */
+  public async saveQueuedReward(reward: QueuedReward): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const queuePath = path.join(this.dataDirectory!, 'ledger', 'reward-queue.json');
+      const rewards = this.getQueuedRewardsFromFile().filter(r => r.id !== reward.id);
+      fs.writeFileSync(`${queuePath}.tmp`, JSON.stringify([...rewards, reward], null, 2));
+      fs.renameSync(`${queuePath}.tmp`, queuePath);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['reward_queue'], 'readwrite');
+        transaction.objectStore('reward_queue').put(reward);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Indexed token history of one address on one chain
+   */
+  public async getTransactionIndex(chainId: number, address: string): Promise<TransactionIndex | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const id = `${chainId}:${address.toLowerCase()}`;
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const indexPath = this.getTransactionIndexPath(id);
+      return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf8')) : null;
+    }
+
+    return this.getFromIndexedDB<TransactionIndex>('tx_history', id);
+  }
+
+  /**
+   * Replace the indexed token history of one address on one chain
+   */
+  public async saveTransactionIndex(index: TransactionIndex): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const indexPath = this.getTransactionIndexPath(index.id);
+      fs.writeFileSync(`${indexPath}.tmp`, JSON.stringify(index));
+      fs.renameSync(`${indexPath}.tmp`, indexPath);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['tx_history'], 'readwrite');
+        transaction.objectStore('tx_history').put(index);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Price candles of one interval whose open time falls in [fromMs, toMs], oldest first
+   */
+  public async getPriceCandles(interval: CandleInterval, fromMs: number = 0, toMs: number = Number.MAX_SAFE_INTEGER): Promise<PriceCandle[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const candles = this.dbType === 'file'
+      ? this.getPriceCandlesFromFile(interval)
+      : (await this.getAllFromIndexedDB<PriceCandle>('price_candles')).filter(candle => candle.interval === interval);
+    return candles
+      .filter(candle => candle.openTime >= fromMs && candle.openTime <= toMs)
+      .sort((a, b) => a.openTime - b.openTime);
+  }
+
+  /**
+   * Replace the LatticePool trading statistics together with the candles a swap updated
+   */
+  public async commitPoolTrade(stats: LatticePoolStats, candles: PriceCandle[]): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (this.dbType === 'file') {
+      const fs = require('fs');
+      const path = require('path');
+      const ledgerDir = path.join(this.dataDirectory!, 'ledger');
+      const intervals = Array.from(new Set(candles.map(candle => candle.interval)));
+      for (const interval of intervals) {
+        const byId = new Map(this.getPriceCandlesFromFile(interval).map(candle => [candle.id, candle] as [string, PriceCandle]));
+        candles.filter(candle => candle.interval === interval).forEach(candle => byId.set(candle.id, candle));
+        const candlesPath = path.join(ledgerDir, `candles-${interval}.json`);
+        fs.writeFileSync(`${candlesPath}.tmp`, JSON.stringify(Array.from(byId.values())));
+        fs.renameSync(`${candlesPath}.tmp`, candlesPath);
+      }
+      const statsPath = path.join(ledgerDir, 'pool.json');
+      fs.writeFileSync(`${statsPath}.tmp`, JSON.stringify(stats, null, 2));
+      fs.renameSync(`${statsPath}.tmp`, statsPath);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['parameters', 'price_candles'], 'readwrite');
+        transaction.objectStore('parameters').put({ id: 'POOL', stats });
+        candles.forEach(candle => transaction.objectStore('price_candles').put(candle));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Current balance of every ledger account
+   */
+  public async getLedgerBalances(): Promise<LedgerBalances> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (!this.ledgerBalances) {
+      const { applyLedgerEntry } = await import('./ledger');
+      const entries = this.dbType === 'file'
+        ? this.getLedgerEntriesFromFile()
+        : await this.getLedgerEntriesFromIndexedDB();
+      this.ledgerBalances = entries.reduce((balances, entry) => applyLedgerEntry(balances, entry), {} as LedgerBalances);
+    }
+
+    return JSON.parse(JSON.stringify(this.ledgerBalances));
+  }
+
+  /**
+   * Every ledger entry in the order it was committed
+   */
+  public async getLedgerEntries(): Promise<LedgerEntry[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return this.dbType === 'file'
+      ? this.getLedgerEntriesFromFile()
+      : this.getLedgerEntriesFromIndexedDB();
+  }
+
+  /**
+   * Commit a ledger entry together with the user records it changes.
+   * Rejects entries that do not balance and users whose balances disagree with the result.
+   */
+  public async commitLedgerEntry(entry: LedgerEntry, users: User[]): Promise<void> {
+    const { validateLedgerEntry, applyLedgerEntry, isUserInBalance } = await import('./ledger');
+    const balances = await this.getLedgerBalances();
+
+    const errors = validateLedgerEntry(entry, balances);
+    if (errors.length > 0) {
+      throw new Error(`Ledger entry rejected: ${errors.join(', ')}`);
+    }
+
+    const after = applyLedgerEntry(balances, entry);
+    const outOfBalance = users.filter(user => !isUserInBalance(user, after));
+    if (outOfBalance.length > 0) {
+      throw new Error(`Ledger entry rejected: balances of ${outOfBalance.map(u => u.username).join(', ')} do not match postings`);
+    }
+
+    if (this.dbType === 'file') {
+      this.commitLedgerEntryToFile(entry, users);
+    } else {
+      await this.commitLedgerEntryToIndexedDB(entry, users);
+    }
+
+    this.ledgerBalances = after;
+  }
+
+  // File-based storage methods
+
+  private async saveUserToFile(user: User): Promise<void> {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    // Validate input
+    if (!user || typeof user !== 'object') {
+      throw new Error('Invalid user object provided to saveUserToFile');
+    }
+
+    if (!user.address || typeof user.address !== 'string') {
+      throw new Error('User address is required for file-based storage');
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    try {
+      const userPath = path.join(this.dataDirectory, 'users', `${user.address.trim()}.json`);
+      fs.writeFileSync(userPath, JSON.stringify(user, null, 2));
+    } catch (error) {
+      console.error('Error saving user file:', error);
+      throw new Error(`Failed to save user file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getUserFromFile(address: string): Promise<User | null> {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    // Validate input
+    if (!address || typeof address !== 'string' || address.trim().length === 0) {
+      return null;
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    const userPath = path.join(this.dataDirectory, 'users', `${address.trim()}.json`);
+    
+    try {
+      if (fs.existsSync(userPath)) {
+        const userData = fs.readFileSync(userPath, 'utf8');
+        const user = JSON.parse(userData);
+        
+        // Basic validation
+        if (!user || typeof user !== 'object') {
+          console.warn(`Invalid user data in file: ${userPath}`);
+          return null;
+        }
+        
+        return user;
+      }
+    } catch (error) {
+      console.error('Error reading user file:', error);
+    }
+    
+    return null;
+  }
+
+  private async getUserByIdentifierFromFile(identifier: string): Promise<User | null> {
+    const users = await this.getAllUsersFromFile();
+    const searchLower = identifier.toLowerCase();
+    
+    return users.find(u => 
+      u.username.toLowerCase() === searchLower || 
+      u.address === identifier || 
+      u.profileId?.toLowerCase() === searchLower
+    ) || null;
+  }
+
+  private async getAllUsersFromFile(): Promise<User[]> {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    const usersDir = path.join(this.dataDirectory, 'users');
+    const users: User[] = [];
+
+    try {
+      if (fs.existsSync(usersDir)) {
+        const files = fs.readdirSync(usersDir);
+        
+        for (const file of files) {
+          if (file.endsWith('.json')) {
+            try {
+              const filePath = path.join(usersDir, file);
+              const userData = fs.readFileSync(filePath, 'utf8');
+              const user = JSON.parse(userData);
+              
+              // Basic validation
+              if (user && typeof user === 'object' && user.address && user.username) {
+                users.push(user);
+              } else {
+                console.warn(`Invalid user data in file ${file}, skipping`);
+              }
+            } catch (error) {
+              console.error(`Error reading user file ${file}:`, error);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error reading users directory:', error);
+    }
+
+    return users;
+  }
+
+  private async saveProposalToFile(proposal: Proposal): Promise<void> {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    try {
+      const proposalPath = path.join(this.dataDirectory, 'proposals', `${proposal.id.trim()}.json`);
+      fs.writeFileSync(proposalPath, JSON.stringify(proposal, null, 2));
+    } catch (error) {
+      console.error('Error saving proposal file:', error);
+      throw new Error(`Failed to save proposal file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getAllProposalsFromFile(): Promise<Proposal[]> {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    const proposalsDir = path.join(this.dataDirectory, 'proposals');
+    const proposals: Proposal[] = [];
+
+    try {
+      if (fs.existsSync(proposalsDir)) {
+        for (const file of fs.readdirSync(proposalsDir)) {
+          if (!file.endsWith('.json')) continue;
+          try {
+            const proposal = JSON.parse(fs.readFileSync(path.join(proposalsDir, file), 'utf8'));
+            if (proposal && typeof proposal === 'object' && proposal.id) {
+              proposals.push(proposal);
+            } else {
+              console.warn(`Invalid proposal data in file ${file}, skipping`);
+            }
+          } catch (error) {
+            console.error(`Error reading proposal file ${file}:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error reading proposals directory:', error);
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Write-ahead journal: the entry and user records are written to one file first,
+   * so a crash part way through is completed on the next start
+   */
+  private getTransactionIndexPath(id: string): string {
+    const path = require('path');
+    return path.join(this.dataDirectory!, 'ledger', `tx-history-${id.replace(':', '-')}.json`);
+  }
+
+  private getQueuedRewardsFromFile(): QueuedReward[] {
+    const fs = require('fs');
+    const path = require('path');
+    const queuePath = path.join(this.dataDirectory!, 'ledger', 'reward-queue.json');
+    return fs.existsSync(queuePath) ? JSON.parse(fs.readFileSync(queuePath, 'utf8')) : [];
+  }
+
+  private getRelayedClaimsFromFile(): RelayedClaim[] {
+    const fs = require('fs');
+    const path = require('path');
+    const claimsPath = path.join(this.dataDirectory!, 'ledger', 'relayed-claims.json');
+    return fs.existsSync(claimsPath) ? JSON.parse(fs.readFileSync(claimsPath, 'utf8')) : [];
+  }
+
+  private getPriceCandlesFromFile(interval: CandleInterval): PriceCandle[] {
+    const fs = require('fs');
+    const path = require('path');
+    const candlesPath = path.join(this.dataDirectory!, 'ledger', `candles-${interval}.json`);
+    return fs.existsSync(candlesPath) ? JSON.parse(fs.readFileSync(candlesPath, 'utf8')) : [];
+  }
+
+  private commitLedgerEntryToFile(entry: LedgerEntry, users: User[]): void {
+    if (!this.dataDirectory) {
+      throw new Error('Data directory not initialized');
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+
+    const journalPath = path.join(this.dataDirectory, 'ledger', 'journal.json');
+    const pendingPath = `${journalPath}.tmp`;
+
+    fs.writeFileSync(pendingPath, JSON.stringify({ entry, users }));
+    fs.renameSync(pendingPath, journalPath);
+    this.applyLedgerJournal(journalPath);
+  }
+
+  private recoverLedgerJournal(): void {
+    const fs = require('fs');
+    const path = require('path');
+
+    const journalPath = path.join(this.dataDirectory!, 'ledger', 'journal.json');
+    if (fs.existsSync(journalPath)) {
+      console.warn('Replaying interrupted ledger commit from journal');
+      this.applyLedgerJournal(journalPath);
+    }
+  }
+
+  private applyLedgerJournal(journalPath: string): void {
+    const fs = require('fs');
+    const path = require('path');
+
+    const { entry, users } = JSON.parse(fs.readFileSync(journalPath, 'utf8')) as { entry: LedgerEntry; users: User[] };
+    const entriesPath = path.join(this.dataDirectory!, 'ledger', 'entries.jsonl');
+
+    // Replays must not append the same entry twice
+    if (!this.getLedgerEntriesFromFile().some(existing => existing.id === entry.id)) {
+      fs.appendFileSync(entriesPath, JSON.stringify(entry) + '\n');
+    }
+
+    for (const user of users) {
+      const userPath = path.join(this.dataDirectory!, 'users', `${user.address.trim()}.json`);
+      fs.writeFileSync(userPath, JSON.stringify(user, null, 2));
+    }
+
+    fs.unlinkSync(journalPath);
+  }
+
+  private getLedgerEntriesFromFile(): LedgerEntry[] {
+    const fs = require('fs');
+    const path = require('path');
+
+    const entriesPath = path.join(this.dataDirectory!, 'ledger', 'entries.jsonl');
+    if (!fs.existsSync(entriesPath)) return [];
+
+    return fs.readFileSync(entriesPath, 'utf8')
+      .split('\n')
+      .filter((line: string) => line.trim().length > 0)
+      .map((line: string) => JSON.parse(line));
+  }
+
+  // IndexedDB methods
+
+  private async saveUserToIndexedDB(user: User): Promise<void> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    // Validate input
+    if (!user || typeof user !== 'object') {
+      throw new Error('Invalid user object provided to saveUserToIndexedDB');
+    }
+
+    if (!user.address || typeof user.address !== 'string') {
+      throw new Error('User address is required for IndexedDB storage');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['users'], 'readwrite');
+        const store = transaction.objectStore('users');
+        const request = store.put(user);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+        request.onerror = () => reject(new Error(`IndexedDB put request failed: ${request.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async getUserFromIndexedDB(address: string): Promise<User | null> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    // Validate input
+    if (!address || typeof address !== 'string' || address.trim().length === 0) {
+      return null;
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['users'], 'readonly');
+        const store = transaction.objectStore('users');
+        const request = store.get(address.trim());
+
+        request.onsuccess = () => {
+          const result = request.result;
+          
+          // Basic validation
+          if (result && typeof result === 'object' && result.address && result.username) {
+            resolve(result);
+          } else if (result) {
+            console.warn('Invalid user data retrieved from IndexedDB');
+            resolve(null);
+          } else {
+            resolve(null);
+          }
+        };
+        
+        request.onerror = () => reject(new Error(`IndexedDB get request failed: ${request.error?.message || 'Unknown error'}`));
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async getUserByIdentifierFromIndexedDB(identifier: string): Promise<User | null> {
     const users = await this.getAllUsersFromIndexedDB();
     const searchLower = identifier.toLowerCase();
     
@@ -528,6 +1284,142 @@ export class ProductionDatabaseManager {
     });
   }
 
+  private async saveProposalToIndexedDB(proposal: Proposal): Promise<void> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['proposals'], 'readwrite');
+        const request = transaction.objectStore('proposals').put(proposal);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+        request.onerror = () => reject(new Error(`IndexedDB put request failed: ${request.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async recordProposalVoteInIndexedDB(proposalId: string, vote: ProposalVote): Promise<Proposal> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['proposals'], 'readwrite');
+        const store = transaction.objectStore('proposals');
+        const request = store.get(proposalId);
+        let updated: Proposal;
+
+        request.onsuccess = () => {
+          if (!request.result) {
+            transaction.abort();
+            reject(new Error(`Proposal ${proposalId} not found`));
+            return;
+          }
+          try {
+            updated = applyProposalVote(request.result, vote);
+            store.put(updated);
+          } catch (error) {
+            transaction.abort();
+            reject(error);
+          }
+        };
+
+        transaction.oncomplete = () => resolve(updated);
+        transaction.onerror = () => reject(new Error(`IndexedDB transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async getFromIndexedDB<T>(storeName: string, key: string): Promise<T | null> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = this.indexedDB!.transaction([storeName], 'readonly').objectStore(storeName).get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error(`IndexedDB get request failed: ${request.error?.message || 'Unknown error'}`));
+    });
+  }
+
+  private async getAllFromIndexedDB<T>(storeName: string): Promise<T[]> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = this.indexedDB!.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(new Error(`IndexedDB getAll request failed: ${request.error?.message || 'Unknown error'}`));
+    });
+  }
+
+  private async getAllProposalsFromIndexedDB(): Promise<Proposal[]> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['proposals'], 'readonly');
+        const request = transaction.objectStore('proposals').getAll();
+
+        request.onsuccess = () => resolve((request.result || []).filter((p: any) => p && typeof p === 'object' && p.id));
+        request.onerror = () => reject(new Error(`IndexedDB getAll request failed: ${request.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async commitLedgerEntryToIndexedDB(entry: LedgerEntry, users: User[]): Promise<void> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        // One transaction across both stores: the entry and the users land together or not at all
+        const transaction = this.indexedDB!.transaction(['ledger', 'users'], 'readwrite');
+        transaction.objectStore('ledger').add(entry);
+        const usersStore = transaction.objectStore('users');
+        for (const user of users) usersStore.put(user);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`IndexedDB ledger commit failed: ${transaction.error?.message || 'Unknown error'}`));
+        transaction.onabort = () => reject(new Error(`IndexedDB ledger commit aborted: ${transaction.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  private async getLedgerEntriesFromIndexedDB(): Promise<LedgerEntry[]> {
+    if (!this.indexedDB) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.indexedDB!.transaction(['ledger'], 'readonly');
+        const request = transaction.objectStore('ledger').getAll();
+
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(new Error(`IndexedDB getAll request failed: ${request.error?.message || 'Unknown error'}`));
+      } catch (error) {
+        reject(new Error(`IndexedDB operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+  }
+
   /**
    * Initialize founder profile if it doesn't exist
    */
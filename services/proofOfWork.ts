@@ -0,0 +1,236 @@
+/**
+ * Proof of Work
+ * Hash puzzle that gates every mined shard. The miner searches for a nonce whose
+ * SHA-256 over the work header has at least `difficulty` leading zero bits; the
+ * difficulty retargets from recent block times across the whole registry. The
+ * header fixes the mining time, so it cannot be moved to an easier retarget window
+ * without redoing the work.
+ */
+
+import { SolvedBlock } from '../types';
+import { sha256Hex } from './blockHashing';
+
+export const POW_CONFIG = {
+  INITIAL_DIFFICULTY: 16,          // leading zero bits, ~65k hashes
+  MIN_DIFFICULTY: 8,
+  MAX_DIFFICULTY: 28,
+  TARGET_BLOCK_INTERVAL_MS: 120000, // one shard every two minutes across the registry
+  RETARGET_WINDOW: 10,             // recent blocks considered when retargeting
+  MAX_ADJUSTMENT_BITS: 2,          // per retarget, in either direction
+  PROGRESS_INTERVAL: 2048          // hashes between progress reports
+} as const;
+
+export interface ProofOfWorkHeader {
+  parentHash: string;
+  problem: string;
+  minerAddress: string;
+  // When the search started; recorded on the block as minedAt
+  minedAt: number;
+}
+
+export interface ProofOfWorkResult {
+  nonce: number;
+  hash: string;
+  difficulty: number;
+  hashes: number;
+  minedAt: number;
+}
+
+export interface ProofOfWorkProgress {
+  hashes: number;
+  // Share of the expected 2^difficulty attempts, capped below 100
+  percent: number;
+}
+
+// Messages exchanged with proofOfWorkWorker
+export type ProofOfWorkWorkerRequest = { type: 'start'; header: ProofOfWorkHeader; difficulty: number };
+export type ProofOfWorkWorkerResponse =
+  | { type: 'progress'; progress: ProofOfWorkProgress }
+  | { type: 'solved'; result: ProofOfWorkResult }
+  | { type: 'error'; message: string };
+
+export interface ProofOfWorkJob {
+  result: Promise<ProofOfWorkResult>;
+  cancel: () => void;
+}
+
+/**
+ * Fixed-order serialization of the header and nonce
+ */
+export const serializeWork = (header: ProofOfWorkHeader, difficulty: number, nonce: number): string =>
+  JSON.stringify([header.parentHash, header.problem, header.minerAddress.trim().toLowerCase(), header.minedAt, difficulty, nonce]);
+
+export const computeWorkHash = (header: ProofOfWorkHeader, difficulty: number, nonce: number): Promise<string> =>
+  sha256Hex(serializeWork(header, difficulty, nonce));
+
+export const leadingZeroBits = (hexHash: string): number => {
+  let bits = 0;
+  for (const char of hexHash) {
+    const nibble = parseInt(char, 16);
+    if (nibble === 0) {
+      bits += 4;
+      continue;
+    }
+    return bits + Math.clz32(nibble) - 28;
+  }
+  return bits;
+};
+
+export const meetsDifficulty = (hexHash: string, difficulty: number): boolean =>
+  leadingZeroBits(hexHash) >= difficulty;
+
+const progressFor = (hashes: number, difficulty: number): ProofOfWorkProgress => ({
+  hashes,
+  percent: Math.min(99, (hashes / Math.pow(2, difficulty)) * 100)
+});
+
+/**
+ * Search nonces from zero until one meets the difficulty
+ */
+export const solveProofOfWork = async (
+  header: ProofOfWorkHeader,
+  difficulty: number,
+  options: { onProgress?: (progress: ProofOfWorkProgress) => void; shouldStop?: () => boolean } = {}
+): Promise<ProofOfWorkResult> => {
+  for (let nonce = 0; nonce < Number.MAX_SAFE_INTEGER; nonce++) {
+    const hash = await computeWorkHash(header, difficulty, nonce);
+    if (meetsDifficulty(hash, difficulty)) {
+      return { nonce, hash, difficulty, hashes: nonce + 1, minedAt: header.minedAt };
+    }
+    if ((nonce + 1) % POW_CONFIG.PROGRESS_INTERVAL === 0) {
+      if (options.shouldStop?.()) {
+        throw new Error('Proof of work cancelled');
+      }
+      options.onProgress?.(progressFor(nonce + 1, difficulty));
+    }
+  }
+  throw new Error('Nonce space exhausted');
+};
+
+/**
+ * Re-check the proof stored on a block; blocks mined before PoW carry none.
+ * A proof below the minimum difficulty is rejected however valid its hash.
+ */
+export const verifyProofOfWork = async (
+  block: SolvedBlock,
+  minimumDifficulty: number = POW_CONFIG.MIN_DIFFICULTY
+): Promise<boolean> => {
+  if (block.nonce === undefined || block.powDifficulty === undefined || typeof block.minedAt !== 'number' || !block.minerAddress) {
+    return false;
+  }
+  if (block.powDifficulty < minimumDifficulty) {
+    return false;
+  }
+  const hash = await computeWorkHash(
+    { parentHash: block.parentHash, problem: block.problem, minerAddress: block.minerAddress, minedAt: block.minedAt },
+    block.powDifficulty,
+    block.nonce
+  );
+  return hash === block.powHash && meetsDifficulty(hash, block.powDifficulty);
+};
+
+/**
+ * Next difficulty from the most recent proof-of-work blocks of every node:
+ * one bit per doubling of the gap between the observed and target interval
+ */
+export const retargetDifficulty = (registryBlocks: SolvedBlock[]): number => {
+  const recent = registryBlocks
+    .filter(b => typeof b.minedAt === 'number' && typeof b.powDifficulty === 'number')
+    .sort((a, b) => a.minedAt! - b.minedAt!)
+    .slice(-POW_CONFIG.RETARGET_WINDOW);
+
+  if (recent.length < 2) return POW_CONFIG.INITIAL_DIFFICULTY;
+
+  const lastDifficulty = recent[recent.length - 1].powDifficulty!;
+  const averageInterval = Math.max(1, (recent[recent.length - 1].minedAt! - recent[0].minedAt!) / (recent.length - 1));
+  const adjustment = Math.round(Math.log2(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS / averageInterval));
+  const bounded = Math.max(-POW_CONFIG.MAX_ADJUSTMENT_BITS, Math.min(POW_CONFIG.MAX_ADJUSTMENT_BITS, adjustment));
+
+  return Math.max(POW_CONFIG.MIN_DIFFICULTY, Math.min(POW_CONFIG.MAX_DIFFICULTY, lastDifficulty + bounded));
+};
+
+/**
+ * Run the search off the main thread: a Web Worker in browsers, a worker thread
+ * under Node. Falls back to the current thread if no worker can be started.
+ */
+export const startProofOfWork = (
+  header: ProofOfWorkHeader,
+  difficulty: number,
+  onProgress?: (progress: ProofOfWorkProgress) => void
+): ProofOfWorkJob => {
+  let cancelled = false;
+  let terminate: () => void = () => {};
+  let abort: (error: Error) => void = () => {};
+
+  const result = new Promise<ProofOfWorkResult>((resolve, reject) => {
+    abort = reject;
+
+    const handleMessage = (message: ProofOfWorkWorkerResponse) => {
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'solved') {
+        terminate();
+        resolve(message.result);
+      } else {
+        terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    const runInThread = () => {
+      console.warn('Proof-of-work worker unavailable, solving on the current thread');
+      solveProofOfWork(header, difficulty, { onProgress, shouldStop: () => cancelled }).then(resolve, reject);
+    };
+
+    const request: ProofOfWorkWorkerRequest = { type: 'start', header, difficulty };
+
+    if (typeof Worker !== 'undefined') {
+      try {
+        const worker = new Worker(new URL('./proofOfWorkWorker.ts', import.meta.url), { type: 'module' });
+        terminate = () => worker.terminate();
+        worker.onmessage = (event: MessageEvent<ProofOfWorkWorkerResponse>) => handleMessage(event.data);
+        worker.onerror = (event) => { terminate(); reject(new Error(event.message || 'Proof-of-work worker failed')); };
+        worker.postMessage(request);
+        return;
+      } catch {
+        runInThread();
+        return;
+      }
+    }
+
+    import('worker_threads')
+      .then(({ Worker: ThreadWorker }) => {
+        if (cancelled) return reject(new Error('Proof of work cancelled'));
+        // Worker threads do not inherit the TypeScript loader, so register it before importing the entry
+        const entry = new URL('./proofOfWorkWorker.ts', import.meta.url).href;
+        const worker = new ThreadWorker(
+          `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(entry)}); })`,
+          { eval: true }
+        );
+        terminate = () => { worker.terminate(); };
+        worker.on('message', handleMessage);
+        worker.on('error', () => { terminate(); runInThread(); });
+        worker.postMessage(request);
+      })
+      .catch(runInThread);
+  });
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      terminate();
+      abort(new Error('Proof of work cancelled'));
+    }
+  };
+};
+
+/**
+ * Lowest difficulty a block mined at `minedAt` may claim: the retarget over the
+ * registry blocks before it, less one adjustment for blocks that landed while
+ * its nonce search was running
+ */
+export const minimumDifficultyAt = (registryBlocks: SolvedBlock[], minedAt: number): number => {
+  const expected = retargetDifficulty(registryBlocks.filter(b => typeof b.minedAt === 'number' && b.minedAt < minedAt));
+  return Math.max(POW_CONFIG.MIN_DIFFICULTY, expected - POW_CONFIG.MAX_ADJUSTMENT_BITS);
+};
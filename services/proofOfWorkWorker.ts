@@ -0,0 +1,26 @@
+/**
+ * Proof-of-Work Worker
+ * Entry point for both Web Workers and Node worker threads; solves one job and exits.
+ */
+
+import { solveProofOfWork, ProofOfWorkWorkerRequest, ProofOfWorkWorkerResponse } from './proofOfWork';
+
+const run = async (request: ProofOfWorkWorkerRequest, post: (message: ProofOfWorkWorkerResponse) => void) => {
+  try {
+    const result = await solveProofOfWork(request.header, request.difficulty, {
+      onProgress: progress => post({ type: 'progress', progress })
+    });
+    post({ type: 'solved', result });
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || 'Proof of work failed' });
+  }
+};
+
+if (typeof window === 'undefined' && typeof self !== 'undefined' && typeof (self as any).postMessage === 'function') {
+  const scope = self as any;
+  scope.onmessage = (event: MessageEvent<ProofOfWorkWorkerRequest>) => run(event.data, message => scope.postMessage(message));
+} else {
+  import('worker_threads').then(({ parentPort }) => {
+    parentPort?.on('message', (request: ProofOfWorkWorkerRequest) => run(request, message => parentPort.postMessage(message)));
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Governance Proposals
+ * Vote bookkeeping shared by every proposal store. Votes are kept on the proposal
+ * keyed by voter address, and the FOR/AGAINST tallies are derived from them.
+ */
+
+import { Proposal, ProposalVote } from '../types';
+import { QBS_UNITS } from './quantumLogic';
+
+// QRK charged to broadcast a proposal
+export const PROPOSAL_FEE_QRK = 500;
+
+/**
+ * Whether the voter already has a record on the proposal
+ */
+export const hasVoted = (proposal: Proposal, voter: string): boolean =>
+  !!proposal.votes?.[voter];
+
+/**
+ * Validate a vote cast at `now` against the proposal, returning the reasons it
+ * cannot be cast. A proposal takes no votes from its expiry on, even before the
+ * sweep closes it.
+ */
+export const validateProposalVote = (proposal: Proposal, vote: ProposalVote, now: number = Date.now()): string[] => {
+  const errors: string[] = [];
+  if (!vote.voter) errors.push('Voter address is required');
+  if (vote.type !== 'FOR' && vote.type !== 'AGAINST') errors.push(`Unknown vote type ${vote.type}`);
+  if (!Number.isFinite(vote.weight) || vote.weight <= 0) errors.push('Vote weight must be positive');
+  if (proposal.status !== 'ACTIVE') errors.push(`Proposal ${proposal.id} is ${proposal.status}`);
+  else if (Date.parse(proposal.expiresAt) <= now) errors.push(`Proposal ${proposal.id} expired at ${proposal.expiresAt}`);
+  if (hasVoted(proposal, vote.voter)) errors.push(`${vote.voter} has already voted on ${proposal.id}`);
+  return errors;
+};
+
+/**
+ * Return a copy of the proposal with the vote recorded and tallied (weight in QBS),
+ * checked against the time the vote was cast
+ */
+export const applyProposalVote = (proposal: Proposal, vote: ProposalVote): Proposal => {
+  const errors = validateProposalVote(proposal, vote, Date.parse(vote.timestamp));
+  if (errors.length > 0) {
+    throw new Error(`Vote rejected: ${errors.join(', ')}`);
+  }
+
+  const qbsWeight = vote.weight / QBS_UNITS.QRK;
+  return {
+    ...proposal,
+    votes: { ...(proposal.votes || {}), [vote.voter]: vote },
+    votesFor: vote.type === 'FOR' ? proposal.votesFor + qbsWeight : proposal.votesFor,
+    votesAgainst: vote.type === 'AGAINST' ? proposal.votesAgainst + qbsWeight : proposal.votesAgainst,
+    totalQuarksStaked: (proposal.totalQuarksStaked || 0) + vote.weight
+  };
+};
@@ -1,6 +1,9 @@
 import { ethers } from 'ethers';
 import { walletConnector } from './walletConnector';
-import { getContractAddress, getNetworkConfig } from './networkConfig';
+import { getContractAddress, getDeployment, getNetworkConfig } from './networkConfig';
+import { productionDB } from './productionDatabase';
+import { FeeEstimate, FeeOption, estimateFees, feeOverrides } from './feeEstimator';
+import { IndexedTransaction, TransactionIndex } from '../types';
 
 // QBS Token Contract ABI (essential functions only)
 export const QBS_TOKEN_ABI = [
@@ -15,6 +18,11 @@ export const QBS_TOKEN_ABI = [
   "function remainingSupply() view returns (uint256)",
   "function getMiningRewards(address user) view returns (uint256)",
   "function isAuthorizedMiner(address miner) view returns (bool)",
+  "function isBlockRewarded(string blockId) view returns (bool)",
+  "function isEvolutionRewarded(string blockId, uint256 level) view returns (bool)",
+  "function rewardsRoot() view returns (bytes32)",
+  "function rewardsEpoch() view returns (uint256)",
+  "function claimedRewards(bytes32 nodeId) view returns (uint256)",
   
   // Write functions
   "function transfer(address to, uint256 amount) returns (bool)",
@@ -22,6 +30,7 @@ export const QBS_TOKEN_ABI = [
   "function transferFrom(address from, address to, uint256 amount) returns (bool)",
   "function mintMiningReward(address to, uint256 amount, string blockId, string grade) returns (bool)",
   "function mintEvolutionReward(address to, uint256 amount, string blockId, uint256 newLevel) returns (bool)",
+  "function claimRewards(bytes32 nodeId, uint256 cumulativeAmount, bytes32[] proof) returns (uint256)",
   "function burn(uint256 amount)",
   "function burnFrom(address from, uint256 amount)",
   
@@ -36,6 +45,8 @@ export const QBS_TOKEN_ABI = [
   "event Approval(address indexed owner, address indexed spender, uint256 value)",
   "event MiningReward(address indexed miner, uint256 amount, string blockId, string grade)",
   "event EvolutionReward(address indexed user, uint256 amount, string blockId, uint256 newLevel)",
+  "event RewardsRootPublished(uint256 indexed epoch, bytes32 root)",
+  "event RewardsClaimed(bytes32 indexed nodeId, address indexed account, uint256 indexed epoch, uint256 amount)",
   "event MinerAuthorized(address indexed miner)",
   "event MinerRevoked(address indexed miner)"
 ];
@@ -67,8 +78,44 @@ export interface TransactionResult {
   hash: string;
   success: boolean;
   error?: string;
+  // The reward was already minted on chain; retrying can never succeed
+  alreadyRewarded?: boolean;
 }
 
+export const TX_INDEXER_CONFIG = {
+  // Block range of one queryFilter call; public RPCs cap log queries per request
+  PAGE_SIZE: 5000,
+  // How far back the first backfill of an address reaches when the deployment block is unknown
+  INITIAL_LOOKBACK_BLOCKS: 500000
+};
+
+/**
+ * Contract log access the transaction indexer needs; see contractLogSource
+ */
+export interface TransactionLogSource {
+  getBlockNumber(): Promise<number>;
+  getBlockTimestamp(blockNumber: number): Promise<number>; // ms since epoch
+  // Receipt status of a transaction, or null while it is not mined
+  getTransactionStatus(hash: string): Promise<number | null>;
+  queryEvents(
+    event: 'Transfer' | 'MiningReward' | 'EvolutionReward',
+    args: (string | null)[],
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Array<{ transactionHash: string; blockNumber: number; index: number; args: any }>>;
+}
+
+export interface TransactionIndexBackend {
+  getTransactionIndex(chainId: number, address: string): Promise<TransactionIndex | null>;
+  saveTransactionIndex(index: TransactionIndex): Promise<void>;
+}
+
+// Revert reasons of QBSToken's replay protection
+const ALREADY_REWARDED_REASONS = ['QBS: Block already rewarded', 'QBS: Evolution level already rewarded', 'QBS: Nothing to claim'];
+
+const isAlreadyRewardedError = (error: any): boolean =>
+  ALREADY_REWARDED_REASONS.some(reason => (error?.reason || error?.message || '').includes(reason));
+
 /**
  * QBS Token Contract Service
  * Handles all interactions with the deployed QBS token smart contract
@@ -219,9 +266,32 @@ export class QBSContractService {
   }
 
   /**
-   * Mint mining reward tokens
+   * Check if a block has already been paid its mining reward on chain
+   */
+  public async isBlockRewarded(blockId: string): Promise<boolean> {
+    await this.ensureContracts();
+    if (!this.readOnlyContract) {
+      throw new Error('Contract not available');
+    }
+    return await this.readOnlyContract.isBlockRewarded(blockId);
+  }
+
+  /**
+   * Check if an evolution level of a block has already been paid on chain
+   */
+  public async isEvolutionRewarded(blockId: string, level: number): Promise<boolean> {
+    await this.ensureContracts();
+    if (!this.readOnlyContract) {
+      throw new Error('Contract not available');
+    }
+    return await this.readOnlyContract.isEvolutionRewarded(blockId, level);
+  }
+
+  /**
+   * Mint mining reward tokens. onSubmitted receives the hash once the transaction
+   * is broadcast, before it is mined.
    */
-  public async mintMiningReward(request: MiningRewardRequest): Promise<TransactionResult> {
+  public async mintMiningReward(request: MiningRewardRequest, onSubmitted?: (hash: string) => void | Promise<void>): Promise<TransactionResult> {
     try {
       await this.ensureContracts();
       
@@ -229,6 +299,15 @@ export class QBSContractService {
         throw new Error('Wallet not connected or contract not available');
       }
 
+      if (await this.isBlockRewarded(request.blockId)) {
+        return {
+          hash: '',
+          success: false,
+          alreadyRewarded: true,
+          error: `Block ${request.blockId} was already rewarded on chain`
+        };
+      }
+
       const amountWei = ethers.parseEther(request.amount);
       
       const tx = await this.contract.mintMiningReward(
@@ -237,6 +316,7 @@ export class QBSContractService {
         request.blockId,
         request.grade
       );
+      await onSubmitted?.(tx.hash);
 
       const receipt = await tx.wait();
       
@@ -249,15 +329,17 @@ export class QBSContractService {
       return {
         hash: '',
         success: false,
+        alreadyRewarded: isAlreadyRewardedError(error),
         error: error.message || 'Transaction failed'
       };
     }
   }
 
   /**
-   * Mint evolution reward tokens
+   * Mint evolution reward tokens. onSubmitted receives the hash once the transaction
+   * is broadcast, before it is mined.
    */
-  public async mintEvolutionReward(request: EvolutionRewardRequest): Promise<TransactionResult> {
+  public async mintEvolutionReward(request: EvolutionRewardRequest, onSubmitted?: (hash: string) => void | Promise<void>): Promise<TransactionResult> {
     try {
       await this.ensureContracts();
       
@@ -265,6 +347,15 @@ export class QBSContractService {
         throw new Error('Wallet not connected or contract not available');
       }
 
+      if (await this.isEvolutionRewarded(request.blockId, request.newLevel)) {
+        return {
+          hash: '',
+          success: false,
+          alreadyRewarded: true,
+          error: `Level ${request.newLevel} of block ${request.blockId} was already rewarded on chain`
+        };
+      }
+
       const amountWei = ethers.parseEther(request.amount);
       
       const tx = await this.contract.mintEvolutionReward(
@@ -273,6 +364,7 @@ export class QBSContractService {
         request.blockId,
         request.newLevel
       );
+      await onSubmitted?.(tx.hash);
 
       const receipt = await tx.wait();
       
@@ -285,15 +377,93 @@ export class QBSContractService {
       return {
         hash: '',
         success: false,
+        alreadyRewarded: isAlreadyRewardedError(error),
         error: error.message || 'Transaction failed'
       };
     }
   }
 
   /**
-   * Transfer QBS tokens
+   * Reward epoch root currently published on chain
    */
-  public async transfer(to: string, amount: string): Promise<TransactionResult> {
+  public async getRewardsRoot(): Promise<{ epoch: number; root: string } | null> {
+    try {
+      await this.ensureContracts();
+
+      if (!this.readOnlyContract) {
+        return null;
+      }
+
+      const [epoch, root] = await Promise.all([
+        this.readOnlyContract.rewardsEpoch(),
+        this.readOnlyContract.rewardsRoot()
+      ]);
+      return { epoch: Number(epoch), root };
+    } catch (error) {
+      console.error('Failed to get rewards root:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cumulative reward epoch amount a lattice node has claimed, in wei
+   */
+  public async getClaimedRewards(nodeId: string): Promise<bigint> {
+    try {
+      await this.ensureContracts();
+
+      if (!this.readOnlyContract) {
+        return 0n;
+      }
+
+      return await this.readOnlyContract.claimedRewards(nodeId);
+    } catch (error) {
+      console.error('Failed to get claimed rewards:', error);
+      return 0n;
+    }
+  }
+
+  /**
+   * Claim the unclaimed part of a node's cumulative epoch accrual; the connected
+   * wallet must be the payout account in the node's leaf
+   */
+  public async claimRewards(nodeId: string, cumulativeWei: string, proof: string[], onSubmitted?: (hash: string) => void | Promise<void>): Promise<TransactionResult> {
+    try {
+      await this.ensureContracts();
+
+      if (!this.contract) {
+        throw new Error('Wallet not connected or contract not available');
+      }
+
+      const tx = await this.contract.claimRewards(nodeId, cumulativeWei, proof);
+      await onSubmitted?.(tx.hash);
+      const receipt = await tx.wait();
+
+      return {
+        hash: tx.hash,
+        success: receipt.status === 1
+      };
+    } catch (error: any) {
+      console.error('Failed to claim rewards:', error);
+      return {
+        hash: '',
+        success: false,
+        alreadyRewarded: isAlreadyRewardedError(error),
+        error: error.reason || error.message || 'Transaction failed'
+      };
+    }
+  }
+
+  /**
+   * Transfer QBS tokens. onSubmitted receives the hash once the transaction is
+   * broadcast, before it is mined; fee pins the gas limit and fees previewed to the user.
+   */
+  public async transfer(
+    to: string,
+    amount: string,
+    onSubmitted?: (hash: string) => void | Promise<void>,
+    fee?: FeeOption
+  ): Promise<TransactionResult> {
     try {
       await this.ensureContracts();
       
@@ -303,7 +473,8 @@ export class QBSContractService {
 
       const amountWei = ethers.parseEther(amount);
       
-      const tx = await this.contract.transfer(to, amountWei);
+      const tx = await this.contract.transfer(to, amountWei, ...(fee ? [feeOverrides(fee)] : []));
+      await onSubmitted?.(tx.hash);
       const receipt = await tx.wait();
       
       return {
@@ -381,40 +552,52 @@ export class QBSContractService {
   }
 
   /**
-   * Estimate gas for a transaction
+   * Estimate the gas units a contract call uses
    */
-  public async estimateGas(method: string, params: any[]): Promise<string> {
+  public async estimateGas(method: string, params: any[]): Promise<bigint> {
+    await this.ensureContracts();
+
+    if (!this.contract) {
+      throw new Error('Contract not available');
+    }
+
     try {
-      await this.ensureContracts();
-      
-      if (!this.contract) {
-        throw new Error('Contract not available');
-      }
+      return await this.contract[method].estimateGas(...params);
+    } catch (error: any) {
+      throw new Error(`Gas estimation failed: ${error.reason || error.message}`);
+    }
+  }
 
-      const gasEstimate = await this.contract[method].estimateGas(...params);
-      return ethers.formatUnits(gasEstimate, 'gwei');
-    } catch (error) {
-      console.error('Failed to estimate gas:', error);
-      return '0';
+  /**
+   * Preview the network fee of a transfer at each speed preset
+   */
+  public async estimateTransferFees(to: string, amount: string): Promise<FeeEstimate> {
+    const walletState = await walletConnector.getWalletState();
+    const provider = walletConnector.getCurrentSigner()?.provider;
+    if (!provider || !walletState.chainId) {
+      throw new Error('Wallet not connected');
     }
+
+    const gasUnits = await this.estimateGas('transfer', [to, ethers.parseEther(amount)]);
+    return estimateFees(provider, gasUnits, walletState.chainId);
   }
 
   /**
    * Listen for contract events
    */
-  public onMiningReward(callback: (event: any) => void): void {
+  public onMiningReward(callback: (...args: any[]) => void): void {
     if (this.readOnlyContract) {
       this.readOnlyContract.on('MiningReward', callback);
     }
   }
 
-  public onEvolutionReward(callback: (event: any) => void): void {
+  public onEvolutionReward(callback: (...args: any[]) => void): void {
     if (this.readOnlyContract) {
       this.readOnlyContract.on('EvolutionReward', callback);
     }
   }
 
-  public onTransfer(callback: (event: any) => void): void {
+  public onTransfer(callback: (...args: any[]) => void): void {
     if (this.readOnlyContract) {
       this.readOnlyContract.on('Transfer', callback);
     }
@@ -429,6 +612,26 @@ export class QBSContractService {
     }
   }
 
+  /**
+   * Backfill the token history of an address on the current network from contract
+   * logs, resuming after the last indexed block. Returns the history newest first.
+   */
+  public async indexTransactions(address: string): Promise<IndexedTransaction[]> {
+    await this.ensureContracts();
+    const walletState = await walletConnector.getWalletState();
+
+    if (!this.readOnlyContract || !walletState.chainId) {
+      return [];
+    }
+
+    return transactionIndexer.indexAccount(
+      contractLogSource(this.readOnlyContract),
+      walletState.chainId,
+      address,
+      getDeployment(walletState.chainId)?.blockNumber
+    );
+  }
+
   /**
    * Check if contract is available on current network
    */
@@ -451,5 +654,197 @@ export class QBSContractService {
   }
 }
 
-// Singleton instance
+/**
+ * Log source over a QBS token contract connected to a provider
+ */
+export const contractLogSource = (contract: ethers.Contract): TransactionLogSource => {
+  const provider = contract.runner as ethers.Provider;
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    getBlockTimestamp: async (blockNumber) => ((await provider.getBlock(blockNumber))?.timestamp ?? 0) * 1000,
+    getTransactionStatus: async (hash) => (await provider.getTransactionReceipt(hash))?.status ?? null,
+    queryEvents: async (event, args, fromBlock, toBlock) =>
+      (await contract.queryFilter(contract.filters[event](...args), fromBlock, toBlock)) as ethers.EventLog[]
+  };
+};
+
+const sortNewestFirst = (transactions: IndexedTransaction[]): IndexedTransaction[] =>
+  [...transactions].sort((a, b) => b.timestamp - a.timestamp || (b.blockNumber ?? 0) - (a.blockNumber ?? 0));
+
+/**
+ * Transaction Indexer
+ * Backfills Transfer, MiningReward and EvolutionReward logs of an address in
+ * block-range pages and caches them per chain and address. Each page is saved
+ * with its last block, so an interrupted backfill resumes where it stopped.
+ */
+export class TransactionIndexer {
+  private indexing = new Map<string, Promise<IndexedTransaction[]>>();
+
+  constructor(private backend: TransactionIndexBackend) {}
+
+  /**
+   * Cached history of an address, newest first
+   */
+  public async getTransactions(chainId: number, address: string): Promise<IndexedTransaction[]> {
+    const index = await this.backend.getTransactionIndex(chainId, address);
+    return index ? sortNewestFirst(index.transactions) : [];
+  }
+
+  /**
+   * Record a transaction sent from this client so it shows up before it is mined
+   */
+  public async recordPending(chainId: number, address: string, transaction: Omit<IndexedTransaction, 'id' | 'status'>): Promise<void> {
+    const index = await this.loadIndex(chainId, address);
+    if (index.transactions.some(tx => tx.hash === transaction.hash)) return;
+    index.transactions.push({ ...transaction, id: transaction.hash, status: 'pending' });
+    await this.backend.saveTransactionIndex({ ...index, updatedAt: Date.now() });
+  }
+
+  /**
+   * Index new blocks up to the chain head, then settle pending transactions. The
+   * first run starts at startBlock (the contract's deployment block) when known.
+   * Concurrent calls for the same account share one run.
+   */
+  public async indexAccount(source: TransactionLogSource, chainId: number, address: string, startBlock?: number): Promise<IndexedTransaction[]> {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const running = this.indexing.get(key);
+    if (running) return running;
+
+    const run = this.backfill(source, chainId, address, startBlock).finally(() => this.indexing.delete(key));
+    this.indexing.set(key, run);
+    return run;
+  }
+
+  private async loadIndex(chainId: number, address: string): Promise<TransactionIndex> {
+    return (await this.backend.getTransactionIndex(chainId, address)) || {
+      id: `${chainId}:${address.toLowerCase()}`,
+      chainId,
+      address: address.toLowerCase(),
+      lastIndexedBlock: -1,
+      transactions: [],
+      updatedAt: 0
+    };
+  }
+
+  private async backfill(source: TransactionLogSource, chainId: number, address: string, startBlock?: number): Promise<IndexedTransaction[]> {
+    let index = await this.loadIndex(chainId, address);
+    const head = await source.getBlockNumber();
+    if (index.lastIndexedBlock < 0) {
+      index.lastIndexedBlock = (startBlock ?? Math.max(0, head - TX_INDEXER_CONFIG.INITIAL_LOOKBACK_BLOCKS)) - 1;
+    }
+
+    for (let fromBlock = index.lastIndexedBlock + 1; fromBlock <= head; fromBlock += TX_INDEXER_CONFIG.PAGE_SIZE) {
+      const toBlock = Math.min(head, fromBlock + TX_INDEXER_CONFIG.PAGE_SIZE - 1);
+      const page = await this.fetchPage(source, address, fromBlock, toBlock);
+      const indexedHashes = new Set(page.map(tx => tx.hash));
+      const known = new Set(index.transactions.map(tx => tx.id));
+      index = {
+        ...index,
+        // An entry recorded before it was mined (id is the bare hash) is superseded by its logs
+        transactions: [
+          ...index.transactions.filter(tx => tx.id !== tx.hash || !indexedHashes.has(tx.hash)),
+          ...page.filter(tx => !known.has(tx.id))
+        ],
+        lastIndexedBlock: toBlock,
+        updatedAt: Date.now()
+      };
+      await this.backend.saveTransactionIndex(index);
+    }
+
+    index = await this.reconcilePending(source, index);
+    return sortNewestFirst(index.transactions);
+  }
+
+  /**
+   * Token history entries of an address in one block range
+   */
+  private async fetchPage(source: TransactionLogSource, address: string, fromBlock: number, toBlock: number): Promise<IndexedTransaction[]> {
+    const account = ethers.getAddress(address);
+    const [sent, received, mined, evolved] = await Promise.all([
+      source.queryEvents('Transfer', [account, null], fromBlock, toBlock),
+      source.queryEvents('Transfer', [null, account], fromBlock, toBlock),
+      source.queryEvents('MiningReward', [account], fromBlock, toBlock),
+      source.queryEvents('EvolutionReward', [account], fromBlock, toBlock)
+    ]);
+
+    const timestamps = new Map<number, number>();
+    const timestampOf = async (blockNumber: number): Promise<number> => {
+      if (!timestamps.has(blockNumber)) {
+        timestamps.set(blockNumber, await source.getBlockTimestamp(blockNumber));
+      }
+      return timestamps.get(blockNumber)!;
+    };
+
+    // A reward mint also emits a Transfer from the zero address; keep only the reward entry
+    const rewardHashes = new Set([...mined, ...evolved].map(log => log.transactionHash));
+    const transfers = [...sent, ...received].filter(log =>
+      !(log.args[0] === ethers.ZeroAddress && rewardHashes.has(log.transactionHash))
+    );
+
+    const entries = new Map<string, IndexedTransaction>();
+    for (const log of transfers) {
+      entries.set(`${log.transactionHash}:${log.index}`, {
+        id: `${log.transactionHash}:${log.index}`,
+        hash: log.transactionHash,
+        type: 'TRANSFER',
+        from: log.args[0],
+        to: log.args[1],
+        amount: ethers.formatEther(log.args[2]),
+        timestamp: await timestampOf(log.blockNumber),
+        blockNumber: log.blockNumber,
+        status: 'confirmed'
+      });
+    }
+    for (const [type, logs] of [['MINING_REWARD', mined], ['EVOLUTION_REWARD', evolved]] as const) {
+      for (const log of logs) {
+        entries.set(`${log.transactionHash}:${log.index}`, {
+          id: `${log.transactionHash}:${log.index}`,
+          hash: log.transactionHash,
+          type,
+          from: ethers.ZeroAddress,
+          to: log.args[0],
+          amount: ethers.formatEther(log.args[1]),
+          timestamp: await timestampOf(log.blockNumber),
+          blockNumber: log.blockNumber,
+          blockId: log.args[2],
+          status: 'confirmed'
+        });
+      }
+    }
+    return Array.from(entries.values());
+  }
+
+  /**
+   * Settle pending entries whose transaction was mined without a matching log
+   * (e.g. it reverted) or has not been indexed yet
+   */
+  private async reconcilePending(source: TransactionLogSource, index: TransactionIndex): Promise<TransactionIndex> {
+    const pending = index.transactions.filter(tx => tx.status === 'pending');
+    if (pending.length === 0) return index;
+
+    let changed = false;
+    const transactions: IndexedTransaction[] = [];
+    for (const tx of index.transactions) {
+      if (tx.status !== 'pending') {
+        transactions.push(tx);
+        continue;
+      }
+      const status = await source.getTransactionStatus(tx.hash);
+      if (status === null) {
+        transactions.push(tx);
+      } else {
+        changed = true;
+        transactions.push({ ...tx, status: status === 1 ? 'confirmed' : 'failed' });
+      }
+    }
+
+    if (!changed) return index;
+    const reconciled = { ...index, transactions, updatedAt: Date.now() };
+    await this.backend.saveTransactionIndex(reconciled);
+    return reconciled;
+  }
+}
+
+// Singleton instances
+export const transactionIndexer = new TransactionIndexer(productionDB);
 export const qbsContract = new QBSContractService();
\ No newline at end of file
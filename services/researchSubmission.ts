@@ -0,0 +1,87 @@
+/**
+ * Research Submissions
+ * User-authored hypotheses, formulas and notes (markdown + LaTeX) that are mined
+ * instead of a generated frontier shard
+ */
+
+import { ResearchSubmission, SolvedBlock } from '../types';
+
+export const SUBMISSION_LIMITS = {
+  HYPOTHESIS_MIN: 40,
+  HYPOTHESIS_MAX: 2000,
+  FORMULA_MAX: 500,
+  NOTES_MAX: 6000
+};
+
+// Tabs and newlines are fine; other control characters only hide text from reviewers
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/;
+
+/**
+ * Whether LaTeX groups close; brackets are left alone since half-open intervals
+ * like [0, 1) are valid math
+ */
+const hasBalancedBraces = (text: string): boolean => {
+  let depth = 0;
+  for (const char of text.replace(/\\[{}]/g, '')) {
+    depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+// Inline $...$ and display $$...$$ math both need an even number of unescaped $
+const hasOpenMath = (text: string): boolean => (text.replace(/\\\$/g, '').match(/\$/g) || []).length % 2 === 1;
+
+/**
+ * Length and format problems with a submission; empty when it can be mined
+ */
+export const validateSubmission = (submission: ResearchSubmission): string[] => {
+  const errors: string[] = [];
+  const { hypothesis, formula = '', notes = '' } = submission;
+  const hypothesisLength = hypothesis.trim().length;
+
+  if (hypothesisLength < SUBMISSION_LIMITS.HYPOTHESIS_MIN) {
+    errors.push(`Hypothesis needs at least ${SUBMISSION_LIMITS.HYPOTHESIS_MIN} characters`);
+  } else if (hypothesisLength > SUBMISSION_LIMITS.HYPOTHESIS_MAX) {
+    errors.push(`Hypothesis is limited to ${SUBMISSION_LIMITS.HYPOTHESIS_MAX} characters`);
+  }
+  if (formula.length > SUBMISSION_LIMITS.FORMULA_MAX) {
+    errors.push(`Formula is limited to ${SUBMISSION_LIMITS.FORMULA_MAX} characters`);
+  }
+  if (formula.includes('$')) {
+    errors.push('Formula is typeset as LaTeX already; remove the $ delimiters');
+  } else if (!hasBalancedBraces(formula)) {
+    errors.push('Formula has unbalanced braces');
+  }
+  if (notes.length > SUBMISSION_LIMITS.NOTES_MAX) {
+    errors.push(`Notes are limited to ${SUBMISSION_LIMITS.NOTES_MAX} characters`);
+  }
+  if (hasOpenMath(hypothesis) || hasOpenMath(notes)) {
+    errors.push('A $ math delimiter is never closed');
+  }
+  if ([hypothesis, formula, notes].some(text => CONTROL_CHARS.test(text))) {
+    errors.push('Submission contains control characters');
+  }
+
+  return errors;
+};
+
+/**
+ * The evaluation problem text: the submission's sections as markdown, formula as display math
+ */
+export const composeProblem = (submission: ResearchSubmission): string => [
+  `## Hypothesis\n${submission.hypothesis.trim()}`,
+  submission.formula?.trim() ? `## Formula\n$$${submission.formula.trim()}$$` : '',
+  submission.notes?.trim() ? `## Supporting Notes\n${submission.notes.trim()}` : ''
+].filter(Boolean).join('\n\n');
+
+// Case, whitespace and punctuation changes do not make a submission new
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * A block already mined on the same submission, if any
+ */
+export const findDuplicateSubmission = (submission: ResearchSubmission, blocks: SolvedBlock[]): SolvedBlock | undefined => {
+  const problem = normalize(composeProblem(submission));
+  return blocks.find(block => normalize(block.problem) === problem);
+};
@@ -1,20 +1,22 @@
-import { qbsContract, MiningRewardRequest, EvolutionRewardRequest, TransactionResult } from './qbsContract';
+import { qbsContract, TransactionResult } from './qbsContract';
 import { walletConnector } from './walletConnector';
 import { getExplorerUrl } from './networkConfig';
-import { GRADE_MULTIPLIERS } from './quantumLogic';
-
-export interface PendingReward {
-  id: string;
-  type: 'MINING' | 'EVOLUTION';
-  recipient: string;
-  amount: string;
-  blockId: string;
-  grade?: 'S' | 'A' | 'B' | 'C';
-  newLevel?: number;
-  timestamp: number;
-  retryCount: number;
-  maxRetries: number;
-  error?: string;
+import { productionDB } from './productionDatabase';
+import { QueuedReward } from '../types';
+
+export const REWARD_QUEUE_CONFIG = {
+  MAX_ATTEMPTS: 5,
+  BASE_RETRY_DELAY_MS: 5000,
+  MAX_RETRY_DELAY_MS: 10 * 60 * 1000,
+  // A SUBMITTED reward with no outcome after this long (e.g. the tab closed while
+  // waiting for the receipt) is attempted again; the contract refuses double mints
+  SUBMITTED_TIMEOUT_MS: 10 * 60 * 1000,
+  PROCESS_INTERVAL_MS: 10000
+};
+
+export interface RewardQueueBackend {
+  getQueuedRewards(): Promise<QueuedReward[]>;
+  saveQueuedReward(reward: QueuedReward): Promise<void>;
 }
 
 export interface RewardDistributionResult {
@@ -23,246 +25,248 @@ export interface RewardDistributionResult {
   explorerUrl?: string;
   error?: string;
   queued?: boolean;
+  rewardId?: string;
 }
 
+export type RewardQueueListener = (rewards: QueuedReward[]) => void;
+
+// localStorage key of the queue before it moved to the database
+const LEGACY_STORAGE_KEY = 'QBS_PENDING_REWARDS';
+
+/**
+ * Delay before the next attempt after `attempts` failures: doubles from the base
+ * delay up to the cap
+ */
+export const retryDelay = (attempts: number): number =>
+  Math.min(
+    REWARD_QUEUE_CONFIG.BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    REWARD_QUEUE_CONFIG.MAX_RETRY_DELAY_MS
+  );
+
+/**
+ * Queue id of a reward; one entry per block, evolution level or claimed cumulative amount
+ */
+const rewardKey = (reward: Pick<QueuedReward, 'type' | 'blockId' | 'newLevel' | 'nodeId' | 'cumulativeWei'>): string => {
+  switch (reward.type) {
+    case 'MINING':
+      return `mining:${reward.blockId}`;
+    case 'EVOLUTION':
+      return `evolution:${reward.blockId}:${reward.newLevel}`;
+    default:
+      return `epoch:${reward.nodeId}:${reward.cumulativeWei}`;
+  }
+};
+
 /**
  * Reward Distribution Service
- * Handles blockchain reward distribution with queuing and retry logic
+ * Durable queue of on-chain reward transactions. Every reward moves through
+ * QUEUED -> SUBMITTED -> CONFIRMED; failures are retried with exponential backoff
+ * until MAX_ATTEMPTS, after which they are ABANDONED (the dead-letter list) until
+ * retried by hand.
  */
 export class RewardDistributionService {
-  private pendingRewards: PendingReward[] = [];
+  private rewards = new Map<string, QueuedReward>();
+  private loading: Promise<void> | null = null;
   private isProcessing = false;
-  private readonly STORAGE_KEY = 'QBS_PENDING_REWARDS';
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY = 5000; // 5 seconds
-
-  constructor() {
-    this.loadPendingRewards();
-    this.startProcessingLoop();
+  private listeners: RewardQueueListener[] = [];
+
+  constructor(
+    private backend: RewardQueueBackend = productionDB,
+    processIntervalMs: number = REWARD_QUEUE_CONFIG.PROCESS_INTERVAL_MS
+  ) {
+    if (processIntervalMs > 0) {
+      setInterval(() => {
+        this.processQueue().catch(error => console.error('Error in reward processing loop:', error));
+      }, processIntervalMs);
+    }
   }
 
   /**
-   * Load pending rewards from localStorage
+   * Load the queue once, migrating entries left in localStorage by older versions
    */
-  private loadPendingRewards(): void {
-    try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (stored) {
-        this.pendingRewards = JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Failed to load pending rewards:', error);
-      this.pendingRewards = [];
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        for (const reward of await this.backend.getQueuedRewards()) {
+          this.rewards.set(reward.id, reward);
+        }
+        await this.migrateLegacyQueue();
+      })().catch(error => {
+        this.loading = null;
+        throw error;
+      });
     }
+    return this.loading;
   }
 
-  /**
-   * Save pending rewards to localStorage
-   */
-  private savePendingRewards(): void {
+  private async migrateLegacyQueue(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.pendingRewards));
+      for (const legacy of JSON.parse(stored)) {
+        await this.enqueue({
+          type: legacy.type,
+          recipient: legacy.recipient,
+          amount: legacy.amount,
+          blockId: legacy.blockId,
+          grade: legacy.grade,
+          newLevel: legacy.newLevel
+        }, legacy.timestamp || Date.now());
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
     } catch (error) {
-      console.error('Failed to save pending rewards:', error);
+      console.error('Failed to migrate pending rewards:', error);
     }
   }
 
+  private async save(reward: QueuedReward): Promise<void> {
+    this.rewards.set(reward.id, reward);
+    await this.backend.saveQueuedReward(reward);
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private snapshot(): QueuedReward[] {
+    return Array.from(this.rewards.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
   /**
-   * Start the processing loop for pending rewards
+   * Add a reward to the queue. A reward already queued under the same key is
+   * returned unchanged.
    */
-  private startProcessingLoop(): void {
-    setInterval(() => {
-      if (!this.isProcessing && this.pendingRewards.length > 0) {
-        this.processPendingRewards();
-      }
-    }, 10000); // Check every 10 seconds
+  private async enqueue(
+    reward: Pick<QueuedReward, 'type' | 'recipient' | 'amount'> & Partial<QueuedReward>,
+    now: number = Date.now()
+  ): Promise<QueuedReward> {
+    await this.load();
+    const id = rewardKey(reward);
+    const existing = this.rewards.get(id);
+    if (existing) return existing;
+
+    const queued: QueuedReward = {
+      ...reward,
+      id,
+      status: 'QUEUED',
+      attempts: 0,
+      maxAttempts: REWARD_QUEUE_CONFIG.MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.save(queued);
+    return queued;
+  }
+
+  private isDue(reward: QueuedReward, now: number): boolean {
+    switch (reward.status) {
+      case 'QUEUED':
+      case 'FAILED':
+        return reward.nextAttemptAt <= now;
+      case 'SUBMITTED':
+        return reward.updatedAt + REWARD_QUEUE_CONFIG.SUBMITTED_TIMEOUT_MS <= now;
+      default:
+        return false;
+    }
   }
 
   /**
-   * Distribute mining reward
+   * Send one reward transaction and record its outcome
    */
-  public async distributeMiningReward(
-    recipient: string,
-    baseAmount: number,
-    grade: 'S' | 'A' | 'B' | 'C',
-    blockId: string
-  ): Promise<RewardDistributionResult> {
+  private async attempt(reward: QueuedReward, chainId: number | null, now: number): Promise<QueuedReward> {
+    const current: QueuedReward = { ...reward, attempts: reward.attempts + 1, chainId: chainId ?? undefined, updatedAt: now };
+    const onSubmitted = (hash: string) => {
+      current.transactionHash = hash;
+      return this.save({ ...current, status: 'SUBMITTED', error: undefined, updatedAt: Date.now() });
+    };
+
+    let result: TransactionResult;
     try {
-      // Calculate final reward amount based on grade
-      const multiplier = GRADE_MULTIPLIERS[grade];
-      const finalAmount = (baseAmount * multiplier).toString();
-
-      // Check if wallet is connected and contract is available
-      const walletState = await walletConnector.getWalletState();
-      const isContractAvailable = await qbsContract.isAvailable();
-
-      if (!walletState.isConnected || !isContractAvailable) {
-        // Queue the reward for later processing
-        const pendingReward: PendingReward = {
-          id: `mining-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          type: 'MINING',
-          recipient,
-          amount: finalAmount,
-          blockId,
-          grade,
-          timestamp: Date.now(),
-          retryCount: 0,
-          maxRetries: this.MAX_RETRIES
-        };
-
-        this.pendingRewards.push(pendingReward);
-        this.savePendingRewards();
-
-        return {
-          success: true,
-          queued: true,
-          error: walletState.isConnected 
-            ? 'Contract not available on current network. Reward queued.'
-            : 'Wallet not connected. Reward queued for when wallet is connected.'
-        };
-      }
-
-      // Attempt immediate distribution
-      const request: MiningRewardRequest = {
-        recipient,
-        amount: finalAmount,
-        blockId,
-        grade
-      };
-
-      const result = await qbsContract.mintMiningReward(request);
-
-      if (result.success) {
-        const explorerUrl = walletState.chainId 
-          ? getExplorerUrl(walletState.chainId, result.hash)
-          : undefined;
-
-        return {
-          success: true,
-          transactionHash: result.hash,
-          explorerUrl
-        };
+      if (reward.type === 'MINING') {
+        result = await qbsContract.mintMiningReward(
+          { recipient: reward.recipient, amount: reward.amount, blockId: reward.blockId!, grade: reward.grade! },
+          onSubmitted
+        );
+      } else if (reward.type === 'EVOLUTION') {
+        result = await qbsContract.mintEvolutionReward(
+          { recipient: reward.recipient, amount: reward.amount, blockId: reward.blockId!, newLevel: reward.newLevel! },
+          onSubmitted
+        );
       } else {
-        // Queue for retry if transaction failed
-        const pendingReward: PendingReward = {
-          id: `mining-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          type: 'MINING',
-          recipient,
-          amount: finalAmount,
-          blockId,
-          grade,
-          timestamp: Date.now(),
-          retryCount: 0,
-          maxRetries: this.MAX_RETRIES,
-          error: result.error
-        };
-
-        this.pendingRewards.push(pendingReward);
-        this.savePendingRewards();
-
-        return {
-          success: false,
-          error: result.error,
-          queued: true
-        };
+        result = await qbsContract.claimRewards(reward.nodeId!, reward.cumulativeWei!, reward.proof!, onSubmitted);
       }
     } catch (error: any) {
-      console.error('Failed to distribute mining reward:', error);
-      return {
-        success: false,
-        error: error.message || 'Unknown error occurred'
+      result = { hash: '', success: false, error: error.message || 'Unknown error occurred' };
+    }
+
+    let next: QueuedReward;
+    if (result.success || result.alreadyRewarded) {
+      // An already-rewarded block was minted by an earlier attempt; retrying can only revert
+      next = {
+        ...current,
+        status: 'CONFIRMED',
+        transactionHash: result.hash || current.transactionHash,
+        error: result.success ? undefined : result.error,
+        updatedAt: Date.now()
+      };
+    } else {
+      const exhausted = current.attempts >= current.maxAttempts;
+      next = {
+        ...current,
+        status: exhausted ? 'ABANDONED' : 'FAILED',
+        transactionHash: result.hash || current.transactionHash,
+        error: result.error || 'Transaction failed',
+        nextAttemptAt: now + retryDelay(current.attempts),
+        updatedAt: Date.now()
       };
+      if (exhausted) {
+        console.error(`Max attempts exceeded for ${reward.type} reward:`, reward.id);
+      }
     }
+    await this.save(next);
+    return next;
   }
 
   /**
-   * Distribute evolution reward
+   * Enqueue a reward and attempt it right away when a wallet and the contract are available
    */
-  public async distributeEvolutionReward(
-    recipient: string,
-    amount: number,
-    blockId: string,
-    newLevel: number
+  private async distribute(
+    reward: Pick<QueuedReward, 'type' | 'recipient' | 'amount'> & Partial<QueuedReward>
   ): Promise<RewardDistributionResult> {
     try {
-      const amountStr = amount.toString();
-
-      // Check if wallet is connected and contract is available
+      const queued = await this.enqueue(reward);
       const walletState = await walletConnector.getWalletState();
       const isContractAvailable = await qbsContract.isAvailable();
 
       if (!walletState.isConnected || !isContractAvailable) {
-        // Queue the reward for later processing
-        const pendingReward: PendingReward = {
-          id: `evolution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          type: 'EVOLUTION',
-          recipient,
-          amount: amountStr,
-          blockId,
-          newLevel,
-          timestamp: Date.now(),
-          retryCount: 0,
-          maxRetries: this.MAX_RETRIES
-        };
-
-        this.pendingRewards.push(pendingReward);
-        this.savePendingRewards();
-
         return {
           success: true,
           queued: true,
-          error: walletState.isConnected 
+          rewardId: queued.id,
+          error: walletState.isConnected
             ? 'Contract not available on current network. Reward queued.'
             : 'Wallet not connected. Reward queued for when wallet is connected.'
         };
       }
 
-      // Attempt immediate distribution
-      const request: EvolutionRewardRequest = {
-        recipient,
-        amount: amountStr,
-        blockId,
-        newLevel
-      };
-
-      const result = await qbsContract.mintEvolutionReward(request);
-
-      if (result.success) {
-        const explorerUrl = walletState.chainId 
-          ? getExplorerUrl(walletState.chainId, result.hash)
-          : undefined;
-
-        return {
-          success: true,
-          transactionHash: result.hash,
-          explorerUrl
-        };
-      } else {
-        // Queue for retry if transaction failed
-        const pendingReward: PendingReward = {
-          id: `evolution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          type: 'EVOLUTION',
-          recipient,
-          amount: amountStr,
-          blockId,
-          newLevel,
-          timestamp: Date.now(),
-          retryCount: 0,
-          maxRetries: this.MAX_RETRIES,
-          error: result.error
-        };
-
-        this.pendingRewards.push(pendingReward);
-        this.savePendingRewards();
-
-        return {
-          success: false,
-          error: result.error,
-          queued: true
-        };
+      if (!this.isDue(queued, Date.now())) {
+        return { success: queued.status === 'CONFIRMED', queued: queued.status !== 'CONFIRMED', rewardId: queued.id, error: queued.error };
       }
+
+      const outcome = await this.attempt(queued, walletState.chainId, Date.now());
+      return {
+        success: outcome.status === 'CONFIRMED',
+        queued: outcome.status === 'FAILED',
+        rewardId: outcome.id,
+        transactionHash: outcome.transactionHash,
+        explorerUrl: outcome.transactionHash && outcome.chainId
+          ? getExplorerUrl(outcome.chainId, outcome.transactionHash)
+          : undefined,
+        error: outcome.error
+      };
     } catch (error: any) {
-      console.error('Failed to distribute evolution reward:', error);
+      console.error(`Failed to distribute ${reward.type} reward:`, error);
       return {
         success: false,
         error: error.message || 'Unknown error occurred'
@@ -271,133 +275,127 @@ export class RewardDistributionService {
   }
 
   /**
-   * Process all pending rewards
+   * Claim a node's epoch accrual to its payout wallet through the queue, so a claim
+   * that fails or is interrupted is retried like any mint
+   */
+  public async claimEpochReward(
+    recipient: string,
+    epoch: number,
+    nodeId: string,
+    cumulativeWei: string,
+    proof: string[],
+    amount: string
+  ): Promise<RewardDistributionResult> {
+    return this.distribute({ type: 'EPOCH_CLAIM', recipient, amount, epoch, nodeId, cumulativeWei, proof });
+  }
+
+  /**
+   * Attempt every due reward: new ones, failed ones whose backoff has elapsed and
+   * submitted ones that never reported an outcome
    */
-  private async processPendingRewards(): Promise<void> {
-    if (this.isProcessing || this.pendingRewards.length === 0) {
+  public async processQueue(now: number = Date.now()): Promise<void> {
+    if (this.isProcessing) {
       return;
     }
 
     this.isProcessing = true;
-
     try {
-      const walletState = await walletConnector.getWalletState();
-      const isContractAvailable = await qbsContract.isAvailable();
+      await this.load();
+      const due = this.snapshot().reverse().filter(reward => this.isDue(reward, now));
+      if (due.length === 0) return;
 
-      if (!walletState.isConnected || !isContractAvailable) {
+      const walletState = await walletConnector.getWalletState();
+      if (!walletState.isConnected || !(await qbsContract.isAvailable())) {
         // Can't process rewards without wallet connection and contract
-        this.isProcessing = false;
         return;
       }
 
-      // Process rewards one by one
-      const rewardsToProcess = [...this.pendingRewards];
-      
-      for (const reward of rewardsToProcess) {
-        try {
-          let result: TransactionResult;
-
-          if (reward.type === 'MINING') {
-            const request: MiningRewardRequest = {
-              recipient: reward.recipient,
-              amount: reward.amount,
-              blockId: reward.blockId,
-              grade: reward.grade!
-            };
-            result = await qbsContract.mintMiningReward(request);
-          } else {
-            const request: EvolutionRewardRequest = {
-              recipient: reward.recipient,
-              amount: reward.amount,
-              blockId: reward.blockId,
-              newLevel: reward.newLevel!
-            };
-            result = await qbsContract.mintEvolutionReward(request);
-          }
-
-          if (result.success) {
-            // Remove successful reward from pending list
-            this.pendingRewards = this.pendingRewards.filter(r => r.id !== reward.id);
-            console.log(`Successfully processed ${reward.type} reward:`, result.hash);
-          } else {
-            // Increment retry count
-            const rewardIndex = this.pendingRewards.findIndex(r => r.id === reward.id);
-            if (rewardIndex !== -1) {
-              this.pendingRewards[rewardIndex].retryCount++;
-              this.pendingRewards[rewardIndex].error = result.error;
-
-              // Remove if max retries exceeded
-              if (this.pendingRewards[rewardIndex].retryCount >= this.pendingRewards[rewardIndex].maxRetries) {
-                console.error(`Max retries exceeded for ${reward.type} reward:`, reward.id);
-                this.pendingRewards.splice(rewardIndex, 1);
-              }
-            }
-          }
-
-          // Small delay between transactions
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error) {
-          console.error(`Error processing ${reward.type} reward:`, error);
-          
-          // Increment retry count for this reward
-          const rewardIndex = this.pendingRewards.findIndex(r => r.id === reward.id);
-          if (rewardIndex !== -1) {
-            this.pendingRewards[rewardIndex].retryCount++;
-            this.pendingRewards[rewardIndex].error = error.message;
-
-            if (this.pendingRewards[rewardIndex].retryCount >= this.pendingRewards[rewardIndex].maxRetries) {
-              this.pendingRewards.splice(rewardIndex, 1);
-            }
-          }
-        }
+      for (const reward of due) {
+        await this.attempt(reward, walletState.chainId, now);
       }
-
-      this.savePendingRewards();
-    } catch (error) {
-      console.error('Error in reward processing loop:', error);
     } finally {
       this.isProcessing = false;
     }
   }
 
   /**
-   * Get pending rewards count
+   * Put a failed or abandoned reward back in the queue for an immediate attempt.
+   * An abandoned reward gets a fresh set of attempts.
+   */
+  public async retryReward(id: string, now: number = Date.now()): Promise<QueuedReward> {
+    await this.load();
+    const reward = this.rewards.get(id);
+    if (!reward) {
+      throw new Error(`Retry rejected: reward ${id} not found`);
+    }
+    if (reward.status !== 'FAILED' && reward.status !== 'ABANDONED') {
+      throw new Error(`Retry rejected: reward ${id} is ${reward.status.toLowerCase()}`);
+    }
+
+    const retried: QueuedReward = {
+      ...reward,
+      status: 'QUEUED',
+      attempts: reward.status === 'ABANDONED' ? 0 : reward.attempts,
+      nextAttemptAt: now,
+      updatedAt: now
+    };
+    await this.save(retried);
+    return retried;
+  }
+
+  /**
+   * Stop attempting a queued or failed reward; it moves to the dead-letter list
    */
-  public getPendingRewardsCount(): number {
-    return this.pendingRewards.length;
+  public async cancelReward(id: string, now: number = Date.now()): Promise<QueuedReward> {
+    await this.load();
+    const reward = this.rewards.get(id);
+    if (!reward) {
+      throw new Error(`Cancel rejected: reward ${id} not found`);
+    }
+    if (reward.status !== 'QUEUED' && reward.status !== 'FAILED') {
+      throw new Error(`Cancel rejected: reward ${id} is ${reward.status.toLowerCase()}`);
+    }
+
+    const cancelled: QueuedReward = { ...reward, status: 'ABANDONED', error: 'Cancelled by user', updatedAt: now };
+    await this.save(cancelled);
+    return cancelled;
   }
 
   /**
-   * Get pending rewards
+   * Every reward in the queue, newest first
    */
-  public getPendingRewards(): PendingReward[] {
-    return [...this.pendingRewards];
+  public async getRewards(): Promise<QueuedReward[]> {
+    await this.load();
+    return this.snapshot();
   }
 
   /**
-   * Clear all pending rewards (use with caution)
+   * Abandoned rewards awaiting a manual retry
    */
-  public clearPendingRewards(): void {
-    this.pendingRewards = [];
-    this.savePendingRewards();
+  public async getDeadLetters(): Promise<QueuedReward[]> {
+    return (await this.getRewards()).filter(reward => reward.status === 'ABANDONED');
   }
 
   /**
-   * Force process pending rewards now
+   * Rewards that are not yet confirmed or abandoned
    */
-  public async forceProcessPendingRewards(): Promise<void> {
-    if (!this.isProcessing) {
-      await this.processPendingRewards();
-    }
+  public async getPendingRewardsCount(): Promise<number> {
+    return (await this.getRewards()).filter(reward =>
+      reward.status === 'QUEUED' || reward.status === 'SUBMITTED' || reward.status === 'FAILED'
+    ).length;
   }
 
   /**
-   * Get processing status
+   * Subscribe to queue changes
    */
-  public isProcessingRewards(): boolean {
-    return this.isProcessing;
+  public onQueueChange(listener: RewardQueueListener): void {
+    this.listeners.push(listener);
+  }
+
+  public removeQueueListener(listener: RewardQueueListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
   }
 }
 
 // Singleton instance
-export const rewardDistribution = new RewardDistributionService();
\ No newline at end of file
+export const rewardDistribution = new RewardDistributionService();
@@ -0,0 +1,331 @@
+/**
+ * Reward Epochs
+ * Instead of one mint per solved block, the QBS each node's sealed blocks accrued
+ * off-chain is rolled up every epoch into a Merkle tree of (payout address, cumulative wei).
+ * The root is published to QBSToken and each wallet claims the difference between
+ * its cumulative amount and what it already claimed with a single proof.
+ * Each accrual unit (a block's mining grade or one evolution level) is paid once:
+ * units the reward relayer minted are left out of the epochs, and the relayer
+ * refuses units an epoch already rolled up.
+ */
+
+import { ethers } from 'ethers';
+import { EvaluationProviderId, RelayedClaim, RewardEpoch, RewardEpochLeaf, SolvedBlock, SovereignGrade, User } from '../types';
+import { verifyChain } from './blockHashing';
+
+export const REWARD_EPOCH_CONFIG = {
+  INTERVAL_MS: 24 * 60 * 60 * 1000
+};
+
+// QBS magnitude a block accrues toward the reward epochs, by the grade it was mined
+// at and by the grade each evolution level reached
+export const MINING_MAGNITUDE_QBS: Record<SovereignGrade, number> = { S: 0.005, A: 0, B: 0, C: 0 };
+export const EVOLUTION_MAGNITUDE_QBS: Record<SovereignGrade, number> = { S: 0.005, A: 0.001, B: 0, C: 0 };
+
+// Graders whose grades earn magnitude. Self-hosted endpoints and the offline or
+// fallback grader run under the node's own control, so their grades pay QRK only.
+export const TRUSTED_GRADERS: EvaluationProviderId[] = ['deepseek'];
+
+export const isTrustedGrader = (provider?: EvaluationProviderId): boolean =>
+  !!provider && TRUSTED_GRADERS.includes(provider);
+
+export interface RewardEpochBackend {
+  getAllUsers(): Promise<User[]>;
+  getRewardEpoch(): Promise<RewardEpoch | null>;
+  saveRewardEpoch(epoch: RewardEpoch): Promise<void>;
+  getRelayedClaims(): Promise<RelayedClaim[]>;
+}
+
+export interface MintTransaction {
+  hash: string;
+  wait(): Promise<{ status: number | null } | null>;
+}
+
+/**
+ * Publishes an epoch root on chain; an ethers Contract connected to an authorized miner
+ */
+export interface RewardRootPublisher {
+  publishRewardsRoot(epoch: number, root: string): Promise<MintTransaction>;
+}
+
+export interface RewardProof {
+  nodeId: string;
+  account: string;
+  cumulativeWei: string;
+  proof: string[];
+}
+
+/**
+ * A payable piece of a block's accrual: the grade it was mined at, or one evolution level
+ */
+export interface AccrualUnit {
+  key: string;
+  blockId: string;
+  grade: SovereignGrade;
+  amount: number; // QBS
+}
+
+/**
+ * Id QBSToken tracks a lattice node's claims under, whichever wallet it pays out to
+ */
+export const rewardNodeId = (latticeAddress: string): string => ethers.id(latticeAddress.trim().toLowerCase());
+
+/**
+ * Leaf hash QBSToken.claimRewards verifies: keccak256(keccak256(abi.encode(nodeId, account, amount)))
+ */
+export const rewardLeafHash = (nodeId: string, account: string, cumulativeWei: string | bigint): string =>
+  ethers.keccak256(ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(['bytes32', 'address', 'uint256'], [nodeId, account, BigInt(cumulativeWei)])
+  ));
+
+const leafHash = (leaf: RewardEpochLeaf): string => rewardLeafHash(leaf.nodeId, leaf.account, leaf.cumulativeWei);
+
+// Commutative pair hash used by OpenZeppelin's MerkleProof
+const hashPair = (a: string, b: string): string =>
+  ethers.keccak256(ethers.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+
+/**
+ * Tree layers from sorted leaf hashes to the root; an unpaired node moves up unchanged
+ */
+const buildLayers = (leafHashes: string[]): string[][] => {
+  const layers = [[...leafHashes].sort()];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+};
+
+export const merkleRoot = (leafHashes: string[]): string => {
+  if (leafHashes.length === 0) return ethers.ZeroHash;
+  const layers = buildLayers(leafHashes);
+  return layers[layers.length - 1][0];
+};
+
+export const merkleProof = (leafHashes: string[], leaf: string): string[] => {
+  const layers = buildLayers(leafHashes);
+  let index = layers[0].indexOf(leaf);
+  if (index === -1) throw new Error('Proof rejected: leaf is not in the tree');
+
+  const proof: string[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+};
+
+export const verifyRewardProof = (root: string, leaf: RewardEpochLeaf, proof: string[]): boolean =>
+  proof.reduce((node, sibling) => hashPair(node, sibling), leafHash(leaf)) === root;
+
+/**
+ * Grade a block was sealed with, before any evolution replaced it; none unless a
+ * trusted grader awarded it
+ */
+const minedGrade = (block: SolvedBlock): SovereignGrade | undefined => {
+  if (!isTrustedGrader(block.gradedBy)) return undefined;
+  const firstAdvance = block.advancementHistory?.find(advance => advance.previousExplanation !== undefined);
+  return firstAdvance ? firstAdvance.previousGrade : block.grade;
+};
+
+/**
+ * Grade a block reached at an evolution level: the grade the next evolution replaced,
+ * or the current grade for the latest level; none unless the record is sealed and a
+ * trusted grader awarded it. verifyChain checks the record seals.
+ */
+const evolvedGrade = (block: SolvedBlock, level: number): SovereignGrade | undefined => {
+  const history = block.advancementHistory || [];
+  const index = history.findIndex(advance => advance.level === level);
+  if (index === -1 || !history[index].hash || !isTrustedGrader(history[index].gradedBy)) return undefined;
+  return history[index + 1]?.previousGrade ?? block.grade;
+};
+
+export const miningUnitKey = (blockId: string): string => `MINING:${blockId}`;
+
+export const evolutionUnitKey = (blockId: string, level: number): string => `EVOLUTION:${blockId}:${level}`;
+
+/**
+ * Units a block earned: the mining magnitude of its sealed grade and the evolution
+ * magnitude of every level it reached, counting trusted graders only.
+ * SolvedBlock.reward is not covered by the block hash, so it is never trusted.
+ */
+export const accrualUnits = (block: SolvedBlock): AccrualUnit[] => {
+  const units: AccrualUnit[] = [];
+  const grade = minedGrade(block);
+  if (grade && MINING_MAGNITUDE_QBS[grade] > 0) {
+    units.push({ key: miningUnitKey(block.id), blockId: block.id, grade, amount: MINING_MAGNITUDE_QBS[grade] });
+  }
+  for (let level = 2; level <= (block.advancementLevel || 1); level++) {
+    const reached = evolvedGrade(block, level);
+    if (reached && EVOLUTION_MAGNITUDE_QBS[reached] > 0) {
+      units.push({ key: evolutionUnitKey(block.id, level), blockId: block.id, grade: reached, amount: EVOLUTION_MAGNITUDE_QBS[reached] });
+    }
+  }
+  return units;
+};
+
+/**
+ * QBS a block earned over all of its units
+ */
+export const blockAccrual = (block: SolvedBlock): number =>
+  accrualUnits(block).reduce((sum, unit) => sum + unit.amount, 0);
+
+/**
+ * Units of the sealed blocks of a node's chain that verify; blocks from the first
+ * break on, and legacy blocks without a seal, earn nothing
+ */
+export const verifiedUnits = async (user: User, registryBlocks?: SolvedBlock[]): Promise<AccrualUnit[]> => {
+  const blocks = user.solvedBlocks || [];
+  const chain = await verifyChain(blocks, user.address, registryBlocks);
+  const trusted = chain.valid ? blocks : blocks.slice(0, chain.firstBreak!.index);
+  return trusted.filter(block => block.minerAddress).flatMap(accrualUnits);
+};
+
+const unitWei = (units: AccrualUnit[]): bigint =>
+  units.reduce((sum, unit) => sum + ethers.parseEther(unit.amount.toFixed(9)), 0n);
+
+/**
+ * Wei a node accrued over its verified units
+ */
+export const verifiedAccrual = async (user: User, registryBlocks?: SolvedBlock[]): Promise<bigint> =>
+  unitWei(await verifiedUnits(user, registryBlocks));
+
+/**
+ * Whether an epoch already rolled up a node's unit. Leaves from before units were
+ * recorded cover the node's whole accrual.
+ */
+export const epochIncludesUnit = (epoch: RewardEpoch | null, latticeAddress: string, key: string): boolean => {
+  const leaf = epoch?.leaves.find(l => l.nodeId === rewardNodeId(latticeAddress));
+  return !!leaf && (!leaf.units || leaf.units.includes(key));
+};
+
+/**
+ * QBS accrued to each node's verified units, in wei, payable to its current payout
+ * address, leaving out the units the relayer pays. Leaves stay per node so a claim
+ * is never counted against another node's, and nodes without a linked payout wallet
+ * are left out until they link one.
+ */
+export const aggregateAccruals = async (users: User[], relayed: Set<string> = new Set()): Promise<RewardEpochLeaf[]> => {
+  const registryBlocks = users.flatMap(user => user.solvedBlocks || []);
+  const leaves: RewardEpochLeaf[] = [];
+  for (const user of users) {
+    if (!user.payoutAddress || !ethers.isAddress(user.payoutAddress)) continue;
+    const units = (await verifiedUnits(user, registryBlocks)).filter(unit => !relayed.has(unit.key));
+    const accrued = unitWei(units);
+    if (accrued > 0n) {
+      leaves.push({
+        nodeId: rewardNodeId(user.address),
+        account: ethers.getAddress(user.payoutAddress),
+        cumulativeWei: accrued.toString(),
+        units: units.map(unit => unit.key)
+      });
+    }
+  }
+  return leaves.sort((a, b) => a.nodeId.localeCompare(b.nodeId));
+};
+
+/**
+ * Proof for one lattice node in an epoch, or null when it has no leaf
+ */
+export const getRewardProof = (epoch: RewardEpoch, latticeAddress: string): RewardProof | null => {
+  const nodeId = rewardNodeId(latticeAddress);
+  const leaf = epoch.leaves.find(l => l.nodeId === nodeId);
+  if (!leaf) return null;
+  return { ...leaf, proof: merkleProof(epoch.leaves.map(leafHash), leafHash(leaf)) };
+};
+
+/**
+ * Reward Epoch Service
+ * Rolls accruals into a new epoch and publishes its root
+ */
+export class RewardEpochService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<RewardEpoch | null> | null = null;
+  private settling: Promise<unknown> = Promise.resolve();
+
+  constructor(private backend: RewardEpochBackend, private publisher?: RewardRootPublisher) {}
+
+  /**
+   * Latest stored epoch
+   */
+  public async getLatestEpoch(): Promise<RewardEpoch | null> {
+    return this.backend.getRewardEpoch();
+  }
+
+  /**
+   * Build the next epoch from current accruals and publish it. Returns null when
+   * nothing accrued since the last epoch.
+   */
+  public async runEpoch(now: number = Date.now()): Promise<RewardEpoch | null> {
+    if (this.running) return this.running;
+    this.running = this.exclusive(() => this.buildAndPublish(now)).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Run fn with no epoch being built meanwhile; the relayer queues its claims through
+   * this so a unit cannot be relayed while an epoch rolls it up
+   */
+  public exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.settling.then(fn);
+    this.settling = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Run an epoch on an interval until stopped
+   */
+  public start(intervalMs: number = REWARD_EPOCH_CONFIG.INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runEpoch().catch(error => console.error('Reward epoch failed:', error));
+    }, intervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.running) await this.running;
+  }
+
+  private async buildAndPublish(now: number): Promise<RewardEpoch | null> {
+    const previous = await this.backend.getRewardEpoch();
+    const relayed = new Set((await this.backend.getRelayedClaims())
+      .filter(claim => claim.status !== 'FAILED')
+      .map(claim => claim.key));
+    const leaves = await aggregateAccruals(await this.backend.getAllUsers(), relayed);
+    const root = merkleRoot(leaves.map(leafHash));
+    if (leaves.length === 0 || previous?.root === root) {
+      return null;
+    }
+
+    const epoch: RewardEpoch = {
+      epoch: (previous?.epoch || 0) + 1,
+      root,
+      totalWei: leaves.reduce((sum, leaf) => sum + BigInt(leaf.cumulativeWei), 0n).toString(),
+      leaves,
+      createdAt: new Date(now).toISOString()
+    };
+
+    if (this.publisher) {
+      const tx = await this.publisher.publishRewardsRoot(epoch.epoch, root);
+      const receipt = await tx.wait();
+      if (receipt?.status !== 1) {
+        throw new Error(`Reward epoch ${epoch.epoch} rejected: root publication reverted`);
+      }
+      epoch.publishedTxHash = tx.hash;
+    }
+
+    await this.backend.saveRewardEpoch(epoch);
+    return epoch;
+  }
+}
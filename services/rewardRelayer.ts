@@ -0,0 +1,296 @@
+/**
+ * Reward Minting Relayer
+ * QBSToken only lets authorized miners mint, so rewards cannot be minted from the
+ * end user's wallet. The relayer holds an authorized-miner key, accepts reward
+ * claims signed by the recipient wallet, checks them against the owner's stored
+ * SolvedBlock, and submits mintMiningReward / mintEvolutionReward in batches.
+ * Amounts are the same accrual units the reward epochs roll up; a unit the relayer
+ * mints is left out of every epoch and a unit an epoch rolled up is never relayed.
+ */
+
+import { ethers } from 'ethers';
+import { RelayedClaim, RewardClaim, SolvedBlock, User } from '../types';
+import { verifyChain } from './blockHashing';
+import {
+  AccrualUnit,
+  MintTransaction,
+  RewardEpochService,
+  accrualUnits,
+  epochIncludesUnit,
+  evolutionUnitKey,
+  miningUnitKey
+} from './rewardEpochs';
+
+export const RELAYER_CONFIG = {
+  BATCH_SIZE: 10,
+  FLUSH_INTERVAL_MS: 15000,
+  // Signed claims older than this are refused so a stale signature cannot be replayed
+  CLAIM_TTL_MS: 15 * 60 * 1000
+};
+
+// Only the functions the authorized-miner key calls
+const MINTER_ABI = [
+  "function mintMiningReward(address to, uint256 amount, string blockId, string grade) returns (bool)",
+  "function mintEvolutionReward(address to, uint256 amount, string blockId, uint256 newLevel) returns (bool)",
+  "function publishRewardsRoot(uint256 epoch, bytes32 root)",
+  "function isAuthorizedMiner(address miner) view returns (bool)"
+];
+
+export interface SignedRewardClaim {
+  claim: RewardClaim;
+  signature: string;
+}
+
+/**
+ * Contract calls the relayer submits; an ethers Contract connected to the miner wallet
+ */
+export interface RewardMinter {
+  mintMiningReward(to: string, amount: bigint, blockId: string, grade: string): Promise<MintTransaction>;
+  mintEvolutionReward(to: string, amount: bigint, blockId: string, newLevel: number): Promise<MintTransaction>;
+}
+
+/**
+ * Relayed claims are persisted so a restart neither forgets a mint nor lets an
+ * epoch pay it again
+ */
+export interface RelayerStore {
+  getUserByAddress(address: string): Promise<User | null>;
+  getAllUsers(): Promise<User[]>;
+  getRelayedClaims(): Promise<RelayedClaim[]>;
+  saveRelayedClaim(relayed: RelayedClaim): Promise<void>;
+}
+
+export interface RewardRelayerOptions {
+  store: RelayerStore;
+  minter: RewardMinter;
+  // The epoch service over the same store, which owns every unit the relayer does not
+  epochs: RewardEpochService;
+  batchSize?: number;
+}
+
+/**
+ * QBSToken connected to an authorized-miner key. Share one instance between the
+ * relayer and reward epochs so their transactions draw from a single nonce sequence.
+ */
+export const connectMinerContract = async (rpcUrl: string, privateKey: string, contractAddress: string): Promise<ethers.Contract> => {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const wallet = new ethers.Wallet(privateKey, provider);
+  const contract = new ethers.Contract(contractAddress, MINTER_ABI, new ethers.NonceManager(wallet));
+  if (!(await contract.isAuthorizedMiner(wallet.address))) {
+    throw new Error(`Relayer key ${wallet.address} is not an authorized miner on ${contractAddress}`);
+  }
+  return contract;
+};
+
+/**
+ * Canonical text the recipient wallet signs for a claim
+ */
+export const rewardClaimMessage = (claim: RewardClaim): string => [
+  'Sovereign Lattice reward claim',
+  `Type: ${claim.type}`,
+  `Block: ${claim.blockId}`,
+  `Owner: ${claim.owner}`,
+  `Recipient: ${claim.recipient}`,
+  `Grade: ${claim.grade || '-'}`,
+  `Level: ${claim.newLevel ?? '-'}`,
+  `Issued: ${new Date(claim.issuedAt).toISOString()}`
+].join('\n');
+
+/**
+ * Accrual unit a claim pays: one mint per block, and per level for evolutions
+ */
+export const claimKey = (claim: RewardClaim): string =>
+  claim.type === 'MINING' ? miningUnitKey(claim.blockId) : evolutionUnitKey(claim.blockId, claim.newLevel!);
+
+/**
+ * Check a claim against the owner's sealed chain and return the accrual unit it
+ * entitles the recipient to
+ */
+export const verifyRewardClaim = async (claim: RewardClaim, owner: User, registryBlocks?: SolvedBlock[]): Promise<AccrualUnit> => {
+  const blocks = owner.solvedBlocks || [];
+  const index = blocks.findIndex(block => block.id === claim.blockId);
+  if (index === -1) {
+    throw new Error(`Claim rejected: block ${claim.blockId} not found for ${owner.address}`);
+  }
+  const chain = await verifyChain(blocks, owner.address, registryBlocks);
+  if (!chain.valid && chain.firstBreak!.index <= index) {
+    throw new Error(`Claim rejected: chain of ${owner.address} is broken at ${chain.firstBreak!.blockId}`);
+  }
+  const block = blocks[index];
+  if (!block.minerAddress) {
+    throw new Error(`Claim rejected: block ${block.id} predates sealing and cannot be verified`);
+  }
+  if (claim.type === 'EVOLUTION' && (!claim.newLevel || claim.newLevel < 2 || claim.newLevel > (block.advancementLevel || 1))) {
+    throw new Error(`Claim rejected: block ${block.id} has not reached level ${claim.newLevel}`);
+  }
+
+  const key = claimKey(claim);
+  const unit = accrualUnits(block).find(u => u.key === key);
+  if (!unit) {
+    throw new Error(`Claim rejected: ${key} earns no on-chain reward`);
+  }
+  if (claim.type === 'MINING' && unit.grade !== claim.grade) {
+    throw new Error(`Claim rejected: block ${block.id} was graded ${unit.grade}, not ${claim.grade}`);
+  }
+  return unit;
+};
+
+/**
+ * Reward Relayer
+ * Verifies signed claims, queues them in the store and mints them in batches from
+ * the miner key
+ */
+export class RewardRelayer {
+  private store: RelayerStore;
+  private minter: RewardMinter;
+  private epochs: RewardEpochService;
+  private batchSize: number;
+  private flushing: Promise<RelayedClaim[]> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: RewardRelayerOptions) {
+    this.store = options.store;
+    this.minter = options.minter;
+    this.epochs = options.epochs;
+    this.batchSize = options.batchSize || RELAYER_CONFIG.BATCH_SIZE;
+  }
+
+  /**
+   * Verify a signed claim and queue it for minting
+   */
+  public async submit(signed: SignedRewardClaim, now: number = Date.now()): Promise<RelayedClaim> {
+    const { claim, signature } = signed;
+    if (!claim || typeof signature !== 'string') {
+      throw new Error('Claim rejected: claim and signature are required');
+    }
+    if (claim.type !== 'MINING' && claim.type !== 'EVOLUTION') {
+      throw new Error('Claim rejected: type must be MINING or EVOLUTION');
+    }
+    if (!ethers.isAddress(claim.recipient)) {
+      throw new Error('Claim rejected: recipient is not a valid address');
+    }
+    if (!(claim.issuedAt <= now + 60000 && now - claim.issuedAt <= RELAYER_CONFIG.CLAIM_TTL_MS)) {
+      throw new Error('Claim rejected: signature has expired');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(rewardClaimMessage(claim), signature);
+    } catch {
+      throw new Error('Claim rejected: invalid signature');
+    }
+    if (signer.toLowerCase() !== claim.recipient.toLowerCase()) {
+      throw new Error('Claim rejected: not signed by the recipient');
+    }
+
+    const key = claimKey(claim);
+    return this.epochs.exclusive(async () => {
+      const existing = (await this.store.getRelayedClaims()).find(relayed => relayed.key === key && relayed.status !== 'FAILED');
+      if (existing) {
+        throw new Error(`Claim rejected: ${key} was already relayed`);
+      }
+      const epoch = await this.epochs.getLatestEpoch();
+      if (epochIncludesUnit(epoch, claim.owner, key)) {
+        throw new Error(`Claim rejected: ${key} is already claimable through reward epoch ${epoch!.epoch}`);
+      }
+
+      const owner = await this.store.getUserByAddress(claim.owner);
+      if (!owner) throw new Error(`Claim rejected: unknown account ${claim.owner}`);
+      const registryBlocks = (await this.store.getAllUsers()).flatMap(user => user.solvedBlocks || []);
+      const unit = await verifyRewardClaim(claim, owner, registryBlocks);
+
+      const relayed: RelayedClaim = {
+        id: `RLY-${now.toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+        key,
+        claim,
+        amount: unit.amount.toFixed(9),
+        status: 'QUEUED',
+        queuedAt: now
+      };
+      await this.store.saveRelayedClaim(relayed);
+      return relayed;
+    });
+  }
+
+  /**
+   * Current state of a relayed claim
+   */
+  public async getClaim(id: string): Promise<RelayedClaim | null> {
+    return (await this.store.getRelayedClaims()).find(relayed => relayed.id === id) || null;
+  }
+
+  /**
+   * Submit the next batch of queued claims and wait for their receipts. Transactions
+   * in a batch go out back to back on consecutive nonces before any is awaited.
+   */
+  public async flush(): Promise<RelayedClaim[]> {
+    if (this.flushing) return this.flushing;
+    this.flushing = this.submitBatch().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Flush on an interval until stopped
+   */
+  public start(intervalMs: number = RELAYER_CONFIG.FLUSH_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch(error => console.error('Reward relayer flush failed:', error));
+    }, intervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.flushing) await this.flushing;
+  }
+
+  private async submitBatch(): Promise<RelayedClaim[]> {
+    const batch = (await this.store.getRelayedClaims())
+      .filter(relayed => relayed.status === 'QUEUED')
+      .sort((a, b) => a.queuedAt - b.queuedAt)
+      .slice(0, this.batchSize);
+
+    const sent: [RelayedClaim, MintTransaction][] = [];
+    for (const relayed of batch) {
+      try {
+        const { claim } = relayed;
+        const amountWei = ethers.parseEther(relayed.amount);
+        const tx = claim.type === 'MINING'
+          ? await this.minter.mintMiningReward(claim.recipient, amountWei, claim.blockId, claim.grade!)
+          : await this.minter.mintEvolutionReward(claim.recipient, amountWei, claim.blockId, claim.newLevel!);
+        relayed.status = 'SUBMITTED';
+        relayed.transactionHash = tx.hash;
+        relayed.submittedAt = Date.now();
+        sent.push([relayed, tx]);
+      } catch (error: any) {
+        relayed.status = 'FAILED';
+        relayed.error = error.shortMessage || error.message || 'Submission failed';
+      }
+      await this.store.saveRelayedClaim(relayed);
+    }
+
+    await Promise.all(sent.map(async ([relayed, tx]) => {
+      try {
+        const receipt = await tx.wait();
+        if (receipt?.status === 1) {
+          relayed.status = 'CONFIRMED';
+          relayed.confirmedAt = Date.now();
+        } else {
+          relayed.status = 'FAILED';
+          relayed.error = 'Transaction reverted';
+        }
+      } catch (error: any) {
+        // The mint may still land, so the claim stays SUBMITTED and out of the epochs
+        relayed.error = error.shortMessage || error.message || 'Receipt unavailable';
+      }
+      await this.store.saveRelayedClaim(relayed);
+    }));
+
+    return batch;
+  }
+}
@@ -1,5 +1,9 @@
-import { deepSeekClient, DeepSeekClient, MiningEvaluationRequest, MiningEvaluationResponse, EvolutionRequest, EvolutionResponse, ProgressCallback } from './deepSeekClient';
+import { deepSeekClient, MiningEvaluationRequest, MiningEvaluationResponse, EvolutionRequest, EvolutionResponse, ProgressCallback } from './deepSeekClient';
 import { apiKeyManager } from './apiKeyManager';
+import type { EvaluationProvider } from './evaluationProvider';
+import { assessScientificText } from './offlineEvaluationProvider';
+import { AIResponseValidationError } from './aiResponseSchemas';
+import { ReviewPanelOptions, ConsensusEvaluationResponse, PanelQuorumError, aggregateReviews, panelQuorum } from './consensusGrading';
 
 export interface DeepSeekServiceStatus {
   isAvailable: boolean;
@@ -41,7 +45,7 @@ export type NotificationCallback = (notification: SafeDeepSeekNotification) => v
  * Provides graceful degradation when DeepSeek API is unavailable
  */
 export class SafeDeepSeekClient {
-  private client: DeepSeekClient;
+  private client: EvaluationProvider;
   private status: DeepSeekServiceStatus;
   private notificationCallback?: NotificationCallback;
   private initializationPromise?: Promise<void>;
@@ -63,6 +67,25 @@ export class SafeDeepSeekClient {
     };
   }
 
+  /**
+   * Route evaluations through another provider; it is initialized on next use
+   */
+  public setProvider(provider: EvaluationProvider): void {
+    if (provider === this.client) {
+      return;
+    }
+    this.client = provider;
+    this.initializationPromise = undefined;
+    this.lastHealthCheck = 0;
+  }
+
+  /**
+   * Provider evaluations are currently routed through
+   */
+  public getProvider(): EvaluationProvider {
+    return this.client;
+  }
+
   /**
    * Set notification callback for user feedback
    */
@@ -238,12 +261,14 @@ export class SafeDeepSeekClient {
   }
 
   /**
-   * Evaluate mining breakthrough with fallback
+   * Evaluate mining breakthrough with fallback. With a panel, every reviewer grades
+   * independently and the consensus is returned with their individual reviews.
    */
   public async evaluateMiningBreakthrough(
     request: MiningEvaluationRequest,
-    progressCallback?: ProgressCallback
-  ): Promise<MiningEvaluationResponse | FallbackEvaluationResponse> {
+    progressCallback?: ProgressCallback,
+    panel?: ReviewPanelOptions
+  ): Promise<MiningEvaluationResponse | ConsensusEvaluationResponse | FallbackEvaluationResponse> {
     await this.initialize();
     await this.performHealthCheckIfNeeded();
 
@@ -253,9 +278,30 @@ export class SafeDeepSeekClient {
 
     try {
       progressCallback?.({ stage: 'api_init', message: 'Connecting to DeepSeek API...' });
+      if (panel && panel.reviewers.length > 0) {
+        return await this.convenePanel(request, panel, progressCallback);
+      }
       return await this.client.evaluateMiningBreakthrough(request, progressCallback);
     } catch (error: any) {
       console.warn('DeepSeek evaluation failed, using fallback:', error);
+
+      // The provider answered, just not with a usable response: fall back for this call only
+      if (error instanceof AIResponseValidationError) {
+        this.notifyUser({
+          type: 'fallback',
+          title: 'Using Fallback Evaluation',
+          message: `${this.client.name} returned a malformed response. Using local evaluation system.`
+        });
+        return this.generateFallbackEvaluation(request, error.message);
+      }
+      if (error instanceof PanelQuorumError) {
+        this.notifyUser({
+          type: 'fallback',
+          title: 'Using Fallback Evaluation',
+          message: `Only ${error.answered} of ${error.panelSize} reviewers answered. Using local evaluation system.`
+        });
+        return this.generateFallbackEvaluation(request, error.message);
+      }
       
       // Update status to indicate API issues
       this.status.fallbackMode = true;
@@ -271,6 +317,37 @@ export class SafeDeepSeekClient {
     }
   }
 
+  /**
+   * Run the panel's reviewers in parallel and aggregate whoever answered; throws the
+   * first failure when no reviewer did, and PanelQuorumError when less than a
+   * majority did
+   */
+  private async convenePanel(
+    request: MiningEvaluationRequest,
+    panel: ReviewPanelOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<ConsensusEvaluationResponse> {
+    const results = await Promise.allSettled(panel.reviewers.map((reviewer, index) => {
+      progressCallback?.({ stage: 'review', message: `Reviewer ${index + 1}/${panel.reviewers.length} (${reviewer.role}) grading...` });
+      return this.client.evaluateMiningBreakthrough({ ...request, reviewer });
+    }));
+
+    const evaluations = results.flatMap((result, index) =>
+      result.status === 'fulfilled' ? [{ role: panel.reviewers[index].role, evaluation: result.value }] : []
+    );
+    if (evaluations.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    if (evaluations.length < panelQuorum(panel.reviewers.length)) {
+      throw new PanelQuorumError(evaluations.length, panel.reviewers.length);
+    }
+    if (evaluations.length < panel.reviewers.length) {
+      console.warn(`Review panel: ${panel.reviewers.length - evaluations.length} of ${panel.reviewers.length} reviewers failed`);
+    }
+
+    return aggregateReviews(evaluations, panel.aggregation, panel.reviewers.length);
+  }
+
   /**
    * Evolve breakthrough with fallback
    */
@@ -290,6 +367,16 @@ export class SafeDeepSeekClient {
       return await this.client.evolveBreakthrough(request, progressCallback);
     } catch (error: any) {
       console.warn('DeepSeek evolution failed, using fallback:', error);
+
+      // The provider answered, just not with a usable response: fall back for this call only
+      if (error instanceof AIResponseValidationError) {
+        this.notifyUser({
+          type: 'fallback',
+          title: 'Using Fallback Evolution',
+          message: `${this.client.name} returned a malformed response. Using simplified evolution system.`
+        });
+        return this.generateFallbackEvolution(request, error.message);
+      }
       
       // Update status to indicate API issues
       this.status.fallbackMode = true;
@@ -313,24 +400,7 @@ export class SafeDeepSeekClient {
     errorReason?: string
   ): FallbackEvaluationResponse {
     // Simple heuristic-based evaluation
-    const problemLength = request.problem.length;
-    const hasFormula = /[=∫∂∇∆∑∏]/g.test(request.problem);
-    const hasConstants = /[π𝜋ℏħ𝑐𝐺𝑘]/g.test(request.problem) || /planck|speed.*light|gravity|boltzmann/i.test(request.problem);
-    const hasComplexMath = /\b(quantum|relativity|entropy|eigenvalue|hamiltonian|lagrangian)\b/i.test(request.problem);
-
-    let grade: 'S' | 'A' | 'B' | 'C' = 'C';
-    let score = 1.0;
-
-    if (hasComplexMath && hasFormula && hasConstants && problemLength > 200) {
-      grade = 'A';
-      score = 4.0;
-    } else if ((hasFormula && hasConstants) || (hasComplexMath && problemLength > 100)) {
-      grade = 'B';
-      score = 2.0;
-    } else if (problemLength > 50) {
-      grade = 'C';
-      score = 1.0;
-    }
+    const { grade, score, hasFormula, hasConstants } = assessScientificText(request.problem);
 
     return {
       grade,
@@ -0,0 +1,167 @@
+/**
+ * Similarity Index
+ * Local near-duplicate detection over the registry's SolvedBlock texts: word
+ * shingles, MinHash signatures to screen candidates, and exact Jaccard similarity
+ * to decide. Nothing leaves the browser.
+ */
+
+import { SolvedBlock, SovereignGrade } from '../types';
+
+export type OriginalityVerdict = 'original' | 'downgrade' | 'reject';
+
+export interface SimilarityMatch {
+  blockId: string;
+  field: 'problem' | 'explanation';
+  similarity: number;
+}
+
+export interface OriginalityCheck {
+  verdict: OriginalityVerdict;
+  match?: SimilarityMatch;
+}
+
+export const SIMILARITY_CONFIG = {
+  SHINGLE_SIZE: 3,
+  NUM_HASHES: 64,
+  // Jaccard similarity at which a submission loses one grade tier, or is refused
+  DOWNGRADE_THRESHOLD: 0.5,
+  REJECT_THRESHOLD: 0.8,
+  // Signature agreement worth an exact comparison; MinHash error is about 1/sqrt(NUM_HASHES)
+  CANDIDATE_MARGIN: 0.15
+};
+
+interface IndexedText {
+  text: string;
+  shingles: Set<string>;
+  signature: Uint32Array;
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// 32-bit FNV-1a, salted per hash function
+const fnv1a = (text: string, seed: number): number => {
+  let hash = (FNV_OFFSET ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME) >>> 0;
+  }
+  return hash;
+};
+
+const SEEDS = Array.from({ length: SIMILARITY_CONFIG.NUM_HASHES }, (_, i) => fnv1a(`minhash-${i}`, 0));
+
+/**
+ * Word k-shingles of the text, ignoring case, punctuation and spacing; texts shorter
+ * than k words become a single shingle
+ */
+export const shingle = (text: string, size: number = SIMILARITY_CONFIG.SHINGLE_SIZE): Set<string> => {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const shingles = new Set<string>();
+  if (words.length === 0) return shingles;
+  for (let i = 0; i + size <= Math.max(words.length, size); i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+};
+
+export const minHashSignature = (shingles: Set<string>): Uint32Array => {
+  const signature = new Uint32Array(SIMILARITY_CONFIG.NUM_HASHES).fill(0xffffffff);
+  for (const item of shingles) {
+    for (let i = 0; i < SEEDS.length; i++) {
+      const hash = fnv1a(item, SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+};
+
+const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+};
+
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+};
+
+// Near-duplicates keep at most the tier below what the panel awarded
+const DOWNGRADED: Record<SovereignGrade, SovereignGrade> = { S: 'A', A: 'B', B: 'C', C: 'C' };
+
+export const downgradeGrade = (grade: SovereignGrade): SovereignGrade => DOWNGRADED[grade];
+
+const indexText = (text: string): IndexedText => {
+  const shingles = shingle(text);
+  return { text, shingles, signature: minHashSignature(shingles) };
+};
+
+/**
+ * Similarity Index
+ * Signatures are cached per block field and recomputed only when the text changes
+ * (evolution rewrites explanations)
+ */
+export class SimilarityIndex {
+  private entries = new Map<string, IndexedText & Omit<SimilarityMatch, 'similarity'>>();
+
+  /**
+   * Bring the index in line with the registry's blocks
+   */
+  public sync(blocks: SolvedBlock[]): void {
+    const live = new Set<string>();
+    for (const block of blocks) {
+      for (const field of ['problem', 'explanation'] as const) {
+        const text = block[field];
+        if (!text) continue;
+        const key = `${block.id}:${field}`;
+        live.add(key);
+        if (this.entries.get(key)?.text !== text) {
+          this.entries.set(key, { ...indexText(text), blockId: block.id, field });
+        }
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (!live.has(key)) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * The indexed text most similar to `text`, if any clears the downgrade threshold
+   */
+  public findNearest(text: string): SimilarityMatch | undefined {
+    const query = indexText(text);
+    let best: SimilarityMatch | undefined;
+    for (const entry of this.entries.values()) {
+      if (estimateSimilarity(query.signature, entry.signature) < SIMILARITY_CONFIG.DOWNGRADE_THRESHOLD - SIMILARITY_CONFIG.CANDIDATE_MARGIN) {
+        continue;
+      }
+      const similarity = jaccard(query.shingles, entry.shingles);
+      if (similarity >= SIMILARITY_CONFIG.DOWNGRADE_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+        best = { blockId: entry.blockId, field: entry.field, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Verdict for a submission against everything mined so far
+   */
+  public checkOriginality(text: string, blocks: SolvedBlock[]): OriginalityCheck {
+    this.sync(blocks);
+    const match = this.findNearest(text);
+    if (!match) {
+      return { verdict: 'original' };
+    }
+    return { verdict: match.similarity >= SIMILARITY_CONFIG.REJECT_THRESHOLD ? 'reject' : 'downgrade', match };
+  }
+}
+
+// Singleton instance
+export const similarityIndex = new SimilarityIndex();
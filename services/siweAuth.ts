@@ -0,0 +1,209 @@
+/**
+ * Sign-In with Ethereum (EIP-4361)
+ * Issues single-use expiring nonces, verifies signed SIWE messages and maps the
+ * recovered wallet onto the lattice node that linked it
+ */
+
+import { ethers } from 'ethers';
+import { User } from '../types';
+import { getAllUsers } from './db';
+import { walletConnector } from './walletConnector';
+
+export const SIWE_CONFIG = {
+  NONCE_TTL_MS: 5 * 60 * 1000,
+  VERSION: '1',
+  STATEMENT: 'Sign in to the Quantum Secure Lattice.'
+};
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+// Origin this page signs challenges for; wallets display it so a phishing page cannot reuse one
+export const SIWE_ORIGIN = {
+  domain: typeof window !== 'undefined' ? window.location.host : 'localhost',
+  uri: typeof window !== 'undefined' ? window.location.origin : 'http://localhost'
+};
+
+/**
+ * Where sign-in looks up nodes by linked wallet
+ */
+export interface SiweUserBackend {
+  getAllUsers(): Promise<User[]>;
+}
+
+/**
+ * Render a message in the EIP-4361 text format wallets display to the user
+ */
+export const formatSiweMessage = (message: SiweMessage): string => [
+  `${message.domain} wants you to sign in with your Ethereum account:`,
+  message.address,
+  '',
+  message.statement,
+  '',
+  `URI: ${message.uri}`,
+  `Version: ${message.version}`,
+  `Chain ID: ${message.chainId}`,
+  `Nonce: ${message.nonce}`,
+  `Issued At: ${message.issuedAt}`,
+  `Expiration Time: ${message.expirationTime}`
+].join('\n');
+
+const SIWE_PATTERN = new RegExp([
+  '^(?<domain>\\S+) wants you to sign in with your Ethereum account:',
+  '(?<address>0x[a-fA-F0-9]{40})',
+  '',
+  '(?<statement>[^\\n]*)',
+  '',
+  'URI: (?<uri>\\S+)',
+  'Version: (?<version>\\S+)',
+  'Chain ID: (?<chainId>\\d+)',
+  'Nonce: (?<nonce>[a-zA-Z0-9]{8,})',
+  'Issued At: (?<issuedAt>\\S+)',
+  'Expiration Time: (?<expirationTime>\\S+)$'
+].join('\\n'));
+
+/**
+ * Parse a signed EIP-4361 message back into its fields
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const groups = SIWE_PATTERN.exec(text)?.groups;
+  if (!groups) {
+    throw new Error('SIWE challenge rejected: malformed message');
+  }
+  return {
+    domain: groups.domain,
+    address: groups.address,
+    statement: groups.statement,
+    uri: groups.uri,
+    version: groups.version,
+    chainId: Number(groups.chainId),
+    nonce: groups.nonce,
+    issuedAt: groups.issuedAt,
+    expirationTime: groups.expirationTime
+  };
+};
+
+/**
+ * SIWE Auth Service
+ * Nonces live in memory only, so a challenge cannot outlive the page that issued it
+ */
+export class SiweAuthService {
+  private nonces: Map<string, number> = new Map();
+
+  constructor(
+    private backend: SiweUserBackend,
+    private domain: string,
+    private uri: string
+  ) {}
+
+  /**
+   * Issue a challenge for a wallet; its nonce expires after NONCE_TTL_MS
+   */
+  public createChallenge(
+    address: string,
+    chainId: number,
+    now: number = Date.now(),
+    statement: string = SIWE_CONFIG.STATEMENT
+  ): SiweMessage {
+    if (!ethers.isAddress(address)) {
+      throw new Error('SIWE challenge rejected: invalid wallet address');
+    }
+    this.pruneNonces(now);
+
+    const nonce = ethers.hexlify(ethers.randomBytes(16)).slice(2);
+    const expiresAt = now + SIWE_CONFIG.NONCE_TTL_MS;
+    this.nonces.set(nonce, expiresAt);
+
+    return {
+      domain: this.domain,
+      address: ethers.getAddress(address),
+      statement,
+      uri: this.uri,
+      version: SIWE_CONFIG.VERSION,
+      chainId,
+      nonce,
+      issuedAt: new Date(now).toISOString(),
+      expirationTime: new Date(expiresAt).toISOString()
+    };
+  }
+
+  /**
+   * Verify a signed challenge issued by this service and return it with the
+   * checksummed signer. The nonce is consumed before any other check so a message
+   * can never be replayed.
+   */
+  public verifyChallenge(text: string, signature: string, now: number = Date.now()): SiweMessage {
+    const message = parseSiweMessage(text);
+
+    const nonceExpiresAt = this.nonces.get(message.nonce);
+    if (nonceExpiresAt === undefined) {
+      throw new Error('SIWE challenge rejected: nonce is unknown or already used');
+    }
+    this.nonces.delete(message.nonce);
+
+    if (nonceExpiresAt <= now || Date.parse(message.expirationTime) <= now) {
+      throw new Error('SIWE challenge rejected: nonce expired');
+    }
+    if (message.domain !== this.domain || message.uri !== this.uri || message.version !== SIWE_CONFIG.VERSION) {
+      throw new Error(`SIWE challenge rejected: message was issued for ${message.domain}`);
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(text, signature);
+    } catch {
+      throw new Error('SIWE challenge rejected: invalid signature');
+    }
+    if (signer !== ethers.getAddress(message.address)) {
+      throw new Error('SIWE challenge rejected: signature does not match the wallet address');
+    }
+    return { ...message, address: signer };
+  }
+
+  /**
+   * Verify a signed login challenge and return the node that linked the signing wallet
+   */
+  public async verifyLogin(text: string, signature: string, now: number = Date.now()): Promise<User> {
+    const { address } = this.verifyChallenge(text, signature, now);
+
+    const users = await this.backend.getAllUsers();
+    const user = users.find(u => (u.linkedWallets || []).some(wallet => wallet.address === address));
+    if (!user) {
+      throw new Error(`SIWE login rejected: no lattice node is linked to ${address}`);
+    }
+    return user;
+  }
+
+  /**
+   * Full wallet login: connect, sign the challenge with the current signer and verify it
+   */
+  public async signIn(): Promise<User> {
+    const state = await walletConnector.connect();
+    const signer = walletConnector.getCurrentSigner();
+    if (!signer || !state.address || !state.chainId) {
+      throw new Error('SIWE login rejected: wallet not connected');
+    }
+
+    const text = formatSiweMessage(this.createChallenge(state.address, state.chainId));
+    const signature = await signer.signMessage(text);
+    return this.verifyLogin(text, signature);
+  }
+
+  private pruneNonces(now: number): void {
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) this.nonces.delete(nonce);
+    }
+  }
+}
+
+// Singleton instance
+export const siweAuth = new SiweAuthService({ getAllUsers }, SIWE_ORIGIN.domain, SIWE_ORIGIN.uri);
@@ -0,0 +1,181 @@
+/**
+ * Lattice Staking
+ * Bonds liquid QBS into the user's stake account, accrues yield on the bonded
+ * amount into YIELD transactions, and returns unstaked QBS only after the
+ * unbonding period. Every step is a ledger entry, so User.stakedBalance and
+ * User.unbondingBalance always agree with the postings.
+ */
+
+import { User, Transaction, UnbondingEntry } from '../types';
+import { QBS_UNITS } from './quantumLogic';
+import { productionDB } from './productionDatabase';
+import {
+  LedgerBackend,
+  LedgerService,
+  SYSTEM_ACCOUNTS,
+  LEDGER_SCALE,
+  movement,
+  stakeAccount,
+  unbondingAccount,
+  userAccount,
+  toLedgerUnits,
+  fromLedgerUnits
+} from './ledger';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const STAKING_CONFIG = {
+  APY: 0.124,
+  UNBONDING_PERIOD_MS: 7 * 24 * 60 * 60 * 1000,
+  // How often the app accrues yield and releases matured unbonding
+  SETTLEMENT_INTERVAL_MS: 60000,
+  MIN_STAKE_QBS: 1 / LEDGER_SCALE
+};
+
+/**
+ * Quarks of QBS a user can commit to governance: liquid plus staked
+ */
+export const votingPowerQuarks = (user: User): number =>
+  Math.round((user.balance + (user.stakedBalance || 0)) * QBS_UNITS.QRK);
+
+/**
+ * Yield (QBS) earned by a bonded amount over a period, floored to whole ledger units
+ */
+export const calculateYield = (stakedBalance: number, fromMs: number, toMs: number, apy: number = STAKING_CONFIG.APY): number => {
+  if (!(stakedBalance > 0) || toMs <= fromMs) return 0;
+  const earned = stakedBalance * apy * (toMs - fromMs) / YEAR_MS;
+  return fromLedgerUnits(Math.floor(earned * LEDGER_SCALE));
+};
+
+/**
+ * Convert an amount entered in QBS, shards or quarks into QBS
+ */
+export const toQbs = (amount: number, unit: 'QBS' | 'SHD' | 'QRK'): number => {
+  if (unit === 'SHD') return amount / QBS_UNITS.SHD;
+  if (unit === 'QRK') return amount / QBS_UNITS.QRK;
+  return amount;
+};
+
+const stakingTransaction = (type: Transaction['type'], amount: number, description: string): Transaction => ({
+  id: `STK-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+  timestamp: new Date().toLocaleString(),
+  type,
+  amount: amount.toString(),
+  unit: 'QBS',
+  description
+});
+
+/**
+ * Staking Service
+ * Stake, unbond, release and yield entries posted through the ledger
+ */
+export class StakingService {
+  private ledger: LedgerService;
+
+  constructor(private backend: LedgerBackend) {
+    this.ledger = new LedgerService(backend);
+  }
+
+  /**
+   * Bond liquid QBS. Yield owed on the previous stake is paid first so the new
+   * amount only earns from now on.
+   */
+  public async stake(address: string, amount: number, now: number = Date.now()): Promise<User> {
+    if (!(amount >= STAKING_CONFIG.MIN_STAKE_QBS)) {
+      throw new Error('Stake rejected: amount must be positive');
+    }
+    await this.accrueYield(address, now);
+
+    const updated = await this.ledger.post({
+      description: 'Vault Commitment',
+      postings: movement(userAccount(address), stakeAccount(address), 'QBS', amount),
+      transactions: { [address]: [stakingTransaction('STAKE', amount, 'Vault Commitment')] },
+      userUpdates: { [address]: { stakeYieldAccruedAt: new Date(now).toISOString() } }
+    });
+    return updated[address];
+  }
+
+  /**
+   * Move bonded QBS into unbonding; it stops earning and returns to the liquid
+   * balance once the unbonding period has passed
+   */
+  public async unstake(address: string, amount: number, now: number = Date.now()): Promise<User> {
+    if (!(amount >= STAKING_CONFIG.MIN_STAKE_QBS)) {
+      throw new Error('Unstake rejected: amount must be positive');
+    }
+    const user = await this.accrueYield(address, now);
+    if (toLedgerUnits(amount) > toLedgerUnits(user.stakedBalance || 0)) {
+      throw new Error(`Unstake rejected: only ${user.stakedBalance || 0} QBS is staked`);
+    }
+
+    const entry: UnbondingEntry = {
+      id: `UNB-${now.toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+      amount,
+      requestedAt: new Date(now).toISOString(),
+      availableAt: new Date(now + STAKING_CONFIG.UNBONDING_PERIOD_MS).toISOString()
+    };
+    const updated = await this.ledger.post({
+      description: 'Vault Unbonding',
+      postings: movement(stakeAccount(address), unbondingAccount(address), 'QBS', amount),
+      transactions: { [address]: [stakingTransaction('STAKE', amount, `Vault Unbonding until ${new Date(entry.availableAt).toLocaleString()}`)] },
+      userUpdates: { [address]: { unbonding: [...(user.unbonding || []), entry] } }
+    });
+    return updated[address];
+  }
+
+  /**
+   * Credit yield earned since the last accrual to the liquid balance
+   */
+  public async accrueYield(address: string, now: number = Date.now()): Promise<User> {
+    const user = await this.backend.getUserByAddress(address);
+    if (!user) throw new Error(`Staking rejected: unknown account ${address}`);
+
+    const since = user.stakeYieldAccruedAt ? new Date(user.stakeYieldAccruedAt).getTime() : now;
+    const earned = calculateYield(user.stakedBalance || 0, since, now);
+    if (earned <= 0) return user;
+
+    const updated = await this.ledger.post({
+      description: 'Staking Yield',
+      postings: movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount(address), 'QBS', earned),
+      transactions: { [address]: [stakingTransaction('YIELD', earned, `Staking Yield (${(STAKING_CONFIG.APY * 100).toFixed(1)}% APY)`)] },
+      userUpdates: { [address]: { stakeYieldAccruedAt: new Date(now).toISOString() } }
+    });
+    return updated[address];
+  }
+
+  /**
+   * Return every unbonding entry whose period has passed to the liquid balance
+   */
+  public async releaseMatured(address: string, now: number = Date.now()): Promise<User> {
+    const user = await this.backend.getUserByAddress(address);
+    if (!user) throw new Error(`Staking rejected: unknown account ${address}`);
+
+    const entries = user.unbonding || [];
+    const matured = entries.filter(entry => new Date(entry.availableAt).getTime() <= now);
+    if (matured.length === 0) return user;
+
+    const amount = fromLedgerUnits(matured.reduce((sum, entry) => sum + toLedgerUnits(entry.amount), 0));
+    const updated = await this.ledger.post({
+      description: 'Vault Release',
+      postings: movement(unbondingAccount(address), userAccount(address), 'QBS', amount),
+      transactions: { [address]: [stakingTransaction('UNSTAKE', amount, `Vault Release (${matured.length} unbonded)`)] },
+      userUpdates: { [address]: { unbonding: entries.filter(entry => !matured.includes(entry)) } }
+    });
+    return updated[address];
+  }
+
+  /**
+   * Accrue yield and release matured unbonding in one pass. Returns the updated
+   * user, or null when nothing was due.
+   */
+  public async settle(address: string, now: number = Date.now()): Promise<User | null> {
+    const before = await this.backend.getUserByAddress(address);
+    if (!before) throw new Error(`Staking rejected: unknown account ${address}`);
+    await this.accrueYield(address, now);
+    const settled = await this.releaseMatured(address, now);
+    return settled.transactions.length === before.transactions.length ? null : settled;
+  }
+}
+
+// Singleton instance
+export const staking = new StakingService(productionDB);
@@ -352,7 +352,10 @@ export class WalletConnector {
     }
   }
 
-  public async estimateGas(transaction: TransactionRequest): Promise<string> {
+  /**
+   * Gas units the transaction is expected to use (not a price; see feeEstimator)
+   */
+  public async estimateGas(transaction: TransactionRequest): Promise<bigint> {
     if (!this.provider) {
       throw new Error('MetaMask is not installed');
     }
@@ -366,8 +369,8 @@ export class WalletConnector {
           data: transaction.data
         }]
       });
-      
-      return ethers.formatUnits(gasEstimate, 'gwei');
+
+      return BigInt(gasEstimate);
     } catch (error: any) {
       throw new Error(`Gas estimation failed: ${error.message}`);
     }
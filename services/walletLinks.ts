@@ -0,0 +1,118 @@
+/**
+ * Wallet Links
+ * Registry of external EVM wallets a node has proven it controls, per chain, with
+ * the designated payout address that reward mints and epoch claims go to
+ */
+
+import { ethers } from 'ethers';
+import { LinkedWallet, User } from '../types';
+import { getAllUsers } from './db';
+import { walletConnector } from './walletConnector';
+import { SiweAuthService, SiweUserBackend, SIWE_ORIGIN, formatSiweMessage } from './siweAuth';
+
+export const getLinkedWallets = (user: User): LinkedWallet[] => user.linkedWallets || [];
+
+/**
+ * Where a node's rewards go: its payout address, or on a chain where that address
+ * was never linked, the first wallet linked there. Null when nothing qualifies.
+ */
+export const getPayoutAddress = (user: User, chainId?: number | null): string | null => {
+  const wallets = getLinkedWallets(user).filter(wallet => chainId == null || wallet.chainId === chainId);
+  if (user.payoutAddress && wallets.some(wallet => wallet.address === user.payoutAddress)) {
+    return user.payoutAddress;
+  }
+  return chainId == null ? null : wallets[0]?.address || null;
+};
+
+// Binds a link signature to one node so it cannot be replayed onto another profile
+const linkStatement = (user: User): string => `Link this wallet to lattice node ${user.profileId}.`;
+
+/**
+ * Wallet Link Service
+ * Link challenges use their own nonces, so a link signature can never double as a login
+ */
+export class WalletLinkService {
+  private challenges: SiweAuthService;
+
+  constructor(private backend: SiweUserBackend, domain: string = SIWE_ORIGIN.domain, uri: string = SIWE_ORIGIN.uri) {
+    this.challenges = new SiweAuthService(backend, domain, uri);
+  }
+
+  /**
+   * EIP-4361 message the wallet must sign to be linked to the node on a chain
+   */
+  public createLinkChallenge(user: User, address: string, chainId: number, now: number = Date.now()): string {
+    return formatSiweMessage(this.challenges.createChallenge(address, chainId, now, linkStatement(user)));
+  }
+
+  /**
+   * Verify a signed link challenge and return the node with the wallet added. The
+   * first linked wallet becomes the payout address.
+   */
+  public async linkWallet(user: User, text: string, signature: string, now: number = Date.now()): Promise<User> {
+    const { address, chainId, statement } = this.challenges.verifyChallenge(text, signature, now);
+    if (statement !== linkStatement(user)) {
+      throw new Error('Wallet link rejected: challenge was issued for another node');
+    }
+    if (getLinkedWallets(user).some(wallet => wallet.address === address && wallet.chainId === chainId)) {
+      throw new Error(`Wallet link rejected: ${address} is already linked on chain ${chainId}`);
+    }
+
+    const users = await this.backend.getAllUsers();
+    const owner = users.find(u => u.address !== user.address && getLinkedWallets(u).some(wallet => wallet.address === address));
+    if (owner) {
+      throw new Error(`Wallet link rejected: ${address} is linked to another node`);
+    }
+
+    const wallet: LinkedWallet = { address, chainId, linkedAt: new Date(now).toISOString(), message: text, signature };
+    return {
+      ...user,
+      linkedWallets: [...getLinkedWallets(user), wallet],
+      payoutAddress: user.payoutAddress || address
+    };
+  }
+
+  /**
+   * Connect MetaMask if needed and link its account on the current chain
+   */
+  public async linkConnectedWallet(user: User): Promise<User> {
+    const state = await walletConnector.connect();
+    const signer = walletConnector.getCurrentSigner();
+    if (!signer || !state.address || !state.chainId) {
+      throw new Error('Wallet link rejected: wallet not connected');
+    }
+
+    const text = this.createLinkChallenge(user, state.address, state.chainId);
+    return this.linkWallet(user, text, await signer.signMessage(text));
+  }
+
+  /**
+   * Designate a linked wallet as the payout address
+   */
+  public setPayoutAddress(user: User, address: string): User {
+    const payout = ethers.isAddress(address) ? ethers.getAddress(address) : address;
+    if (!getLinkedWallets(user).some(wallet => wallet.address === payout)) {
+      throw new Error(`Payout rejected: ${address} is not a linked wallet`);
+    }
+    return { ...user, payoutAddress: payout };
+  }
+
+  /**
+   * Remove a wallet from one chain; the payout moves to the next linked wallet when
+   * its address is no longer linked anywhere
+   */
+  public unlinkWallet(user: User, address: string, chainId: number): User {
+    const linkedWallets = getLinkedWallets(user).filter(wallet => !(wallet.address === address && wallet.chainId === chainId));
+    if (linkedWallets.length === getLinkedWallets(user).length) {
+      throw new Error(`Unlink rejected: ${address} is not linked on chain ${chainId}`);
+    }
+
+    const payoutAddress = linkedWallets.some(wallet => wallet.address === user.payoutAddress)
+      ? user.payoutAddress
+      : linkedWallets[0]?.address;
+    return { ...user, linkedWallets, payoutAddress };
+  }
+}
+
+// Singleton instance
+export const walletLinks = new WalletLinkService({ getAllUsers });
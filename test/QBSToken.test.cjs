@@ -111,6 +111,30 @@ describe("QBSToken", function () {
         "S"
       )).to.be.revertedWith("QBS: Exceeds max supply");
     });
+    
+    it("Should not mint twice for the same block", async function () {
+      const amount = ethers.parseEther("1");
+      expect(await qbsToken.isBlockRewarded("BLOCK-001")).to.be.false;
+      await qbsToken.connect(miner).mintMiningReward(user.address, amount, "BLOCK-001", "S");
+      expect(await qbsToken.isBlockRewarded("BLOCK-001")).to.be.true;
+      
+      await expect(qbsToken.connect(miner).mintMiningReward(
+        owner.address,
+        amount,
+        "BLOCK-001",
+        "S"
+      )).to.be.revertedWith("QBS: Block already rewarded");
+      expect(await qbsToken.balanceOf(user.address)).to.equal(amount);
+    });
+    
+    it("Should reject an empty block id", async function () {
+      await expect(qbsToken.connect(miner).mintMiningReward(
+        user.address,
+        ethers.parseEther("1"),
+        "",
+        "S"
+      )).to.be.revertedWith("QBS: Invalid block id");
+    });
   });
   
   describe("Evolution Rewards", function () {
@@ -140,6 +164,111 @@ describe("QBSToken", function () {
       )).to.emit(qbsToken, "EvolutionReward")
         .withArgs(user.address, amount, "BLOCK-001", 3);
     });
+    
+    it("Should pay each evolution level of a block once", async function () {
+      const amount = ethers.parseEther("0.5");
+      await qbsToken.connect(miner).mintEvolutionReward(user.address, amount, "BLOCK-001", 2);
+      expect(await qbsToken.isEvolutionRewarded("BLOCK-001", 2)).to.be.true;
+      expect(await qbsToken.isEvolutionRewarded("BLOCK-001", 3)).to.be.false;
+      
+      await expect(qbsToken.connect(miner).mintEvolutionReward(
+        user.address,
+        amount,
+        "BLOCK-001",
+        2
+      )).to.be.revertedWith("QBS: Evolution level already rewarded");
+      
+      await qbsToken.connect(miner).mintEvolutionReward(user.address, amount, "BLOCK-001", 3);
+      expect(await qbsToken.balanceOf(user.address)).to.equal(amount * 2n);
+    });
+    
+    it("Should track evolution levels separately from the mining reward", async function () {
+      const amount = ethers.parseEther("0.5");
+      await qbsToken.connect(miner).mintMiningReward(user.address, amount, "BLOCK-001", "A");
+      await qbsToken.connect(miner).mintEvolutionReward(user.address, amount, "BLOCK-001", 2);
+      expect(await qbsToken.balanceOf(user.address)).to.equal(amount * 2n);
+    });
+  });
+  
+  describe("Reward Epochs", function () {
+    // Two-leaf tree in OpenZeppelin's format: double-hashed leaves, sorted pair hashing
+    const leafHash = (nodeId, account, amount) => ethers.keccak256(ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "address", "uint256"], [nodeId, account, amount])
+    ));
+    const pairHash = (a, b) => ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+    const ALICE = ethers.id("0xalice");
+    const BOB = ethers.id("0xbob");
+    
+    beforeEach(async function () {
+      await qbsToken.authorizeMiner(miner.address);
+    });
+    
+    it("Should let nodes claim the unclaimed part of their cumulative accrual", async function () {
+      const first = ethers.parseEther("0.005");
+      const userLeaf = leafHash(ALICE, user.address, first);
+      const ownerLeaf = leafHash(BOB, owner.address, ethers.parseEther("0.01"));
+      
+      await expect(qbsToken.connect(miner).publishRewardsRoot(1, pairHash(userLeaf, ownerLeaf)))
+        .to.emit(qbsToken, "RewardsRootPublished");
+      await expect(qbsToken.connect(user).claimRewards(ALICE, first, [ownerLeaf]))
+        .to.emit(qbsToken, "RewardsClaimed")
+        .withArgs(ALICE, user.address, 1, first);
+      await expect(qbsToken.connect(user).claimRewards(ALICE, first, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Nothing to claim");
+      
+      const second = ethers.parseEther("0.011");
+      const nextLeaf = leafHash(ALICE, user.address, second);
+      await qbsToken.connect(miner).publishRewardsRoot(2, pairHash(nextLeaf, ownerLeaf));
+      await qbsToken.connect(user).claimRewards(ALICE, second, [ownerLeaf]);
+      
+      expect(await qbsToken.balanceOf(user.address)).to.equal(second);
+      expect(await qbsToken.claimedRewards(ALICE)).to.equal(second);
+    });
+    
+    it("Should only pay the remainder after a node switches payout address", async function () {
+      const first = ethers.parseEther("0.005");
+      const ownerLeaf = leafHash(BOB, owner.address, ethers.parseEther("0.01"));
+      await qbsToken.connect(miner).publishRewardsRoot(1, pairHash(leafHash(ALICE, user.address, first), ownerLeaf));
+      await qbsToken.connect(user).claimRewards(ALICE, first, [ownerLeaf]);
+      
+      // Same node, new payout wallet: the cumulative total carries over
+      const second = ethers.parseEther("0.008");
+      await qbsToken.connect(miner).publishRewardsRoot(2, pairHash(leafHash(ALICE, miner.address, second), ownerLeaf));
+      await expect(qbsToken.connect(user).claimRewards(ALICE, second, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Invalid proof");
+      await expect(qbsToken.connect(miner).claimRewards(ALICE, second, [ownerLeaf]))
+        .to.emit(qbsToken, "RewardsClaimed")
+        .withArgs(ALICE, miner.address, 2, second - first);
+      await expect(qbsToken.connect(miner).claimRewards(ALICE, second, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Nothing to claim");
+      
+      expect(await qbsToken.balanceOf(user.address)).to.equal(first);
+      expect(await qbsToken.balanceOf(miner.address)).to.equal(second - first);
+    });
+    
+    it("Should reject proofs for another node, account or amount", async function () {
+      const amount = ethers.parseEther("1");
+      const userLeaf = leafHash(ALICE, user.address, amount);
+      const ownerLeaf = leafHash(BOB, owner.address, amount);
+      await qbsToken.connect(miner).publishRewardsRoot(1, pairHash(userLeaf, ownerLeaf));
+      
+      await expect(qbsToken.connect(miner).claimRewards(ALICE, amount, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Invalid proof");
+      await expect(qbsToken.connect(user).claimRewards(BOB, amount, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Invalid proof");
+      await expect(qbsToken.connect(user).claimRewards(ALICE, amount * 2n, [ownerLeaf]))
+        .to.be.revertedWith("QBS: Invalid proof");
+    });
+    
+    it("Should only accept newer epochs from authorized miners", async function () {
+      const root = leafHash(ALICE, user.address, 1n);
+      await expect(qbsToken.connect(user).publishRewardsRoot(1, root))
+        .to.be.revertedWith("QBS: Not authorized miner");
+      
+      await qbsToken.connect(miner).publishRewardsRoot(2, root);
+      await expect(qbsToken.connect(miner).publishRewardsRoot(2, root))
+        .to.be.revertedWith("QBS: Stale epoch");
+    });
   });
   
   describe("Burning", function () {
@@ -0,0 +1,85 @@
+/**
+ * AI Response Schema Tests
+ * Covers response validation and the single repair re-prompt in DeepSeekClient
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DeepSeekClient, MiningEvaluationResponse } from '../services/deepSeekClient';
+import { AIResponseValidationError, MINING_EVALUATION_SCHEMA, validateResponse } from '../services/aiResponseSchemas';
+
+vi.mock('../services/apiKeyManager', () => ({
+  apiKeyManager: { getDeepSeekConfig: vi.fn(async () => null) }
+}));
+
+const VALID: MiningEvaluationResponse = {
+  grade: 'B',
+  breakthroughScore: 2,
+  explanation: 'Valid logic with constants.',
+  consensusCritique: 'Sound but incremental.',
+  primaryFormula: 'E = mc^2',
+  observedConstants: { c: '299792458 m/s' },
+  neuralInterpretation: 'Mass-energy equivalence restated.'
+};
+
+const completion = (content: unknown) => ({
+  ok: true,
+  json: async () => ({ choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(content) }, finish_reason: 'stop' }] })
+});
+
+const client = () => new DeepSeekClient(async () => ({ apiKey: 'sk-test', baseUrl: 'http://ai.test/v1', model: 'test-model' }));
+
+describe('validateResponse', () => {
+  it('reports missing fields, wrong types, out-of-range scores and non-string constants', () => {
+    expect(validateResponse(MINING_EVALUATION_SCHEMA, VALID)).toEqual([]);
+
+    const { grade, ...withoutGrade } = VALID;
+    expect(validateResponse(MINING_EVALUATION_SCHEMA, {
+      ...withoutGrade,
+      breakthroughScore: '4.5',
+      observedConstants: { c: 299792458 }
+    })).toEqual([
+      '"grade" is missing',
+      '"breakthroughScore" must be a number, not "4.5"',
+      '"observedConstants" values must be strings (c)'
+    ]);
+    expect(validateResponse(MINING_EVALUATION_SCHEMA, { ...VALID, grade: 'A+', breakthroughScore: 42 })).toEqual([
+      '"grade" must be one of S|A|B|C, not "A+"',
+      '"breakthroughScore" must be between 0 and 10, not 42'
+    ]);
+  });
+});
+
+describe('DeepSeekClient schema repair', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('re-prompts once with the validation errors and returns the repaired response', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(completion({ ...VALID, breakthroughScore: '2' }))
+      .mockResolvedValueOnce(completion(VALID));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await client().evaluateMiningBreakthrough({ problem: 'E = mc^2 with c the speed of light' });
+
+    expect(result).toEqual(VALID);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const repairMessages = JSON.parse(fetchMock.mock.calls[1][1].body).messages;
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[1]).toEqual({ role: 'assistant', content: JSON.stringify({ ...VALID, breakthroughScore: '2' }) });
+    expect(repairMessages[2].content).toContain('"breakthroughScore" must be a number, not "2"');
+  });
+
+  it('throws a typed error when the repair also fails', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: 'not json' } }] }) })
+      .mockResolvedValueOnce(completion({ ...VALID, grade: undefined }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await client().evaluateMiningBreakthrough({ problem: 'speculation' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(AIResponseValidationError);
+    expect(error).toMatchObject({ schema: 'MiningEvaluationResponse', errors: ['"grade" is missing'], provider: 'DeepSeek' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
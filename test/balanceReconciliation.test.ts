@@ -0,0 +1,117 @@
+/**
+ * Balance Reconciliation Tests
+ * Covers the drift report against a stubbed chain and admin-approved corrections
+ * posted through the ledger of the file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+
+vi.mock('../services/walletConnector', () => ({
+  walletConnector: {
+    getWalletState: vi.fn(async () => ({ isConnected: false, chainId: null })),
+    getCurrentSigner: vi.fn(() => null)
+  }
+}));
+
+import { BalanceReconciliationService, ReconciliationChain } from '../services/balanceReconciliation';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { IndexedTransaction, QueuedReward, SolvedBlock } from '../types';
+import { makeUser } from './helpers/users';
+
+const WALLET = ethers.Wallet.createRandom().address;
+const OTHER = ethers.Wallet.createRandom().address;
+
+const block = (id: string, reward: number): SolvedBlock => ({
+  id, shardId: `SHD-${id}`, shardIndex: 1, shardParentId: 'SHD-MAIN', tokenParentId: 'QBS-ALPHA', totalShardsPerToken: 1000,
+  timestamp: '2026-05-31', problem: 'p', answer: 'a', explanation: 'e', reward, payoutPerShard: '100 QRK',
+  difficulty: 'PEER_REVIEW_STRICT', hash: id, parentHash: '0', integrityHash: id, isPeerReviewed: true, advancementLevel: 1
+});
+
+const transfer = (hash: string, from: string, to: string, amount: string): IndexedTransaction => ({
+  id: `${hash}:0`, hash, type: 'TRANSFER', from, to, amount, timestamp: 1, status: 'confirmed'
+});
+
+const queued = (amount: string): QueuedReward => ({
+  id: 'mining:B-9', type: 'MINING', recipient: WALLET.toLowerCase(), amount, blockId: 'B-9', status: 'QUEUED',
+  attempts: 0, maxAttempts: 5, nextAttemptAt: 0, createdAt: 0, updatedAt: 0
+});
+
+describe('BalanceReconciliationService (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+  let chain: ReconciliationChain;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-reconcile-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+
+    // Ledger 1.01 QBS, of which 0.01 accrued from blocks and 1 came from in-app activity;
+    // 0.004 claimed, 0.2 net received on chain and 0.05 that nothing accounts for
+    await db.saveUser(makeUser('0xalice', {
+      balance: 1.01, payoutAddress: WALLET, solvedBlocks: [block('B-1', 0.005), block('B-2', 0.005)]
+    }));
+    await db.saveUser(makeUser('0xcarol', { balance: 5 }));
+    await db.saveUser(makeUser('0xdave'));
+    await db.saveQueuedReward(queued('0.002'));
+
+    chain = {
+      getBalance: async address => address === WALLET ? '0.254' : '0',
+      getClaimedRewards: async () => ethers.parseEther('0.004'),
+      getTransactions: async () => [
+        transfer('0x1', ethers.ZeroAddress, WALLET, '0.004'),
+        transfer('0x2', OTHER, WALLET, '0.3'),
+        transfer('0x3', WALLET, OTHER, '0.1')
+      ]
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('breaks drift of the on-chain-backed part down into known causes', async () => {
+    const report = await new BalanceReconciliationService(db, chain).reconcile();
+
+    expect(report.drifts.map(d => [d.address, d.status])).toEqual([['0xalice', 'DRIFT'], ['0xcarol', 'NO_WALLET']]);
+    const alice = report.drifts[0];
+    expect(alice).toMatchObject({ ledgerQbs: 1.01, backedQbs: 0.21, onChainQbs: 0.254, drift: 0.044, unexplainedQbs: 0.05 });
+    expect(alice.findings.map(f => [f.kind, f.amount])).toEqual([
+      ['UNCLAIMED_ACCRUAL', -0.004],
+      ['PENDING_REWARD', -0.002]
+    ]);
+    expect(alice.offChain).toMatchObject({ kind: 'OFF_CHAIN_ACTIVITY', amount: 1 });
+    expect(report.unexplainedQbs).toBe(0.05);
+  });
+
+  it('leaves in-app balances alone when the on-chain part is accounted for', async () => {
+    const report = await new BalanceReconciliationService(db, { ...chain, getBalance: async () => '0.204' }).reconcile();
+    expect(report.drifts[0]).toMatchObject({ status: 'EXPLAINED', unexplainedQbs: 0, offChain: { amount: 1 } });
+  });
+
+  it('posts a correction only after an admin approves it', async () => {
+    const reconciliation = new BalanceReconciliationService(db, chain);
+    const [drift] = (await reconciliation.reconcile()).drifts;
+
+    const correction = await reconciliation.proposeCorrection(drift);
+    expect(correction).toMatchObject({ address: '0xalice', amount: 0.05, status: 'PROPOSED' });
+    await expect(reconciliation.proposeCorrection(drift)).rejects.toThrow('awaiting review');
+    await expect(reconciliation.approveCorrection(correction.id, makeUser('0xalice'))).rejects.toThrow('admin approval required');
+
+    const admin = makeUser('0xadmin', { role: 'admin' });
+    const corrected = await reconciliation.approveCorrection(correction.id, admin);
+    expect(corrected.balance).toBeCloseTo(1.06, 9);
+    expect(corrected.transactions.at(-1)).toMatchObject({ id: correction.id, type: 'CREDIT', amount: '0.05', unit: 'QBS' });
+    await expect(reconciliation.rejectCorrection(correction.id, admin)).rejects.toThrow('already approved');
+
+    const [stored] = await reconciliation.getCorrections();
+    expect(stored).toMatchObject({ status: 'APPROVED', reviewedBy: '0xadmin', transactionId: correction.id });
+
+    const [after] = (await reconciliation.reconcile()).drifts;
+    expect(after).toMatchObject({ status: 'EXPLAINED', backedQbs: 0.26, unexplainedQbs: 0, offChain: { amount: 1 } });
+  });
+});
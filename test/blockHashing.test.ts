@@ -0,0 +1,147 @@
+/**
+ * Block Hashing Tests
+ * Verifies deterministic sealing and first-break reporting of SolvedBlock chains
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { sealBlock, sealLatestAdvance, verifyChain, serializeBlockForHash, GENESIS_PARENT_HASH } from '../services/blockHashing';
+import { SolvedBlock } from '../types';
+
+const MINER = '0xMiner';
+
+const draftBlock = (index: number, parentHash: string): SolvedBlock => ({
+  id: `BLOCK-${index}`,
+  shardId: `SHD-${index}`,
+  shardIndex: index,
+  shardParentId: 'SHD-MAIN',
+  tokenParentId: 'QBS-ALPHA',
+  totalShardsPerToken: 1000,
+  timestamp: `2026-01-0${index} 10:00:00`,
+  problem: `Problem ${index}`,
+  answer: '',
+  explanation: `Explanation ${index}`,
+  reward: 0,
+  payoutPerShard: '100 QRK',
+  difficulty: 'PEER_REVIEW_STRICT',
+  hash: '',
+  parentHash,
+  integrityHash: '',
+  isPeerReviewed: true,
+  advancementLevel: 1,
+  grade: 'B'
+});
+
+const mineChain = async (length: number): Promise<SolvedBlock[]> => {
+  const chain: SolvedBlock[] = [];
+  for (let i = 1; i <= length; i++) {
+    chain.push(await sealBlock(draftBlock(i, chain[i - 2]?.hash || GENESIS_PARENT_HASH), MINER));
+  }
+  return chain;
+};
+
+describe('sealBlock', () => {
+  it('hashes the canonical serialization with SHA-256', async () => {
+    const block = await sealBlock(draftBlock(1, GENESIS_PARENT_HASH), MINER);
+    const expected = createHash('sha256').update(serializeBlockForHash(block, MINER)).digest('hex');
+
+    expect(block.hash).toBe(expected);
+    expect(block.answer).toBe(`SIG_${expected.substring(0, 16).toUpperCase()}`);
+    expect(block.integrityHash).toMatch(/^SHA256-[0-9a-f]{64}$/);
+    expect(block.minerAddress).toBe(MINER);
+  });
+
+  it('is deterministic and independent of unrelated fields', async () => {
+    const a = await sealBlock(draftBlock(1, GENESIS_PARENT_HASH), MINER);
+    const b = await sealBlock({ ...draftBlock(1, GENESIS_PARENT_HASH), breakthroughScore: 90 }, MINER);
+    expect(a.hash).toBe(b.hash);
+
+    const otherMiner = await sealBlock(draftBlock(1, GENESIS_PARENT_HASH), '0xOther');
+    expect(otherMiner.hash).not.toBe(a.hash);
+  });
+});
+
+describe('verifyChain', () => {
+  it('accepts an intact chain', async () => {
+    const result = await verifyChain(await mineChain(3), MINER);
+    expect(result).toEqual({ valid: true, checkedBlocks: 3, legacyBlocks: 0 });
+  });
+
+  it('reports tampered content at the first broken block', async () => {
+    const chain = await mineChain(3);
+    chain[1] = { ...chain[1], problem: 'Rewritten problem' };
+
+    const result = await verifyChain(chain);
+    expect(result.valid).toBe(false);
+    expect(result.firstBreak).toMatchObject({ index: 1, blockId: 'BLOCK-2', reason: 'HASH_MISMATCH' });
+  });
+
+  it('reports a broken parent link', async () => {
+    const chain = await mineChain(3);
+    chain.splice(1, 1);
+
+    const result = await verifyChain(chain);
+    expect(result.firstBreak).toMatchObject({ index: 1, blockId: 'BLOCK-3', reason: 'PARENT_MISMATCH' });
+  });
+
+  it('rejects blocks sealed for another miner when the owner is given', async () => {
+    const result = await verifyChain(await mineChain(2), '0xImpostor');
+    expect(result.firstBreak).toMatchObject({ index: 0, reason: 'HASH_MISMATCH' });
+  });
+
+  it('keeps evolved blocks verifiable through their advancement history', async () => {
+    const chain = await mineChain(2);
+    chain[0] = {
+      ...chain[0],
+      explanation: 'Evolved explanation',
+      grade: 'S',
+      advancementLevel: 2,
+      advancementHistory: [{
+        id: 'ADV-1', level: 2, pathTitle: 'Refinement to Mk 2', description: 'Evolved explanation',
+        consensusArgument: '', timestamp: '', contributingNodes: [],
+        previousExplanation: chain[0].explanation, previousGrade: chain[0].grade
+      }]
+    };
+
+    expect((await verifyChain(chain, MINER)).valid).toBe(true);
+  });
+
+  it('seals evolution records so their grades and grader cannot be rewritten', async () => {
+    const chain = await mineChain(2);
+    const advance = (level: number, previousGrade: SolvedBlock['grade']) => ({
+      id: `ADV-${level}`, level, pathTitle: `Refinement to Mk ${level}`, description: '', consensusArgument: '',
+      timestamp: '', contributingNodes: [], previousExplanation: chain[0].explanation, previousGrade, gradedBy: 'deepseek' as const
+    });
+    const once = await sealLatestAdvance({ ...chain[0], grade: 'A', advancementLevel: 2, advancementHistory: [advance(2, 'B')] });
+    const twice = await sealLatestAdvance({
+      ...once, grade: 'S', advancementLevel: 3,
+      advancementHistory: [...once.advancementHistory!, { ...advance(3, 'A'), previousExplanation: undefined }]
+    });
+    expect(twice.advancementHistory!.map(a => a.hash)).toEqual([once.advancementHistory![0].hash, expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    expect((await verifyChain([twice, chain[1]], MINER)).valid).toBe(true);
+
+    const regraded = { ...twice, grade: 'S' as const, advancementHistory: [twice.advancementHistory![0], { ...twice.advancementHistory![1], previousGrade: 'S' as const }] };
+    expect((await verifyChain([regraded, chain[1]], MINER)).firstBreak).toMatchObject({ index: 0, reason: 'EVOLUTION_MISMATCH' });
+
+    const regrader = { ...twice, advancementHistory: [{ ...twice.advancementHistory![0], gradedBy: 'offline' as const }, twice.advancementHistory![1]] };
+    expect((await verifyChain([regrader, chain[1]], MINER)).firstBreak).toMatchObject({ index: 0, reason: 'EVOLUTION_MISMATCH' });
+  });
+
+  it('only checks links of legacy blocks without a miner', async () => {
+    const legacy = { ...draftBlock(1, GENESIS_PARENT_HASH), hash: '0000abc' };
+    const next = await sealBlock(draftBlock(2, legacy.hash), MINER);
+
+    const result = await verifyChain([legacy, next]);
+    expect(result).toEqual({ valid: true, checkedBlocks: 2, legacyBlocks: 1 });
+  });
+
+  it('rejects a sealed chain whose later block had its miner stripped', async () => {
+    const chain = await mineChain(3);
+    const { minerAddress, ...stripped } = chain[1];
+    chain[1] = { ...stripped, problem: 'Rewritten problem' };
+
+    const result = await verifyChain(chain);
+    expect(result.valid).toBe(false);
+    expect(result.firstBreak).toMatchObject({ index: 1, blockId: 'BLOCK-2', reason: 'SEAL_MISSING' });
+  });
+});
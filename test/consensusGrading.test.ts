@@ -0,0 +1,93 @@
+/**
+ * Consensus Grading Tests
+ * Covers panel aggregation and the safe client's reviewer panel
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { REVIEW_PANEL, aggregateReviews, panelQuorum, reviewDisagreement, trimmedMean, median } from '../services/consensusGrading';
+import { SafeDeepSeekClient } from '../services/safeDeepSeekClient';
+import type { EvaluationProvider } from '../services/evaluationProvider';
+import type { MiningEvaluationResponse } from '../services/deepSeekClient';
+
+vi.mock('../services/apiKeyManager', () => ({
+  apiKeyManager: { getDeepSeekConfig: vi.fn(async () => null) }
+}));
+
+const evaluation = (grade: MiningEvaluationResponse['grade'], breakthroughScore: number, critique: string): MiningEvaluationResponse => ({
+  grade,
+  breakthroughScore,
+  explanation: `${grade} explanation`,
+  consensusCritique: critique,
+  primaryFormula: 'E = mc^2',
+  observedConstants: { c: '299792458 m/s' },
+  neuralInterpretation: 'interpretation'
+});
+
+describe('aggregateReviews', () => {
+  it('takes the median grade and score so one generous reviewer cannot lift the payout', () => {
+    const result = aggregateReviews([
+      { role: 'PRAGMATIST', evaluation: evaluation('B', 2, 'Testable but incremental.') },
+      { role: 'VISIONARY', evaluation: evaluation('S', 10, 'Paradigm shift!') },
+      { role: 'ETHICIST', evaluation: evaluation('B', 2.5, 'Overclaims novelty.') }
+    ]);
+
+    expect(result).toMatchObject({ grade: 'B', breakthroughScore: 2.5, explanation: 'B explanation', consensusCritique: 'Overclaims novelty.' });
+    expect(result.peerReviews).toEqual([
+      { role: 'PRAGMATIST', grade: 'B', breakthroughScore: 2, critique: 'Testable but incremental.' },
+      { role: 'VISIONARY', grade: 'S', breakthroughScore: 10, critique: 'Paradigm shift!' },
+      { role: 'ETHICIST', grade: 'B', breakthroughScore: 2.5, critique: 'Overclaims novelty.' }
+    ]);
+    expect(reviewDisagreement(result.peerReviews)).toEqual({ gradeSpread: 2, scoreSpread: 8, isSplit: true });
+
+    // Even panels round down to the stricter tier
+    expect(aggregateReviews([
+      { role: 'PRAGMATIST', evaluation: evaluation('C', 1, 'Speculative.') },
+      { role: 'VISIONARY', evaluation: evaluation('A', 5, 'Rigorous.') }
+    ], 'trimmed-mean')).toMatchObject({ grade: 'C', breakthroughScore: 3 });
+    expect(median([1, 2, 10, 4])).toBe(3);
+    expect(trimmedMean([1, 2, 10, 4, 3])).toBe(3);
+  });
+});
+
+describe('SafeDeepSeekClient review panel', () => {
+  const panelProvider = (grades: Record<string, MiningEvaluationResponse>): EvaluationProvider => ({
+    id: 'openai-compatible',
+    name: 'Test Panel',
+    isConfigured: async () => true,
+    testConnection: async () => true,
+    evaluateMiningBreakthrough: vi.fn(async request => {
+      if (!grades[request.reviewer!.role]) throw new Error('Reviewer unavailable');
+      return grades[request.reviewer!.role];
+    }),
+    evolveBreakthrough: vi.fn()
+  });
+
+  it('grades with every reviewer persona and aggregates whoever answered', async () => {
+    const provider = panelProvider({
+      PRAGMATIST: evaluation('A', 5, 'Predictions are measurable.'),
+      VISIONARY: evaluation('S', 10, 'Unifies everything.')
+    });
+    const safeClient = new SafeDeepSeekClient();
+    safeClient.setProvider(provider);
+
+    const result = await safeClient.evaluateMiningBreakthrough({ problem: 'Unified field' }, undefined, { reviewers: REVIEW_PANEL });
+
+    expect(provider.evaluateMiningBreakthrough).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(provider.evaluateMiningBreakthrough).mock.calls.map(([request]) => request.reviewer)).toEqual(REVIEW_PANEL);
+    expect(result).toMatchObject({ grade: 'A', breakthroughScore: 7.5, panelSize: 3 });
+    expect('peerReviews' in result && result.peerReviews.map(review => review.role)).toEqual(['PRAGMATIST', 'VISIONARY']);
+  });
+
+  it('falls back for the call when less than a majority of reviewers answer', async () => {
+    const provider = panelProvider({ VISIONARY: evaluation('S', 10, 'Unifies everything.') });
+    const safeClient = new SafeDeepSeekClient();
+    safeClient.setProvider(provider);
+
+    const result = await safeClient.evaluateMiningBreakthrough({ problem: 'Unified field' }, undefined, { reviewers: REVIEW_PANEL });
+
+    expect(panelQuorum(REVIEW_PANEL.length)).toBe(2);
+    expect(result).toMatchObject({ isFallback: true, fallbackReason: 'Consensus rejected: 1 of 3 reviewers answered, 2 needed' });
+    expect('peerReviews' in result).toBe(false);
+    expect(safeClient.getStatus().fallbackMode).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Evaluation Provider Tests
+ * Covers provider selection, the OpenAI-compatible adapter and offline grading
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEvaluationProvider } from '../services/evaluationProvider';
+import { deepSeekClient } from '../services/deepSeekClient';
+import { offlineEvaluationProvider } from '../services/offlineEvaluationProvider';
+import { SafeDeepSeekClient } from '../services/safeDeepSeekClient';
+
+vi.mock('../services/apiKeyManager', () => ({
+  apiKeyManager: {
+    getDeepSeekConfig: vi.fn(async () => null),
+    getEndpointKey: vi.fn(async () => null)
+  }
+}));
+
+const BREAKTHROUGH = 'A quantum gravity correction: the hamiltonian H = p²/2m + V(x) with planck constant ℏ and speed of light c '
+  + 'bounds the entropy of a black hole horizon, giving a testable eigenvalue spectrum for Hawking radiation near the event horizon.';
+
+describe('createEvaluationProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('selects DeepSeek by default and the offline stub on request', () => {
+    expect(createEvaluationProvider()).toBe(deepSeekClient);
+    expect(createEvaluationProvider({ id: 'deepseek' })).toBe(deepSeekClient);
+    expect(createEvaluationProvider({ id: 'offline' })).toBe(offlineEvaluationProvider);
+  });
+
+  it('talks to an OpenAI-compatible endpoint without requiring an API key', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createEvaluationProvider({ id: 'openai-compatible', baseUrl: 'http://localhost:8080/v1/', model: 'qwen2.5' });
+
+    expect(provider).toMatchObject({ id: 'openai-compatible', name: 'OpenAI-Compatible (qwen2.5)' });
+    expect(await provider.isConfigured()).toBe(true);
+    expect(await provider.testConnection()).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8080/v1/models', {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+  });
+});
+
+describe('OfflineEvaluationProvider', () => {
+  it('grades deterministically and is what the safe client routes through', async () => {
+    const safeClient = new SafeDeepSeekClient();
+    safeClient.setProvider(offlineEvaluationProvider);
+
+    const first = await safeClient.evaluateMiningBreakthrough({ problem: BREAKTHROUGH });
+    const second = await offlineEvaluationProvider.evaluateMiningBreakthrough({ problem: BREAKTHROUGH });
+
+    expect(safeClient.getProvider()).toBe(offlineEvaluationProvider);
+    expect(first).toMatchObject({ grade: 'A', breakthroughScore: 4.0 });
+    expect(first).not.toHaveProperty('isFallback');
+    expect(second).toEqual(first);
+    expect((await offlineEvaluationProvider.evaluateMiningBreakthrough({ problem: 'short note' })).grade).toBe('C');
+
+    const evolved = await safeClient.evolveBreakthrough({
+      blockId: 'block-1', currentLevel: 2, currentExplanation: first.explanation
+    });
+    expect(evolved.evolvedExplanation).toContain('[Mk 3 Evolution]');
+  });
+});
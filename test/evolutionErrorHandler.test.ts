@@ -1,7 +1,17 @@
 import { EvolutionErrorHandler, EvolutionError, EvolutionErrorType } from '../services/evolutionErrorHandler';
+import { AIResponseValidationError } from '../services/aiResponseSchemas';
 
 describe('EvolutionErrorHandler', () => {
   describe('Error Classification', () => {
+    test('should classify AI responses that fail schema repair', () => {
+      const error = new AIResponseValidationError('EvolutionResponse', ['"newScore" must be a number, not "4.5"'], 'DeepSeek');
+      const result = EvolutionErrorHandler.classifyError(error);
+
+      expect(result.type).toBe('AI_RESPONSE_INVALID');
+      expect(result.message).toContain('"newScore" must be a number');
+      expect(result.retryable).toBe(true);
+    });
+
     test('should classify API key missing error correctly', () => {
       const error = new Error('API key not configured');
       const result = EvolutionErrorHandler.classifyError(error, 'API_KEY_MISSING');
@@ -287,6 +297,7 @@ describe('EvolutionErrorHandler', () => {
         'INVALID_BLOCK_STATE',
         'API_SERVER_ERROR',
         'PARSING_ERROR',
+        'AI_RESPONSE_INVALID',
         'VALIDATION_ERROR',
         'UNKNOWN_ERROR'
       ];
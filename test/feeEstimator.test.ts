@@ -0,0 +1,40 @@
+/**
+ * Fee Estimator Tests
+ * Covers EIP-1559 presets, legacy gas pricing and native-currency formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FeeDataSource, GAS_LIMIT_BUFFER_PERCENT, estimateFees, feeOverrides } from '../services/feeEstimator';
+
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+const source = (feeData: Partial<ethers.FeeData>, baseFeePerGas: bigint | null): FeeDataSource => ({
+  getFeeData: async () => ({ gasPrice: null, maxFeePerGas: null, maxPriorityFeePerGas: null, ...feeData } as ethers.FeeData),
+  getBlock: async () => ({ baseFeePerGas })
+});
+
+describe('estimateFees', () => {
+  it('prices EIP-1559 presets from the base fee and suggested tip', async () => {
+    const estimate = await estimateFees(source({ maxPriorityFeePerGas: gwei('2') }, gwei('10')), 50000n, 1);
+
+    expect(estimate).toMatchObject({ chainId: 1, currency: 'ETH', gasLimit: 60000n, baseFeePerGas: gwei('10') });
+    expect(estimate.gasLimit).toBe(50000n * GAS_LIMIT_BUFFER_PERCENT / 100n);
+    const { slow, normal, fast } = estimate.options;
+    expect([slow.maxPriorityFeePerGas, normal.maxPriorityFeePerGas, fast.maxPriorityFeePerGas]).toEqual([gwei('1.6'), gwei('2'), gwei('3')]);
+    expect(normal.maxFeePerGas).toBe(gwei('22'));
+    // Expected: raw units at base fee + tip; max: buffered limit at maxFeePerGas
+    expect(normal.expectedCost).toBe('0.0006');
+    expect(normal.maxCost).toBe('0.00132');
+    expect(feeOverrides(normal)).toEqual({ gasLimit: 60000n, maxFeePerGas: gwei('22'), maxPriorityFeePerGas: gwei('2') });
+  });
+
+  it('falls back to gasPrice on networks without a base fee', async () => {
+    const estimate = await estimateFees(source({ gasPrice: gwei('30') }, null), 21000n, 137);
+
+    expect(estimate.currency).toBe('MATIC');
+    expect(estimate.options.fast).toMatchObject({ legacy: true, maxFeePerGas: gwei('45'), expectedCost: '0.000945' });
+    expect(feeOverrides(estimate.options.fast)).toEqual({ gasLimit: 25200n, gasPrice: gwei('45') });
+    await expect(estimateFees(source({}, null), 21000n, 137)).rejects.toThrow('no fee data');
+  });
+});
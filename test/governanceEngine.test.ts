@@ -0,0 +1,231 @@
+/**
+ * Governance Engine Tests
+ * Covers proposal closing on quorum and majority, vote locks and their settlement,
+ * and execution of typed parameter changes against the file store with its audit trail
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  GovernanceEngine,
+  DEFAULT_PROTOCOL_PARAMETERS,
+  PROPOSER_REWARD_RATE,
+  evaluateProposal,
+  lockedVoteWeight,
+  validateParameterChanges
+} from '../services/governanceEngine';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { PROPOSAL_FEE_QRK } from '../services/proposals';
+import { Proposal } from '../types';
+import { makeUser } from './helpers/users';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const VOTED_AT = Date.parse('2026-05-01T00:00:00.000Z');
+
+const makeProposal = (overrides: Partial<Proposal>): Proposal => ({
+  id: 'LGP-200',
+  title: 'Retune leases',
+  description: 'Lower the messaging lease.',
+  proposer: 'ALICE#0001',
+  status: 'ACTIVE',
+  votesFor: 0,
+  votesAgainst: 0,
+  requiredWeight: 10,
+  expiresAt: '2026-05-31T00:00:00.000Z',
+  category: 'ECONOMIC',
+  votes: {},
+  ...overrides
+});
+
+const vote = (voter: string, type: 'FOR' | 'AGAINST', weight: number) =>
+  ({ voter, type, weight, timestamp: '2026-05-01T00:00:00.000Z' });
+
+describe('evaluateProposal', () => {
+  it('leaves proposals open until they expire', () => {
+    expect(evaluateProposal(makeProposal({ expiresAt: '2026-06-02T00:00:00.000Z', votesFor: 50 }), NOW)).toBeNull();
+    expect(evaluateProposal(makeProposal({ status: 'PASSED' }), NOW)).toBeNull();
+  });
+
+  it('passes on quorum with a FOR majority and rejects otherwise', () => {
+    expect(evaluateProposal(makeProposal({ votesFor: 8, votesAgainst: 4 }), NOW)).toMatchObject({ status: 'PASSED', closeReason: 'MAJORITY_FOR' });
+    expect(evaluateProposal(makeProposal({ votesFor: 5, votesAgainst: 5 }), NOW)).toMatchObject({ status: 'REJECTED', closeReason: 'MAJORITY_AGAINST' });
+    expect(evaluateProposal(makeProposal({ votesFor: 9 }), NOW)).toMatchObject({ status: 'REJECTED', closeReason: 'QUORUM_NOT_MET' });
+  });
+});
+
+describe('validateParameterChanges', () => {
+  it('rejects non-positive and out of bounds values', () => {
+    expect(validateParameterChanges([{ parameter: 'EVOLUTION_COST_USD', value: 0 }])).toEqual(['EVOLUTION_COST_USD must be a positive number']);
+    expect(validateParameterChanges([{ parameter: 'GRADE_MULTIPLIERS', key: 'S', value: 500 }])).toEqual(['GRADE_MULTIPLIERS.S cannot exceed 100']);
+    expect(validateParameterChanges([{ parameter: 'LEASE_COSTS', key: 'MINING', value: 40 }])).toEqual([]);
+  });
+});
+
+describe('GovernanceEngine (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+  let engine: GovernanceEngine;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-governance-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+    await db.saveUser(makeUser('0xexecutor', { role: 'admin' }));
+    engine = new GovernanceEngine(db);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('closes expired proposals and audits the outcome', async () => {
+    await db.saveProposal(makeProposal({ id: 'LGP-201', votesFor: 12 }));
+    await db.saveProposal(makeProposal({ id: 'LGP-202', expiresAt: '2026-07-01T00:00:00.000Z' }));
+
+    const closed = await engine.closeExpiredProposals(NOW);
+    expect(closed.map(p => p.id)).toEqual(['LGP-201']);
+    expect((await db.getProposal('LGP-201'))!.status).toBe('PASSED');
+    expect((await db.getProposal('LGP-202'))!.status).toBe('ACTIVE');
+    expect(await engine.closeExpiredProposals(NOW)).toEqual([]);
+
+    const audit = await engine.getAuditTrail();
+    expect(audit.map(entry => entry.action)).toEqual(['PROPOSAL_CLOSED', 'PROPOSAL_SETTLED']);
+    expect(audit[0]).toMatchObject({ proposalId: 'LGP-201', before: 'ACTIVE', after: 'PASSED' });
+  });
+
+  it('locks vote weight until the proposal settles and rewards the proposer', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 2 }));
+    await db.saveUser(makeUser('0xbob', { balance: 1 }));
+    await db.saveUser(makeUser('0xcarol'));
+    await db.saveProposal(makeProposal({ requiredWeight: 1, expiresAt: '2026-06-01T00:00:00.000Z', proposerAddress: '0xcarol' }));
+
+    const { voter } = await engine.castVote('LGP-200', vote('0xalice', 'FOR', 1500000000), VOTED_AT);
+    expect(voter.balance).toBe(0.5);
+    expect(voter.transactions.map(t => t.type)).toEqual(['VOTE_LOCK']);
+    await engine.castVote('LGP-200', vote('0xbob', 'AGAINST', 500000000), VOTED_AT);
+
+    await expect(engine.castVote('LGP-200', vote('0xalice', 'FOR', 1), VOTED_AT)).rejects.toThrow('already voted');
+    await expect(engine.castVote('LGP-200', vote('0xbob', 'FOR', 1), VOTED_AT)).rejects.toThrow('already voted');
+    await expect(engine.castVote('LGP-201', vote('0xbob', 'FOR', 1), VOTED_AT)).rejects.toThrow('not found');
+    expect((await db.getUserByAddress('0xalice'))!.balance).toBe(0.5);
+    expect(lockedVoteWeight(await db.getAllProposals(), '0xalice')).toBe(1500000000);
+
+    const [settled] = await engine.closeExpiredProposals(NOW);
+    expect(settled).toMatchObject({ status: 'PASSED', proposerRewardClaimed: true });
+    expect(settled.settledAt).toBeDefined();
+    expect(lockedVoteWeight([settled], '0xalice')).toBe(0);
+
+    expect((await db.getUserByAddress('0xalice'))!.balance).toBe(2);
+    expect((await db.getUserByAddress('0xbob'))!.balance).toBe(1);
+    const carol = (await db.getUserByAddress('0xcarol'))!;
+    expect(carol.usdBalance).toBe(PROPOSAL_FEE_QRK * PROPOSER_REWARD_RATE);
+    expect(carol.transactions.map(t => t.type)).toEqual(['GOVERNANCE_REWARD']);
+
+    expect(await engine.closeExpiredProposals(NOW)).toEqual([]);
+    expect((await db.getUserByAddress('0xalice'))!.balance).toBe(2);
+  });
+
+  it('refuses votes once the proposal has expired, before the sweep closes it', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 1 }));
+    await db.saveProposal(makeProposal({ requiredWeight: 1, expiresAt: '2026-06-01T00:00:00.000Z' }));
+
+    await expect(engine.castVote('LGP-200', vote('0xalice', 'FOR', 1000000000), NOW)).rejects.toThrow('LGP-200 expired');
+    expect((await db.getUserByAddress('0xalice'))!.balance).toBe(1);
+    expect((await db.getProposal('LGP-200'))!.votes).toEqual({});
+  });
+
+  it('pays stake yield at the old balance before a vote moves stake in or out of escrow', async () => {
+    const YEAR = 365 * 24 * 60 * 60 * 1000;
+    await db.saveUser(makeUser('0xalice', { stakedBalance: 10, stakeYieldAccruedAt: new Date(NOW - YEAR).toISOString() }));
+    await db.saveProposal(makeProposal({ requiredWeight: 1, expiresAt: '2026-06-02T00:00:00.000Z' }));
+
+    // A year on the full 10 QBS stake is paid out before 5 QBS of weight is locked
+    const { voter, proposal } = await engine.castVote('LGP-200', vote('0xalice', 'FOR', 5000000000), NOW);
+    expect(voter.balance).toBe(0);
+    expect(voter.stakedBalance).toBeCloseTo(6.24, 9);
+    expect(proposal.votes!['0xalice'].stakedWeight).toBe(3760000000);
+
+    // The following year only earns on the 6.24 QBS left bonded
+    await engine.closeExpiredProposals(NOW + YEAR);
+    const settled = (await db.getUserByAddress('0xalice'))!;
+    expect(settled.stakedBalance).toBeCloseTo(10, 9);
+    expect(settled.balance).toBeCloseTo(1.24 + 6.24 * 0.124, 9);
+    expect(settled.stakeYieldAccruedAt).toBe(new Date(NOW + YEAR).toISOString());
+  });
+
+  it('only marks a settlement whose ledger entry was already posted', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 1 }));
+    await db.saveProposal(makeProposal({ requiredWeight: 0.5, expiresAt: '2026-06-01T00:00:00.000Z' }));
+    await engine.castVote('LGP-200', vote('0xalice', 'FOR', 1000000000), VOTED_AT);
+    await engine.closeExpiredProposals(NOW);
+
+    // Simulate a crash between the release entry and marking the proposal settled
+    const settled = (await db.getProposal('LGP-200'))!;
+    await db.saveProposal({ ...settled, settledAt: undefined });
+
+    const [remarked] = await engine.closeExpiredProposals(NOW);
+    expect(remarked.settledAt).toBeDefined();
+    expect((await db.getUserByAddress('0xalice'))!.balance).toBe(1);
+  });
+
+  it('executes ECONOMIC parameter changes and persists them', async () => {
+    await db.saveProposal(makeProposal({
+      status: 'PASSED',
+      parameterChanges: [
+        { parameter: 'LEASE_COSTS', key: 'MESSAGING', value: 2 },
+        { parameter: 'GRADE_MULTIPLIERS', key: 'S', value: 12 }
+      ]
+    }));
+
+    const result = await engine.executeProposal('LGP-200', '0xexecutor', NOW);
+    expect(result.proposal).toMatchObject({ status: 'COMPLETED', executedBy: '0xexecutor' });
+
+    const restarted = new GovernanceEngine(new ProductionDatabaseManager({ dataDirectory: tempDir }));
+    const parameters = await restarted.getParameters();
+    expect(parameters.LEASE_COSTS).toEqual({ MESSAGING: 2, MINING: DEFAULT_PROTOCOL_PARAMETERS.LEASE_COSTS.MINING });
+    expect(parameters.GRADE_MULTIPLIERS.S).toBe(12);
+    expect(parameters.EVOLUTION_COST_USD).toBe(DEFAULT_PROTOCOL_PARAMETERS.EVOLUTION_COST_USD);
+
+    const audit = await restarted.getAuditTrail();
+    expect(audit.map(entry => [entry.action, entry.details, entry.before, entry.after])).toEqual([
+      ['PARAMETER_CHANGED', 'LEASE_COSTS.MESSAGING', 1, 2],
+      ['PARAMETER_CHANGED', 'GRADE_MULTIPLIERS.S', 10, 12],
+      ['PROPOSAL_EXECUTED', 'Applied 2 parameter change(s)', 'PASSED', 'COMPLETED']
+    ]);
+    await expect(engine.executeProposal('LGP-200', '0xexecutor', NOW)).rejects.toThrow('is COMPLETED');
+  });
+
+  it('refuses to execute proposals that did not pass or carry invalid changes', async () => {
+    await db.saveProposal(makeProposal({ id: 'LGP-203' }));
+    await db.saveProposal(makeProposal({ id: 'LGP-204', status: 'PASSED', parameterChanges: [{ parameter: 'EVOLUTION_COST_USD', value: -5 }] }));
+
+    await expect(engine.executeProposal('LGP-203', '0xexecutor', NOW)).rejects.toThrow('is ACTIVE');
+    await expect(engine.executeProposal('LGP-204', '0xexecutor', NOW)).rejects.toThrow('must be a positive number');
+    expect((await db.getProposal('LGP-204'))!.status).toBe('PASSED');
+    expect(await engine.getParameters()).toEqual(DEFAULT_PROTOCOL_PARAMETERS);
+  });
+
+  it('only lets the proposer or an admin execute', async () => {
+    await db.saveUser(makeUser('0xcarol'));
+    await db.saveUser(makeUser('0xmallory'));
+    await db.saveProposal(makeProposal({ status: 'PASSED', proposerAddress: '0xcarol', parameterChanges: [{ parameter: 'EVOLUTION_COST_USD', value: 5 }] }));
+
+    await expect(engine.executeProposal('LGP-200', '0xmallory', NOW)).rejects.toThrow('only the proposer or an admin');
+    await expect(engine.executeProposal('LGP-200', '0xnobody', NOW)).rejects.toThrow('unknown account');
+    expect((await db.getProposal('LGP-200'))!.status).toBe('PASSED');
+    expect(await db.getProtocolParameters()).toBeNull();
+
+    const result = await engine.executeProposal('LGP-200', '0xcarol', NOW);
+    expect(result.proposal).toMatchObject({ status: 'COMPLETED', executedBy: '0xcarol' });
+    expect(result.parameters.EVOLUTION_COST_USD).toBe(5);
+  });
+
+  it('hands non-economic proposals off for execution', async () => {
+    await db.saveProposal(makeProposal({ status: 'PASSED', category: 'SCIENTIFIC' }));
+    const result = await engine.executeProposal('LGP-200', '0xexecutor', NOW);
+    expect(result.proposal.status).toBe('EXECUTING');
+    expect(await db.getProtocolParameters()).toBeNull();
+  });
+});
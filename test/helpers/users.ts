@@ -0,0 +1,13 @@
+/**
+ * Test Users
+ * Minimal lattice node profiles shared by the service tests
+ */
+
+import { User } from '../../types';
+
+export const makeUser = (address: string, overrides: Partial<User> = {}): User => ({
+  address, publicKey: `pub-${address}`, privateKey: `prv-${address}`, profileId: `${address}#0001`, mnemonic: '',
+  username: address, passwordHash: 'hash', salt: 'salt', securityCode: 'ABCDE', role: 'user', balance: 0, usdBalance: 0, contacts: [],
+  transactions: [], incidents: [], solvedBlocks: [], ownedNfts: [],
+  shardsTowardNextQBS: 0, messagingActive: true, miningActive: true, xp: 0, level: 1, ...overrides
+});
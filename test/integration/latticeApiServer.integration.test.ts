@@ -0,0 +1,300 @@
+/**
+ * Lattice API Server Integration Tests
+ * Boots the HTTP server against real file and SQLite stores in a temp directory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LatticeApiServer, createLatticeStore } from '../../services/latticeApiServer';
+import { hashSecret } from '../../services/db';
+import { sealBlock } from '../../services/blockHashing';
+import { LatticePoolService } from '../../services/latticePool';
+import { GovernanceEngine } from '../../services/governanceEngine';
+import { toLedgerUnits } from '../../services/ledger';
+import { RewardEpochService, verifyRewardProof } from '../../services/rewardEpochs';
+import { fetchRewardEpoch, fetchRewardProof } from '../../services/latticeApiClient';
+import { User } from '../../types';
+
+const makeUser = async (overrides: Partial<User>): Promise<User> => ({
+  address: '0xalice',
+  publicKey: 'qbs1qalice',
+  privateKey: 'LATTICE-PRV-ALICE',
+  profileId: 'ALICE#0001',
+  mnemonic: 'photon hadron muon',
+  username: 'alice',
+  passwordHash: await hashSecret('alice-password', 'alice-salt'),
+  salt: 'alice-salt',
+  securityCode: 'ABCDE',
+  role: 'user',
+  balance: 1,
+  usdBalance: 1000,
+  contacts: [],
+  transactions: [],
+  incidents: [],
+  solvedBlocks: [],
+  ownedNfts: [],
+  shardsTowardNextQBS: 0,
+  messagingActive: true,
+  miningActive: true,
+  xp: 0,
+  level: 1,
+  ...overrides
+});
+
+describe.each(['file', 'sqlite'] as const)('Lattice API Server (%s store)', (storeType) => {
+  let tempDir: string;
+  let server: LatticeApiServer;
+  let baseUrl: string;
+  let location: string;
+
+  const api = async (method: string, route: string, body?: unknown, token?: string) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const login = async (identifier: string, password: string, securityCode: string) => {
+    const result = await api('POST', '/api/auth/login', { identifier, password, securityCode });
+    expect(result.status).toBe(200);
+    return result.body.token as string;
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-api-'));
+    location = storeType === 'sqlite' ? path.join(tempDir, 'lattice.db') : tempDir;
+
+    const seedStore = createLatticeStore(storeType, location);
+    await seedStore.initialize();
+    await seedStore.saveUser(await makeUser({
+      solvedBlocks: [{
+        id: 'BLOCK-A1', shardId: 'SHD-1', shardIndex: 1, shardParentId: 'SHD-MAIN', tokenParentId: 'QBS-ALPHA',
+        totalShardsPerToken: 1000, timestamp: '2026-01-01', problem: 'p', answer: 'a', explanation: 'e', reward: 0,
+        payoutPerShard: '100 QRK', difficulty: 'PEER_REVIEW_STRICT', hash: 'h1', parentHash: '0'.repeat(64),
+        integrityHash: 'i1', isPeerReviewed: true, advancementLevel: 1, grade: 'B'
+      }],
+      transactions: [{ id: 'TX-1', timestamp: '2026-01-01', type: 'CREDIT', amount: '100', unit: 'QRK', description: 'seed' }]
+    }));
+    await seedStore.saveUser(await makeUser({
+      address: '0xbob', username: 'bob', profileId: 'BOB#0002', privateKey: 'LATTICE-PRV-BOB',
+      passwordHash: await hashSecret('bob-password', 'bob-salt'), salt: 'bob-salt', securityCode: 'BOB12', usdBalance: 10
+    }));
+    await seedStore.close();
+
+    server = new LatticeApiServer({ store: createLatticeStore(storeType, location) });
+    const port = await server.start(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports health and store type', async () => {
+    const result = await api('GET', '/api/health');
+    expect(result.status).toBe(200);
+    expect(result.body.status).toBe('ok');
+    expect(result.body.store).toBe(storeType);
+  });
+
+  it('lists users without secrets or private data', async () => {
+    const result = await api('GET', '/api/users');
+    const alice = result.body.find((u: User) => u.username === 'alice');
+
+    expect(alice).toBeDefined();
+    expect(alice.passwordHash).toBeUndefined();
+    expect(alice.salt).toBeUndefined();
+    expect(alice.privateKey).toBeUndefined();
+    expect(alice.mnemonic).toBeUndefined();
+    expect(alice.transactions).toBeUndefined();
+  });
+
+  it('rejects invalid credentials', async () => {
+    const result = await api('POST', '/api/auth/login', { identifier: 'alice', password: 'wrong', securityCode: 'ABCDE' });
+    expect(result.status).toBe(401);
+  });
+
+  it('requires authentication for transactions and restricts them to the owner', async () => {
+    expect((await api('GET', '/api/users/0xalice/transactions')).status).toBe(401);
+
+    const bobToken = await login('bob', 'bob-password', 'BOB12');
+    expect((await api('GET', '/api/users/0xalice/transactions', undefined, bobToken)).status).toBe(403);
+
+    const aliceToken = await login('alice', 'alice-password', 'abcde');
+    const result = await api('GET', '/api/users/0xalice/transactions', undefined, aliceToken);
+    expect(result.status).toBe(200);
+    expect(result.body.map((t: any) => t.id)).toEqual(['TX-1']);
+  });
+
+  it('exposes solved blocks across the registry with their miner', async () => {
+    const result = await api('GET', '/api/blocks');
+    expect(result.status).toBe(200);
+    expect(result.body).toHaveLength(1);
+    expect(result.body[0]).toMatchObject({ id: 'BLOCK-A1', miner: '0xalice' });
+  });
+
+  it('only accepts editable profile fields on update', async () => {
+    const token = await login('alice', 'alice-password', 'ABCDE');
+
+    const rejected = await api('PUT', '/api/users/0xalice', { balance: 999 }, token);
+    expect(rejected.status).toBe(400);
+    expect((await api('PUT', '/api/users/0xalice', { payoutAddress: '0x000000000000000000000000000000000000dEaD' }, token)).status).toBe(400);
+
+    const updated = await api('PUT', '/api/users/0xalice', { tagline: 'Shared lattice' }, token);
+    expect(updated.status).toBe(200);
+    expect((await api('GET', '/api/users/0xalice')).body.tagline).toBe('Shared lattice');
+    expect((await api('GET', '/api/users/0xalice')).body.balance).toBe(1);
+  });
+
+  it('creates proposals visible to every client and charges the fee', async () => {
+    const token = await login('alice', 'alice-password', 'ABCDE');
+    const created = await api('POST', '/api/proposals', { title: 'Map gravitational waves', category: 'SCIENTIFIC' }, token);
+
+    expect(created.status).toBe(201);
+    expect(created.body.status).toBe('ACTIVE');
+    expect(created.body.proposer).toBe('ALICE#0001');
+
+    const listed = await api('GET', '/api/proposals');
+    expect(listed.body.map((p: any) => p.id)).toContain(created.body.id);
+
+    const me = await api('GET', '/api/users/0xalice', undefined, token);
+    expect(me.body.usdBalance).toBe(500);
+  });
+
+  it('refuses proposals from nodes that cannot pay the fee', async () => {
+    const token = await login('bob', 'bob-password', 'BOB12');
+    const result = await api('POST', '/api/proposals', { title: 'Underfunded' }, token);
+    expect(result.status).toBe(402);
+  });
+
+  it('returns the fee when the proposal cannot be stored', async () => {
+    await server.stop();
+    const store = createLatticeStore(storeType, location);
+    store.saveProposal = async () => { throw new Error('Proposal store unavailable'); };
+    server = new LatticeApiServer({ store });
+    baseUrl = `http://127.0.0.1:${await server.start(0)}`;
+
+    const token = await login('alice', 'alice-password', 'ABCDE');
+    expect((await api('POST', '/api/proposals', { title: 'Map gravitational waves' }, token)).status).toBe(500);
+    expect((await api('GET', '/api/proposals')).body).toEqual([]);
+
+    const me = await api('GET', '/api/users/0xalice', undefined, token);
+    expect(me.body.usdBalance).toBe(1000);
+    expect(me.body.transactions.map((t: any) => t.type)).toEqual(['CREDIT', 'DEBIT', 'CREDIT']);
+  });
+
+  it('records one vote per voter and persists the tallies', async () => {
+    const aliceToken = await login('alice', 'alice-password', 'ABCDE');
+    const created = await api('POST', '/api/proposals', { title: 'Fund the interferometer' }, aliceToken);
+    const route = `/api/proposals/${created.body.id}/votes`;
+
+    const voted = await api('POST', route, { type: 'FOR', weight: 250000000 }, aliceToken);
+    expect(voted.status).toBe(201);
+    expect(voted.body.votesFor).toBe(0.25);
+    expect(voted.body.votes['0xalice']).toMatchObject({ type: 'FOR', weight: 250000000 });
+
+    expect((await api('POST', route, { type: 'AGAINST', weight: 1 }, aliceToken)).status).toBe(409);
+    expect((await api('POST', route, { type: 'FOR', weight: 2000000000 }, await login('bob', 'bob-password', 'BOB12'))).status).toBe(400);
+
+    const stored = await api('GET', `/api/proposals/${created.body.id}`);
+    expect(stored.body.votesFor).toBe(0.25);
+    expect(Object.keys(stored.body.votes)).toEqual(['0xalice']);
+  });
+
+  it('locks vote weight in escrow until the proposal settles', async () => {
+    const token = await login('alice', 'alice-password', 'ABCDE');
+    const first = await api('POST', '/api/proposals', { title: 'Fund the interferometer' }, token);
+    const second = await api('POST', '/api/proposals', { title: 'Fund the cryostat' }, token);
+
+    expect((await api('POST', `/api/proposals/${first.body.id}/votes`, { type: 'FOR', weight: 750000000 }, token)).status).toBe(201);
+    expect((await api('GET', '/api/users/0xalice', undefined, token)).body.balance).toBeCloseTo(0.25, 9);
+    const reused = await api('POST', `/api/proposals/${second.body.id}/votes`, { type: 'FOR', weight: 750000000 }, token);
+    expect(reused.status).toBe(400);
+    expect(reused.body.error).toMatch(/exceeds voting power/);
+
+    const store = createLatticeStore(storeType, location);
+    await store.initialize();
+    expect((await store.getLedgerBalances())[`system:escrow:${first.body.id}`]?.QBS).toBe(toLedgerUnits(0.75));
+    const settled = await new GovernanceEngine(store).closeExpiredProposals(Date.now() + 8 * 86400000);
+    await store.close();
+
+    expect(settled.find(p => p.id === first.body.id)).toMatchObject({ status: 'REJECTED' });
+    expect(settled.every(p => p.settledAt)).toBe(true);
+    expect((await api('GET', '/api/users/0xalice', undefined, token)).body.balance).toBeCloseTo(1, 9);
+  });
+
+  it('serves the pool and the candles of executed swaps', async () => {
+    const seedStore = createLatticeStore(storeType, storeType === 'sqlite' ? path.join(tempDir, 'lattice.db') : tempDir);
+    await seedStore.initialize();
+    const pool = new LatticePoolService(seedStore);
+    const first = await pool.swap('0xalice', 'USD', 100, 0, Date.parse('2026-06-01T10:15:00.000Z'));
+    const second = await pool.swap('0xalice', 'QRK', 50000000, 0, Date.parse('2026-06-01T10:45:00.000Z'));
+    await seedStore.close();
+
+    const state = await api('GET', '/api/market/pool');
+    expect(state.body.totalVolumeUsd).toBeCloseTo(100 + second.quote.usdAmount, 9);
+
+    const hourly = await api('GET', '/api/market/candles?interval=1h');
+    expect(hourly.body).toHaveLength(1);
+    expect(hourly.body[0]).toMatchObject({
+      openTime: Date.parse('2026-06-01T10:00:00.000Z'),
+      open: first.quote.executionPrice,
+      close: second.quote.executionPrice,
+      trades: 2
+    });
+    expect((await api('GET', `/api/market/candles?interval=1d&from=${Date.parse('2026-06-02T00:00:00.000Z')}`)).body).toEqual([]);
+    expect((await api('GET', '/api/market/candles?interval=5m')).status).toBe(400);
+  });
+
+  it('only relays reward claims for the caller\'s blocks when a relayer is configured', async () => {
+    const claim = { type: 'MINING', blockId: 'BLOCK-A1', owner: '0xalice', recipient: '0x0', grade: 'S', issuedAt: Date.now() };
+    expect((await api('POST', '/api/rewards/claims', { claim, signature: '0x' })).status).toBe(401);
+
+    const bobToken = await login('bob', 'bob-password', 'BOB12');
+    expect((await api('POST', '/api/rewards/claims', { claim, signature: '0x' }, bobToken)).status).toBe(503);
+    expect((await api('GET', '/api/rewards/claims/RLY-1', undefined, bobToken)).status).toBe(503);
+  });
+
+  it('serves the latest reward epoch and per-node proofs', async () => {
+    expect((await api('GET', '/api/rewards/epoch')).status).toBe(404);
+    expect(await fetchRewardEpoch(baseUrl)).toBeNull();
+
+    const wallet = '0x00000000000000000000000000000000000A11CE';
+    const store = createLatticeStore(storeType, location);
+    await store.initialize();
+    const alice = (await store.getUserByAddress('0xalice'))!;
+    const sealed = await sealBlock({ ...alice.solvedBlocks[0], grade: 'S', gradedBy: 'deepseek' }, alice.address);
+    await store.saveUser({ ...alice, payoutAddress: wallet, solvedBlocks: [sealed] });
+    const epoch = (await new RewardEpochService(store).runEpoch())!;
+    await store.close();
+
+    const summary = await api('GET', '/api/rewards/epoch');
+    expect(summary.body).toMatchObject({ epoch: 1, root: epoch.root, nodes: 1 });
+    expect(summary.body.leaves).toBeUndefined();
+
+    const proof = await api('GET', '/api/rewards/epoch/proofs/0xalice');
+    expect(proof.status).toBe(200);
+    expect(proof.body.account.toLowerCase()).toBe(wallet.toLowerCase());
+    expect(verifyRewardProof(epoch.root, proof.body, proof.body.proof)).toBe(true);
+    expect((await api('GET', '/api/rewards/epoch/proofs/0xbob')).status).toBe(404);
+
+    // The client the reward panel loads them with
+    expect(await fetchRewardEpoch(baseUrl)).toMatchObject({ epoch: 1, root: epoch.root, nodes: 1 });
+    expect(await fetchRewardProof('0xalice', baseUrl)).toEqual(proof.body);
+    expect(await fetchRewardProof('0xbob', baseUrl)).toBeNull();
+  });
+
+  it('invalidates the session on logout', async () => {
+    const token = await login('alice', 'alice-password', 'ABCDE');
+    expect((await api('POST', '/api/auth/logout', undefined, token)).status).toBe(200);
+    expect((await api('GET', '/api/users/0xalice/transactions', undefined, token)).status).toBe(401);
+  });
+});
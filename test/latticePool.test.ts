@@ -0,0 +1,156 @@
+/**
+ * Lattice Pool Tests
+ * Covers constant-product quotes with fees, slippage limits, price candles,
+ * reserves that persist through the ledger and statistics rebuilt from it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LatticePoolService, GENESIS_POOL, POOL_CONFIG, applySwap, mergeTrade, quoteSwap, spotPrice } from '../services/latticePool';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { LatticePool } from '../types';
+import { makeUser } from './helpers/users';
+
+const POOL: LatticePool = {
+  qbsReserve: 1000,
+  usdReserve: 1000000,
+  kConstant: 1000 * 1000000,
+  lastPrice: 1000,
+  totalVolumeUsd: 0
+};
+
+describe('quoteSwap', () => {
+  it('prices along the constant product after the fee', () => {
+    const quote = quoteSwap(POOL, 'USD', 10000, 0);
+    expect(quote.qbsAmount).toBeCloseTo(1000 - 1000 * 1000000 / 1010000, 9);
+    expect(quote.amountOut).toBeCloseTo(quote.qbsAmount * 1e9, 0);
+    expect(quote.executionPrice).toBeGreaterThan(spotPrice(POOL));
+
+    const withFee = quoteSwap(POOL, 'USD', 10000);
+    expect(withFee.fee).toBe(10000 * POOL_CONFIG.FEE_RATE);
+    expect(withFee.qbsAmount).toBeLessThan(quote.qbsAmount);
+  });
+
+  it('keeps the fee in the reserves so k grows', () => {
+    const quote = quoteSwap(POOL, 'QRK', 5e9);
+    const next = applySwap(POOL, quote);
+    expect(next.qbsReserve).toBe(1005);
+    expect(next.kConstant).toBeGreaterThan(POOL.kConstant);
+    expect(next.lastPrice).toBe(quote.executionPrice);
+    expect(next.totalVolumeUsd).toBe(quote.usdAmount);
+  });
+
+  it('rejects non-positive amounts', () => {
+    expect(() => quoteSwap(POOL, 'USD', 0)).toThrow('amount must be positive');
+  });
+});
+
+describe('mergeTrade', () => {
+  it('opens a candle per interval and folds later trades into it', () => {
+    const at = Date.parse('2026-06-01T10:20:00.000Z');
+    const opened = mergeTrade(null, '1h', 1000, 50, at);
+    expect(opened).toMatchObject({ id: `1h:${Date.parse('2026-06-01T10:00:00.000Z')}`, open: 1000, close: 1000, trades: 1 });
+
+    const folded = mergeTrade(opened, '1h', 990, 25, at + 60000);
+    expect(folded).toMatchObject({ open: 1000, high: 1000, low: 990, close: 990, volumeUsd: 75, trades: 2 });
+    expect(mergeTrade(folded, '1h', 995, 10, at + 3600000).openTime).toBe(Date.parse('2026-06-01T11:00:00.000Z'));
+  });
+});
+
+describe('LatticePoolService (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+  let pool: LatticePoolService;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-pool-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+    pool = new LatticePoolService(db);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('starts from the genesis reserves', async () => {
+    expect(await pool.getPool()).toEqual({
+      ...GENESIS_POOL,
+      kConstant: GENESIS_POOL.qbsReserve * GENESIS_POOL.usdReserve,
+      lastPrice: 1000,
+      totalVolumeUsd: 0
+    });
+  });
+
+  it('executes swaps against the reserves and records the price', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 2, usdBalance: 5000 }));
+
+    const bought = await pool.swap('0xalice', 'USD', 4000);
+    expect(bought.user.usdBalance).toBe(1000);
+    expect(bought.user.balance).toBeCloseTo(2 + bought.quote.qbsAmount, 9);
+    const [swap] = bought.user.transactions;
+    expect(swap).toMatchObject({ type: 'SWAP', unit: 'USD', amount: '4000', price: bought.quote.executionPrice });
+
+    const restarted = new LatticePoolService(new ProductionDatabaseManager({ dataDirectory: tempDir }));
+    const persisted = await restarted.getPool();
+    expect(persisted.qbsReserve).toBeCloseTo(GENESIS_POOL.qbsReserve - bought.quote.qbsAmount, 9);
+    expect(persisted.usdReserve).toBe(GENESIS_POOL.usdReserve + 4000);
+    expect(persisted.lastPrice).toBe(bought.quote.executionPrice);
+    expect(persisted.totalVolumeUsd).toBe(4000);
+
+    const sold = await restarted.swap('0xalice', 'QRK', 1e9);
+    expect(sold.user.balance).toBeCloseTo(1 + bought.quote.qbsAmount, 9);
+    expect(sold.pool.totalVolumeUsd).toBeCloseTo(4000 + sold.quote.usdAmount, 9);
+  });
+
+  it('stores hourly and daily candles of executed prices', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 1, usdBalance: 1000 }));
+    const morning = Date.parse('2026-06-01T09:30:00.000Z');
+    const first = await pool.swap('0xalice', 'USD', 500, 0, morning);
+    const second = await pool.swap('0xalice', 'USD', 100, 0, morning + 3600000);
+
+    const hourly = await pool.getPriceHistory('1h');
+    expect(hourly.map(candle => candle.close)).toEqual([first.quote.executionPrice, second.quote.executionPrice]);
+    const [daily] = await pool.getPriceHistory('1d');
+    expect(daily).toMatchObject({ open: first.quote.executionPrice, close: second.quote.executionPrice, volumeUsd: 600, trades: 2 });
+    expect(await pool.getPriceHistory('1h', Date.parse('2026-06-01T10:00:00.000Z'))).toHaveLength(1);
+  });
+
+  it('rebuilds statistics and candles from the ledger when their write is lost', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 1, usdBalance: 1000 }));
+    const morning = Date.parse('2026-06-01T09:30:00.000Z');
+    const first = await pool.swap('0xalice', 'USD', 500, 0, morning);
+    expect(await pool.recoverHistory()).toBe(false);
+
+    // The second swap's ledger entry commits but its statistics and candles do not
+    const commitPoolTrade = db.commitPoolTrade.bind(db);
+    db.commitPoolTrade = async () => { throw new Error('disk full'); };
+    const second = await pool.swap('0xalice', 'USD', 100, 0, morning + 3600000);
+    expect(second.user.usdBalance).toBe(400);
+    expect((await pool.getPool()).totalVolumeUsd).toBe(500);
+    db.commitPoolTrade = commitPoolTrade;
+
+    const restarted = new LatticePoolService(new ProductionDatabaseManager({ dataDirectory: tempDir }));
+    expect(await restarted.recoverHistory()).toBe(true);
+    const recovered = await restarted.getPool();
+    expect(recovered.totalVolumeUsd).toBe(600);
+    expect(recovered.lastPrice).toBeCloseTo(second.quote.executionPrice, 6);
+    const hourly = await restarted.getPriceHistory('1h');
+    expect(hourly.map(candle => candle.openTime)).toEqual([Date.parse('2026-06-01T09:00:00.000Z'), Date.parse('2026-06-01T10:00:00.000Z')]);
+    expect(hourly[0].close).toBeCloseTo(first.quote.executionPrice, 6);
+    expect((await restarted.getPriceHistory('1d'))[0]).toMatchObject({ volumeUsd: 600, trades: 2 });
+    expect(await restarted.recoverHistory()).toBe(false);
+  });
+
+  it('refuses swaps beyond the slippage limit or the trader balance', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 1, usdBalance: 100 }));
+    const quote = await pool.quote('USD', 100);
+
+    await expect(pool.swap('0xalice', 'USD', 100, quote.amountOut + 1)).rejects.toThrow('slippage limit');
+    await expect(pool.swap('0xalice', 'USD', 200)).rejects.toThrow('Ledger entry rejected');
+    expect((await db.getUserByAddress('0xalice'))!.usdBalance).toBe(100);
+    expect((await pool.getPool()).totalVolumeUsd).toBe(0);
+  });
+});
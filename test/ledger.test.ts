@@ -0,0 +1,191 @@
+/**
+ * Double-Entry Ledger Tests
+ * Covers the posting invariants, balance derivation and atomic commits
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  LedgerService,
+  LedgerBackend,
+  LedgerBalances,
+  LedgerEntry,
+  SYSTEM_ACCOUNTS,
+  applyLedgerEntry,
+  movement,
+  userAccount,
+  toLedgerUnits,
+  validateLedgerEntry
+} from '../services/ledger';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { Transaction, User } from '../types';
+import { makeUser } from './helpers/users';
+
+const makeTransaction = (id: string, type: Transaction['type'], amount: number, unit: Transaction['unit']): Transaction => ({
+  id,
+  timestamp: '2026-01-01',
+  type,
+  amount: amount.toString(),
+  unit,
+  description: id
+});
+
+class MemoryLedgerBackend implements LedgerBackend {
+  users = new Map<string, User>();
+  entries: LedgerEntry[] = [];
+  failNextCommit = false;
+
+  async getUserByAddress(address: string): Promise<User | null> {
+    return this.users.get(address) || null;
+  }
+
+  async getLedgerBalances(): Promise<LedgerBalances> {
+    return this.entries.reduce(applyLedgerEntry, {} as LedgerBalances);
+  }
+
+  async commitLedgerEntry(entry: LedgerEntry, users: User[]): Promise<void> {
+    if (this.failNextCommit) {
+      this.failNextCommit = false;
+      throw new Error('disk full');
+    }
+    this.entries.push(entry);
+    users.forEach(user => this.users.set(user.address, user));
+  }
+}
+
+describe('validateLedgerEntry', () => {
+  it('accepts balanced postings', () => {
+    const entry: LedgerEntry = {
+      id: 'LED-1', timestamp: '', description: '',
+      postings: movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount('0xa'), 'QRK', 10)
+    };
+    expect(validateLedgerEntry(entry, {})).toEqual([]);
+  });
+
+  it('rejects postings that do not sum to zero per asset', () => {
+    const entry: LedgerEntry = {
+      id: 'LED-1', timestamp: '', description: '',
+      postings: [
+        { account: SYSTEM_ACCOUNTS.ISSUANCE, asset: 'QRK', amount: -toLedgerUnits(10) },
+        { account: userAccount('0xa'), asset: 'QBS', amount: toLedgerUnits(10) }
+      ]
+    };
+    const errors = validateLedgerEntry(entry, {});
+    expect(errors).toContain(`QRK postings do not balance (off by ${-toLedgerUnits(10)})`);
+  });
+
+  it('rejects entries that overdraw a user account but not system accounts', () => {
+    const entry: LedgerEntry = {
+      id: 'LED-1', timestamp: '', description: '',
+      postings: movement(userAccount('0xa'), SYSTEM_ACCOUNTS.FEES, 'QRK', 5)
+    };
+    expect(validateLedgerEntry(entry, {})).toEqual(['Insufficient QRK on user:0xa']);
+
+    const mint: LedgerEntry = { ...entry, postings: movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount('0xa'), 'QRK', 5) };
+    expect(validateLedgerEntry(mint, {})).toEqual([]);
+  });
+});
+
+describe('LedgerService', () => {
+  let backend: MemoryLedgerBackend;
+  let service: LedgerService;
+
+  beforeEach(() => {
+    backend = new MemoryLedgerBackend();
+    backend.users.set('0xalice', makeUser('0xalice', { balance: 1, usdBalance: 100 }));
+    backend.users.set('0xbob', makeUser('0xbob', { balance: 0, usdBalance: 10 }));
+    service = new LedgerService(backend);
+  });
+
+  it('moves funds between users in one commit and opens pre-ledger balances', async () => {
+    const { sender, recipient } = await service.transfer('0xalice', '0xbob', 40, 'QRK', {
+      outgoing: makeTransaction('TX-OUT', 'TRANSFER_OUT', 40, 'QRK'),
+      incoming: makeTransaction('TX-IN', 'TRANSFER_IN', 40, 'QRK')
+    });
+
+    expect(sender.usdBalance).toBe(60);
+    expect(sender.balance).toBe(1);
+    expect(recipient.usdBalance).toBe(50);
+    expect(sender.transactions.map(t => t.id)).toEqual(['TX-OUT']);
+    expect(recipient.transactions.map(t => t.id)).toEqual(['TX-IN']);
+
+    expect(backend.entries).toHaveLength(1);
+    const accounts = backend.entries[0].postings.map(p => p.account);
+    expect(accounts).toContain(SYSTEM_ACCOUNTS.OPENING);
+  });
+
+  it('derives balances from postings without float drift', async () => {
+    for (let i = 0; i < 10; i++) {
+      await service.credit('0xbob', 0.1, 'QRK', makeTransaction(`CR-${i}`, 'CREDIT', 0.1, 'QRK'));
+    }
+    expect(backend.users.get('0xbob')!.usdBalance).toBe(11);
+  });
+
+  it('rejects overdrafts without writing anything', async () => {
+    await expect(service.debit('0xbob', 11, 'USD', makeTransaction('FEE', 'DEBIT', 11, 'USD')))
+      .rejects.toThrow('Insufficient QRK');
+
+    expect(backend.entries).toHaveLength(0);
+    expect(backend.users.get('0xbob')!.usdBalance).toBe(10);
+    expect(backend.users.get('0xbob')!.transactions).toHaveLength(0);
+  });
+
+  it('leaves both users untouched when the commit fails', async () => {
+    backend.failNextCommit = true;
+    await expect(service.transfer('0xalice', '0xbob', 1, 'QBS', {
+      outgoing: makeTransaction('TX-OUT', 'TRANSFER_OUT', 1, 'QBS'),
+      incoming: makeTransaction('TX-IN', 'TRANSFER_IN', 1, 'QBS')
+    })).rejects.toThrow('disk full');
+
+    expect(backend.users.get('0xalice')!.balance).toBe(1);
+    expect(backend.users.get('0xbob')!.balance).toBe(0);
+  });
+
+  it('rejects unknown accounts', async () => {
+    await expect(service.credit('0xnobody', 1, 'QRK', makeTransaction('CR', 'CREDIT', 1, 'QRK')))
+      .rejects.toThrow('unknown account 0xnobody');
+  });
+});
+
+describe('ProductionDatabaseManager ledger (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-ledger-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+    await db.saveUser(makeUser('0xalice', { balance: 0, usdBalance: 100 }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('refuses direct balance edits once an account is on the ledger', async () => {
+    const service = new LedgerService(db);
+    const debited = await service.debit('0xalice', 25, 'USD', makeTransaction('FEE', 'DEBIT', 25, 'USD'));
+    expect(debited.usdBalance).toBe(75);
+
+    await expect(db.saveUser({ ...debited, usdBalance: 1000 })).rejects.toThrow('does not match the ledger');
+    await expect(db.saveUser({ ...debited, tagline: 'still editable' })).resolves.toBeUndefined();
+  });
+
+  it('completes a commit interrupted after its journal was written', async () => {
+    const entry: LedgerEntry = {
+      id: 'LED-CRASH', timestamp: '', description: 'interrupted',
+      postings: movement(SYSTEM_ACCOUNTS.ISSUANCE, userAccount('0xalice'), 'QRK', 100)
+    };
+    const user = makeUser('0xalice', { balance: 0, usdBalance: 100 });
+    fs.writeFileSync(path.join(tempDir, 'ledger', 'journal.json'), JSON.stringify({ entry, users: [user] }));
+
+    const restarted = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await restarted.initialize();
+
+    expect(fs.existsSync(path.join(tempDir, 'ledger', 'journal.json'))).toBe(false);
+    expect((await restarted.getLedgerBalances())[userAccount('0xalice')]).toEqual({ QRK: toLedgerUnits(100) });
+    expect((await restarted.getUserByAddress('0xalice'))!.usdBalance).toBe(100);
+  });
+});
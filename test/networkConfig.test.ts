@@ -0,0 +1,40 @@
+/**
+ * Network Config Tests
+ * Covers contract address lookup from the deployment registry and env overrides
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.mock('../deployments/qbs-token.json', () => ({
+  default: {
+    1337: {
+      chainId: 1337,
+      address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      blockNumber: 1,
+      abiHash: '0x01',
+      deployedAt: '2026-06-01T00:00:00.000Z'
+    }
+  }
+}));
+
+import { getContractAddress, getDeployment } from '../services/networkConfig';
+
+describe('contract address registry', () => {
+  afterEach(() => {
+    delete process.env.QBS_CONTRACT_ADDRESSES;
+  });
+
+  it('reads addresses recorded by the deploy script', () => {
+    expect(getContractAddress(1337)).toBe('0x5FbDB2315678afecb367f032d93F642f64180aa3');
+    expect(getDeployment(1337)!.blockNumber).toBe(1);
+    expect(getContractAddress(11155111)).toBe('');
+    expect(getDeployment(11155111)).toBeNull();
+  });
+
+  it('lets QBS_CONTRACT_ADDRESSES override the registry per chain', () => {
+    process.env.QBS_CONTRACT_ADDRESSES = '11155111:0x00000000000000000000000000000000000000aa, 1337:0x00000000000000000000000000000000000000bb';
+    expect(getContractAddress(11155111)).toBe('0x00000000000000000000000000000000000000aa');
+    expect(getContractAddress(1337)).toBe('0x00000000000000000000000000000000000000bb');
+  });
+});
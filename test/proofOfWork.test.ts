@@ -0,0 +1,154 @@
+/**
+ * Proof of Work Tests
+ * Covers nonce search, re-verification from a stored block, backdated mining times
+ * and difficulty retargeting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  POW_CONFIG,
+  leadingZeroBits,
+  solveProofOfWork,
+  startProofOfWork,
+  verifyProofOfWork,
+  retargetDifficulty,
+  minimumDifficultyAt,
+  ProofOfWorkHeader
+} from '../services/proofOfWork';
+import { sealBlock, verifyChain, GENESIS_PARENT_HASH } from '../services/blockHashing';
+import { SolvedBlock } from '../types';
+
+const header: ProofOfWorkHeader = {
+  parentHash: GENESIS_PARENT_HASH,
+  problem: 'Resolving frontier in quantum gravity...',
+  minerAddress: '0xMiner',
+  minedAt: Date.now()
+};
+
+const minedBlock = async (difficulty: number, minedAt: number = header.minedAt): Promise<SolvedBlock> => {
+  const proof = await solveProofOfWork({ ...header, minedAt }, difficulty);
+  return sealBlock({
+    id: 'BLOCK-1', shardId: 'SHD-1', shardIndex: 1, shardParentId: 'SHD-MAIN', tokenParentId: 'QBS-ALPHA',
+    totalShardsPerToken: 1000, timestamp: '2026-01-01', problem: header.problem, answer: '', explanation: 'e',
+    reward: 0, payoutPerShard: '100 QRK', difficulty: `POW_${difficulty}_BITS`, hash: '', parentHash: header.parentHash,
+    integrityHash: '', isPeerReviewed: true, advancementLevel: 1, grade: 'B',
+    nonce: proof.nonce, powDifficulty: proof.difficulty, powHash: proof.hash, minedAt: proof.minedAt
+  }, header.minerAddress);
+};
+
+const timedBlocks = (intervalMs: number, difficulty: number, count = 5): SolvedBlock[] =>
+  Array.from({ length: count }, (_, i) => ({ minedAt: 1_000_000 + i * intervalMs, powDifficulty: difficulty } as SolvedBlock));
+
+describe('leadingZeroBits', () => {
+  it('counts zero bits across nibbles', () => {
+    expect(leadingZeroBits('ffff')).toBe(0);
+    expect(leadingZeroBits('0fff')).toBe(4);
+    expect(leadingZeroBits('01ff')).toBe(7);
+    expect(leadingZeroBits('003f')).toBe(10);
+  });
+});
+
+describe('solveProofOfWork', () => {
+  it('finds a nonce whose hash meets the difficulty', async () => {
+    const proof = await solveProofOfWork(header, 8);
+    expect(leadingZeroBits(proof.hash)).toBeGreaterThanOrEqual(8);
+    expect(proof.hashes).toBe(proof.nonce + 1);
+  });
+
+  it('can be cancelled', async () => {
+    await expect(solveProofOfWork(header, 40, { shouldStop: () => true })).rejects.toThrow('cancelled');
+  });
+});
+
+describe('startProofOfWork', () => {
+  it('resolves with a valid proof', async () => {
+    const proof = await startProofOfWork(header, 6).result;
+    expect(leadingZeroBits(proof.hash)).toBeGreaterThanOrEqual(6);
+  });
+});
+
+describe('verifyProofOfWork', () => {
+  it('re-verifies the nonce stored on a block', async () => {
+    const block = await minedBlock(8);
+    expect(await verifyProofOfWork(block)).toBe(true);
+    expect(await verifyProofOfWork({ ...block, nonce: block.nonce! + 1 })).toBe(false);
+    expect(await verifyProofOfWork({ ...block, powDifficulty: 64 })).toBe(false);
+  });
+
+  it('binds the mining time into the proof', async () => {
+    const block = await minedBlock(8);
+    expect(block.minedAt).toBe(header.minedAt);
+    expect(await verifyProofOfWork({ ...block, minedAt: block.minedAt! - 60 * 60 * 1000 })).toBe(false);
+    expect(await verifyProofOfWork({ ...block, minedAt: undefined })).toBe(false);
+  });
+
+  it('rejects a block mined before its parent', async () => {
+    const first = await minedBlock(8);
+    const proof = await solveProofOfWork({ ...header, parentHash: first.hash, minedAt: first.minedAt! - 1 }, 8);
+    const second = await sealBlock({
+      ...first, id: 'BLOCK-2', parentHash: first.hash,
+      nonce: proof.nonce, powDifficulty: proof.difficulty, powHash: proof.hash, minedAt: proof.minedAt
+    }, header.minerAddress);
+    expect(await verifyProofOfWork(second)).toBe(true);
+    expect((await verifyChain([first, second])).firstBreak).toMatchObject({ index: 1, reason: 'POW_INVALID' });
+  });
+
+  it('breaks the chain when the proof is forged', async () => {
+    const block = await minedBlock(8);
+    expect((await verifyChain([block])).valid).toBe(true);
+
+    const forged = await sealBlock({ ...block, nonce: block.nonce! + 1 }, header.minerAddress);
+    expect((await verifyChain([forged])).firstBreak?.reason).toBe('POW_INVALID');
+  });
+
+  it('rejects proofs below the minimum difficulty', async () => {
+    const trivial = await minedBlock(0);
+    expect(await verifyProofOfWork(trivial)).toBe(false);
+    expect((await verifyChain([trivial])).firstBreak?.reason).toBe('POW_INVALID');
+  });
+
+  it('holds proofs to the registry difficulty when they were mined', async () => {
+    const registry = timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS, 18);
+    const block = await minedBlock(POW_CONFIG.MIN_DIFFICULTY);
+    expect(minimumDifficultyAt(registry, block.minedAt!)).toBe(18 - POW_CONFIG.MAX_ADJUSTMENT_BITS);
+    expect(minimumDifficultyAt(registry, 0)).toBe(POW_CONFIG.INITIAL_DIFFICULTY - POW_CONFIG.MAX_ADJUSTMENT_BITS);
+
+    expect((await verifyChain([block])).valid).toBe(true);
+    const result = await verifyChain([block], header.minerAddress, registry);
+    expect(result.firstBreak).toMatchObject({ reason: 'POW_INVALID', expected: '16 leading zero bits' });
+  });
+
+  it('rejects a sealed block without a proof after a mined one', async () => {
+    const first = await minedBlock(8);
+    const second = await sealBlock({
+      ...first, id: 'BLOCK-2', parentHash: first.hash, nonce: undefined, powDifficulty: undefined, powHash: undefined
+    }, header.minerAddress);
+    expect((await verifyChain([first, second])).firstBreak).toMatchObject({ index: 1, reason: 'POW_INVALID' });
+  });
+});
+
+describe('retargetDifficulty', () => {
+  it('starts at the initial difficulty without history', () => {
+    expect(retargetDifficulty([])).toBe(POW_CONFIG.INITIAL_DIFFICULTY);
+  });
+
+  it('holds steady at the target interval', () => {
+    expect(retargetDifficulty(timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS, 18))).toBe(18);
+  });
+
+  it('raises difficulty when blocks come too fast and lowers it when slow', () => {
+    expect(retargetDifficulty(timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS / 2, 18))).toBe(19);
+    expect(retargetDifficulty(timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS * 4, 18))).toBe(16);
+  });
+
+  it('caps each adjustment and the overall range', () => {
+    expect(retargetDifficulty(timedBlocks(1, 18))).toBe(18 + POW_CONFIG.MAX_ADJUSTMENT_BITS);
+    expect(retargetDifficulty(timedBlocks(1, POW_CONFIG.MAX_DIFFICULTY))).toBe(POW_CONFIG.MAX_DIFFICULTY);
+    expect(retargetDifficulty(timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS * 100, POW_CONFIG.MIN_DIFFICULTY))).toBe(POW_CONFIG.MIN_DIFFICULTY);
+  });
+
+  it('ignores blocks mined before proof of work', () => {
+    const legacy = { minedAt: undefined, powDifficulty: undefined } as unknown as SolvedBlock;
+    expect(retargetDifficulty([legacy, ...timedBlocks(POW_CONFIG.TARGET_BLOCK_INTERVAL_MS, 12)])).toBe(12);
+  });
+});
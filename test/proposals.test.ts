@@ -0,0 +1,56 @@
+/**
+ * Governance Proposal Tests
+ * Covers vote validation and tallying shared by the proposal stores
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyProposalVote, validateProposalVote } from '../services/proposals';
+import { Proposal, ProposalVote } from '../types';
+
+const proposal: Proposal = {
+  id: 'LGP-100',
+  title: 'Map gravitational waves',
+  description: 'Redirect consensus resources.',
+  proposer: 'ALICE#0001',
+  status: 'ACTIVE',
+  votesFor: 0,
+  votesAgainst: 0,
+  expiresAt: '2026-12-31T00:00:00.000Z',
+  totalQuarksStaked: 500,
+  votes: {}
+};
+
+const NOW = Date.parse('2026-01-01T00:00:00.000Z');
+
+const vote = (voter: string, type: ProposalVote['type'], weight: number): ProposalVote =>
+  ({ voter, type, weight, timestamp: '2026-01-01T00:00:00.000Z' });
+
+describe('applyProposalVote', () => {
+  it('records the vote keyed by voter and tallies its weight in QBS', () => {
+    const afterFor = applyProposalVote(proposal, vote('0xalice', 'FOR', 2000000000));
+    const afterAgainst = applyProposalVote(afterFor, vote('0xbob', 'AGAINST', 500000000));
+
+    expect(afterAgainst.votesFor).toBe(2);
+    expect(afterAgainst.votesAgainst).toBe(0.5);
+    expect(afterAgainst.totalQuarksStaked).toBe(2500000500);
+    expect(Object.keys(afterAgainst.votes!)).toEqual(['0xalice', '0xbob']);
+    expect(proposal.votes).toEqual({});
+  });
+
+  it('rejects a second vote from the same voter', () => {
+    const voted = applyProposalVote(proposal, vote('0xalice', 'FOR', 1));
+    expect(() => applyProposalVote(voted, vote('0xalice', 'AGAINST', 1))).toThrow('0xalice has already voted on LGP-100');
+  });
+
+  it('rejects votes on closed proposals and non-positive weights', () => {
+    expect(validateProposalVote({ ...proposal, status: 'PASSED' }, vote('0xalice', 'FOR', 1), NOW)).toEqual(['Proposal LGP-100 is PASSED']);
+    expect(validateProposalVote(proposal, vote('0xalice', 'FOR', 0), NOW)).toEqual(['Vote weight must be positive']);
+  });
+
+  it('rejects votes cast at or after the expiry', () => {
+    const expiry = Date.parse(proposal.expiresAt);
+    expect(validateProposalVote(proposal, vote('0xalice', 'FOR', 1), expiry - 1)).toEqual([]);
+    expect(validateProposalVote(proposal, vote('0xalice', 'FOR', 1), expiry)).toEqual(['Proposal LGP-100 expired at 2026-12-31T00:00:00.000Z']);
+    expect(() => applyProposalVote(proposal, { ...vote('0xalice', 'FOR', 1), timestamp: proposal.expiresAt })).toThrow('expired');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Research Submission Tests
+ * Covers submission limits, LaTeX format checks, composition and duplicate detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ResearchSubmission, SolvedBlock } from '../types';
+import { SUBMISSION_LIMITS, composeProblem, findDuplicateSubmission, validateSubmission } from '../services/researchSubmission';
+
+const SUBMISSION: ResearchSubmission = {
+  hypothesis: '  Vacuum energy density $\\rho_\\Lambda$ scales with the horizon area, not the volume.  ',
+  formula: '\\rho_\\Lambda = \\frac{3 c^{4}}{8 \\pi G L^{2}}',
+  notes: 'Holographic bound; see Cohen, Kaplan & Nelson (1999).\nValid on [0, L).'
+};
+
+describe('validateSubmission', () => {
+  it('accepts well-formed research and reports length and format problems', () => {
+    expect(validateSubmission(SUBMISSION)).toEqual([]);
+
+    expect(validateSubmission({
+      hypothesis: 'Too short $x',
+      formula: '\\frac{1}{2',
+      notes: 'n'.repeat(SUBMISSION_LIMITS.NOTES_MAX + 1)
+    })).toEqual([
+      `Hypothesis needs at least ${SUBMISSION_LIMITS.HYPOTHESIS_MIN} characters`,
+      'Formula has unbalanced braces',
+      `Notes are limited to ${SUBMISSION_LIMITS.NOTES_MAX} characters`,
+      'A $ math delimiter is never closed'
+    ]);
+    expect(validateSubmission({ ...SUBMISSION, formula: '$E = mc^2$' })).toEqual(['Formula is typeset as LaTeX already; remove the $ delimiters']);
+    expect(validateSubmission({ ...SUBMISSION, notes: 'hidden\u0007bell' })).toEqual(['Submission contains control characters']);
+  });
+});
+
+describe('composeProblem', () => {
+  it('renders the sections as markdown with the formula as display math', () => {
+    expect(composeProblem(SUBMISSION)).toBe(
+      '## Hypothesis\nVacuum energy density $\\rho_\\Lambda$ scales with the horizon area, not the volume.\n\n'
+      + '## Formula\n$$\\rho_\\Lambda = \\frac{3 c^{4}}{8 \\pi G L^{2}}$$\n\n'
+      + '## Supporting Notes\nHolographic bound; see Cohen, Kaplan & Nelson (1999).\nValid on [0, L).'
+    );
+    expect(composeProblem({ hypothesis: 'Only a hypothesis', formula: ' ', notes: '' })).toBe('## Hypothesis\nOnly a hypothesis');
+  });
+});
+
+describe('findDuplicateSubmission', () => {
+  it('matches prior blocks regardless of case, spacing and punctuation', () => {
+    const prior = { id: 'BLOCK-PRIOR', problem: composeProblem(SUBMISSION) } as SolvedBlock;
+    const other = { id: 'BLOCK-OTHER', problem: 'Resolving frontier in Entropy Calibration...' } as SolvedBlock;
+
+    const resubmitted: ResearchSubmission = {
+      ...SUBMISSION,
+      hypothesis: 'VACUUM energy density $\\rho_\\Lambda$   scales with the horizon area - not the volume'
+    };
+    expect(findDuplicateSubmission(resubmitted, [other, prior])?.id).toBe('BLOCK-PRIOR');
+    expect(findDuplicateSubmission({ ...SUBMISSION, notes: 'New derivation from entanglement entropy.' }, [other, prior])).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Reward Distribution Tests
+ * Covers the durable reward queue: status transitions, exponential backoff, the
+ * dead-letter list and manual retry/cancel, persisted through the file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const contract = vi.hoisted(() => ({
+  isAvailable: vi.fn(async () => true),
+  claimRewards: vi.fn()
+}));
+
+vi.mock('../services/qbsContract', () => ({ qbsContract: contract }));
+vi.mock('../services/walletConnector', () => ({
+  walletConnector: {
+    getWalletState: vi.fn(async () => ({ isConnected: true, chainId: 11155111 })),
+    getCurrentSigner: vi.fn(() => null)
+  }
+}));
+
+import { RewardDistributionService, REWARD_QUEUE_CONFIG, retryDelay } from '../services/rewardDistribution';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const PAYOUT = '0x000000000000000000000000000000000000dEaD';
+
+const NODE_ID = '0x' + 'a1'.repeat(32);
+
+// Epoch claim of a node's cumulative accrual; one queue entry per cumulative amount
+const claim = (queue: RewardDistributionService, cumulativeWei: string) =>
+  queue.claimEpochReward(PAYOUT, 1, NODE_ID, cumulativeWei, ['0xproof'], '0.005');
+
+describe('RewardDistributionService (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-reward-queue-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('confirms a reward once its transaction is mined and keeps the hash', async () => {
+    contract.claimRewards.mockImplementation(async (_nodeId, _cumulativeWei, _proof, onSubmitted) => {
+      await onSubmitted('0xabc');
+      return { hash: '0xabc', success: true };
+    });
+    const queue = new RewardDistributionService(db, 0);
+
+    const result = await claim(queue, '5000000000000000');
+    expect(result).toMatchObject({ success: true, transactionHash: '0xabc' });
+    expect(result.explorerUrl).toContain('0xabc');
+
+    // A second claim of the same cumulative amount is deduplicated
+    await claim(queue, '5000000000000000');
+    expect(contract.claimRewards).toHaveBeenCalledTimes(1);
+    expect(contract.claimRewards).toHaveBeenCalledWith(NODE_ID, '5000000000000000', ['0xproof'], expect.any(Function));
+
+    const [stored] = await db.getQueuedRewards();
+    expect(stored).toMatchObject({
+      id: `epoch:${NODE_ID}:5000000000000000`, recipient: PAYOUT, status: 'CONFIRMED', amount: '0.005', attempts: 1, chainId: 11155111
+    });
+  });
+
+  it('backs off exponentially and abandons a reward after the last attempt', async () => {
+    contract.claimRewards.mockResolvedValue({ hash: '', success: false, error: 'RPC down' });
+    const queue = new RewardDistributionService(db, 0);
+    await claim(queue, '2000000000000000');
+
+    let [reward] = await queue.getRewards();
+    expect(reward.status).toBe('FAILED');
+
+    // Not due until the backoff elapses
+    await queue.processQueue(reward.nextAttemptAt - 1);
+    expect(contract.claimRewards).toHaveBeenCalledTimes(1);
+
+    for (let attempt = 2; attempt <= REWARD_QUEUE_CONFIG.MAX_ATTEMPTS; attempt++) {
+      [reward] = await queue.getRewards();
+      await queue.processQueue(reward.nextAttemptAt);
+    }
+    [reward] = await queue.getRewards();
+    expect(reward).toMatchObject({ status: 'ABANDONED', attempts: REWARD_QUEUE_CONFIG.MAX_ATTEMPTS, error: 'RPC down' });
+    expect(await queue.getDeadLetters()).toHaveLength(1);
+    expect(retryDelay(1)).toBe(REWARD_QUEUE_CONFIG.BASE_RETRY_DELAY_MS);
+    expect(retryDelay(3)).toBe(REWARD_QUEUE_CONFIG.BASE_RETRY_DELAY_MS * 4);
+    expect(retryDelay(50)).toBe(REWARD_QUEUE_CONFIG.MAX_RETRY_DELAY_MS);
+
+    // A manual retry survives a reload and starts a fresh set of attempts
+    contract.claimRewards.mockResolvedValue({ hash: '0xdef', success: true });
+    const reloaded = new RewardDistributionService(new ProductionDatabaseManager({ dataDirectory: tempDir }), 0);
+    expect((await reloaded.retryReward(reward.id, NOW)).attempts).toBe(0);
+    await reloaded.processQueue(NOW);
+    expect((await reloaded.getRewards())[0]).toMatchObject({ status: 'CONFIRMED', transactionHash: '0xdef' });
+    expect(await reloaded.getPendingRewardsCount()).toBe(0);
+  });
+
+  it('treats an already-paid claim as confirmed and re-attempts a stale submission', async () => {
+    contract.claimRewards.mockImplementation(async (_nodeId, _cumulativeWei, _proof, onSubmitted) => {
+      await onSubmitted('0x111');
+      return new Promise(() => {}); // receipt never arrives, e.g. the tab closed
+    });
+    const queue = new RewardDistributionService(db, 0);
+    void claim(queue, '3000000000000000');
+    await vi.waitFor(async () => expect((await db.getQueuedRewards())[0]?.status).toBe('SUBMITTED'));
+
+    contract.claimRewards.mockResolvedValue({ hash: '', success: false, alreadyRewarded: true, error: 'already claimed' });
+    const reloaded = new RewardDistributionService(new ProductionDatabaseManager({ dataDirectory: tempDir }), 0);
+    await reloaded.processQueue(Date.now());
+    expect((await reloaded.getRewards())[0].status).toBe('SUBMITTED');
+
+    await reloaded.processQueue(Date.now() + REWARD_QUEUE_CONFIG.SUBMITTED_TIMEOUT_MS);
+    expect((await reloaded.getRewards())[0]).toMatchObject({ status: 'CONFIRMED', transactionHash: '0x111' });
+  });
+
+  it('cancels queued rewards but not submitted ones', async () => {
+    contract.isAvailable.mockResolvedValueOnce(false);
+    const queue = new RewardDistributionService(db, 0);
+    const id = `epoch:${NODE_ID}:4000000000000000`;
+    const result = await claim(queue, '4000000000000000');
+    expect(result).toMatchObject({ success: true, queued: true, rewardId: id });
+
+    const cancelled = await queue.cancelReward(id);
+    expect(cancelled.status).toBe('ABANDONED');
+    await expect(queue.cancelReward(id)).rejects.toThrow('Cancel rejected');
+    await expect(queue.retryReward('mining:missing')).rejects.toThrow('Retry rejected');
+  });
+});
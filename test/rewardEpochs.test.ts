@@ -0,0 +1,208 @@
+/**
+ * Reward Epoch Tests
+ * Covers Merkle proofs in QBSToken's leaf format, aggregation of verified block
+ * accruals per node and epoch roll-up against the file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  RewardEpochService,
+  RewardRootPublisher,
+  aggregateAccruals,
+  blockAccrual,
+  getRewardProof,
+  merkleRoot,
+  rewardLeafHash,
+  rewardNodeId,
+  verifyRewardProof
+} from '../services/rewardEpochs';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { GENESIS_PARENT_HASH, sealBlock, sealLatestAdvance } from '../services/blockHashing';
+import { EvaluationProviderId, SolvedBlock, SovereignGrade } from '../types';
+import { makeUser } from './helpers/users';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const ALICE_WALLET = ethers.Wallet.createRandom().address;
+const BOB_WALLET = ethers.Wallet.createRandom().address;
+
+// block.reward is deliberately inflated: accruals must come from the sealed grades
+const draftBlock = (id: string, grade: SovereignGrade, parentHash: string, gradedBy: EvaluationProviderId = 'deepseek'): SolvedBlock => ({
+  id, shardId: `SHD-${id}`, shardIndex: 1, shardParentId: 'SHD-MAIN', tokenParentId: 'QBS-ALPHA', totalShardsPerToken: 1000,
+  timestamp: '2026-05-31', problem: `p-${id}`, answer: '', explanation: 'e', reward: 100, payoutPerShard: '100 QRK',
+  difficulty: 'PEER_REVIEW_STRICT', hash: '', parentHash, integrityHash: '', isPeerReviewed: true, advancementLevel: 1, grade, gradedBy
+});
+
+const sealedChain = async (address: string, grades: SovereignGrade[]): Promise<SolvedBlock[]> => {
+  const chain: SolvedBlock[] = [];
+  for (const [i, grade] of grades.entries()) {
+    chain.push(await sealBlock(draftBlock(`${address}-${i}`, grade, chain[i - 1]?.hash || GENESIS_PARENT_HASH), address));
+  }
+  return chain;
+};
+
+const evolve = (block: SolvedBlock, grade: SovereignGrade, gradedBy: EvaluationProviderId = 'deepseek'): Promise<SolvedBlock> => sealLatestAdvance({
+  ...block,
+  explanation: 'Evolved explanation',
+  grade,
+  advancementLevel: 2,
+  advancementHistory: [{
+    id: 'ADV-1', level: 2, pathTitle: 'Refinement to Mk 2', description: 'Evolved explanation', consensusArgument: '',
+    timestamp: '', contributingNodes: [], previousExplanation: block.explanation, previousGrade: block.grade, gradedBy
+  }]
+});
+
+describe('reward epoch helpers', () => {
+  it('derives accruals from sealed grades and evolution levels', async () => {
+    const [mined, plain] = await sealedChain('0xalice', ['S', 'C']);
+    expect(blockAccrual(mined)).toBe(0.005);
+    expect(blockAccrual(plain)).toBe(0);
+    expect(blockAccrual(await evolve(plain, 'A'))).toBe(0.001);
+    expect(blockAccrual(await evolve(mined, 'S'))).toBe(0.01);
+  });
+
+  it('pays evolution magnitude only for sealed evolution records', async () => {
+    const [, plain] = await sealedChain('0xalice', ['S', 'C']);
+    const evolved = await evolve(plain, 'S');
+    const unsealed = { ...evolved, advancementHistory: evolved.advancementHistory!.map(({ hash, ...advance }) => advance) };
+    expect(blockAccrual(unsealed)).toBe(0);
+
+    // A rewritten grade fails the record's seal, so the node is paid up to that block only
+    const [mined] = await sealedChain('0xbob', ['S']);
+    const regraded = { ...(await evolve(mined, 'A')), grade: 'S' as const };
+    const leaves = await aggregateAccruals([makeUser('0xbob', { solvedBlocks: [regraded], payoutAddress: BOB_WALLET })]);
+    expect(leaves).toEqual([]);
+  });
+
+  it('pays no magnitude for grades from self-hosted or offline graders', async () => {
+    const [mined] = await sealedChain('0xalice', ['S']);
+    const selfHosted = await sealBlock(draftBlock('0xbob-0', 'S', GENESIS_PARENT_HASH, 'openai-compatible'), '0xbob');
+    expect(blockAccrual(selfHosted)).toBe(0);
+    expect(blockAccrual({ ...mined, gradedBy: undefined })).toBe(0);
+    expect(blockAccrual(await evolve(mined, 'S', 'offline'))).toBe(0.005);
+
+    // Claiming a trusted grader after sealing breaks the seal
+    const leaves = await aggregateAccruals([makeUser('0xbob', { solvedBlocks: [{ ...selfHosted, gradedBy: 'deepseek' }], payoutAddress: BOB_WALLET })]);
+    expect(leaves).toEqual([]);
+  });
+
+  it('keeps one leaf per node, even when nodes share a payout address', async () => {
+    const alice = await sealedChain('0xalice', ['S', 'C']);
+    alice[1] = await evolve(alice[1], 'A');
+    const leaves = await aggregateAccruals([
+      makeUser('0xalice', { solvedBlocks: alice, payoutAddress: ALICE_WALLET.toLowerCase() }),
+      makeUser('0xalt', { solvedBlocks: await sealedChain('0xalt', ['S']), payoutAddress: ALICE_WALLET }),
+      makeUser('0xbob', { solvedBlocks: await sealedChain('0xbob', ['S']), payoutAddress: BOB_WALLET }),
+      makeUser('0xcarol', { solvedBlocks: await sealedChain('0xcarol', ['S']) })
+    ]);
+    const accrued = (address: string) => leaves.find(leaf => leaf.nodeId === rewardNodeId(address));
+    expect(leaves).toHaveLength(3);
+    expect(accrued('0xalice')).toEqual({
+      nodeId: rewardNodeId('0xalice'), account: ALICE_WALLET, cumulativeWei: ethers.parseEther('0.006').toString(),
+      units: ['MINING:0xalice-0', 'EVOLUTION:0xalice-1:2']
+    });
+    expect(accrued('0xalt')).toMatchObject({ account: ALICE_WALLET, cumulativeWei: ethers.parseEther('0.005').toString() });
+    expect(accrued('0xbob')).toMatchObject({ account: BOB_WALLET, cumulativeWei: ethers.parseEther('0.005').toString() });
+    expect(accrued('0xcarol')).toBeUndefined();
+  });
+
+  it('pays nothing for tampered, unsealed or post-break blocks', async () => {
+    const chain = await sealedChain('0xalice', ['S', 'S', 'S']);
+    const regraded = await sealedChain('0xbob', ['C', 'S']);
+    const legacy = { ...draftBlock('0xcarol-0', 'S', GENESIS_PARENT_HASH), hash: 'legacy' };
+
+    const leaves = await aggregateAccruals([
+      // Only the first block counts once the second is rewritten after sealing
+      makeUser('0xalice', { solvedBlocks: [chain[0], { ...chain[1], problem: 'Rewritten problem' }, chain[2]], payoutAddress: ALICE_WALLET }),
+      // Regrading C to S breaks the chain at its first block
+      makeUser('0xbob', { solvedBlocks: [{ ...regraded[0], grade: 'S' }, regraded[1]], payoutAddress: BOB_WALLET }),
+      makeUser('0xcarol', { solvedBlocks: [legacy], payoutAddress: ethers.Wallet.createRandom().address })
+    ]);
+    expect(leaves).toEqual([{
+      nodeId: rewardNodeId('0xalice'), account: ALICE_WALLET, cumulativeWei: ethers.parseEther('0.005').toString(), units: ['MINING:0xalice-0']
+    }]);
+  });
+
+  it('proves every leaf against the root, including an unpaired one', () => {
+    const nodes = ['0xalice', '0xbob', '0xcarol'];
+    const leaves = nodes.map((address, i) => ({ nodeId: rewardNodeId(address), account: ALICE_WALLET, cumulativeWei: ethers.parseEther(`${i + 1}`).toString() }));
+    const root = merkleRoot(leaves.map(leaf => rewardLeafHash(leaf.nodeId, leaf.account, leaf.cumulativeWei)));
+    const epoch = { epoch: 1, root, totalWei: '0', leaves, createdAt: '' };
+
+    for (const address of nodes) {
+      const proof = getRewardProof(epoch, ` ${address.toUpperCase()}`)!;
+      expect(verifyRewardProof(root, proof, proof.proof)).toBe(true);
+      expect(verifyRewardProof(root, { ...proof, cumulativeWei: '1' }, proof.proof)).toBe(false);
+      expect(verifyRewardProof(root, { ...proof, account: BOB_WALLET }, proof.proof)).toBe(false);
+    }
+    expect(getRewardProof(epoch, '0xdave')).toBeNull();
+  });
+});
+
+describe('RewardEpochService (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-epochs-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('rolls new accruals into numbered epochs and publishes each root once', async () => {
+    const published: [number, string][] = [];
+    const publisher: RewardRootPublisher = {
+      publishRewardsRoot: async (epoch, root) => {
+        published.push([epoch, root]);
+        return { hash: `0x${published.length}`, wait: async () => ({ status: 1 }) };
+      }
+    };
+    const epochs = new RewardEpochService(db, publisher);
+
+    expect(await epochs.runEpoch(NOW)).toBeNull();
+    const chain = await sealedChain('0xalice', ['S', 'S']);
+    await db.saveUser(makeUser('0xalice', { solvedBlocks: chain.slice(0, 1), payoutAddress: ALICE_WALLET }));
+
+    const first = await epochs.runEpoch(NOW);
+    expect(first).toMatchObject({ epoch: 1, publishedTxHash: '0x1', totalWei: ethers.parseEther('0.005').toString() });
+    expect(await epochs.runEpoch(NOW)).toBeNull();
+
+    await db.saveUser(makeUser('0xalice', { solvedBlocks: chain, payoutAddress: ALICE_WALLET }));
+    const second = await new RewardEpochService(new ProductionDatabaseManager({ dataDirectory: tempDir }), publisher).runEpoch(NOW);
+    expect(second!.epoch).toBe(2);
+    expect(published.map(([epoch]) => epoch)).toEqual([1, 2]);
+    expect(getRewardProof(second!, '0xalice')!.cumulativeWei).toBe(ethers.parseEther('0.01').toString());
+  });
+
+  it('carries a node\'s cumulative accrual over to a new payout address', async () => {
+    const epochs = new RewardEpochService(db);
+    const chain = await sealedChain('0xalice', ['S', 'S']);
+    await db.saveUser(makeUser('0xalice', { solvedBlocks: chain.slice(0, 1), payoutAddress: ALICE_WALLET }));
+    const first = getRewardProof((await epochs.runEpoch(NOW))!, '0xalice')!;
+
+    await db.saveUser(makeUser('0xalice', { solvedBlocks: chain, payoutAddress: BOB_WALLET }));
+    const second = getRewardProof((await epochs.runEpoch(NOW))!, '0xalice')!;
+
+    // The contract pays the new wallet only what the node has not claimed yet
+    expect(second.nodeId).toBe(first.nodeId);
+    expect(second.account).toBe(BOB_WALLET);
+    expect(BigInt(second.cumulativeWei) - BigInt(first.cumulativeWei)).toBe(ethers.parseEther('0.005'));
+  });
+
+  it('keeps the previous epoch when publication reverts', async () => {
+    await db.saveUser(makeUser('0xalice', { solvedBlocks: await sealedChain('0xalice', ['S']), payoutAddress: ALICE_WALLET }));
+    const epochs = new RewardEpochService(db, {
+      publishRewardsRoot: async () => ({ hash: '0xdead', wait: async () => ({ status: 0 }) })
+    });
+
+    await expect(epochs.runEpoch(NOW)).rejects.toThrow('root publication reverted');
+    expect(await epochs.getLatestEpoch()).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Reward Relayer Tests
+ * Covers claim signatures, verification against sealed blocks, replay refusal,
+ * batched minting through a recording minter, and the split of accrual units
+ * between the relayer and reward epochs. Set HARDHAT_RPC_URL,
+ * QBS_CONTRACT_ADDRESS and RELAYER_PRIVATE_KEY to also mint on a local Hardhat node.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  RewardRelayer,
+  RewardMinter,
+  RelayerStore,
+  SignedRewardClaim,
+  connectMinerContract,
+  rewardClaimMessage
+} from '../services/rewardRelayer';
+import { MintTransaction, RewardEpochBackend, RewardEpochService, getRewardProof } from '../services/rewardEpochs';
+import { sealBlock, sealLatestAdvance, GENESIS_PARENT_HASH } from '../services/blockHashing';
+import { RelayedClaim, RewardClaim, RewardEpoch, SolvedBlock, User } from '../types';
+import { makeUser } from './helpers/users';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const OWNER = '0xalice';
+const wallet = ethers.Wallet.createRandom();
+
+const draftBlock = (id: string, grade: SolvedBlock['grade'], parentHash: string): SolvedBlock => ({
+  id, shardId: `SHD-${id}`, shardIndex: 1, shardParentId: 'SHD-MAIN', tokenParentId: 'QBS-ALPHA', totalShardsPerToken: 1000,
+  timestamp: '2026-05-31 10:00:00', problem: `Problem ${id}`, answer: '', explanation: `Explanation ${id}`, reward: 0,
+  payoutPerShard: '100 QRK', difficulty: 'PEER_REVIEW_STRICT', hash: '', parentHash, integrityHash: '',
+  isPeerReviewed: true, advancementLevel: 1, grade, gradedBy: 'deepseek'
+});
+
+// Sealed S block, then an A block evolved to S at level 2
+const mineChain = async (): Promise<SolvedBlock[]> => {
+  const first = await sealBlock(draftBlock('BLOCK-1', 'S', GENESIS_PARENT_HASH), OWNER);
+  const second = await sealBlock(draftBlock('BLOCK-2', 'A', first.hash), OWNER);
+  const evolved = await sealLatestAdvance({
+    ...second,
+    explanation: 'Evolved explanation',
+    grade: 'S',
+    advancementLevel: 2,
+    advancementHistory: [{
+      id: 'ADV-1', level: 2, pathTitle: 'Path', description: 'd', consensusArgument: 'c', timestamp: '2026-05-31',
+      contributingNodes: [], previousExplanation: second.explanation, previousGrade: 'A', gradedBy: 'deepseek'
+    }]
+  });
+  return [first, evolved];
+};
+
+const sign = async (claim: Partial<RewardClaim>, signer: ethers.Wallet | ethers.HDNodeWallet = wallet): Promise<SignedRewardClaim> => {
+  const full = { owner: OWNER, recipient: wallet.address, issuedAt: NOW, ...claim } as RewardClaim;
+  return { claim: full, signature: await signer.signMessage(rewardClaimMessage(full)) };
+};
+
+class MemoryStore implements RelayerStore, RewardEpochBackend {
+  public epoch: RewardEpoch | null = null;
+  public claims: RelayedClaim[] = [];
+
+  constructor(public users: User[]) {}
+
+  async getUserByAddress(address: string) { return this.users.find(user => user.address === address) || null; }
+  async getAllUsers() { return this.users; }
+  async getRewardEpoch() { return this.epoch; }
+  async saveRewardEpoch(epoch: RewardEpoch) { this.epoch = epoch; }
+  async getRelayedClaims() { return this.claims.map(claim => ({ ...claim })); }
+  async saveRelayedClaim(relayed: RelayedClaim) {
+    this.claims = [...this.claims.filter(claim => claim.id !== relayed.id), { ...relayed }];
+  }
+}
+
+class RecordingMinter implements RewardMinter {
+  public calls: string[] = [];
+  public revert = false;
+
+  private transaction(call: string): Promise<MintTransaction> {
+    this.calls.push(call);
+    const status = this.revert ? 0 : 1;
+    return Promise.resolve({ hash: `0x${this.calls.length.toString(16).padStart(64, '0')}`, wait: async () => ({ status }) });
+  }
+
+  mintMiningReward(to: string, amount: bigint, blockId: string, grade: string) {
+    return this.transaction(`mining:${to}:${ethers.formatEther(amount)}:${blockId}:${grade}`);
+  }
+
+  mintEvolutionReward(to: string, amount: bigint, blockId: string, newLevel: number) {
+    return this.transaction(`evolution:${to}:${ethers.formatEther(amount)}:${blockId}:${newLevel}`);
+  }
+}
+
+describe('RewardRelayer', () => {
+  let user: User;
+  let store: MemoryStore;
+  let epochs: RewardEpochService;
+  let minter: RecordingMinter;
+  let relayer: RewardRelayer;
+
+  beforeEach(async () => {
+    user = makeUser(OWNER, { solvedBlocks: await mineChain(), payoutAddress: wallet.address });
+    store = new MemoryStore([user]);
+    epochs = new RewardEpochService(store);
+    minter = new RecordingMinter();
+    relayer = new RewardRelayer({ store, minter, epochs });
+  });
+
+  it('verifies, batches and confirms mining and evolution claims', async () => {
+    const mining = await relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' }), NOW);
+    const evolution = await relayer.submit(await sign({ type: 'EVOLUTION', blockId: 'BLOCK-2', newLevel: 2 }), NOW);
+    expect(mining).toMatchObject({ key: 'MINING:BLOCK-1', status: 'QUEUED', amount: '0.005000000' });
+    expect(evolution.amount).toBe('0.005000000');
+
+    const flushed = await relayer.flush();
+    expect(flushed.map(claim => claim.status)).toEqual(['CONFIRMED', 'CONFIRMED']);
+    expect(minter.calls).toEqual([
+      `mining:${wallet.address}:0.005:BLOCK-1:S`,
+      `evolution:${wallet.address}:0.005:BLOCK-2:2`
+    ]);
+    expect(await relayer.flush()).toEqual([]);
+
+    // Claims live in the store, so a restarted relayer still reports them
+    const restarted = new RewardRelayer({ store, minter, epochs });
+    expect((await restarted.getClaim(mining.id))!.transactionHash).toBe(flushed[0].transactionHash);
+  });
+
+  it('refuses claims the sealed chain does not support', async () => {
+    await expect(relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'A' }), NOW))
+      .rejects.toThrow('was graded S, not A');
+    await expect(relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-2', grade: 'A' }), NOW))
+      .rejects.toThrow('MINING:BLOCK-2 earns no on-chain reward');
+    await expect(relayer.submit(await sign({ type: 'EVOLUTION', blockId: 'BLOCK-2', newLevel: 3 }), NOW))
+      .rejects.toThrow('has not reached level 3');
+    await expect(relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-9', grade: 'S' }), NOW))
+      .rejects.toThrow('not found');
+
+    user.solvedBlocks[0] = { ...user.solvedBlocks[0], problem: 'Tampered' };
+    await expect(relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' }), NOW))
+      .rejects.toThrow('chain of 0xalice is broken at BLOCK-1');
+  });
+
+  it('refuses forged, expired and replayed claims', async () => {
+    const forged = await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' }, ethers.Wallet.createRandom());
+    await expect(relayer.submit(forged, NOW)).rejects.toThrow('not signed by the recipient');
+
+    const signed = await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' });
+    await expect(relayer.submit(signed, NOW + 16 * 60 * 1000)).rejects.toThrow('expired');
+
+    await relayer.submit(signed, NOW);
+    await expect(relayer.submit(signed, NOW)).rejects.toThrow('already relayed');
+  });
+
+  it('marks reverted mints failed so the claim can be resubmitted', async () => {
+    minter.revert = true;
+    const signed = await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' });
+    await relayer.submit(signed, NOW);
+    const [failed] = await relayer.flush();
+    expect(failed).toMatchObject({ status: 'FAILED', error: 'Transaction reverted' });
+
+    minter.revert = false;
+    await relayer.submit(signed, NOW);
+    expect((await relayer.flush()).map(claim => claim.status)).toEqual(['CONFIRMED']);
+  });
+
+  it('pays each accrual unit either through the relayer or through an epoch', async () => {
+    await relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' }), NOW);
+
+    // The epoch leaves out the relayed mining unit and takes the evolution level
+    const epoch = (await epochs.runEpoch(NOW))!;
+    expect(getRewardProof(epoch, OWNER)).toMatchObject({
+      cumulativeWei: ethers.parseEther('0.005').toString(),
+      units: ['EVOLUTION:BLOCK-2:2']
+    });
+    await expect(relayer.submit(await sign({ type: 'EVOLUTION', blockId: 'BLOCK-2', newLevel: 2 }), NOW))
+      .rejects.toThrow('already claimable through reward epoch 1');
+
+    // A relayed unit whose mint reverted goes back to the epochs
+    minter.revert = true;
+    await relayer.flush();
+    const next = (await epochs.runEpoch(NOW))!;
+    expect(getRewardProof(next, OWNER)!.cumulativeWei).toBe(ethers.parseEther('0.01').toString());
+    await expect(relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S' }), NOW))
+      .rejects.toThrow('already claimable through reward epoch 2');
+  });
+});
+
+const { HARDHAT_RPC_URL, QBS_CONTRACT_ADDRESS, RELAYER_PRIVATE_KEY } = process.env;
+
+describe.skipIf(!HARDHAT_RPC_URL || !QBS_CONTRACT_ADDRESS || !RELAYER_PRIVATE_KEY)('RewardRelayer (local Hardhat node)', () => {
+  it('mints a verified mining reward to the recipient', async () => {
+    const store = new MemoryStore([makeUser(OWNER, { solvedBlocks: await mineChain() })]);
+    const contract = await connectMinerContract(HARDHAT_RPC_URL!, RELAYER_PRIVATE_KEY!, QBS_CONTRACT_ADDRESS!);
+    const relayer = new RewardRelayer({ store, minter: contract as unknown as RewardMinter, epochs: new RewardEpochService(store) });
+
+    await relayer.submit(await sign({ type: 'MINING', blockId: 'BLOCK-1', grade: 'S', issuedAt: Date.now() }));
+    const [minted] = await relayer.flush();
+    expect(minted.status).toBe('CONFIRMED');
+
+    const token = new ethers.Contract(QBS_CONTRACT_ADDRESS!, ['function balanceOf(address) view returns (uint256)'],
+      new ethers.JsonRpcProvider(HARDHAT_RPC_URL));
+    expect(await token.balanceOf(wallet.address)).toBe(ethers.parseEther(minted.amount));
+  }, 30000);
+});
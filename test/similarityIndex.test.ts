@@ -0,0 +1,57 @@
+/**
+ * Similarity Index Tests
+ * Covers shingling, MinHash screening and originality verdicts over solved blocks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SolvedBlock } from '../types';
+import { SimilarityIndex, downgradeGrade, jaccard, shingle } from '../services/similarityIndex';
+
+const PRIOR = 'The cosmological constant problem dissolves if vacuum energy density scales with the area of the Hubble horizon '
+  + 'rather than its volume, because holographic entropy bounds cap the number of independent field modes that can contribute '
+  + 'to the zero point energy inside any causal patch of spacetime.';
+
+const block = (id: string, problem: string, explanation: string): SolvedBlock => ({ id, problem, explanation } as SolvedBlock);
+
+describe('shingle', () => {
+  it('builds word shingles that ignore case and punctuation', () => {
+    expect(shingle('Vacuum energy, vacuum ENERGY!')).toEqual(new Set(['vacuum energy vacuum', 'energy vacuum energy']));
+    expect(shingle('Entropy')).toEqual(new Set(['entropy']));
+    expect(jaccard(shingle('a b c d'), shingle('a b c e'))).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('SimilarityIndex', () => {
+  const blocks = [
+    block('BLOCK-PRIOR', 'Resolving frontier in Entropy Calibration...', PRIOR),
+    block('BLOCK-OTHER', 'Gravitational waves from cosmic strings', 'Cusps on cosmic string loops emit bursts of gravitational radiation detectable by pulsar timing arrays.')
+  ];
+
+  it('rejects copies, downgrades light rewrites and passes original work', () => {
+    const index = new SimilarityIndex();
+
+    const copy = index.checkOriginality(`## Hypothesis\n${PRIOR}`, blocks);
+    expect(copy.verdict).toBe('reject');
+    expect(copy.match).toMatchObject({ blockId: 'BLOCK-PRIOR', field: 'explanation' });
+
+    const rewrite = PRIOR.replace('dissolves', 'disappears').replace('independent field modes', 'field degrees of freedom');
+    const reworded = index.checkOriginality(`${rewrite} This also predicts a slowly varying dark energy equation of state.`, blocks);
+    expect(reworded.verdict).toBe('downgrade');
+    expect(reworded.match!.similarity).toBeGreaterThanOrEqual(0.5);
+    expect(reworded.match!.similarity).toBeLessThan(0.8);
+
+    expect(index.checkOriginality('Neutrino masses arise from a seesaw mechanism with right handed partners near the grand unification scale.', blocks))
+      .toEqual({ verdict: 'original' });
+    expect(downgradeGrade('S')).toBe('A');
+    expect(downgradeGrade('C')).toBe('C');
+  });
+
+  it('re-indexes evolved explanations and forgets removed blocks', () => {
+    const index = new SimilarityIndex();
+    expect(index.checkOriginality(PRIOR, blocks).verdict).toBe('reject');
+
+    const evolved = [block('BLOCK-PRIOR', blocks[0].problem, 'An unrelated Mk 2 synthesis about superconducting qubits.'), blocks[1]];
+    expect(index.checkOriginality(PRIOR, evolved).verdict).toBe('original');
+    expect(index.checkOriginality(blocks[1].explanation, [blocks[0]]).verdict).toBe('original');
+  });
+});
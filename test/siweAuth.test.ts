@@ -0,0 +1,64 @@
+/**
+ * SIWE Auth Tests
+ * Covers EIP-4361 message round trips, signature-to-node mapping, nonce expiry and replay protection
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+vi.mock('../services/walletConnector', () => ({
+  walletConnector: {
+    connect: vi.fn(),
+    getCurrentSigner: vi.fn(() => null)
+  }
+}));
+
+import { SiweAuthService, SIWE_CONFIG, formatSiweMessage, parseSiweMessage } from '../services/siweAuth';
+import { makeUser } from './helpers/users';
+
+const wallet = ethers.Wallet.createRandom();
+
+describe('SiweAuthService', () => {
+  const now = Date.parse('2026-06-01T00:00:00.000Z');
+  let siwe: SiweAuthService;
+
+  beforeEach(() => {
+    siwe = new SiweAuthService(
+      {
+        getAllUsers: async () => [
+          makeUser('0xbob'),
+          makeUser('0xalice', {
+            linkedWallets: [{ address: wallet.address, chainId: 1, linkedAt: '2026-05-01T00:00:00.000Z', message: 'm', signature: '0x' }]
+          })
+        ]
+      },
+      'lattice.test',
+      'https://lattice.test'
+    );
+  });
+
+  it('maps a signed challenge to the node that linked the wallet, once', async () => {
+    const challenge = siwe.createChallenge(wallet.address, 1337, now);
+    const text = formatSiweMessage(challenge);
+    expect(parseSiweMessage(text)).toEqual(challenge);
+
+    const signature = await wallet.signMessage(text);
+    expect((await siwe.verifyLogin(text, signature, now + 1000)).address).toBe('0xalice');
+    await expect(siwe.verifyLogin(text, signature, now + 2000)).rejects.toThrow('unknown or already used');
+  });
+
+  it('rejects expired nonces, foreign signers and unlinked wallets', async () => {
+    const expired = formatSiweMessage(siwe.createChallenge(wallet.address, 1337, now));
+    await expect(siwe.verifyLogin(expired, await wallet.signMessage(expired), now + SIWE_CONFIG.NONCE_TTL_MS))
+      .rejects.toThrow('nonce expired');
+
+    const forged = formatSiweMessage(siwe.createChallenge(wallet.address, 1337, now));
+    await expect(siwe.verifyLogin(forged, await ethers.Wallet.createRandom().signMessage(forged), now))
+      .rejects.toThrow('does not match the wallet address');
+
+    const stranger = ethers.Wallet.createRandom();
+    const unlinked = formatSiweMessage(siwe.createChallenge(stranger.address, 1337, now));
+    await expect(siwe.verifyLogin(unlinked, await stranger.signMessage(unlinked), now))
+      .rejects.toThrow('no lattice node is linked');
+  });
+});
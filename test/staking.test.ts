@@ -0,0 +1,102 @@
+/**
+ * Staking Tests
+ * Covers bonding, yield accrual, the unbonding period and staked governance weight
+ * against the file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StakingService, STAKING_CONFIG, calculateYield, toQbs, votingPowerQuarks } from '../services/staking';
+import { GovernanceEngine } from '../services/governanceEngine';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+import { Proposal } from '../types';
+import { makeUser } from './helpers/users';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('staking helpers', () => {
+  it('accrues yield pro rata and floors to ledger units', () => {
+    expect(calculateYield(100, 0, 365 * DAY_MS)).toBeCloseTo(100 * STAKING_CONFIG.APY, 9);
+    expect(calculateYield(1, 0, 1)).toBe(0);
+    expect(calculateYield(0, 0, DAY_MS)).toBe(0);
+    expect(calculateYield(100, DAY_MS, 0)).toBe(0);
+  });
+
+  it('converts units and counts stake toward voting power', () => {
+    expect(toQbs(1000, 'SHD')).toBe(1);
+    expect(toQbs(500000000, 'QRK')).toBe(0.5);
+    expect(votingPowerQuarks(makeUser('0xalice', { balance: 1, stakedBalance: 2 }))).toBe(3000000000);
+  });
+});
+
+describe('StakingService (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+  let staking: StakingService;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-staking-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+    staking = new StakingService(db);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('moves balance into stake and pays yield on a schedule', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 10 }));
+
+    const staked = await staking.stake('0xalice', 4, NOW);
+    expect(staked).toMatchObject({ balance: 6, stakedBalance: 4 });
+    await expect(staking.stake('0xalice', 7, NOW)).rejects.toThrow();
+
+    const settled = await staking.settle('0xalice', NOW + 365 * DAY_MS);
+    expect(settled!.balance).toBeCloseTo(6 + 4 * STAKING_CONFIG.APY, 9);
+    expect(settled!.stakedBalance).toBe(4);
+    expect(settled!.transactions.map(t => t.type)).toEqual(['STAKE', 'YIELD']);
+    expect(await staking.settle('0xalice', NOW + 365 * DAY_MS)).toBeNull();
+  });
+
+  it('holds unstaked QBS until the unbonding period passes', async () => {
+    await db.saveUser(makeUser('0xalice', { balance: 5 }));
+    await staking.stake('0xalice', 5, NOW);
+
+    const unbonding = await staking.unstake('0xalice', 2, NOW);
+    expect(unbonding).toMatchObject({ balance: 0, stakedBalance: 3, unbondingBalance: 2 });
+    expect(unbonding.unbonding).toHaveLength(1);
+    await expect(staking.unstake('0xalice', 4, NOW)).rejects.toThrow('only 3 QBS is staked');
+
+    const early = await staking.releaseMatured('0xalice', NOW + STAKING_CONFIG.UNBONDING_PERIOD_MS - 1);
+    expect(early.unbondingBalance).toBe(2);
+
+    const released = await staking.releaseMatured('0xalice', NOW + STAKING_CONFIG.UNBONDING_PERIOD_MS);
+    expect(released).toMatchObject({ balance: 2, unbondingBalance: 0, unbonding: [] });
+    expect(released.transactions.map(t => t.type)).toEqual(['STAKE', 'STAKE', 'UNSTAKE']);
+  });
+
+  it('locks staked weight for votes and returns it to stake on settlement', async () => {
+    const engine = new GovernanceEngine(db);
+    await db.saveUser(makeUser('0xalice', { balance: 3 }));
+    await staking.stake('0xalice', 2, NOW);
+    const proposal: Proposal = {
+      id: 'LGP-300', title: 'Stake vote', description: 'Vote with bonded QBS.', proposer: 'ALICE#0001', status: 'ACTIVE',
+      votesFor: 0, votesAgainst: 0, requiredWeight: 1, expiresAt: new Date(NOW + DAY_MS).toISOString(), votes: {}
+    };
+    await db.saveProposal(proposal);
+
+    await expect(engine.castVote('LGP-300', { voter: '0xalice', type: 'FOR', weight: 3000000001, timestamp: '' }, NOW))
+      .rejects.toThrow('exceeds voting power');
+    const { voter } = await engine.castVote('LGP-300', { voter: '0xalice', type: 'FOR', weight: 2500000000, timestamp: '' }, NOW);
+    expect(voter).toMatchObject({ balance: 0, stakedBalance: 0.5 });
+    expect((await db.getProposal('LGP-300'))!.votes!['0xalice'].stakedWeight).toBe(1500000000);
+
+    // Only the 0.5 QBS left bonded earns while the vote is locked
+    await engine.closeExpiredProposals(NOW + 2 * DAY_MS);
+    expect(await db.getUserByAddress('0xalice')).toMatchObject({ balance: 1 + calculateYield(0.5, NOW, NOW + 2 * DAY_MS), stakedBalance: 2 });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Transaction Indexer Tests
+ * Covers paged log backfill, resuming from the last indexed block and settling
+ * pending transactions, cached through the file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+
+vi.mock('../services/walletConnector', () => ({
+  walletConnector: {
+    getWalletState: vi.fn(async () => ({ isConnected: false, chainId: null })),
+    getCurrentSigner: vi.fn(() => null)
+  }
+}));
+
+import { TransactionIndexer, TransactionLogSource, TX_INDEXER_CONFIG } from '../services/qbsContract';
+import { ProductionDatabaseManager } from '../services/productionDatabase';
+
+const CHAIN_ID = 31337;
+const ALICE = ethers.Wallet.createRandom().address;
+const BOB = ethers.Wallet.createRandom().address;
+
+interface FakeLog {
+  event: 'Transfer' | 'MiningReward' | 'EvolutionReward';
+  transactionHash: string;
+  blockNumber: number;
+  index: number;
+  args: any[];
+}
+
+/**
+ * In-memory chain whose queryEvents matches indexed arguments like an ethers filter
+ */
+const fakeChain = (head: number, logs: FakeLog[], receipts: Record<string, number | null> = {}) => {
+  const queried: [number, number][] = [];
+  const source: TransactionLogSource = {
+    getBlockNumber: async () => head,
+    getBlockTimestamp: async blockNumber => blockNumber * 1000,
+    getTransactionStatus: async hash => receipts[hash] ?? null,
+    queryEvents: async (event, args, fromBlock, toBlock) => {
+      if (event === 'Transfer' && args[0]) queried.push([fromBlock, toBlock]);
+      return logs.filter(log =>
+        log.event === event &&
+        log.blockNumber >= fromBlock && log.blockNumber <= toBlock &&
+        args.every((arg, i) => arg === null || arg === log.args[i])
+      );
+    }
+  };
+  return { source, queried };
+};
+
+describe('TransactionIndexer (file store)', () => {
+  let tempDir: string;
+  let db: ProductionDatabaseManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lattice-tx-index-'));
+    db = new ProductionDatabaseManager({ dataDirectory: tempDir });
+    await db.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('backfills transfers and rewards in pages and resumes after the last indexed block', async () => {
+    const logs: FakeLog[] = [
+      { event: 'Transfer', transactionHash: '0xmint', blockNumber: 10, index: 0, args: [ethers.ZeroAddress, ALICE, ethers.parseEther('0.005')] },
+      { event: 'MiningReward', transactionHash: '0xmint', blockNumber: 10, index: 1, args: [ALICE, ethers.parseEther('0.005'), 'QB-1', 'S'] },
+      { event: 'Transfer', transactionHash: '0xsend', blockNumber: TX_INDEXER_CONFIG.PAGE_SIZE + 5, index: 0, args: [ALICE, BOB, ethers.parseEther('0.002')] }
+    ];
+    const first = fakeChain(TX_INDEXER_CONFIG.PAGE_SIZE + 10, logs);
+    const indexer = new TransactionIndexer(db);
+
+    const history = await indexer.indexAccount(first.source, CHAIN_ID, ALICE);
+    expect(first.queried).toEqual([[0, TX_INDEXER_CONFIG.PAGE_SIZE - 1], [TX_INDEXER_CONFIG.PAGE_SIZE, TX_INDEXER_CONFIG.PAGE_SIZE + 10]]);
+    expect(history.map(tx => [tx.type, tx.amount, tx.blockId])).toEqual([
+      ['TRANSFER', '0.002', undefined],
+      ['MINING_REWARD', '0.005', 'QB-1']
+    ]);
+
+    // A later run only queries new blocks, and the cache survives a reload
+    const later = fakeChain(TX_INDEXER_CONFIG.PAGE_SIZE + 20, [
+      ...logs,
+      { event: 'EvolutionReward', transactionHash: '0xevolve', blockNumber: TX_INDEXER_CONFIG.PAGE_SIZE + 15, index: 0, args: [ALICE, ethers.parseEther('0.001'), 'QB-1', 2n] }
+    ]);
+    const reloaded = new TransactionIndexer(new ProductionDatabaseManager({ dataDirectory: tempDir }));
+    const updated = await reloaded.indexAccount(later.source, CHAIN_ID, ALICE.toLowerCase());
+    expect(later.queried).toEqual([[TX_INDEXER_CONFIG.PAGE_SIZE + 11, TX_INDEXER_CONFIG.PAGE_SIZE + 20]]);
+    expect(updated.map(tx => tx.type)).toEqual(['EVOLUTION_REWARD', 'TRANSFER', 'MINING_REWARD']);
+  });
+
+  it('replaces mined pending transactions with their logs and settles reverted ones', async () => {
+    const indexer = new TransactionIndexer(db);
+    const pending = { type: 'TRANSFER' as const, from: ALICE, to: BOB, amount: '1.0', timestamp: 1 };
+    await indexer.recordPending(CHAIN_ID, ALICE, { ...pending, hash: '0xok' });
+    await indexer.recordPending(CHAIN_ID, ALICE, { ...pending, hash: '0xreverted' });
+    await indexer.recordPending(CHAIN_ID, ALICE, { ...pending, hash: '0xwaiting' });
+    expect((await indexer.getTransactions(CHAIN_ID, ALICE)).every(tx => tx.status === 'pending')).toBe(true);
+
+    const chain = fakeChain(
+      50,
+      [{ event: 'Transfer', transactionHash: '0xok', blockNumber: 40, index: 3, args: [ALICE, BOB, ethers.parseEther('1')] }],
+      { '0xok': 1, '0xreverted': 0 }
+    );
+    const history = await indexer.indexAccount(chain.source, CHAIN_ID, ALICE);
+
+    expect(history.find(tx => tx.hash === '0xok')).toMatchObject({ id: '0xok:3', status: 'confirmed', blockNumber: 40 });
+    expect(history.filter(tx => tx.hash === '0xok')).toHaveLength(1);
+    expect(history.find(tx => tx.hash === '0xreverted')!.status).toBe('failed');
+    expect(history.find(tx => tx.hash === '0xwaiting')!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Wallet Link Tests
+ * Covers linking wallets by signed challenge, per-chain payout resolution and unlinking
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+vi.mock('../services/walletConnector', () => ({
+  walletConnector: {
+    connect: vi.fn(),
+    getCurrentSigner: vi.fn(() => null)
+  }
+}));
+
+import { WalletLinkService, getPayoutAddress } from '../services/walletLinks';
+import { User } from '../types';
+import { makeUser } from './helpers/users';
+
+describe('WalletLinkService', () => {
+  const now = Date.parse('2026-06-01T00:00:00.000Z');
+  const main = ethers.Wallet.createRandom();
+  const hardware = ethers.Wallet.createRandom();
+  let users: User[];
+  let links: WalletLinkService;
+
+  const link = async (user: User, wallet: ethers.HDNodeWallet, chainId: number) => {
+    const text = links.createLinkChallenge(user, wallet.address, chainId, now);
+    return links.linkWallet(user, text, await wallet.signMessage(text), now);
+  };
+
+  beforeEach(() => {
+    users = [makeUser('0xalice'), makeUser('0xbob')];
+    links = new WalletLinkService({ getAllUsers: async () => users }, 'lattice.test', 'https://lattice.test');
+  });
+
+  it('links signed wallets per chain and resolves the payout for each chain', async () => {
+    let alice = await link(users[0], main, 1);
+    expect(alice.payoutAddress).toBe(main.address);
+    alice = await link(alice, hardware, 1337);
+    alice = await link(alice, main, 1337);
+    await expect(link(alice, main, 1)).rejects.toThrow('already linked on chain 1');
+
+    alice = links.setPayoutAddress(alice, hardware.address.toLowerCase());
+    expect(getPayoutAddress(alice, 1337)).toBe(hardware.address);
+    // The payout wallet was never proven on chain 1, so mints there go to the wallet that was
+    expect(getPayoutAddress(alice, 1)).toBe(main.address);
+    expect(getPayoutAddress(alice, 10)).toBeNull();
+    expect(() => links.setPayoutAddress(alice, ethers.Wallet.createRandom().address)).toThrow('Payout rejected');
+
+    alice = links.unlinkWallet(alice, hardware.address, 1337);
+    expect(alice.linkedWallets!.map(w => [w.address, w.chainId])).toEqual([[main.address, 1], [main.address, 1337]]);
+    expect(alice.payoutAddress).toBe(main.address);
+  });
+
+  it('refuses challenges issued for another node and wallets owned by another node', async () => {
+    const [alice, bob] = users;
+    const text = links.createLinkChallenge(alice, main.address, 1, now);
+    await expect(links.linkWallet(bob, text, await main.signMessage(text), now)).rejects.toThrow('issued for another node');
+
+    users[0] = await link(alice, main, 1);
+    await expect(link(bob, main, 1)).rejects.toThrow('linked to another node');
+  });
+});
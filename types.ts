@@ -20,6 +20,14 @@ export interface ScientificAdvance {
   contributingNodes: string[];
   formula?: string;
   constants?: Record<string, string>;
+  // Content replaced by this advance, kept so the block's seal stays verifiable
+  previousExplanation?: string;
+  previousGrade?: SovereignGrade;
+  // Provider that graded this evolution; fallback grading counts as offline
+  gradedBy?: EvaluationProviderId;
+  // Seal over the record's grades and grader, chained to the block hash; records
+  // without one predate evolution sealing and earn no evolution magnitude
+  hash?: string;
 }
 
 export interface ScientificDossier {
@@ -44,6 +52,23 @@ export interface QBSNFT {
 
 export type SovereignGrade = 'S' | 'A' | 'B' | 'C';
 
+export type ReviewerRole = 'PRAGMATIST' | 'VISIONARY' | 'ETHICIST';
+
+// One panelist's independent grading of a mined breakthrough
+export interface PeerReview {
+  role: ReviewerRole;
+  grade: SovereignGrade;
+  breakthroughScore: number;
+  critique: string;
+}
+
+// Author's own research, kept exactly as entered; SolvedBlock.problem is its composed text
+export interface ResearchSubmission {
+  hypothesis: string;
+  formula?: string;
+  notes?: string;
+}
+
 export interface SolvedBlock {
   id: string;
   shardId: string;
@@ -53,6 +78,7 @@ export interface SolvedBlock {
   totalShardsPerToken: number; 
   timestamp: string;
   problem: string;
+  submission?: ResearchSubmission;
   answer: string;
   explanation: string;
   reward: number; 
@@ -61,14 +87,28 @@ export interface SolvedBlock {
   hash: string;
   parentHash: string;
   integrityHash: string;
+  minerAddress?: string;
+  // Proof of work: nonce whose work hash meets powDifficulty leading zero bits
+  nonce?: number;
+  powDifficulty?: number;
+  powHash?: string;
+  minedAt?: number;
   isPeerReviewed: boolean; 
   peerReviewArgument?: string; 
   dossier?: ScientificDossier;
   advancementLevel: number; 
   advancementHistory?: ScientificAdvance[];
   grade?: SovereignGrade;
+  // Provider that graded the mined block, covered by its hash; fallback grading counts as offline
+  gradedBy?: EvaluationProviderId;
   breakthroughScore?: number;
   consensusCritique?: string;
+  // Individual reviews behind grade and breakthroughScore when a panel graded the block
+  peerReviews?: PeerReview[];
+  // Reviewers who answered out of those convened; a panel needs a majority to grade
+  reviewQuorum?: { answered: number; convened: number };
+  // Prior block this submission closely matched; its grade was lowered one tier
+  nearDuplicateOf?: { blockId: string; field: 'problem' | 'explanation'; similarity: number };
   // Structured Math Fields
   primaryFormula?: string;
   observedConstants?: Record<string, string>;
@@ -100,6 +140,48 @@ export interface Proposal {
   scientificBaseline?: string;
   evolutionPath?: string;
   technicalParameters?: string[];
+  // One record per voter, keyed by voter address
+  votes?: Record<string, ProposalVote>;
+  createdAt?: string;
+  // Typed changes applied when an ECONOMIC proposal executes
+  parameterChanges?: ProtocolParameterChange[];
+  closedAt?: string;
+  closeReason?: 'QUORUM_NOT_MET' | 'MAJORITY_AGAINST' | 'MAJORITY_FOR';
+  executedAt?: string;
+  executedBy?: string;
+  proposerAddress?: string;
+  // Set once locked vote weight is released and the proposer rewarded
+  settledAt?: string;
+}
+
+export interface ProtocolParameters {
+  LEASE_COSTS: { MESSAGING: number; MINING: number };
+  EVOLUTION_COST_USD: number;
+  GRADE_MULTIPLIERS: Record<SovereignGrade, number>;
+}
+
+export type ProtocolParameterChange =
+  | { parameter: 'LEASE_COSTS'; key: keyof ProtocolParameters['LEASE_COSTS']; value: number }
+  | { parameter: 'EVOLUTION_COST_USD'; value: number }
+  | { parameter: 'GRADE_MULTIPLIERS'; key: SovereignGrade; value: number };
+
+export interface GovernanceAuditEntry {
+  id: string;
+  timestamp: string;
+  proposalId: string;
+  action: 'PROPOSAL_CLOSED' | 'PROPOSAL_SETTLED' | 'PROPOSAL_EXECUTED' | 'PARAMETER_CHANGED';
+  actor: string;
+  details: string;
+  before?: number | string;
+  after?: number | string;
+}
+
+export interface ProposalVote {
+  voter: string;
+  type: 'FOR' | 'AGAINST';
+  weight: number; // quarks
+  stakedWeight?: number; // quarks of the weight drawn from stake
+  timestamp: string;
 }
 
 export interface SignalData {
@@ -160,12 +242,13 @@ export interface Contact {
 export interface Transaction {
   id: string;
   timestamp: string;
-  type: 'CREDIT' | 'DEBIT' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'BURN' | 'SWAP' | 'SUBSCRIPTION' | 'STAKE' | 'YIELD' | 'ADVANCEMENT_FUNDING' | 'GOVERNANCE_REWARD';
+  type: 'CREDIT' | 'DEBIT' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'BURN' | 'SWAP' | 'SUBSCRIPTION' | 'STAKE' | 'UNSTAKE' | 'YIELD' | 'ADVANCEMENT_FUNDING' | 'GOVERNANCE_REWARD' | 'VOTE_LOCK' | 'VOTE_UNLOCK';
   from?: string;
   to?: string;
   amount: string;
   unit: 'USD' | 'QBS' | 'SHD' | 'QRK';
   description: string;
+  price?: number; // USD per QBS a SWAP executed at
 }
 
 export interface SecurityIncident {
@@ -186,6 +269,157 @@ export interface LatticePool {
   totalVolumeUsd: number;
 }
 
+// Trading statistics stored beside the pool reserves, which live on the ledger
+export interface LatticePoolStats {
+  lastPrice: number;
+  totalVolumeUsd: number;
+  updatedAt: string;
+  // Swaps folded in, compared with the ledger to detect a lost write
+  trades?: number;
+}
+
+export type CandleInterval = '1h' | '1d';
+
+// OHLC of executed swap prices (USD per QBS) over one interval
+export interface PriceCandle {
+  id: string; // `${interval}:${openTime}`
+  interval: CandleInterval;
+  openTime: number; // ms since epoch, aligned to the interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeUsd: number;
+  trades: number;
+}
+
+export interface RewardEpochLeaf {
+  nodeId: string;        // keccak256 of the lattice address; claims are tracked per node
+  account: string;       // EVM payout address the node currently claims to
+  cumulativeWei: string; // All QBS accrued to the node so far, in wei
+  units?: string[];      // Accrual units rolled into cumulativeWei (MINING:<block>, EVOLUTION:<block>:<level>)
+}
+
+export interface RewardEpoch {
+  epoch: number;
+  root: string; // Merkle root of the leaves, published to QBSToken
+  totalWei: string;
+  leaves: RewardEpochLeaf[];
+  createdAt: string;
+  publishedTxHash?: string;
+}
+
+export interface RewardClaim {
+  type: 'MINING' | 'EVOLUTION';
+  blockId: string;
+  owner: string;     // Lattice address that mined the block
+  recipient: string; // EVM address receiving the tokens; signs the claim
+  grade?: SovereignGrade;
+  newLevel?: number;
+  issuedAt: number;
+}
+
+export interface RelayedClaim {
+  id: string;
+  key: string; // Accrual unit the claim pays, never also paid through an epoch
+  claim: RewardClaim;
+  amount: string; // QBS
+  status: 'QUEUED' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
+  transactionHash?: string;
+  error?: string;
+  queuedAt: number;
+  submittedAt?: number;
+  confirmedAt?: number;
+}
+
+export type QueuedRewardStatus = 'QUEUED' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED' | 'ABANDONED';
+
+export interface QueuedReward {
+  id: string;
+  type: 'MINING' | 'EVOLUTION' | 'EPOCH_CLAIM';
+  recipient: string;
+  amount: string; // QBS
+  blockId?: string;
+  grade?: SovereignGrade;
+  newLevel?: number;
+  // Epoch claims: the claiming node, its cumulative leaf amount and the Merkle proof
+  epoch?: number;
+  nodeId?: string;
+  cumulativeWei?: string;
+  proof?: string[];
+  status: QueuedRewardStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number; // ms since epoch
+  createdAt: number;
+  updatedAt: number;
+  chainId?: number;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface IndexedTransaction {
+  id: string; // `${hash}:${logIndex}` once indexed; the bare hash while pending
+  hash: string;
+  type: 'TRANSFER' | 'MINING_REWARD' | 'EVOLUTION_REWARD';
+  from: string;
+  to: string;
+  amount: string; // QBS
+  timestamp: number; // ms since epoch
+  blockNumber?: number;
+  blockId?: string;
+  status: 'pending' | 'confirmed' | 'failed';
+}
+
+// QBS token history of one address on one chain, indexed from contract logs
+export interface TransactionIndex {
+  id: string; // `${chainId}:${address}`, address lowercased
+  chainId: number;
+  address: string;
+  lastIndexedBlock: number;
+  transactions: IndexedTransaction[];
+  updatedAt: number;
+}
+
+// Admin-reviewed ledger entry that brings a user's QBS in line with their wallet
+export interface BalanceCorrection {
+  id: string;
+  address: string;
+  wallet: string;
+  amount: number; // QBS; positive credits the user, negative debits
+  reason: string;
+  status: 'PROPOSED' | 'APPROVED' | 'REJECTED';
+  proposedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  transactionId?: string;
+}
+
+export interface UnbondingEntry {
+  id: string;
+  amount: number; // QBS
+  requestedAt: string;
+  availableAt: string;
+}
+
+// External EVM wallet proven to belong to a node by a signed EIP-4361 challenge on one chain
+export interface LinkedWallet {
+  address: string;
+  chainId: number;
+  linkedAt: string;
+  message: string;
+  signature: string;
+}
+
+export type EvaluationProviderId = 'deepseek' | 'openai-compatible' | 'offline';
+
+// Non-secret provider choice; an endpoint API key stays encrypted in the API key manager
+export interface EvaluationProviderSettings {
+  id: EvaluationProviderId;
+  baseUrl?: string;
+  model?: string;
+}
+
 export interface UserVote {
   type: 'FOR' | 'AGAINST';
   weight: number; 
@@ -206,6 +440,12 @@ export interface User {
   balance: number; 
   usdBalance: number; 
   stakedBalance?: number;
+  unbondingBalance?: number;
+  unbonding?: UnbondingEntry[];
+  stakeYieldAccruedAt?: string;
+  linkedWallets?: LinkedWallet[];
+  // Linked wallet that receives minted rewards and claims this node's epoch accruals
+  payoutAddress?: string;
   reputationScore?: number; 
   governanceRank?: string; 
   contacts: Contact[];
@@ -221,6 +461,8 @@ export interface User {
   miningExpires?: string;
 
   autoSignOutMinutes?: number; 
+  // AI backend that grades this node's breakthroughs; DeepSeek when unset
+  evaluationProvider?: EvaluationProviderSettings;
   votes?: Record<string, UserVote>;
   xp: number;
   level: number;
@@ -238,6 +480,7 @@ export interface WalletState {
   isMining: boolean;
   miningProgress: number;
   currentProblem: string;
+  currentSubmission?: ResearchSubmission;
   currentShardId?: string;
   collaborators: string[];
   lastProof?: QuantumProof;
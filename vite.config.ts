@@ -17,7 +17,9 @@ export default defineConfig(({ mode }) => {
       define: {
         'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY),
         'process.env.API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY), // Backward compatibility
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY) // Keep for fallback
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY), // Keep for fallback
+        'process.env.QBS_CONTRACT_ADDRESSES': JSON.stringify(env.QBS_CONTRACT_ADDRESSES),
+        'process.env.LATTICE_API_URL': JSON.stringify(env.LATTICE_API_URL)
       },
       resolve: {
         alias: {